@@ -1,16 +1,23 @@
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import ProbeSequenceEditor from '@/components/ProbeSequence';
 import GCodeImport from '@/components/GCodeImport';
 import SequenceVisualization from '@/components/SequenceVisualization';
 import GCodeOutput from '@/components/GCodeOutput';
-import { generateGCode } from '@/utils/gcodeGenerator';
+import ProjectFileControls from '@/components/ProjectFileControls';
+import { generateGCodeWithSourceMap } from '@/utils/gcodeGenerator';
+import { resolveProbeSequence } from '@/utils/sequenceExpressions';
 import { ThemeProvider } from '@/components/theme-provider';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import type { GCodeDialect, GCodeOutputMode } from '@/types/machine';
 import { 
   useMachineSettings,
   useProbeSequence,
   useProbeSequenceSettings,
   useGeneratedGCode,
+  useGeneratedSourceMap,
+  useSelectedOperationId,
+  useMachineProfiles,
+  useActiveProfileId,
   useMachineSettingsActions,
   useProbeSequenceActions,
   useGCodeActions,
@@ -24,27 +31,33 @@ const App = () => {
   const probeSequence = useProbeSequence();
   const probeSequenceSettings = useProbeSequenceSettings();
   const generatedGCode = useGeneratedGCode();
+  const generatedSourceMap = useGeneratedSourceMap();
+  const selectedOperationId = useSelectedOperationId();
+  const machineProfiles = useMachineProfiles();
+  const activeProfileId = useActiveProfileId();
   const importCounter = useAppStore((state) => state.importCounter);
+  const stockSize = useAppStore((state) => state.visualizationSettings.stockSize);
   
   // Get actions from store
   const { setMachineSettings, updateAxisConfig } = useMachineSettingsActions();
   const { setProbeSequence, setProbeSequenceSettings } = useProbeSequenceActions();
-  const { setGeneratedGCode } = useGCodeActions();
+  const { setGeneratedGCode, setSelectedOperationId } = useGCodeActions();
+  const [activeTab, setActiveTab] = useState('sequence');
   const { handleGCodeImport } = useImportActions();
 
-  // Generate G-code callback
+  // Generate G-code callback; field expressions are resolved against the current stock first
   const handleGenerateGCode = useCallback(() => {
-    const gcode = generateGCode(probeSequence, probeSequenceSettings);
-    setGeneratedGCode(gcode);
-  }, [probeSequence, probeSequenceSettings, setGeneratedGCode]);
+    const { operations } = resolveProbeSequence(probeSequence, probeSequenceSettings, stockSize, machineSettings.toolLibrary);
+    const { gcode, sourceMap } = generateGCodeWithSourceMap(operations, probeSequenceSettings, machineSettings.programTemplates, machineSettings.toolLibrary);
+    setGeneratedGCode(gcode, sourceMap);
+  }, [probeSequence, probeSequenceSettings, stockSize, machineSettings.programTemplates, machineSettings.toolLibrary, setGeneratedGCode]);
 
   // Automatically update G-code when sequence/settings change
   useEffect(() => {
     if (probeSequence && probeSequenceSettings) {
-      const gcode = generateGCode(probeSequence, probeSequenceSettings);
-      setGeneratedGCode(gcode);
+      handleGenerateGCode();
     }
-  }, [probeSequence, probeSequenceSettings, setGeneratedGCode]);
+  }, [probeSequence, probeSequenceSettings, handleGenerateGCode]);
 
   // Memoize callback functions to prevent infinite loops in ProbeSequenceEditor
   const handleProbeSequenceChange = useCallback((newProbeSequence: typeof probeSequence) => {
@@ -55,11 +68,28 @@ const App = () => {
     setProbeSequenceSettings(newSettings);
   }, [setProbeSequenceSettings]);
 
+  const handleDialectChange = useCallback((dialect: GCodeDialect) => {
+    setProbeSequenceSettings(prev => ({ ...prev, dialect }));
+  }, [setProbeSequenceSettings]);
+
+  // Clicking a generated line jumps to the card of the operation that produced it
+  const handleGCodeOperationSelect = useCallback((operationId: string) => {
+    setSelectedOperationId(operationId);
+    setActiveTab('sequence');
+  }, [setSelectedOperationId]);
+
+  const handleOutputModeChange = useCallback((outputMode: GCodeOutputMode) => {
+    setProbeSequenceSettings(prev => ({ ...prev, outputMode }));
+  }, [setProbeSequenceSettings]);
+
   return (
     <ThemeProvider>
       <div className="min-h-screen p-4">
-        <div className="max-w-7xl mx-auto">          
-          <Tabs defaultValue="sequence" className="space-y-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex justify-end mb-4">
+            <ProjectFileControls />
+          </div>
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="sequence">Probe Sequence</TabsTrigger>
               <TabsTrigger value="visualize">Visualize</TabsTrigger>
@@ -70,6 +100,7 @@ const App = () => {
               <GCodeImport
                 onImport={handleGCodeImport}
                 machineSettings={machineSettings}
+                dialect={probeSequenceSettings.dialect}
               />
               <ProbeSequenceEditor
                 key={`probe-sequence-${importCounter}`}
@@ -95,8 +126,13 @@ const App = () => {
                 machineSettings={machineSettings}
                 setMachineSettings={setMachineSettings}
                 updateAxisConfig={updateAxisConfig}
+                stockSize={stockSize}
+                machineProfiles={machineProfiles}
+                activeProfileId={activeProfileId}
                 onProbeSequenceChange={handleProbeSequenceChange}
                 onProbeSequenceSettingsChange={handleProbeSequenceSettingsChange}
+                selectedOperationId={selectedOperationId}
+                onSelectOperation={setSelectedOperationId}
               />
             </TabsContent>
 
@@ -113,6 +149,13 @@ const App = () => {
               <GCodeOutput
                 generatedGCode={generatedGCode}
                 generateGCode={handleGenerateGCode}
+                dialect={probeSequenceSettings.dialect}
+                onDialectChange={handleDialectChange}
+                outputMode={probeSequenceSettings.outputMode}
+                onOutputModeChange={handleOutputModeChange}
+                sourceMap={generatedSourceMap}
+                selectedOperationId={selectedOperationId}
+                onSelectOperation={handleGCodeOperationSelect}
               />
             </TabsContent>
           </Tabs>
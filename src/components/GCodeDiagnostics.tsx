@@ -0,0 +1,88 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { DiagnosticSeverity, GCodeDiagnostic } from '@/utils/gcodeDiagnostics';
+
+interface GCodeDiagnosticsProps {
+  gcode: string;
+  diagnostics: GCodeDiagnostic[];
+  onApplyFix: (diagnostic: GCodeDiagnostic) => void;
+}
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, { marker: string; text: string }> = {
+  error: { marker: 'decoration-destructive bg-destructive/10', text: 'text-destructive' },
+  warning: { marker: 'decoration-amber-500 bg-amber-500/10', text: 'text-amber-600' },
+  info: { marker: 'decoration-sky-500 bg-sky-500/10', text: 'text-sky-600' }
+};
+
+// Split a line into plain and marked segments; overlapping ranges keep the earlier marker
+const markLine = (line: string, diagnostics: GCodeDiagnostic[]) => {
+  const sorted = [...diagnostics].sort((a, b) => a.column - b.column);
+  const segments: Array<{ text: string; diagnostic?: GCodeDiagnostic }> = [];
+  let offset = 0;
+
+  sorted.forEach(diagnostic => {
+    const start = Math.max(diagnostic.column, offset);
+    const end = Math.max(diagnostic.endColumn, start + 1);
+    if (start > offset) segments.push({ text: line.slice(offset, start) });
+    // Zero-width ranges (e.g. a missing word at the end of a line) mark one blank cell
+    segments.push({ text: line.slice(start, end).padEnd(end - start), diagnostic });
+    offset = end;
+  });
+
+  if (offset < line.length) segments.push({ text: line.slice(offset) });
+  return segments;
+};
+
+const GCodeDiagnostics: React.FC<GCodeDiagnosticsProps> = ({ gcode, diagnostics, onApplyFix }) => {
+  const byLine = diagnostics.reduce<Map<number, GCodeDiagnostic[]>>((lines, diagnostic) => {
+    lines.set(diagnostic.lineIndex, [...(lines.get(diagnostic.lineIndex) ?? []), diagnostic]);
+    return lines;
+  }, new Map());
+
+  return (
+    <div className="border rounded font-mono text-xs max-h-80 overflow-auto" data-testid="gcode-diagnostics">
+      {gcode.split('\n').map((line, lineIndex) => {
+        const lineDiagnostics = byLine.get(lineIndex);
+        return (
+          <div key={lineIndex} className={lineDiagnostics ? 'bg-muted/50' : undefined}>
+            <div className="flex">
+              <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">{lineIndex + 1}</span>
+              <span className="whitespace-pre">
+                {lineDiagnostics
+                  ? markLine(line, lineDiagnostics).map((segment, index) => (
+                      <span
+                        key={index}
+                        className={segment.diagnostic
+                          ? `underline decoration-wavy ${SEVERITY_STYLES[segment.diagnostic.severity].marker}`
+                          : undefined}
+                        title={segment.diagnostic?.message}
+                      >
+                        {segment.text}
+                      </span>
+                    ))
+                  : line}
+              </span>
+            </div>
+            {lineDiagnostics?.map((diagnostic, index) => (
+              <div key={index} className="flex items-center gap-2 pl-12 py-1 font-sans">
+                <Badge variant="outline" className={SEVERITY_STYLES[diagnostic.severity].text}>
+                  {diagnostic.severity}
+                </Badge>
+                <span className={SEVERITY_STYLES[diagnostic.severity].text}>{diagnostic.message}</span>
+                <span className="text-muted-foreground">[{diagnostic.code}]</span>
+                {diagnostic.fix && (
+                  <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => onApplyFix(diagnostic)}>
+                    {diagnostic.fix.label}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GCodeDiagnostics;
@@ -4,40 +4,81 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { GCodeFileUpload } from "@/components/ui/GCodeFileUpload";
 import { parseGCode, type ParsedGCodeResult } from '@/utils/gcodeParser';
-import type { MachineSettings } from '@/types/machine';
+import { applyDiagnosticFix, type GCodeDiagnostic } from '@/utils/gcodeDiagnostics';
+import GCodeDiagnostics from './GCodeDiagnostics';
+import type { GCodeDialect, MachineSettings } from '@/types/machine';
+import { getWcsCode } from '@/utils/workCoordinateSystems';
+import { readGCodeFile } from '@/utils/gcodeFiles';
+import type { ImportMode } from '@/store';
 
 interface GCodeImportProps {
-  onImport: (parseResult: ParsedGCodeResult) => void;
+  onImport: (parseResult: ParsedGCodeResult, mode: ImportMode) => void;
   machineSettings: MachineSettings;
+  dialect?: GCodeDialect; // Dwells are read in this dialect's units
 }
 
-const GCodeImport: React.FC<GCodeImportProps> = ({ onImport, machineSettings }) => {
+const GCodeImport: React.FC<GCodeImportProps> = ({ onImport, machineSettings, dialect }) => {
   const [gcodeInput, setGcodeInput] = useState('');
   const [parseResult, setParseResult] = useState<ParsedGCodeResult | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('replace');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileProgress, setFileProgress] = useState<number | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
 
   const handleParse = () => {
     if (!gcodeInput.trim()) return;
     
-    const result = parseGCode(gcodeInput);
+    const result = parseGCode(gcodeInput, dialect);
     setParseResult(result);
   };
 
+  // Re-parse right away so the remaining diagnostics line up with the edited text
+  const handleApplyFix = (diagnostic: GCodeDiagnostic) => {
+    const fixed = applyDiagnosticFix(gcodeInput, diagnostic);
+    setGcodeInput(fixed);
+    setParseResult(parseGCode(fixed, dialect));
+  };
+
+  // Files are parsed as soon as they are read; the text stays editable
+  const handleFileSelected = async (file: File) => {
+    setFileError(null);
+    setFileProgress(0);
+    try {
+      const text = await readGCodeFile(file, setFileProgress);
+      setGcodeInput(text);
+      setFileName(file.name);
+      setParseResult(text.trim() ? parseGCode(text, dialect) : null);
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Failed to read G-code file');
+    } finally {
+      setFileProgress(null);
+    }
+  };
+
+  // Appending keeps the current units, so a file in the other units would mix them
+  const unitsMismatch = importMode === 'append' && parseResult?.units !== undefined && parseResult.units !== machineSettings.units;
+
   const handleImport = () => {
-    if (!parseResult) return;
+    if (!parseResult || unitsMismatch) return;
     
-    onImport(parseResult);
+    onImport(parseResult, importMode);
     
     // Clear the input and result after successful import
     setGcodeInput('');
     setParseResult(null);
+    setFileName(null);
     setIsExpanded(false);
   };
 
   const handleClear = () => {
     setGcodeInput('');
     setParseResult(null);
+    setFileName(null);
+    setFileError(null);
   };
 
   return (
@@ -61,13 +102,24 @@ const GCodeImport: React.FC<GCodeImportProps> = ({ onImport, machineSettings })
       
       {isExpanded && (
         <CardContent className="space-y-4">
+          <GCodeFileUpload onFileSelected={handleFileSelected} progress={fileProgress} />
+          {fileError && (
+            <p className="text-sm text-destructive">{fileError}</p>
+          )}
+
           <div>
-            <Label htmlFor="gcode-input">G-Code Input</Label>
+            <Label htmlFor="gcode-input">
+              G-Code Input{fileName && <span className="text-muted-foreground font-normal"> ({fileName})</span>}
+            </Label>
             <Textarea
               id="gcode-input"
               placeholder="Paste your G-code here..."
               value={gcodeInput}
-              onChange={(e) => setGcodeInput(e.target.value)}
+              onChange={(e) => {
+                // Diagnostics point at columns of the parsed text, so editing invalidates them
+                setGcodeInput(e.target.value);
+                setParseResult(null);
+              }}
               rows={10}
               className="font-mono text-sm"
             />
@@ -121,13 +173,14 @@ const GCodeImport: React.FC<GCodeImportProps> = ({ onImport, machineSettings })
                       {parseResult.probeSequence.map((probe, index) => (
                         <div key={probe.id} className="text-sm border rounded p-2">
                           <div className="font-medium">
-                            Operation {index + 1}: {probe.axis} Axis
+                            Operation {index + 1}: {probe.axis} Axis{probe.probeMode && ` (${probe.probeMode})`}
                           </div>
                           <div className="text-muted-foreground">
                             Direction: {probe.direction > 0 ? '+' : '-'}, 
                             Distance: {probe.distance}{machineSettings.units}, 
                             Feed: {probe.feedRate}{machineSettings.units}/min
                             {probe.wcsOffset !== undefined && `, WCS Offset: ${probe.wcsOffset}`}
+                            {`, Work Offset: ${getWcsCode(probe.wcsIndex)}`}
                           </div>
                           {probe.postMoves.length > 0 && (
                             <div className="text-xs text-muted-foreground mt-1">
@@ -140,25 +193,44 @@ const GCodeImport: React.FC<GCodeImportProps> = ({ onImport, machineSettings })
                   </div>
                 )}
                 
-                {parseResult.errors.length > 0 && (
+                {parseResult.diagnostics.length > 0 && (
                   <div className="mb-4">
-                    <Label className="text-sm font-medium text-destructive mb-2 block">
-                      Parsing Errors ({parseResult.errors.length}):
+                    <Label className="text-sm font-medium mb-2 block">
+                      Diagnostics ({parseResult.diagnostics.length}):
                     </Label>
-                    <div className="space-y-1">
-                      {parseResult.errors.map((error, index) => (
-                        <div key={index} className="text-xs text-destructive bg-destructive/10 p-2 rounded">
-                          {error}
-                        </div>
-                      ))}
-                    </div>
+                    <GCodeDiagnostics
+                      gcode={gcodeInput}
+                      diagnostics={parseResult.diagnostics}
+                      onApplyFix={handleApplyFix}
+                    />
                   </div>
                 )}
                 
+                <RadioGroup
+                  value={importMode}
+                  onValueChange={(value: ImportMode) => setImportMode(value)}
+                  className="flex gap-6 mb-4"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="replace" id="import-replace" />
+                    <Label htmlFor="import-replace" className="text-sm">Replace current sequence</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="append" id="import-append" />
+                    <Label htmlFor="import-append" className="text-sm">Append to current sequence</Label>
+                  </div>
+                </RadioGroup>
+                
+                {unitsMismatch && (
+                  <div role="alert" className="mb-4 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400">
+                    This file is in {parseResult.units === 'mm' ? 'millimeters' : 'inches'} but the current sequence is in {machineSettings.units === 'mm' ? 'millimeters' : 'inches'}. Replace the sequence instead, or convert the file first.
+                  </div>
+                )}
+
                 <div className="flex gap-2">
                   <Button 
                     onClick={handleImport}
-                    disabled={parseResult.probeSequence.length === 0}
+                    disabled={parseResult.probeSequence.length === 0 || unitsMismatch}
                   >
                     Import {parseResult.probeSequence.length} Probe Operation(s)
                   </Button>
@@ -1,57 +1,142 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import type { GCodeDialect, GCodeOutputMode } from '@/types/machine';
+import { postProcessors, DEFAULT_DIALECT } from '@/utils/postProcessors';
+import { getOperationLines, type GCodeSourceMap } from '@/utils/gcodeSourceMap';
 
 interface GCodeOutputProps {
   generatedGCode: string;
   generateGCode: () => void;
+  dialect?: GCodeDialect;
+  onDialectChange?: (dialect: GCodeDialect) => void;
+  outputMode?: GCodeOutputMode;
+  onOutputModeChange?: (outputMode: GCodeOutputMode) => void;
+  sourceMap?: GCodeSourceMap;
+  selectedOperationId?: string | null;
+  onSelectOperation?: (operationId: string) => void;
 }
 
-const GCodeOutput: React.FC<GCodeOutputProps> = ({ generatedGCode, generateGCode }) => (
-  <Card>
-    <CardHeader>
-      <CardTitle>Generated G-Code</CardTitle>
-      <CardDescription>Review and export your probing sequence G-code</CardDescription>
-      <Button onClick={generateGCode} className="w-fit">
-        Generate G-Code
-      </Button>
-    </CardHeader>
-    <CardContent>
-      <Textarea
-        value={generatedGCode}
-        readOnly
-        className="font-mono text-sm min-h-96"
-        placeholder="Click 'Generate G-Code' to create your probing sequence..."
-      />
-      {generatedGCode && (
-        <div className="mt-4 flex gap-2">
-          <Button
-            onClick={() => navigator.clipboard.writeText(generatedGCode)}
-            variant="outline"
-          >
-            Copy to Clipboard
-          </Button>
-          <Button
-            onClick={() => {
-              const blob = new Blob([generatedGCode], { type: 'text/plain' });
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = 'probe-sequence.gcode';
-              document.body.appendChild(a);
-              a.click();
-              document.body.removeChild(a);
-              URL.revokeObjectURL(url);
-            }}
-            variant="outline"
-          >
-            Download G-Code
+// Character offset where a zero-based line starts
+const getLineOffset = (text: string, line: number): number =>
+  text.split('\n').slice(0, line).reduce((offset, current) => offset + current.length + 1, 0);
+
+const GCodeOutput: React.FC<GCodeOutputProps> = ({
+  generatedGCode,
+  generateGCode,
+  dialect = DEFAULT_DIALECT,
+  onDialectChange,
+  outputMode = 'literal',
+  onOutputModeChange,
+  sourceMap = [],
+  selectedOperationId,
+  onSelectOperation
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Select the lines generated by the focused operation
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !selectedOperationId) return;
+    const lines = getOperationLines(sourceMap, selectedOperationId);
+    if (lines.length === 0) return;
+    const start = getLineOffset(generatedGCode, lines[0]);
+    const end = getLineOffset(generatedGCode, lines[lines.length - 1] + 1) - 1;
+    textarea.setSelectionRange(start, Math.max(start, end));
+  }, [generatedGCode, sourceMap, selectedOperationId]);
+
+  const handleClick = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    // Leave drag selections alone so text can still be copied
+    if (!onSelectOperation || selectionStart !== selectionEnd) return;
+    const line = value.slice(0, selectionStart).split('\n').length - 1;
+    const source = sourceMap[line];
+    if (source) onSelectOperation(source.operationId);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Generated G-Code</CardTitle>
+        <CardDescription>Review and export your probing sequence G-code</CardDescription>
+        <div className="flex flex-wrap gap-4 items-end">
+          <Button onClick={generateGCode} className="w-fit">
+            Generate G-Code
           </Button>
+          {onDialectChange && (
+            <div>
+              <Label htmlFor="gcode-dialect">Controller Dialect</Label>
+              <Select value={dialect} onValueChange={(value: GCodeDialect) => onDialectChange(value)}>
+                <SelectTrigger id="gcode-dialect" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(postProcessors).map(pp => (
+                    <SelectItem key={pp.id} value={pp.id}>{pp.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {onOutputModeChange && (
+            <div>
+              <Label htmlFor="gcode-output-mode">Output</Label>
+              <Select value={outputMode} onValueChange={(value: GCodeOutputMode) => onOutputModeChange(value)}>
+                <SelectTrigger id="gcode-output-mode" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="literal">Literal values</SelectItem>
+                  <SelectItem value="parametric" disabled={!postProcessors[dialect].parametric}>
+                    Parametric (variables)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
-      )}
-    </CardContent>
-  </Card>
-);
+      </CardHeader>
+      <CardContent>
+        <Textarea
+          ref={textareaRef}
+          value={generatedGCode}
+          onClick={handleClick}
+          readOnly
+          className="font-mono text-sm min-h-96"
+          placeholder="Click 'Generate G-Code' to create your probing sequence..."
+        />
+        {generatedGCode && (
+          <div className="mt-4 flex gap-2">
+            <Button
+              onClick={() => navigator.clipboard.writeText(generatedGCode)}
+              variant="outline"
+            >
+              Copy to Clipboard
+            </Button>
+            <Button
+              onClick={() => {
+                const blob = new Blob([generatedGCode], { type: 'text/plain' });
+                const url = URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = 'probe-sequence.gcode';
+                document.body.appendChild(a);
+                a.click();
+                document.body.removeChild(a);
+                URL.revokeObjectURL(url);
+              }}
+              variant="outline"
+            >
+              Download G-Code
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
 
 export default GCodeOutput;
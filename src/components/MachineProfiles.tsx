@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import type { MachineProfile } from '@/types/machine';
+import { parseMachineProfiles, serializeMachineProfiles } from '@/utils/machineProfiles';
+import { useActiveProfileId, useMachineProfileActions, useMachineProfiles } from '@/store';
+
+const downloadProfiles = (profiles: MachineProfile[], fileName: string) => {
+  const blob = new Blob([serializeMachineProfiles(profiles)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const toFileName = (name: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'machine'}-profile.json`;
+
+const MachineProfilesForm: React.FC = () => {
+  const profiles = useMachineProfiles();
+  const activeProfileId = useActiveProfileId();
+  const {
+    addMachineProfile,
+    duplicateMachineProfile,
+    renameMachineProfile,
+    removeMachineProfile,
+    setActiveMachineProfile,
+    importMachineProfiles,
+    saveProbingDefaults
+  } = useMachineProfileActions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Held while the name field is being edited so it can be cleared before retyping
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+
+  const handleNameChange = (name: string) => {
+    setNameDraft(name);
+    if (name.trim()) renameMachineProfile(activeProfile.id, name);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = parseMachineProfiles(await file.text());
+    if ('error' in result) {
+      setImportMessage({ error: true, text: result.error });
+      return;
+    }
+    importMachineProfiles(result.profiles);
+    setImportMessage({ error: false, text: `Imported ${result.profiles.length} profile${result.profiles.length === 1 ? '' : 's'}` });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Machine Profiles</h3>
+        <Button variant="outline" size="sm" onClick={() => addMachineProfile()}>
+          New Profile
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Each profile keeps its own axes, orientation, stage, probing defaults and G-code dialect. The settings below edit the active profile.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Active Profile</Label>
+          <Select value={activeProfile.id} onValueChange={(id) => { setNameDraft(null); setActiveMachineProfile(id); }}>
+            <SelectTrigger aria-label="Active profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="profile-name">Profile Name</Label>
+          <Input
+            id="profile-name"
+            value={nameDraft ?? activeProfile.name}
+            onChange={(e) => handleNameChange(e.target.value)}
+            onBlur={() => setNameDraft(null)}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => duplicateMachineProfile(activeProfile.id)}>
+          Duplicate
+        </Button>
+        <Button variant="outline" size="sm" onClick={saveProbingDefaults}>
+          Save Probing Defaults
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => downloadProfiles([activeProfile], toFileName(activeProfile.name))}>
+          Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => downloadProfiles(profiles, 'machine-profiles.json')}>
+          Export All
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          Import
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          disabled={profiles.length <= 1}
+          onClick={() => removeMachineProfile(activeProfile.id)}
+        >
+          Delete
+        </Button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+        data-testid="profile-file-input"
+      />
+      {importMessage && (
+        <p className={`text-xs ${importMessage.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {importMessage.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MachineProfilesForm;
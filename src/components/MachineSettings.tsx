@@ -7,6 +7,11 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Separator } from "@/components/ui/separator";
 import { Dimensional3DInput } from "@/components/ui/DimensionalInput";
 import type { MachineSettings, AxisConfig } from '@/types/machine';
+import MachineProfilesForm from './MachineProfiles';
+import MotionLimitsForm from './MotionLimitsForm';
+import ProgramTemplatesForm from './ProgramTemplates';
+import RotaryAxesForm from './RotaryAxesForm';
+import ToolLibraryForm from './ToolLibraryForm';
 
 interface MachineSettingsProps {
   machineSettings: MachineSettings;
@@ -20,7 +25,10 @@ const MachineSettingsForm: React.FC<MachineSettingsProps> = ({ machineSettings,
       <CardTitle>Machine Configuration</CardTitle>
       <CardDescription>Configure your mill's axis assignments, directions, and limits</CardDescription>
     </CardHeader>
-    <CardContent className="space-y-6">      <div className="grid grid-cols-1 gap-4">
+    <CardContent className="space-y-6">
+      <MachineProfilesForm />
+      <Separator />
+      <div className="grid grid-cols-1 gap-4">
         <div>
           <Label htmlFor="units">Units</Label>
           <Select value={machineSettings.units} onValueChange={(value: 'mm' | 'inch') =>
@@ -163,6 +171,32 @@ const MachineSettingsForm: React.FC<MachineSettingsProps> = ({ machineSettings,
           </CardContent>
         </Card>
       ))}
+
+      <Separator />
+      <MotionLimitsForm
+        motionLimits={machineSettings.motionLimits}
+        units={machineSettings.units}
+        onChange={(motionLimits) => setMachineSettings(prev => ({ ...prev, motionLimits }))}
+      />
+
+      <Separator />
+      <RotaryAxesForm
+        rotaryAxes={machineSettings.rotaryAxes}
+        units={machineSettings.units}
+        onChange={(rotaryAxes) => setMachineSettings(prev => ({ ...prev, rotaryAxes }))}
+      />
+
+      <Separator />
+      <ToolLibraryForm
+        tools={machineSettings.toolLibrary}
+        onChange={(toolLibrary) => setMachineSettings(prev => ({ ...prev, toolLibrary }))}
+      />
+
+      <Separator />
+      <ProgramTemplatesForm
+        templates={machineSettings.programTemplates}
+        onSave={(programTemplates) => setMachineSettings(prev => ({ ...prev, programTemplates }))}
+      />
     </CardContent>
   </Card>
 );
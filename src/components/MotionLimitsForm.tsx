@@ -0,0 +1,95 @@
+import React from 'react';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import type { AxisMotion, MotionLimits } from '@/types/machine';
+import { DEFAULT_MOTION_LIMITS } from '@/utils/machine/motionPlanner';
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+interface MotionLimitsFormProps {
+  motionLimits: MotionLimits | undefined;
+  units: 'mm' | 'inch';
+  onChange: (motionLimits: MotionLimits | undefined) => void;
+}
+
+const MotionLimitsForm: React.FC<MotionLimitsFormProps> = ({ motionLimits, units, onChange }) => {
+  const readNumber = (value: string) => {
+    const parsed = parseFloat(value);
+    return !isNaN(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  const updateAxis = (limits: MotionLimits, axis: typeof AXES[number], field: keyof AxisMotion, value: string) => {
+    const parsed = readNumber(value);
+    if (parsed !== undefined) {
+      onChange({ ...limits, axes: { ...limits.axes, [axis]: { ...limits.axes[axis], [field]: parsed } } });
+    }
+  };
+
+  const updateJunctionDeviation = (limits: MotionLimits, value: string) => {
+    const parsed = readNumber(value);
+    if (parsed !== undefined) onChange({ ...limits, junctionDeviation: parsed });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Motion Limits</h3>
+      <p className="text-xs text-muted-foreground">
+        Cycle time estimates accelerate each move up to these rates and blend corners within the junction deviation, as the controller's planner does. Without custom limits they assume a typical small mill.
+      </p>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="motion-limits-custom"
+          checked={motionLimits !== undefined}
+          onCheckedChange={(checked) => onChange(checked === true ? DEFAULT_MOTION_LIMITS[units] : undefined)}
+        />
+        <Label htmlFor="motion-limits-custom" className="text-sm">
+          Set the machine's motion limits
+        </Label>
+      </div>
+      {motionLimits && (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-xs text-muted-foreground">
+            <span />
+            <span>Max Rate ({units}/min)</span>
+            <span>Acceleration ({units}/s²)</span>
+          </div>
+          {AXES.map(axis => (
+            <div key={axis} className="grid grid-cols-3 gap-2 items-center">
+              <span className="text-sm font-medium">{axis} Axis</span>
+              <Input
+                aria-label={`${axis} Max Rate (${units}/min)`}
+                type="number"
+                step="1"
+                min="0"
+                value={motionLimits.axes[axis].maxRate}
+                onChange={(e) => updateAxis(motionLimits, axis, 'maxRate', e.target.value)}
+              />
+              <Input
+                aria-label={`${axis} Acceleration (${units}/s²)`}
+                type="number"
+                step="1"
+                min="0"
+                value={motionLimits.axes[axis].acceleration}
+                onChange={(e) => updateAxis(motionLimits, axis, 'acceleration', e.target.value)}
+              />
+            </div>
+          ))}
+          <div className="w-1/2">
+            <Label htmlFor="motion-junction-deviation">Junction Deviation ({units})</Label>
+            <Input
+              id="motion-junction-deviation"
+              type="number"
+              step="0.001"
+              min="0"
+              value={motionLimits.junctionDeviation}
+              onChange={(e) => updateJunctionDeviation(motionLimits, e.target.value)}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MotionLimitsForm;
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ExpressionInput } from "@/components/ui/ExpressionInput";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
@@ -20,9 +22,18 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { Settings, ChevronDown, ChevronRight } from "lucide-react";
-import type { ProbeOperation, MovementStep, ProbeSequenceSettings, MachineSettings, AxisConfig } from '@/types/machine';
+import { Settings, ChevronDown, ChevronRight, AlertTriangle } from "lucide-react";
+import type { ProbeOperation, MovementStep, ProbeSequenceSettings, MachineSettings, AxisConfig, ProbeMode, SeekLatchConfig, CompositeProbe, CompositeProbeKind, RotaryAxis, SequenceVariable, MachineProfile } from '@/types/machine';
 import MachineSettingsForm from './MachineSettings';
+import { DEFAULT_WCS_INDEX } from '@/utils/workCoordinateSystems';
+import { getPostProcessor, getWorkOffsetIndices, isWorkOffsetSupported } from '@/utils/postProcessors';
+import { DEFAULT_PROBE_MODE, probeModes } from '@/utils/probeModes';
+import { createSeekLatchConfig } from '@/utils/probeStages';
+import { compositeProbeKinds, createCompositeProbe, DEFAULT_CORNER_DIRECTION } from '@/utils/compositeProbes';
+import { applyToolRadiusCompensation, resolveWcsOffset } from '@/utils/toolRadiusCompensation';
+import { getConfiguredRotaryAxes } from '@/utils/rotaryAxes';
+import { findTool, getToolEndmillSize, toolTypes } from '@/utils/toolLibrary';
+import { BUILT_IN_NAMES, createExpressionScope, resolveProbeSequence, setFieldExpression } from '@/utils/sequenceExpressions';
 
 interface ProbeSequenceProps {
     // Data passed in
@@ -43,12 +54,25 @@ interface ProbeSequenceProps {
     machineSettings: MachineSettings;
     setMachineSettings: React.Dispatch<React.SetStateAction<MachineSettings>>;
     updateAxisConfig: (axis: 'X' | 'Y' | 'Z', field: keyof AxisConfig, value: AxisConfig[keyof AxisConfig]) => void;
+
+    // Stock dimensions field expressions can refer to
+    stockSize?: [number, number, number];
+
+    // Machine profiles, to flag a sequence authored for a different machine
+    machineProfiles?: MachineProfile[];
+    activeProfileId?: string;
     
     // Callbacks to notify parent of changes
     onProbeSequenceChange?: (probeSequence: ProbeOperation[]) => void;
     onProbeSequenceSettingsChange?: (settings: ProbeSequenceSettings) => void;
+
+    // Operation focused from the G-code output or simulator
+    selectedOperationId?: string | null;
+    onSelectOperation?: (operationId: string) => void;
 }
 
+const NO_STOCK: [number, number, number] = [0, 0, 0];
+
 const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
     initialData,
     machineSettingsUnits,
@@ -56,8 +80,13 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
     machineSettings,
     setMachineSettings,
     updateAxisConfig,
+    stockSize = NO_STOCK,
+    machineProfiles = [],
+    activeProfileId,
     onProbeSequenceChange,
-    onProbeSequenceSettingsChange
+    onProbeSequenceSettingsChange,
+    selectedOperationId,
+    onSelectOperation
 }) => {
     // Internal state management
     const [probeSequence, setProbeSequence] = useState<ProbeOperation[]>(
@@ -107,6 +136,12 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
         });
     }, [probeSequence]);
 
+    // Bring the focused operation's card into view
+    useEffect(() => {
+        if (!selectedOperationId) return;
+        document.getElementById(`probe-operation-${selectedOperationId}`)?.scrollIntoView?.({ behavior: 'smooth', block: 'center' });
+    }, [selectedOperationId]);
+
     // Helper function to toggle collapsible state
     const toggleCollapsible = (probeId: string, section: 'probing' | 'preMoves' | 'postMoves') => {
         setCollapsibleState(prev => ({
@@ -124,8 +159,47 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
         }));
     }, [machineSettingsUnits]);
 
-    // Note: We don't automatically update WCS Offset when endmill size changes
-    // to preserve user's custom values. WCS Offset should only be auto-set for new probes.    // Notify parent of changes
+    // The sequence's library tool stands in for the endmill size
+    const { toolLibrary } = machineSettings;
+    const sequenceTool = findTool(toolLibrary, probeSequenceSettings.toolId);
+    useEffect(() => {
+        if (!sequenceTool) return;
+        setProbeSequenceSettings(prev => prev.endmillSize.unit === 'mm' && prev.endmillSize.sizeInMM === sequenceTool.tipDiameter
+            ? prev
+            : { ...prev, endmillSize: getToolEndmillSize(sequenceTool) });
+    }, [sequenceTool]);
+
+    // Re-derive the WCS Offset of radius-compensated probes when the tool or units change.
+    // Probes without compensation keep their hand-entered values.
+    const { endmillSize, units, toolId } = probeSequenceSettings;
+    useEffect(() => {
+        setProbeSequence(prev => applyToolRadiusCompensation(prev, { endmillSize, units, toolId }, toolLibrary));
+    }, [endmillSize, units, toolId, toolLibrary]);
+
+    // Likewise re-resolve field expressions when the variables, tool or stock change
+    const { variables } = probeSequenceSettings;
+    useEffect(() => {
+        setProbeSequence(prev => resolveProbeSequence(prev, { endmillSize, units, toolId, variables }, stockSize, toolLibrary).operations);
+    }, [endmillSize, units, toolId, variables, stockSize, toolLibrary]);
+
+    const { scope: expressionScope, errors: variableErrors } = useMemo(
+        () => createExpressionScope({ endmillSize, units, variables }, stockSize),
+        [endmillSize, units, variables, stockSize]
+    );
+
+    const activeProfile = machineProfiles.find(profile => profile.id === activeProfileId);
+    const authoredProfile = machineProfiles.find(profile => profile.id === probeSequenceSettings.profileId);
+    const profileMismatch = !!probeSequenceSettings.profileId && !!activeProfileId && probeSequenceSettings.profileId !== activeProfileId;
+
+    // Only the work offsets the sequence's controller can select are offered
+    const postProcessor = getPostProcessor(probeSequenceSettings.dialect);
+    const workOffsetIndices = getWorkOffsetIndices(postProcessor);
+    const selectWorkOffset = (wcsIndex = DEFAULT_WCS_INDEX) => postProcessor.selectWorkOffset(wcsIndex);
+    const workOffsetError = (wcsIndex = DEFAULT_WCS_INDEX) => isWorkOffsetSupported(postProcessor, wcsIndex)
+        ? undefined
+        : `${postProcessor.name} cannot select work offset P${wcsIndex}`;
+
+    // Notify parent of changes
     useEffect(() => {
         onProbeSequenceChange?.(probeSequence);
         // Always keep probeSequenceSettings.operations in sync with probeSequence
@@ -196,6 +270,17 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
         }));
     };
 
+    const updateSequenceTool = (value: string) => {
+        setProbeSequenceSettings(prev => ({ ...prev, toolId: value === 'custom' ? undefined : value }));
+    };
+
+    const updateVariables = (update: (variables: SequenceVariable[]) => SequenceVariable[]) => {
+        setProbeSequenceSettings(prev => {
+            const next = update(prev.variables ?? []);
+            return { ...prev, variables: next.length > 0 ? next : undefined };
+        });
+    };
+
     const addProbeOperation = () => {
         const newProbe: ProbeOperation = {
             id: `probe-${Date.now()}`,
@@ -205,16 +290,26 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
             feedRate: 10,
             backoffDistance: 1,
             wcsOffset: probeSequenceSettings.endmillSize.sizeInMM / 2,
+            compensateToolRadius: true,
+            // Stay on the work offset of the previous operation (e.g. the same vise)
+            wcsIndex: probeSequence[probeSequence.length - 1]?.wcsIndex ?? DEFAULT_WCS_INDEX,
             preMoves: [],
             postMoves: []
         };
         setProbeSequence(prev => [...prev, newProbe]);
+        // A sequence is authored for the profile active when its first operation is added
+        if (!probeSequenceSettings.profileId && activeProfileId) {
+            setProbeSequenceSettings(prev => ({ ...prev, profileId: activeProfileId }));
+        }
     };
 
     const updateProbeOperation = (id: string, field: keyof ProbeOperation, value: ProbeOperation[keyof ProbeOperation]) => {
-        setProbeSequence(prev => prev.map(probe =>
-            probe.id === id ? { ...probe, [field]: value } : probe
-        ));
+        setProbeSequence(prev => prev.map(probe => {
+            if (probe.id !== id) return probe;
+            const updated = { ...probe, [field]: value };
+            // Axis, direction and the compensation toggle all change the derived offset
+            return { ...updated, wcsOffset: resolveWcsOffset(updated, probeSequenceSettings, toolLibrary) };
+        }));
     };
 
     const deleteProbeOperation = (id: string) => {
@@ -280,7 +375,17 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                 [moveType === 'pre' ? 'preMoves' : 'postMoves']: (moveType === 'pre' ? probe.preMoves : probe.postMoves).filter(step => step.id !== stepId)
             } : probe
         ));
-    };// Helper component for axis inputs to reduce duplication
+    };
+
+    // Fields that take expressions keep the value they resolve to next to the expression text
+    const updateProbeExpression = (probe: ProbeOperation, field: string, expression: string | undefined) => {
+        updateProbeOperation(probe.id, 'expressions', setFieldExpression(probe.expressions, field, expression));
+    };
+
+    // Rapid moves take A/B words on machines with rotary axes
+    const moveAxes: string[] = ['X', 'Y', 'Z', ...getConfiguredRotaryAxes(machineSettings)];
+
+    // Helper component for axis inputs to reduce duplication
     const AxisInputs: React.FC<{
         move: MovementStep;
         probe: ProbeOperation;
@@ -288,76 +393,83 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
         moveType: 'pre' | 'post';
     }> = ({ move, probe, idPrefix, moveType }) => (
         <div className="flex flex-row gap-2 sm:gap-4 items-end w-full sm:w-auto">
-            <div className="flex flex-col w-full sm:w-20">
-                <Label htmlFor={`${idPrefix}-x-${move.id}`} className="text-sm">X</Label>
-                <Input
-                    id={`${idPrefix}-x-${move.id}`}
-                    type="number"
-                    step="0.01"
-                    value={move.axesValues?.X ?? ''}
-                    onChange={e => {
-                        const val = parseFloat(e.target.value);
-                        const newAxesValues = { ...move.axesValues };
-                        if (isNaN(val)) {
-                            delete newAxesValues.X;
-                        } else {
-                            newAxesValues.X = val;
-                        }
-                        updateMovementStep(probe.id, move.id, 'axesValues', newAxesValues, moveType);
-                    }}
-                    placeholder="X"
-                />
-            </div>
-            <div className="flex flex-col w-full sm:w-20">
-                <Label htmlFor={`${idPrefix}-y-${move.id}`} className="text-sm">Y</Label>
-                <Input
-                    id={`${idPrefix}-y-${move.id}`}
-                    type="number"
-                    step="0.01"
-                    value={move.axesValues?.Y ?? ''}
-                    onChange={e => {
-                        const val = parseFloat(e.target.value);
-                        const newAxesValues = { ...move.axesValues };
-                        if (isNaN(val)) {
-                            delete newAxesValues.Y;
-                        } else {
-                            newAxesValues.Y = val;
-                        }
-                        updateMovementStep(probe.id, move.id, 'axesValues', newAxesValues, moveType);
-                    }}
-                    placeholder="Y"
-                />
-            </div>
-            <div className="flex flex-col w-full sm:w-20">
-                <Label htmlFor={`${idPrefix}-z-${move.id}`} className="text-sm">Z</Label>
-                <Input
-                    id={`${idPrefix}-z-${move.id}`}
-                    type="number"
-                    step="0.01"
-                    value={move.axesValues?.Z ?? ''}
-                    onChange={e => {
-                        const val = parseFloat(e.target.value);
-                        const newAxesValues = { ...move.axesValues };
-                        if (isNaN(val)) {
-                            delete newAxesValues.Z;
-                        } else {
-                            newAxesValues.Z = val;
-                        }
-                        updateMovementStep(probe.id, move.id, 'axesValues', newAxesValues, moveType);
-                    }}
-                    placeholder="Z"
-                />
-            </div>
+            {moveAxes.map(axis => (
+                <div key={axis} className="flex flex-col w-full sm:w-20">
+                    <Label htmlFor={`${idPrefix}-${axis.toLowerCase()}-${move.id}`} className="text-sm">{axis}</Label>
+                    <ExpressionInput
+                        id={`${idPrefix}-${axis.toLowerCase()}-${move.id}`}
+                        value={move.axesValues?.[axis]}
+                        expression={move.expressions?.[`axesValues.${axis}`]}
+                        scope={expressionScope}
+                        onChange={(val, expression) => {
+                            const newAxesValues = { ...move.axesValues };
+                            if (val === undefined || isNaN(val)) {
+                                delete newAxesValues[axis];
+                            } else {
+                                newAxesValues[axis] = val;
+                            }
+                            updateMovementStep(probe.id, move.id, 'axesValues', newAxesValues, moveType);
+                            updateMovementStep(probe.id, move.id, 'expressions', setFieldExpression(move.expressions, `axesValues.${axis}`, expression), moveType);
+                        }}
+                        placeholder={axis}
+                    />
+                </div>
+            ))}
         </div>
     );
 
-    // Handler for WCS Offset change - simple controlled input
-    const handleWcsOffsetChange = (probeId: string, value: string) => {
+    // Numeric probe fields; an empty field stays empty (NaN) until a value is entered
+    const updateProbeField = (probe: ProbeOperation, field: 'distance' | 'feedRate' | 'backoffDistance' | 'wcsOffset', value: number | undefined, expression: string | undefined) => {
+        updateProbeOperation(probe.id, field, value ?? NaN);
+        updateProbeExpression(probe, field, expression);
+    };
+
+    // Handlers for two-stage seek/latch probing
+    const toggleSeekLatch = (probe: ProbeOperation, enabled: boolean) => {
+        updateProbeOperation(probe.id, 'seekLatch', enabled ? createSeekLatchConfig(probe.feedRate) : undefined);
+    };
+
+    const updateSeekLatch = (probe: ProbeOperation, field: keyof SeekLatchConfig, value: number) => {
+        if (!probe.seekLatch || isNaN(value)) return;
+        updateProbeOperation(probe.id, 'seekLatch', { ...probe.seekLatch, [field]: value });
+    };
+
+    // Handlers for composite (corner, width and center) operations
+    const setOperationKind = (probe: ProbeOperation, kind: CompositeProbeKind | 'single') => {
+        // Width probes measure along X or Y
+        if (kind !== 'single' && probe.axis === 'Z') {
+            updateProbeOperation(probe.id, 'axis', 'X');
+        }
+        updateProbeOperation(probe.id, 'composite', kind === 'single' ? undefined : createCompositeProbe(kind));
+        // The new kind starts from its default parameters
+        updateProbeOperation(probe.id, 'expressions', (['size', 'clearance', 'depth'] as const).reduce(
+            (expressions, field) => setFieldExpression(expressions, `composite.${field}`, undefined),
+            probe.expressions
+        ));
+    };
+
+    const updateComposite = (probe: ProbeOperation, field: keyof CompositeProbe, value: CompositeProbe[keyof CompositeProbe]) => {
+        if (!probe.composite || (typeof value === 'number' && isNaN(value))) return;
+        updateProbeOperation(probe.id, 'composite', { ...probe.composite, [field]: value });
+    };
+
+    const updateCompositeExpression = (probe: ProbeOperation, field: 'size' | 'clearance' | 'depth', value: number | undefined, expression: string | undefined) => {
+        updateComposite(probe, field, value ?? NaN);
+        updateProbeExpression(probe, `composite.${field}`, expression);
+    };
+
+    const updateRotaryIndex = (probe: ProbeOperation, axis: RotaryAxis, value: string) => {
+        const rotaryIndex = { ...probe.rotaryIndex };
         if (value === '' || isNaN(Number(value))) {
-            updateProbeOperation(probeId, 'wcsOffset', 0);
+            delete rotaryIndex[axis];
         } else {
-            updateProbeOperation(probeId, 'wcsOffset', parseFloat(value));
+            rotaryIndex[axis] = parseFloat(value);
         }
+        updateProbeOperation(probe.id, 'rotaryIndex', Object.keys(rotaryIndex).length > 0 ? rotaryIndex : undefined);
+    };
+
+    const updateCornerDirection = (probe: ProbeOperation, axis: 'X' | 'Y', direction: 1 | -1) => {
+        updateComposite(probe, 'cornerDirection', { ...(probe.composite?.cornerDirection ?? DEFAULT_CORNER_DIRECTION), [axis]: direction });
     };
 
     // Reusable component for rendering movement steps
@@ -420,51 +532,61 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                                     </Button>
                                 </div>
                         
-                        {/* First row: Type, Axes (for rapid), Dwell Time (for dwell), and Description */}
-                        <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end mb-4">
-                            <div className="w-full sm:w-40">
-                                <Label>Type</Label>
-                                <Select value={move.type} onValueChange={(value: 'rapid' | 'dwell') =>
-                                    updateMovementStep(probe.id, move.id, 'type', value, moveType)}>
-                                    <SelectTrigger>
-                                        <SelectValue />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                        <SelectItem value="rapid">Rapid Move (G0)</SelectItem>
-                                        <SelectItem value="dwell">Dwell (G4)</SelectItem>
-                                    </SelectContent>
-                                </Select>
+                        {/* First row: Type, Axes (for rapid), Dwell Time (for dwell), and Description; raw lines are read-only */}
+                        {move.type === 'raw' ? (
+                            <div className="mb-2">
+                                <Label>Imported G-code (read-only)</Label>
+                                <pre className="mt-2 p-2 rounded-md bg-muted font-mono text-sm whitespace-pre-wrap break-all" data-testid={`raw-step-${move.id}`}>
+                                    {move.rawText}
+                                </pre>
+                                {move.diagnostic && <p className="text-xs text-destructive mt-1">{move.diagnostic}</p>}
                             </div>
-                            
-                            {move.type === 'rapid' && (
-                                <div className="w-full sm:w-auto">
-                                    <AxisInputs move={move} probe={probe} idPrefix={`${moveType}-rapid`} moveType={moveType} />
+                        ) : (
+                            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end mb-4">
+                                <div className="w-full sm:w-40">
+                                    <Label>Type</Label>
+                                    <Select value={move.type} onValueChange={(value: 'rapid' | 'dwell') =>
+                                        updateMovementStep(probe.id, move.id, 'type', value, moveType)}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="rapid">Rapid Move (G0)</SelectItem>
+                                            <SelectItem value="dwell">Dwell (G4)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
                                 </div>
-                            )}
                             
-                            {move.type === 'dwell' && (
-                                <div className="w-full sm:w-32">
-                                    <Label>Dwell Time (sec)</Label>
+                                {move.type === 'rapid' && (
+                                    <div className="w-full sm:w-auto">
+                                        <AxisInputs move={move} probe={probe} idPrefix={`${moveType}-rapid`} moveType={moveType} />
+                                    </div>
+                                )}
+                            
+                                {move.type === 'dwell' && (
+                                    <div className="w-full sm:w-32">
+                                        <Label>Dwell Time (sec)</Label>
+                                        <Input
+                                            type="number"
+                                            step="0.01"
+                                            value={move.dwellTime || 0}
+                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
+                                                updateMovementStep(probe.id, move.id, 'dwellTime', parseFloat(e.target.value), moveType)}
+                                        />
+                                    </div>
+                                )}
+                            
+                                <div className="flex-1 w-full">
+                                    <Label>Description</Label>
                                     <Input
-                                        type="number"
-                                        step="0.01"
-                                        value={move.dwellTime || 0}
+                                        value={move.description}
                                         onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                                            updateMovementStep(probe.id, move.id, 'dwellTime', parseFloat(e.target.value), moveType)}
+                                            updateMovementStep(probe.id, move.id, 'description', e.target.value, moveType)}
                                     />
                                 </div>
-                            )}
-                            
-                            <div className="flex-1 w-full">
-                                <Label>Description</Label>
-                                <Input
-                                    value={move.description}
-                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                                        updateMovementStep(probe.id, move.id, 'description', e.target.value, moveType)}
-                                />
                             </div>
-                        </div>
-                        
+                        )}
+
                         {/* Second row: Radio groups for rapid moves only - responsive layout */}
                         {move.type === 'rapid' && (
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -554,9 +676,27 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                                                 className="h-4 w-4"
                                             />
                                             <Label htmlFor={`coord-wcs-${moveType}-${move.id}`} className="text-sm">
-                                                WCS (G54)
+                                                WCS ({selectWorkOffset(move.wcsIndex)})
                                             </Label>
                                         </div>
+                                        {move.coordinateSystem === 'wcs' && (
+                                            <>
+                                                <Select
+                                                    value={(move.wcsIndex ?? DEFAULT_WCS_INDEX).toString()}
+                                                    onValueChange={(value) => updateMovementStep(probe.id, move.id, 'wcsIndex', parseInt(value), moveType)}
+                                                >
+                                                    <SelectTrigger className="h-8 w-28" aria-label="Work offset">
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {workOffsetIndices.map(wcsIndex => (
+                                                            <SelectItem key={wcsIndex} value={wcsIndex.toString()}>{selectWorkOffset(wcsIndex)}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                {workOffsetError(move.wcsIndex) && <p className="text-xs text-destructive">{workOffsetError(move.wcsIndex)}</p>}
+                                            </>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -603,6 +743,21 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                 </div>
             </CardHeader>
             <CardContent className="space-y-4">
+                {profileMismatch && (
+                    <div role="alert" className="flex items-start gap-3 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        <div className="flex-1">
+                            This sequence was authored for {authoredProfile ? <strong>{authoredProfile.name}</strong> : 'a profile that no longer exists'}, not the active profile{activeProfile && <> <strong>{activeProfile.name}</strong></>}. Check axis directions, limits and the dialect before running it.
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setProbeSequenceSettings(prev => ({ ...prev, profileId: activeProfileId }))}
+                        >
+                            Use Active Profile
+                        </Button>
+                    </div>
+                )}
                 {/* Initial Position Settings */}
                 <Card className="bg-cyan-100 dark:bg-cyan-900/30 border-cyan-300 dark:border-cyan-700">
                     <CardHeader>
@@ -666,16 +821,33 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                         <CardHeader>
                             <CardTitle>Endmill Settings</CardTitle>
                             <CardDescription>Configure endmill size for this probe sequence (affects WCS offset calculation)</CardDescription>
-                        </CardHeader>                        <CardContent>
+                        </CardHeader>                        <CardContent className="space-y-4">
+                            {toolLibrary && (
+                                <div>
+                                    <Label>Tool</Label>
+                                    <Select value={sequenceTool?.id ?? 'custom'} onValueChange={updateSequenceTool}>
+                                        <SelectTrigger aria-label="Sequence tool">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="custom">Custom endmill size</SelectItem>
+                                            {toolLibrary.map(tool => (
+                                                <SelectItem key={tool.id} value={tool.id}>{tool.name} ({toolTypes[tool.type].name})</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
                             <div>
                                 <Label>Endmill Size</Label>
                                 <div className="flex gap-2 items-center">
                                     <Input
                                         value={probeSequenceSettings.endmillSize.input}
                                         onChange={e => updateEndmillSize(e.target.value)}
+                                        disabled={Boolean(sequenceTool)}
                                         className="w-32"
                                     />
-                                    <Select value={probeSequenceSettings.endmillSize.unit} onValueChange={v => updateEndmillSize(undefined, v as 'fraction' | 'inch' | 'mm')}>
+                                    <Select value={probeSequenceSettings.endmillSize.unit} disabled={Boolean(sequenceTool)} onValueChange={v => updateEndmillSize(undefined, v as 'fraction' | 'inch' | 'mm')}>
                                         <SelectTrigger className="w-28">
                                             <SelectValue />
                                         </SelectTrigger>
@@ -692,12 +864,75 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                     </Card>
                 </div>
 
+                {/* Sequence Variables */}
+                <Card className="bg-cyan-100 dark:bg-cyan-900/30 border-cyan-300 dark:border-cyan-700">
+                    <CardHeader>
+                        <CardTitle>Variables</CardTitle>
+                        <CardDescription>
+                            Named values any numeric field can use in an expression, e.g. stock.width/2 + clearance.
+                            Always available: {Object.keys(BUILT_IN_NAMES).join(', ')}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {(variables ?? []).map((variable, index) => {
+                            const error = variableErrors.find(({ field }) => field === variable.name);
+                            return (
+                                <div key={index} className="flex gap-2 items-start">
+                                    <Input
+                                        aria-label={`Variable ${index + 1} name`}
+                                        value={variable.name}
+                                        onChange={(e) => updateVariables(prev => prev.map((other, i) => i === index ? { ...other, name: e.target.value } : other))}
+                                        className="w-40"
+                                        placeholder="name"
+                                    />
+                                    <div className="flex-1">
+                                        <Input
+                                            aria-label={`Variable ${index + 1} expression`}
+                                            value={variable.expression}
+                                            onChange={(e) => updateVariables(prev => prev.map((other, i) => i === index ? { ...other, expression: e.target.value } : other))}
+                                            placeholder="expression"
+                                        />
+                                        {error
+                                            ? <p className="text-xs text-destructive mt-1">{error.message}</p>
+                                            : <p className="text-xs text-muted-foreground mt-1">= {Math.round(expressionScope[variable.name] * 1e4) / 1e4}</p>}
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => updateVariables(prev => prev.filter((_, i) => i !== index))}
+                                        aria-label={`Delete variable ${index + 1}`}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-destructive" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={6} d="M6 18L18 6M6 6l12 12" />
+                                        </svg>
+                                    </Button>
+                                </div>
+                            );
+                        })}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateVariables(prev => [...prev, { name: `var${prev.length + 1}`, expression: '0' }])}
+                        >
+                            Add Variable
+                        </Button>
+                    </CardContent>
+                </Card>
+
                 {/* Probe Operations */}
                 {probeSequence.map((probe, index) => (
-                    <Card key={probe.id} className="bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-800">
-                        <CardHeader>
+                    <Card
+                        key={probe.id}
+                        id={`probe-operation-${probe.id}`}
+                        data-selected={probe.id === selectedOperationId}
+                        className={`bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-800 ${probe.id === selectedOperationId ? 'ring-2 ring-primary' : ''}`}
+                    >
+                        <CardHeader className="cursor-pointer" onClick={() => onSelectOperation?.(probe.id)}>
                             <div className="flex justify-between items-center">
-                                <CardTitle className="text-lg">Probe Operation {index + 1}</CardTitle>
+                                <div className="flex items-center gap-2">
+                                    <CardTitle className="text-lg">Probe Operation {index + 1}</CardTitle>
+                                    <Badge variant="outline">{selectWorkOffset(probe.wcsIndex)}</Badge>
+                                </div>
                                 <Button
                                     variant="destructive"
                                     size="sm"
@@ -720,76 +955,234 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                                         ) : (
                                             <ChevronRight className="h-4 w-4 text-muted-foreground" />
                                         )}
-                                        <Label className="text-base font-semibold cursor-pointer">{probe.axis} Axis Probing Settings</Label>
+                                        <Label className="text-base font-semibold cursor-pointer">{probe.composite ? compositeProbeKinds[probe.composite.kind].name : `${probe.axis} Axis`} Probing Settings</Label>
                                     </div>
                                 </CollapsibleTrigger>
                                 <CollapsibleContent>
                                     <div className="space-y-4">
-                                        {/* First row: Axis, Direction, Distance */}
-                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                                            <div>
-                                                <Label>Probe Axis</Label>
-                                                <Select value={probe.axis} onValueChange={(value: 'X' | 'Y' | 'Z') =>
-                                                    updateProbeOperation(probe.id, 'axis', value)}>
-                                                    <SelectTrigger>
-                                                        <SelectValue />
-                                                    </SelectTrigger>
-                                                    <SelectContent>
-                                                        <SelectItem value="X">X Axis</SelectItem>
-                                                        <SelectItem value="Y">Y Axis</SelectItem>
-                                                        <SelectItem value="Z">Z Axis</SelectItem>
-                                                    </SelectContent>
-                                                </Select>
-                                            </div>
+                                        {/* Operation type and composite parameters */}
+                                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
                                             <div>
                                                 <Label>
                                                     <span className="flex items-center gap-1">
-                                                        Direction
+                                                        Operation Type
                                                         <Tooltip>
                                                             <TooltipTrigger asChild>
                                                                 <span className="cursor-help text-muted-foreground">?</span>
                                                             </TooltipTrigger>
                                                             <TooltipContent>
-                                                                <p>Which direction the axis should move to bring the probe into contact with the stock surface</p>
+                                                                <p>
+                                                                    {probe.composite
+                                                                        ? `Start position: ${compositeProbeKinds[probe.composite.kind].start.toLowerCase()}. The touches are expanded from the expected size, clearance and depth.`
+                                                                        : 'A single touch along one axis'}
+                                                                </p>
                                                             </TooltipContent>
                                                         </Tooltip>
                                                     </span>
                                                 </Label>
-                                                <Select value={probe.direction.toString()} onValueChange={(value) =>
-                                                    updateProbeOperation(probe.id, 'direction', parseInt(value))}>
-                                                    <SelectTrigger>
+                                                <Select value={probe.composite?.kind ?? 'single'} onValueChange={(value: CompositeProbeKind | 'single') =>
+                                                    setOperationKind(probe, value)}>
+                                                    <SelectTrigger aria-label="Operation type">
                                                         <SelectValue />
                                                     </SelectTrigger>
                                                     <SelectContent>
-                                                        <SelectItem value="1">{machineAxes[probe.axis].positiveDirection} (+)</SelectItem>
-                                                        <SelectItem value="-1">{machineAxes[probe.axis].negativeDirection} (-)</SelectItem>
+                                                        <SelectItem value="single">Single touch</SelectItem>
+                                                        {Object.values(compositeProbeKinds).map(({ kind, name }) => (
+                                                            <SelectItem key={kind} value={kind}>{name}</SelectItem>
+                                                        ))}
                                                     </SelectContent>
                                                 </Select>
                                             </div>
+                                            {probe.composite && (
+                                                <>
+                                                    {compositeProbeKinds[probe.composite.kind].measures === 'corner' ? (
+                                                        <div className="flex gap-2">
+                                                            {(['X', 'Y'] as const).map(axis => (
+                                                                <div key={axis} className="flex-1">
+                                                                    <Label>{axis} Touch</Label>
+                                                                    <Select
+                                                                        value={(probe.composite?.cornerDirection ?? DEFAULT_CORNER_DIRECTION)[axis].toString()}
+                                                                        onValueChange={(value) => updateCornerDirection(probe, axis, parseInt(value) as 1 | -1)}
+                                                                    >
+                                                                        <SelectTrigger aria-label={`${axis} touch direction`}>
+                                                                            <SelectValue />
+                                                                        </SelectTrigger>
+                                                                        <SelectContent>
+                                                                            <SelectItem value="1">{machineAxes[axis].positiveDirection} (+)</SelectItem>
+                                                                            <SelectItem value="-1">{machineAxes[axis].negativeDirection} (-)</SelectItem>
+                                                                        </SelectContent>
+                                                                    </Select>
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    ) : (
+                                                        <div>
+                                                            <Label htmlFor={`composite-size-${probe.id}`}>
+                                                                {compositeProbeKinds[probe.composite.kind].measures === 'angle' ? 'Touch Spacing' : 'Expected Size'} ({machineSettingsUnits})
+                                                            </Label>
+                                                            <ExpressionInput
+                                                                id={`composite-size-${probe.id}`}
+                                                                value={probe.composite.size}
+                                                                expression={probe.expressions?.['composite.size']}
+                                                                scope={expressionScope}
+                                                                onChange={(value, expression) => updateCompositeExpression(probe, 'size', value, expression)}
+                                                            />
+                                                            {probe.composite.kind === 'edgeAngle' && (
+                                                                <div className="flex items-center gap-2 mt-2">
+                                                                    <Checkbox
+                                                                        id={`rotate-coordinates-${probe.id}`}
+                                                                        checked={Boolean(probe.composite.rotateCoordinates)}
+                                                                        onCheckedChange={(checked) => updateComposite(probe, 'rotateCoordinates', checked === true)}
+                                                                    />
+                                                                    <Label htmlFor={`rotate-coordinates-${probe.id}`} className="text-xs">Rotate coordinates (G68)</Label>
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    <div>
+                                                        <Label htmlFor={`composite-clearance-${probe.id}`}>
+                                                            <span className="flex items-center gap-1">
+                                                                Clearance ({machineSettingsUnits})
+                                                                <Tooltip>
+                                                                    <TooltipTrigger asChild>
+                                                                        <span className="cursor-help text-muted-foreground">?</span>
+                                                                    </TooltipTrigger>
+                                                                    <TooltipContent>
+                                                                        <p>Gap left before each expected face, also how far each touch may travel past it</p>
+                                                                    </TooltipContent>
+                                                                </Tooltip>
+                                                            </span>
+                                                        </Label>
+                                                        <ExpressionInput
+                                                            id={`composite-clearance-${probe.id}`}
+                                                            value={probe.composite.clearance}
+                                                            expression={probe.expressions?.['composite.clearance']}
+                                                            scope={expressionScope}
+                                                            onChange={(value, expression) => updateCompositeExpression(probe, 'clearance', value, expression)}
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <Label htmlFor={`composite-depth-${probe.id}`}>
+                                                            <span className="flex items-center gap-1">
+                                                                Depth ({machineSettingsUnits})
+                                                                <Tooltip>
+                                                                    <TooltipTrigger asChild>
+                                                                        <span className="cursor-help text-muted-foreground">?</span>
+                                                                    </TooltipTrigger>
+                                                                    <TooltipContent>
+                                                                        <p>How far below the start height the touches are made</p>
+                                                                    </TooltipContent>
+                                                                </Tooltip>
+                                                            </span>
+                                                        </Label>
+                                                        <ExpressionInput
+                                                            id={`composite-depth-${probe.id}`}
+                                                            value={probe.composite.depth}
+                                                            expression={probe.expressions?.['composite.depth']}
+                                                            scope={expressionScope}
+                                                            onChange={(value, expression) => updateCompositeExpression(probe, 'depth', value, expression)}
+                                                        />
+                                                    </div>
+                                                </>
+                                            )}
+                                        </div>
+                                        {/* First row: Axis, Mode, Direction, Distance */}
+                                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                                            {(!probe.composite || ['webWidth', 'pocketWidth', 'edgeAngle'].includes(probe.composite.kind)) && (
+                                                <div>
+                                                    <Label>Probe Axis</Label>
+                                                    <Select value={probe.axis} onValueChange={(value: 'X' | 'Y' | 'Z') =>
+                                                        updateProbeOperation(probe.id, 'axis', value)}>
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="X">X Axis</SelectItem>
+                                                            <SelectItem value="Y">Y Axis</SelectItem>
+                                                            {!probe.composite && <SelectItem value="Z">Z Axis</SelectItem>}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                            )}
                                             <div>
                                                 <Label>
                                                     <span className="flex items-center gap-1">
-                                                        Distance ({machineSettingsUnits})
+                                                        Probe Mode
                                                         <Tooltip>
                                                             <TooltipTrigger asChild>
                                                                 <span className="cursor-help text-muted-foreground">?</span>
                                                             </TooltipTrigger>
                                                             <TooltipContent>
-                                                                <p>Maximum distance the axis can travel to find stock surface</p>
+                                                                <p>G38.2/G38.3 stop on contact, G38.4/G38.5 stop when contact is lost. G38.3 and G38.5 don't alarm if the probe never trips.</p>
                                                             </TooltipContent>
                                                         </Tooltip>
                                                     </span>
                                                 </Label>
-                                                <Input
-                                                    type="number"
-                                                    step="0.1"
-                                                    value={probe.distance}
-                                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProbeOperation(probe.id, 'distance', parseFloat(e.target.value))}
-                                                />
+                                                <Select value={probe.probeMode ?? DEFAULT_PROBE_MODE} onValueChange={(value: ProbeMode) =>
+                                                    updateProbeOperation(probe.id, 'probeMode', value)}>
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {Object.values(probeModes).map(({ mode, name }) => (
+                                                            <SelectItem key={mode} value={mode}>{mode} – {name}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
                                             </div>
+                                            {(!probe.composite || probe.composite.kind === 'edgeAngle') && (
+                                                <div>
+                                                    <Label>
+                                                        <span className="flex items-center gap-1">
+                                                            Direction
+                                                            <Tooltip>
+                                                                <TooltipTrigger asChild>
+                                                                    <span className="cursor-help text-muted-foreground">?</span>
+                                                                </TooltipTrigger>
+                                                                <TooltipContent>
+                                                                    <p>Which direction the axis should move to bring the probe into contact with the stock surface</p>
+                                                                </TooltipContent>
+                                                            </Tooltip>
+                                                        </span>
+                                                    </Label>
+                                                    <Select value={probe.direction.toString()} onValueChange={(value) =>
+                                                        updateProbeOperation(probe.id, 'direction', parseInt(value))}>
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="1">{machineAxes[probe.axis].positiveDirection} (+)</SelectItem>
+                                                            <SelectItem value="-1">{machineAxes[probe.axis].negativeDirection} (-)</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                            )}
+                                            {!probe.composite && (
+                                                <div>
+                                                    <Label>
+                                                        <span className="flex items-center gap-1">
+                                                            Distance ({machineSettingsUnits})
+                                                            <Tooltip>
+                                                                <TooltipTrigger asChild>
+                                                                    <span className="cursor-help text-muted-foreground">?</span>
+                                                                </TooltipTrigger>
+                                                                <TooltipContent>
+                                                                    <p>Maximum distance the axis can travel to find stock surface</p>
+                                                                </TooltipContent>
+                                                            </Tooltip>
+                                                        </span>
+                                                    </Label>
+                                                    <ExpressionInput
+                                                        value={probe.distance}
+                                                        expression={probe.expressions?.distance}
+                                                        scope={expressionScope}
+                                                        onChange={(value, expression) => updateProbeField(probe, 'distance', value, expression)}
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
-                                        {/* Second row: Feed Rate, Backoff Distance, WCS Offset */}
-                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                        {/* Second row: Feed Rate, Backoff Distance, WCS Offset, Work Offset */}
+                                        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
                                             <div>
                                                 <Label>
                                                     <span className="flex items-center gap-1">
@@ -804,10 +1197,12 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                                                         </Tooltip>
                                                     </span>
                                                 </Label>
-                                                <Input
-                                                    type="number"
+                                                <ExpressionInput
                                                     value={probe.feedRate}
-                                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProbeOperation(probe.id, 'feedRate', parseInt(e.target.value))}
+                                                    expression={probe.expressions?.feedRate}
+                                                    scope={expressionScope}
+                                                    disabled={Boolean(probe.seekLatch)}
+                                                    onChange={(value, expression) => updateProbeField(probe, 'feedRate', value, expression)}
                                                 />
                                             </div>
                                             <div>
@@ -824,36 +1219,180 @@ const ProbeSequenceEditor: React.FC<ProbeSequenceProps> = ({
                                                         </Tooltip>
                                                     </span>
                                                 </Label>
-                                                <Input
-                                                    type="number"
-                                                    step="0.1"
+                                                <ExpressionInput
                                                     value={probe.backoffDistance}
-                                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProbeOperation(probe.id, 'backoffDistance', parseFloat(e.target.value))}
+                                                    expression={probe.expressions?.backoffDistance}
+                                                    scope={expressionScope}
+                                                    onChange={(value, expression) => updateProbeField(probe, 'backoffDistance', value, expression)}
                                                 />
                                             </div>
+                                            {!probe.composite && (
+                                                <div>
+                                                    <Label htmlFor={`wcs-offset-${probe.id}`}>
+                                                        <span className="flex items-center gap-1">
+                                                            WCS Offset ({machineSettingsUnits})
+                                                            <Tooltip>
+                                                                <TooltipTrigger asChild>
+                                                                    <span className="cursor-help text-muted-foreground">?</span>
+                                                                </TooltipTrigger>
+                                                                <TooltipContent>
+                                                                    <p>Value the contact point is set to on the work offset. With tool radius compensation it is derived from the endmill size and probe direction.</p>
+                                                                </TooltipContent>
+                                                            </Tooltip>
+                                                        </span>
+                                                    </Label>
+                                                    <ExpressionInput
+                                                        id={`wcs-offset-${probe.id}`}
+                                                        value={probe.wcsOffset}
+                                                        expression={probe.compensateToolRadius ? undefined : probe.expressions?.wcsOffset}
+                                                        scope={expressionScope}
+                                                        onChange={(value, expression) => updateProbeField(probe, 'wcsOffset', value ?? 0, expression)}
+                                                        disabled={probe.compensateToolRadius}
+                                                    />
+                                                    <div className="flex items-center gap-2 mt-2">
+                                                        <Checkbox
+                                                            id={`compensate-radius-${probe.id}`}
+                                                            checked={Boolean(probe.compensateToolRadius)}
+                                                            onCheckedChange={(checked) => updateProbeOperation(probe.id, 'compensateToolRadius', checked === true)}
+                                                        />
+                                                        <Label htmlFor={`compensate-radius-${probe.id}`} className="text-xs">Compensate for tool radius</Label>
+                                                    </div>
+                                                </div>
+                                            )}
                                             <div>
-                                                <Label htmlFor={`wcs-offset-${probe.id}`}>
+                                                <Label>
                                                     <span className="flex items-center gap-1">
-                                                        WCS Offset ({machineSettingsUnits})
+                                                        Work Offset
                                                         <Tooltip>
                                                             <TooltipTrigger asChild>
                                                                 <span className="cursor-help text-muted-foreground">?</span>
                                                             </TooltipTrigger>
                                                             <TooltipContent>
-                                                                <p>Typically does not need to be manually set. Used to offset for the radius of the tool. Sets distance between contact point and actual origin.</p>
+                                                                <p>Work coordinate system zeroed by this probe (G10 L20 P index)</p>
                                                             </TooltipContent>
                                                         </Tooltip>
                                                     </span>
                                                 </Label>
-                                                <Input
-                                                    id={`wcs-offset-${probe.id}`}
-                                                    type="number"
-                                                    step="0.0001"
-                                                    value={typeof probe.wcsOffset === 'number' && !isNaN(probe.wcsOffset) ? probe.wcsOffset : ''}
-                                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleWcsOffsetChange(probe.id, e.target.value)}
-                                                    min={0}
+                                                <Select value={(probe.wcsIndex ?? DEFAULT_WCS_INDEX).toString()} onValueChange={(value) =>
+                                                    updateProbeOperation(probe.id, 'wcsIndex', parseInt(value))}>
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {workOffsetIndices.map(wcsIndex => (
+                                                            <SelectItem key={wcsIndex} value={wcsIndex.toString()}>{selectWorkOffset(wcsIndex)} (P{wcsIndex})</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                {workOffsetError(probe.wcsIndex) && <p className="text-xs text-destructive mt-1">{workOffsetError(probe.wcsIndex)}</p>}
+                                            </div>
+                                            {toolLibrary && (
+                                                <div>
+                                                    <Label>
+                                                        <span className="flex items-center gap-1">
+                                                            Tool
+                                                            <Tooltip>
+                                                                <TooltipTrigger asChild>
+                                                                    <span className="cursor-help text-muted-foreground">?</span>
+                                                                </TooltipTrigger>
+                                                                <TooltipContent>
+                                                                    <p>Library tool this operation probes with. Its tip diameter is used for radius compensation and composite touches.</p>
+                                                                </TooltipContent>
+                                                            </Tooltip>
+                                                        </span>
+                                                    </Label>
+                                                    <Select value={findTool(toolLibrary, probe.toolId)?.id ?? 'sequence'} onValueChange={(value) =>
+                                                        updateProbeOperation(probe.id, 'toolId', value === 'sequence' ? undefined : value)}>
+                                                        <SelectTrigger aria-label="Operation tool">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            <SelectItem value="sequence">Sequence tool</SelectItem>
+                                                            {toolLibrary.map(tool => (
+                                                                <SelectItem key={tool.id} value={tool.id}>{tool.name}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </div>
+                                            )}
+                                            {getConfiguredRotaryAxes(machineSettings).map(axis => (
+                                                <div key={axis}>
+                                                    <Label htmlFor={`rotary-index-${axis}-${probe.id}`}>
+                                                        <span className="flex items-center gap-1">
+                                                            {axis} Index Angle (°)
+                                                            <Tooltip>
+                                                                <TooltipTrigger asChild>
+                                                                    <span className="cursor-help text-muted-foreground">?</span>
+                                                                </TooltipTrigger>
+                                                                <TooltipContent>
+                                                                    <p>Absolute {axis} angle the stock is indexed to before the pre-moves. Leave empty to probe wherever the axis is.</p>
+                                                                </TooltipContent>
+                                                            </Tooltip>
+                                                        </span>
+                                                    </Label>
+                                                    <Input
+                                                        id={`rotary-index-${axis}-${probe.id}`}
+                                                        type="number"
+                                                        step="1"
+                                                        value={probe.rotaryIndex?.[axis] ?? ''}
+                                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRotaryIndex(probe, axis, e.target.value)}
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                        {/* Third row: two-stage seek/latch probing */}
+                                        <div className="space-y-2">
+                                            <div className="flex items-center gap-2">
+                                                <Checkbox
+                                                    id={`seek-latch-${probe.id}`}
+                                                    checked={Boolean(probe.seekLatch)}
+                                                    onCheckedChange={(checked) => toggleSeekLatch(probe, checked === true)}
                                                 />
+                                                <Label htmlFor={`seek-latch-${probe.id}`}>Two-stage seek/latch probing</Label>
                                             </div>
+                                            {probe.seekLatch && (
+                                                <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                                                    <div>
+                                                        <Label htmlFor={`seek-feed-${probe.id}`}>Seek Feed ({machineSettingsUnits}/min)</Label>
+                                                        <Input
+                                                            id={`seek-feed-${probe.id}`}
+                                                            type="number"
+                                                            value={probe.seekLatch.seekFeedRate}
+                                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSeekLatch(probe, 'seekFeedRate', parseFloat(e.target.value))}
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <Label htmlFor={`latch-feed-${probe.id}`}>Latch Feed ({machineSettingsUnits}/min)</Label>
+                                                        <Input
+                                                            id={`latch-feed-${probe.id}`}
+                                                            type="number"
+                                                            value={probe.seekLatch.latchFeedRate}
+                                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSeekLatch(probe, 'latchFeedRate', parseFloat(e.target.value))}
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <Label htmlFor={`latch-retract-${probe.id}`}>Retract ({machineSettingsUnits})</Label>
+                                                        <Input
+                                                            id={`latch-retract-${probe.id}`}
+                                                            type="number"
+                                                            step="0.1"
+                                                            min={0}
+                                                            value={probe.seekLatch.retractDistance}
+                                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSeekLatch(probe, 'retractDistance', parseFloat(e.target.value))}
+                                                        />
+                                                    </div>
+                                                    <div>
+                                                        <Label htmlFor={`latch-repeat-${probe.id}`}>Latch Repeats</Label>
+                                                        <Input
+                                                            id={`latch-repeat-${probe.id}`}
+                                                            type="number"
+                                                            min={1}
+                                                            value={probe.seekLatch.repeatCount}
+                                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSeekLatch(probe, 'repeatCount', Math.max(1, parseInt(e.target.value)))}
+                                                        />
+                                                    </div>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 </CollapsibleContent>
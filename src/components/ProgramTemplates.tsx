@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { ProgramTemplates } from '@/types/machine';
+import { DEFAULT_PROGRAM_TEMPLATES, TEMPLATE_PLACEHOLDERS, validateProgramTemplate } from '@/utils/programTemplates';
+
+interface ProgramTemplatesFormProps {
+  templates?: ProgramTemplates;
+  onSave: (templates: ProgramTemplates | undefined) => void;
+}
+
+const ProgramTemplatesForm: React.FC<ProgramTemplatesFormProps> = ({ templates, onSave }) => {
+  const [header, setHeader] = useState(templates?.header ?? DEFAULT_PROGRAM_TEMPLATES.header);
+  const [footer, setFooter] = useState(templates?.footer ?? DEFAULT_PROGRAM_TEMPLATES.footer);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSave = () => {
+    const validationErrors = [
+      ...validateProgramTemplate(header).map(error => `Header: ${error}`),
+      ...validateProgramTemplate(footer).map(error => `Footer: ${error}`)
+    ];
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onSave({ header, footer });
+    }
+  };
+
+  const handleReset = () => {
+    setHeader(DEFAULT_PROGRAM_TEMPLATES.header);
+    setFooter(DEFAULT_PROGRAM_TEMPLATES.footer);
+    setErrors([]);
+    onSave(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Program Templates</h3>
+      <p className="text-xs text-muted-foreground">
+        Placeholders: {TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}
+      </p>
+      <div>
+        <Label htmlFor="program-header-template">Header</Label>
+        <Textarea
+          id="program-header-template"
+          value={header}
+          onChange={(e) => setHeader(e.target.value)}
+          className="font-mono text-sm min-h-32"
+        />
+      </div>
+      <div>
+        <Label htmlFor="program-footer-template">Footer</Label>
+        <Textarea
+          id="program-footer-template"
+          value={footer}
+          onChange={(e) => setFooter(e.target.value)}
+          className="font-mono text-sm min-h-24"
+        />
+      </div>
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Button onClick={handleSave}>Save Templates</Button>
+        <Button variant="outline" onClick={handleReset}>Use Built-in Blocks</Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProgramTemplatesForm;
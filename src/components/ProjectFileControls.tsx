@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { FolderOpen, Save } from "lucide-react";
+import { useAppStore, useImportActions } from '@/store';
+import { serializeFile } from '@/utils/fileStorage';
+import { PROJECT_FILE_EXTENSION, parseProjectFile, serializeProject } from '@/utils/projectFile';
+
+const DEFAULT_FILE_NAME = `probe-sequence${PROJECT_FILE_EXTENSION}`;
+
+/**
+ * Save the current job as a project file, or open one in its place
+ */
+const ProjectFileControls: React.FC = () => {
+  const { loadProject } = useImportActions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Saving again writes the name the project was opened from
+  const [fileName, setFileName] = useState(DEFAULT_FILE_NAME);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setError(null);
+    const state = useAppStore.getState();
+    const { modelFile, serializedModelFile } = state.visualizationSettings;
+    try {
+      // Models too large for browser storage are only kept as a File, so encode them now
+      const visualizationSettings = {
+        ...state.visualizationSettings,
+        serializedModelFile: serializedModelFile ?? (modelFile ? await serializeFile(modelFile) : null)
+      };
+      const blob = new Blob([serializeProject({ ...state, visualizationSettings })], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save project');
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    const result = parseProjectFile(await file.text());
+    if ('error' in result) {
+      setError(`Could not open ${file.name}: ${result.error}`);
+      return;
+    }
+    try {
+      loadProject(result.project);
+      setFileName(file.name.endsWith(PROJECT_FILE_EXTENSION) ? file.name : DEFAULT_FILE_NAME);
+    } catch {
+      setError(`Could not open ${file.name}: the stock model could not be decoded`);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Open Project
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleSave}>
+          <Save className="w-4 h-4 mr-2" />
+          Save Project
+        </Button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        onChange={handleFileChange}
+        className="hidden"
+        data-testid="project-file-input"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default ProjectFileControls;
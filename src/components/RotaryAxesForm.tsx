@@ -0,0 +1,96 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dimensional3DInput } from "@/components/ui/DimensionalInput";
+import type { MachineSettings, RotaryAxis, RotaryAxisConfig } from '@/types/machine';
+import { DEFAULT_ROTARY_AXIS, ROTARY_AXES, ROTARY_PIVOT_AXIS } from '@/utils/rotaryAxes';
+
+type RotaryAxes = MachineSettings['rotaryAxes'];
+
+interface RotaryAxesFormProps {
+  rotaryAxes: RotaryAxes;
+  units: 'mm' | 'inch';
+  onChange: (rotaryAxes: RotaryAxes) => void;
+}
+
+const RotaryAxesForm: React.FC<RotaryAxesFormProps> = ({ rotaryAxes, units, onChange }) => {
+  // Disabling the last axis leaves the machine without rotary settings at all
+  const setAxis = (axis: RotaryAxis, config: RotaryAxisConfig | undefined) => {
+    const next = Object.fromEntries(
+      ROTARY_AXES.flatMap(other => {
+        const otherConfig = other === axis ? config : rotaryAxes?.[other];
+        return otherConfig ? [[other, otherConfig]] : [];
+      })
+    );
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const updateAxis = (axis: RotaryAxis, changes: Partial<RotaryAxisConfig>) =>
+    setAxis(axis, { ...(rotaryAxes?.[axis] ?? DEFAULT_ROTARY_AXIS), ...changes });
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Rotary Axes</h3>
+      <p className="text-xs text-muted-foreground">
+        Probe operations can index the stock to an angle first; the center is any point on the rotation axis, in stock position coordinates
+      </p>
+      {ROTARY_AXES.map(axis => {
+        const config = rotaryAxes?.[axis];
+        return (
+          <div key={axis} className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`rotary-axis-${axis}`}
+                checked={config !== undefined}
+                onCheckedChange={(checked) => setAxis(axis, checked === true ? DEFAULT_ROTARY_AXIS : undefined)}
+              />
+              <Label htmlFor={`rotary-axis-${axis}`} className="text-sm">
+                {axis} axis (turns about {ROTARY_PIVOT_AXIS[axis]})
+              </Label>
+            </div>
+            {config && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor={`rotary-${axis}-min`}>Min Angle (°)</Label>
+                    <Input
+                      id={`rotary-${axis}-min`}
+                      type="number"
+                      step="1"
+                      value={config.min}
+                      onChange={(e) => updateAxis(axis, { min: parseFloat(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`rotary-${axis}-max`}>Max Angle (°)</Label>
+                    <Input
+                      id={`rotary-${axis}-max`}
+                      type="number"
+                      step="1"
+                      value={config.max}
+                      onChange={(e) => updateAxis(axis, { max: parseFloat(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-sm text-muted-foreground">Rotation Center</Label>
+                  <Dimensional3DInput
+                    values={[config.center.X, config.center.Y, config.center.Z]}
+                    onChange={([X, Y, Z]: [number, number, number]) => updateAxis(axis, { center: { X, Y, Z } })}
+                    labels={['X', 'Y', 'Z']}
+                    units={units}
+                    step={0.1}
+                    className="h-8"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RotaryAxesForm;
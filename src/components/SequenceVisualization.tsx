@@ -9,7 +9,7 @@ import {
   DrawerDescription,
   DrawerTrigger
 } from "@/components/ui/drawer";
-import { Box, MapPin, Settings } from "lucide-react";
+import { AlertTriangle, BarChart3, Box, Crosshair, MapPin, Settings, Timer } from "lucide-react";
 import { useVisualizationWithStore, useVisualizationControls } from '@/store';
 import { useAppStore } from '@/store';
 import Machine3DVisualization from './Machine3DVisualization';
@@ -18,9 +18,14 @@ import ProbeControls from './ProbeControls';
 import MachineSettingsForm from './MachineSettings';
 import { SimulationControls } from './visualization/SimulationControls';
 import GCodeReadout from './visualization/GCodeReadout';
+import WcsVerificationReport from './visualization/WcsVerificationReport';
+import ProbeUncertaintyPanel from './visualization/ProbeUncertaintyPanel';
+import CrashReport from './visualization/CrashReport';
+import CycleTimeReport from './visualization/CycleTimeReport';
 import { useVirtualMillContext } from './visualization/useVirtualMillContext';
 // Use types from src/types/machine
 import type { ProbeOperation, ProbeSequenceSettings, MachineSettings, AxisConfig } from '@/types/machine';
+import { getWcsCode } from '@/utils/workCoordinateSystems';
 
 interface SequenceVisualizationProps {
   machineSettings?: MachineSettings;
@@ -191,6 +196,86 @@ const SequenceVisualization: React.FC<SequenceVisualizationProps> = ({
                 </DrawerContent>
               </Drawer>
 
+              {/* WCS Verification Drawer */}
+              <Drawer>
+                <DrawerTrigger asChild>
+                  <Button variant="outline" size="sm" className="shadow-lg backdrop-blur-sm bg-white/90 text-xs sm:text-sm px-2 sm:px-3">
+                    <Crosshair className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">WCS Report</span>
+                    <span className="sm:hidden">WCS</span>
+                  </Button>
+                </DrawerTrigger>
+                <DrawerContent>
+                  <DrawerHeader>
+                    <DrawerTitle>WCS Verification</DrawerTitle>
+                    <DrawerDescription>Where the simulated sequence leaves each work offset origin, compared with the stock</DrawerDescription>
+                  </DrawerHeader>
+                  <div className="px-4 pb-4 max-h-[70vh] overflow-y-auto">
+                    <WcsVerificationReport />
+                  </div>
+                </DrawerContent>
+              </Drawer>
+
+              {/* Probe Uncertainty Drawer */}
+              <Drawer>
+                <DrawerTrigger asChild>
+                  <Button variant="outline" size="sm" className="shadow-lg backdrop-blur-sm bg-white/90 text-xs sm:text-sm px-2 sm:px-3">
+                    <BarChart3 className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Uncertainty</span>
+                    <span className="sm:hidden">σ</span>
+                  </Button>
+                </DrawerTrigger>
+                <DrawerContent>
+                  <DrawerHeader>
+                    <DrawerTitle>Probe Uncertainty</DrawerTitle>
+                    <DrawerDescription>Simulate the sequence with realistic probe errors and see how far each work offset origin spreads</DrawerDescription>
+                  </DrawerHeader>
+                  <div className="px-4 pb-4 max-h-[70vh] overflow-y-auto">
+                    <ProbeUncertaintyPanel />
+                  </div>
+                </DrawerContent>
+              </Drawer>
+
+              {/* Crash Check Drawer */}
+              <Drawer>
+                <DrawerTrigger asChild>
+                  <Button variant="outline" size="sm" className="shadow-lg backdrop-blur-sm bg-white/90 text-xs sm:text-sm px-2 sm:px-3">
+                    <AlertTriangle className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Crashes</span>
+                    <span className="sm:hidden">Crash</span>
+                  </Button>
+                </DrawerTrigger>
+                <DrawerContent>
+                  <DrawerHeader>
+                    <DrawerTitle>Crash Check</DrawerTitle>
+                    <DrawerDescription>Rapid and linear moves that would run the tool or spindle nose into the stock, model or stage</DrawerDescription>
+                  </DrawerHeader>
+                  <div className="px-4 pb-4 max-h-[70vh] overflow-y-auto">
+                    <CrashReport />
+                  </div>
+                </DrawerContent>
+              </Drawer>
+
+              {/* Cycle Time Drawer */}
+              <Drawer>
+                <DrawerTrigger asChild>
+                  <Button variant="outline" size="sm" className="shadow-lg backdrop-blur-sm bg-white/90 text-xs sm:text-sm px-2 sm:px-3">
+                    <Timer className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Cycle Time</span>
+                    <span className="sm:hidden">Time</span>
+                  </Button>
+                </DrawerTrigger>
+                <DrawerContent>
+                  <DrawerHeader>
+                    <DrawerTitle>Cycle Time</DrawerTitle>
+                    <DrawerDescription>Estimated run time of the sequence, per operation, from the machine's motion limits</DrawerDescription>
+                  </DrawerHeader>
+                  <div className="px-4 pb-4 max-h-[70vh] overflow-y-auto">
+                    <CycleTimeReport />
+                  </div>
+                </DrawerContent>
+              </Drawer>
+
               {/* Sequence Details Drawer */}
               <Drawer>
                 <DrawerTrigger asChild>
@@ -217,7 +302,7 @@ const SequenceVisualization: React.FC<SequenceVisualizationProps> = ({
                               Distance: {op.distance}{machineSettings?.units || 'mm'}<br />
                               Feed: {op.feedRate}{machineSettings?.units || 'mm'}<br />
                               Backoff: {op.backoffDistance}{machineSettings?.units || 'mm'}<br />
-                              WCS Offset: {op.wcsOffset}
+                              WCS Offset: {op.wcsOffset} ({getWcsCode(op.wcsIndex)})
                             </div>
                             {/* Post-moves badges */}
                             <div className="flex gap-1 mt-2">
@@ -0,0 +1,183 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
+import type { Tool, ToolAssembly, ToolSection, ToolType } from '@/types/machine';
+import { createTool, createToolAssembly, getAssemblyLength, toolTypes } from '@/utils/toolLibrary';
+
+const assemblySections: { section: keyof ToolAssembly; label: string }[] = [
+  { section: 'cutter', label: 'Cutter / Stylus' },
+  { section: 'shank', label: 'Shank' },
+  { section: 'holder', label: 'Holder' }
+];
+
+const sectionFields: { field: keyof ToolSection; label: string }[] = [
+  { field: 'length', label: 'Length' },
+  { field: 'diameter', label: 'Diameter' },
+  { field: 'topDiameter', label: 'Top Diameter' }
+];
+
+interface ToolLibraryFormProps {
+  tools: Tool[] | undefined;
+  onChange: (tools: Tool[] | undefined) => void;
+}
+
+const ToolLibraryForm: React.FC<ToolLibraryFormProps> = ({ tools = [], onChange }) => {
+  // Removing the last tool leaves the machine without a library at all
+  const setTools = (next: Tool[]) => onChange(next.length > 0 ? next : undefined);
+
+  const updateTool = (id: string, changes: Partial<Tool>) =>
+    setTools(tools.map(tool => tool.id === id ? { ...tool, ...changes } : tool));
+
+  // Empty codes are left out rather than written as blank lines
+  const updateCode = (id: string, field: 'probeOnCode' | 'probeOffCode', value: string) =>
+    updateTool(id, { [field]: value.trim() ? value : undefined });
+
+  const updateNumber = (id: string, field: 'tipDiameter' | 'length', value: string) => {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed) && parsed >= 0) updateTool(id, { [field]: parsed });
+  };
+
+  // The sections make up the gauge length; an empty top diameter keeps a section a cylinder
+  const updateSection = (tool: Tool, section: keyof ToolAssembly, field: keyof ToolSection, value: string) => {
+    if (!tool.assembly) return;
+    const parsed = parseFloat(value);
+    if (field === 'topDiameter' && value.trim() === '') {
+      const { length, diameter } = tool.assembly[section];
+      updateTool(tool.id, { assembly: { ...tool.assembly, [section]: { length, diameter } } });
+      return;
+    }
+    if (isNaN(parsed) || parsed < 0) return;
+    const assembly = { ...tool.assembly, [section]: { ...tool.assembly[section], [field]: parsed } };
+    updateTool(tool.id, { assembly, length: getAssemblyLength(assembly) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">Tool Library</h3>
+        <Button variant="outline" size="sm" onClick={() => setTools([...tools, createTool('touchProbe')])}>
+          Add Tool
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Probe sequences and operations can select a tool; its effective tip diameter replaces the endmill size. Sizes are in millimeters.
+      </p>
+      {tools.map(tool => (
+        <div key={tool.id} className="space-y-3 rounded-md border p-3" data-testid={`tool-${tool.id}`}>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`tool-name-${tool.id}`}>Name</Label>
+              <Input
+                id={`tool-name-${tool.id}`}
+                value={tool.name}
+                onChange={(e) => updateTool(tool.id, { name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={tool.type} onValueChange={(type: ToolType) => updateTool(tool.id, { type })}>
+                <SelectTrigger aria-label={`${tool.name} type`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(toolTypes).map(({ type, name }) => (
+                    <SelectItem key={type} value={type}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`tool-diameter-${tool.id}`}>Effective Tip Diameter (mm)</Label>
+              <Input
+                id={`tool-diameter-${tool.id}`}
+                type="number"
+                step="0.001"
+                min="0"
+                value={tool.tipDiameter}
+                onChange={(e) => updateNumber(tool.id, 'tipDiameter', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`tool-length-${tool.id}`}>Length (mm)</Label>
+              <Input
+                id={`tool-length-${tool.id}`}
+                type="number"
+                step="0.1"
+                min="0"
+                value={tool.length}
+                disabled={tool.assembly !== undefined}
+                onChange={(e) => updateNumber(tool.id, 'length', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`tool-probe-on-${tool.id}`}>Probe Enable Code</Label>
+              <Input
+                id={`tool-probe-on-${tool.id}`}
+                value={tool.probeOnCode ?? ''}
+                placeholder="e.g. M64 P0"
+                onChange={(e) => updateCode(tool.id, 'probeOnCode', e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`tool-probe-off-${tool.id}`}>Probe Disable Code</Label>
+              <Input
+                id={`tool-probe-off-${tool.id}`}
+                value={tool.probeOffCode ?? ''}
+                placeholder="e.g. M65 P0"
+                onChange={(e) => updateCode(tool.id, 'probeOffCode', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`tool-assembly-${tool.id}`}
+              checked={tool.assembly !== undefined}
+              onCheckedChange={(checked) => updateTool(tool.id, { assembly: checked === true ? createToolAssembly(tool) : undefined })}
+            />
+            <Label htmlFor={`tool-assembly-${tool.id}`}>Model Tool Assembly</Label>
+          </div>
+          {tool.assembly && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Crash checks sweep these sections from the tip up instead of a plain cylinder, so a holder that reaches the part is caught.
+                Set a top diameter to make a section a cone.
+              </p>
+              <div className="grid grid-cols-4 gap-2 text-xs text-muted-foreground">
+                <span />
+                {sectionFields.map(({ field, label }) => <span key={field}>{label} (mm)</span>)}
+              </div>
+              {assemblySections.map(({ section, label }) => (
+                <div key={section} className="grid grid-cols-4 gap-2 items-center">
+                  <span className="text-sm font-medium">{label}</span>
+                  {sectionFields.map(({ field, label: fieldLabel }) => (
+                    <Input
+                      key={field}
+                      aria-label={`${label} ${fieldLabel} (mm)`}
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={tool.assembly![section][field] ?? ''}
+                      onChange={(e) => updateSection(tool, section, field, e.target.value)}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setTools(tools.filter(other => other.id !== tool.id))}
+          >
+            Remove Tool
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToolLibraryForm;
@@ -5,7 +5,7 @@ import App from '../../App';
 
 // Mock the dependencies with minimal but functional implementations
 vi.mock('@/utils/gcodeGenerator', () => ({
-  generateGCode: vi.fn(() => 'G0 X0 Y0 Z0\nM30')
+  generateGCodeWithSourceMap: vi.fn(() => ({ gcode: 'G0 X0 Y0 Z0\nM30', sourceMap: [] }))
 }));
 
 // Simple mock for MachineSettings
@@ -184,7 +184,7 @@ describe('App Component', () => {
   });
 
   it('generates gcode when both settings and sequence are available', async () => {
-    const { generateGCode } = await import('@/utils/gcodeGenerator');
+    const { generateGCodeWithSourceMap } = await import('@/utils/gcodeGenerator');
     
     render(<App />);
     
@@ -201,8 +201,8 @@ describe('App Component', () => {
       fireEvent.click(updateSequenceButton);
     });
     
-    // Check if generateGCode was called
-    expect(generateGCode).toHaveBeenCalled();
+    // Check if generateGCodeWithSourceMap was called
+    expect(generateGCodeWithSourceMap).toHaveBeenCalled();
   });
 
   it('displays generated gcode in output tab', async () => {
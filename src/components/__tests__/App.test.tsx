@@ -6,7 +6,7 @@ import App from '../../App';
 
 // Mock the dependencies with minimal but functional implementations
 vi.mock('@/utils/gcodeGenerator', () => ({
-  generateGCode: vi.fn(() => 'G0 X0 Y0 Z0\nM30')
+  generateGCodeWithSourceMap: vi.fn(() => ({ gcode: 'G0 X0 Y0 Z0\nM30', sourceMap: [] }))
 }));
 
 // Mock the store module
@@ -64,6 +64,10 @@ vi.mock('@/store', () => {
     useProbeSequence: () => mockState.probeSequence,
     useProbeSequenceSettings: () => mockState.probeSequenceSettings,
     useGeneratedGCode: () => mockState.generatedGCode,
+    useGeneratedSourceMap: () => [],
+    useSelectedOperationId: () => null,
+    useMachineProfiles: () => [],
+    useActiveProfileId: () => 'default',
     useVisualizationWithStore: () => ({
       machineSettings: mockState.machineSettings,
       probeSequence: mockState.probeSequence,
@@ -86,6 +90,7 @@ vi.mock('@/store', () => {
     }),
     useGCodeActions: () => ({
       setGeneratedGCode: vi.fn(),
+      setSelectedOperationId: vi.fn(),
       generateGCode: vi.fn()
     }),
     useImportActions: () => ({
@@ -250,7 +255,7 @@ describe('App Component', () => {
       expect(screen.getByTestId('gcode-output')).toBeInTheDocument();
     });
   });  it('generates gcode when sequence is available', async () => {
-    const { generateGCode } = await import('@/utils/gcodeGenerator');
+    const { generateGCodeWithSourceMap } = await import('@/utils/gcodeGenerator');
     const user = userEvent.setup();
     
     render(<App />);
@@ -270,7 +275,7 @@ describe('App Component', () => {
     
     // Wait a bit for any async operations to complete
     await waitFor(() => {
-      expect(generateGCode).toHaveBeenCalled();
+      expect(generateGCodeWithSourceMap).toHaveBeenCalled();
     });
   });  it('displays generated gcode in output tab', async () => {
     const user = userEvent.setup();
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import GCodeImport from '../GCodeImport';
@@ -31,7 +31,8 @@ const mockParseResult = {
   dwellsBeforeProbe: 15,
   spindleSpeed: 5000,
   units: 'mm' as const,
-  errors: []
+  errors: [],
+  diagnostics: []
 };
 
 describe('GCodeImport Component', () => {
@@ -112,7 +113,7 @@ describe('GCodeImport Component', () => {
     const user = userEvent.setup();
     vi.mocked(parseGCode).mockReturnValue(mockParseResult);
     
-    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
+    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} dialect="fanuc" />);
     
     await user.click(screen.getByText('Show G-Code Import'));
     const textarea = screen.getByLabelText('G-Code Input');
@@ -121,7 +122,7 @@ describe('GCodeImport Component', () => {
     await user.type(textarea, 'G38.2 Z-10 F100');
     await user.click(parseButton);
     
-    expect(parseGCode).toHaveBeenCalledWith('G38.2 Z-10 F100');
+    expect(parseGCode).toHaveBeenCalledWith('G38.2 Z-10 F100', 'fanuc');
   });
 
   it('displays parse results after successful parsing', async () => {
@@ -164,31 +165,95 @@ describe('GCodeImport Component', () => {
     });
   });
 
-  it('displays errors when parsing fails', async () => {
+  it('displays diagnostics inline with the parsed text', async () => {
     const user = userEvent.setup();
     const parseResultWithErrors = {
       ...mockParseResult,
       probeSequence: [],
-      errors: ['Invalid G-code command', 'Missing feed rate']
+      errors: ['Error parsing line 2: "G38.2 X5 Y5 F10" - Invalid probe command, expected exactly one axis'],
+      diagnostics: [
+        {
+          code: 'probe-axis-count' as const,
+          severity: 'error' as const,
+          message: 'Invalid probe command, expected exactly one axis',
+          lineIndex: 1,
+          lineText: 'G38.2 X5 Y5 F10',
+          column: 0,
+          endColumn: 15
+        },
+        {
+          code: 'wcs-without-probe' as const,
+          severity: 'warning' as const,
+          message: 'G10 L20 without a preceding probe; kept as a raw line',
+          lineIndex: 0,
+          lineText: 'G10 L20 P1 X0',
+          column: 0,
+          endColumn: 13
+        }
+      ]
     };
     vi.mocked(parseGCode).mockReturnValue(parseResultWithErrors);
     
     render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
     
     await user.click(screen.getByText('Show G-Code Import'));
-    const textarea = screen.getByLabelText('G-Code Input');
-    const parseButton = screen.getByText('Parse G-Code');
-    
-    await user.type(textarea, 'INVALID');
-    await user.click(parseButton);
+    await user.type(screen.getByLabelText('G-Code Input'), 'G10 L20 P1 X0{enter}G38.2 X5 Y5 F10');
+    await user.click(screen.getByText('Parse G-Code'));
     
     await waitFor(() => {
-      expect(screen.getByText('Parsing Errors (2):')).toBeInTheDocument();
-      expect(screen.getByText('Invalid G-code command')).toBeInTheDocument();
-      expect(screen.getByText('Missing feed rate')).toBeInTheDocument();
+      expect(screen.getByText('Diagnostics (2):')).toBeInTheDocument();
+      expect(screen.getByText('Invalid probe command, expected exactly one axis')).toBeInTheDocument();
+      expect(screen.getByText('G10 L20 without a preceding probe; kept as a raw line')).toBeInTheDocument();
+      expect(screen.getByTitle('Invalid probe command, expected exactly one axis')).toHaveTextContent('G38.2 X5 Y5 F10');
+      expect(screen.getByText('error')).toBeInTheDocument();
+      expect(screen.getByText('warning')).toBeInTheDocument();
     });
   });
 
+  it('applies a suggested fix and parses again', async () => {
+    const user = userEvent.setup();
+    vi.mocked(parseGCode).mockReturnValueOnce({
+      ...mockParseResult,
+      diagnostics: [{
+        code: 'probe-missing-feed',
+        severity: 'warning',
+        message: 'Probe has no feed rate; 10 is used',
+        lineIndex: 0,
+        lineText: 'G38.2 Z-10',
+        column: 0,
+        endColumn: 10,
+        fix: { label: 'Add F10', column: 10, endColumn: 10, text: ' F10' }
+      }]
+    }).mockReturnValue(mockParseResult);
+    
+    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
+    
+    await user.click(screen.getByText('Show G-Code Import'));
+    await user.type(screen.getByLabelText('G-Code Input'), 'G38.2 Z-10');
+    await user.click(screen.getByText('Parse G-Code'));
+    await user.click(await screen.findByText('Add F10'));
+    
+    expect(parseGCode).toHaveBeenLastCalledWith('G38.2 Z-10 F10', undefined);
+    expect(screen.getByLabelText('G-Code Input')).toHaveValue('G38.2 Z-10 F10');
+    expect(screen.queryByText('Probe has no feed rate; 10 is used')).not.toBeInTheDocument();
+  });
+
+  it('drops stale results when the input is edited', async () => {
+    const user = userEvent.setup();
+    vi.mocked(parseGCode).mockReturnValue(mockParseResult);
+    
+    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
+    
+    await user.click(screen.getByText('Show G-Code Import'));
+    const textarea = screen.getByLabelText('G-Code Input');
+    await user.type(textarea, 'G38.2 Z-10 F100');
+    await user.click(screen.getByText('Parse G-Code'));
+    expect(screen.getByText('Parse Results')).toBeInTheDocument();
+    
+    await user.type(textarea, '0');
+    expect(screen.queryByText('Parse Results')).not.toBeInTheDocument();
+  });
+
   it('calls onImport when import button is clicked', async () => {
     const user = userEvent.setup();
     vi.mocked(parseGCode).mockReturnValue(mockParseResult);
@@ -210,7 +275,77 @@ describe('GCodeImport Component', () => {
     const importButton = screen.getByText('Import 1 Probe Operation(s)');
     await user.click(importButton);
     
-    expect(mockOnImport).toHaveBeenCalledWith(mockParseResult);
+    expect(mockOnImport).toHaveBeenCalledWith(mockParseResult, 'replace');
+  });
+
+  it('passes append mode when selected', async () => {
+    const user = userEvent.setup();
+    vi.mocked(parseGCode).mockReturnValue(mockParseResult);
+    
+    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
+    
+    await user.click(screen.getByText('Show G-Code Import'));
+    await user.type(screen.getByLabelText('G-Code Input'), 'G38.2 Z-10 F100');
+    await user.click(screen.getByText('Parse G-Code'));
+    await user.click(screen.getByLabelText('Append to current sequence'));
+    await user.click(screen.getByText('Import 1 Probe Operation(s)'));
+    
+    expect(mockOnImport).toHaveBeenCalledWith(mockParseResult, 'append');
+  });
+
+  it('will not append a file in other units', async () => {
+    const user = userEvent.setup();
+    vi.mocked(parseGCode).mockReturnValue({ ...mockParseResult, units: 'inch' });
+    
+    render(<GCodeImport onImport={mockOnImport} machineSettings={{ ...mockMachineSettings, units: 'mm' }} />);
+    
+    await user.click(screen.getByText('Show G-Code Import'));
+    await user.type(screen.getByLabelText('G-Code Input'), 'G20');
+    await user.click(screen.getByText('Parse G-Code'));
+    await user.click(screen.getByLabelText('Append to current sequence'));
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('This file is in inches but the current sequence is in millimeters');
+    expect(screen.getByText('Import 1 Probe Operation(s)')).toBeDisabled();
+    
+    await user.click(screen.getByLabelText('Replace current sequence'));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(screen.getByText('Import 1 Probe Operation(s)')).toBeEnabled();
+  });
+
+  it('reads and parses a picked G-code file', async () => {
+    const user = userEvent.setup();
+    vi.mocked(parseGCode).mockReturnValue(mockParseResult);
+    
+    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
+    
+    await user.click(screen.getByText('Show G-Code Import'));
+    const file = new File(['%\r\nG21\r\nG38.2 Z-10 F100\r\n%\r\n'], 'probe.nc');
+    await user.upload(screen.getByTestId('gcode-file-input'), file);
+    
+    await waitFor(() => {
+      expect(parseGCode).toHaveBeenCalledWith('G21\nG38.2 Z-10 F100\n', undefined);
+      expect(screen.getByLabelText(/G-Code Input/)).toHaveValue('G21\nG38.2 Z-10 F100\n');
+      expect(screen.getByText('(probe.nc)')).toBeInTheDocument();
+      expect(screen.getByText('Parse Results')).toBeInTheDocument();
+    });
+  });
+
+  it('accepts dropped G-code files and ignores other types', async () => {
+    const user = userEvent.setup();
+    vi.mocked(parseGCode).mockReturnValue(mockParseResult);
+    
+    render(<GCodeImport onImport={mockOnImport} machineSettings={mockMachineSettings} />);
+    
+    await user.click(screen.getByText('Show G-Code Import'));
+    const dropZone = screen.getByTestId('gcode-drop-zone');
+    
+    fireEvent.drop(dropZone, { dataTransfer: { files: [new File(['solid'], 'part.stl')] } });
+    expect(parseGCode).not.toHaveBeenCalled();
+    
+    fireEvent.drop(dropZone, { dataTransfer: { files: [new File(['G38.2 X5 F50'], 'edge.TAP')] } });
+    await waitFor(() => {
+      expect(parseGCode).toHaveBeenCalledWith('G38.2 X5 F50', undefined);
+    });
   });
 
   it('clears input and results after successful import', async () => {
@@ -306,7 +441,8 @@ describe('GCodeImport Component', () => {
         preMoves: [],
         postMoves: []
       }],
-      errors: []
+      errors: [],
+      diagnostics: []
     };
     vi.mocked(parseGCode).mockReturnValue(minimalParseResult);
     
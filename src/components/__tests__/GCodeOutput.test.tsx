@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, cleanup } from '@testing-library/react';
+import { render, screen, cleanup, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import GCodeOutput from '../GCodeOutput';
@@ -154,4 +154,42 @@ describe('GCodeOutput Component', () => {
     const textarea = screen.getByRole('textbox');
     expect(textarea).toHaveClass('min-h-96');
   });
+  it('selects the operation that produced a clicked line', () => {
+    const onSelectOperation = vi.fn();
+    const sampleGCode = 'G21\nG38.2 X-10 F100\nG38.2 Y-10 F100\nM30\n';
+    render(
+      <GCodeOutput
+        generatedGCode={sampleGCode}
+        generateGCode={mockGenerateGCode}
+        sourceMap={[null, { operationId: 'probe-1', probeStage: 0 }, { operationId: 'probe-2', probeStage: 0 }, null]}
+        onSelectOperation={onSelectOperation}
+      />,
+      { container }
+    );
+
+    const textarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+    textarea.setSelectionRange(sampleGCode.indexOf('Y-10'), sampleGCode.indexOf('Y-10'));
+    fireEvent.click(textarea);
+    expect(onSelectOperation).toHaveBeenCalledWith('probe-2');
+
+    textarea.setSelectionRange(1, 1);
+    fireEvent.click(textarea);
+    expect(onSelectOperation).toHaveBeenCalledTimes(1);
+  });
+
+  it('highlights the lines of the selected operation', () => {
+    const sampleGCode = 'G21\nG38.2 X-10 F100\nG10 L20 P1 X0\nM30\n';
+    render(
+      <GCodeOutput
+        generatedGCode={sampleGCode}
+        generateGCode={mockGenerateGCode}
+        sourceMap={[null, { operationId: 'probe-1', probeStage: 0 }, { operationId: 'probe-1' }, null]}
+        selectedOperationId="probe-1"
+      />,
+      { container }
+    );
+
+    const textarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+    expect(sampleGCode.slice(textarea.selectionStart, textarea.selectionEnd)).toBe('G38.2 X-10 F100\nG10 L20 P1 X0');
+  });
 });
@@ -1,10 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import MachineSettingsForm from '../MachineSettings';
 import type { MachineSettings } from '@/types/machine';
 import { createMockMachineSettings } from '@/test/mockMachineSettings';
+import { useAppStore } from '@/store';
 
 const mockMachineSettings = createMockMachineSettings({
   units: 'inch',
@@ -319,4 +320,193 @@ describe('MachineSettingsForm Component', () => {
     // Should call updateAxisConfig with NaN, which is how the component currently behaves
     expect(mockUpdateAxisConfig).toHaveBeenCalledWith('X', 'min', NaN);
   });
+
+  it('saves valid program templates', async () => {
+    const user = userEvent.setup();
+    render(
+      <MachineSettingsForm
+        machineSettings={mockMachineSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    const footer = screen.getByLabelText('Footer');
+    await user.clear(footer);
+    await user.type(footer, 'M5{enter}M30');
+    await user.click(screen.getByRole('button', { name: 'Save Templates' }));
+
+    const updater = mockSetMachineSettings.mock.calls[0][0];
+    expect(updater(mockMachineSettings).programTemplates.footer).toBe('M5\nM30');
+  });
+
+  it('does not save templates that fail validation', async () => {
+    const user = userEvent.setup();
+    render(
+      <MachineSettingsForm
+        machineSettings={mockMachineSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    const header = screen.getByLabelText('Header');
+    await user.clear(header);
+    await user.type(header, 'S{{safeSpeed} M3');
+    await user.click(screen.getByRole('button', { name: 'Save Templates' }));
+
+    expect(screen.getByText('Header: Unknown placeholder {safeSpeed}')).toBeInTheDocument();
+    expect(mockSetMachineSettings).not.toHaveBeenCalled();
+  });
+
+  it('enables a rotary axis with default limits', async () => {
+    const user = userEvent.setup();
+    render(
+      <MachineSettingsForm
+        machineSettings={mockMachineSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    expect(screen.queryByLabelText('Min Angle (°)')).not.toBeInTheDocument();
+    await user.click(screen.getByLabelText('A axis (turns about X)'));
+
+    const updater = mockSetMachineSettings.mock.calls[0][0];
+    expect(updater(mockMachineSettings).rotaryAxes).toEqual({ A: { min: -360, max: 360, center: { X: 0, Y: 0, Z: 0 } } });
+  });
+
+  it('updates rotary limits and drops the settings when the last axis is disabled', async () => {
+    const user = userEvent.setup();
+    const rotarySettings = { ...mockMachineSettings, rotaryAxes: { B: { min: 0, max: 180, center: { X: 0, Y: 0, Z: -20 } } } };
+    render(
+      <MachineSettingsForm
+        machineSettings={rotarySettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    const max = screen.getByLabelText('Max Angle (°)');
+    await user.clear(max);
+    expect(mockSetMachineSettings.mock.calls[0][0](rotarySettings).rotaryAxes.B.center).toEqual({ X: 0, Y: 0, Z: -20 });
+
+    mockSetMachineSettings.mockClear();
+    await user.click(screen.getByLabelText('B axis (turns about Y)'));
+    expect(mockSetMachineSettings.mock.calls[0][0](rotarySettings).rotaryAxes).toBeUndefined();
+  });
+
+  it('copies the default motion limits and saves edits to them', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(
+      <MachineSettingsForm
+        machineSettings={mockMachineSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    expect(screen.queryByLabelText('X Max Rate (inch/min)')).not.toBeInTheDocument();
+    await user.click(screen.getByLabelText("Set the machine's motion limits"));
+    const motionLimits = mockSetMachineSettings.mock.calls[0][0](mockMachineSettings).motionLimits;
+    expect(motionLimits.axes.Z).toEqual({ maxRate: 100, acceleration: 6 });
+
+    const limitedSettings = { ...mockMachineSettings, motionLimits };
+    rerender(
+      <MachineSettingsForm
+        machineSettings={limitedSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+    mockSetMachineSettings.mockClear();
+    fireEvent.change(screen.getByLabelText('Z Acceleration (inch/s²)'), { target: { value: '200' } });
+    expect(mockSetMachineSettings.mock.calls[0][0](limitedSettings).motionLimits.axes.Z).toEqual({ maxRate: 100, acceleration: 200 });
+  });
+
+  it('adds, edits and removes library tools', async () => {
+    const user = userEvent.setup();
+    const toolSettings = {
+      ...mockMachineSettings,
+      toolLibrary: [{ id: 'probe', name: 'Touch probe', type: 'touchProbe' as const, tipDiameter: 2, length: 50, probeOnCode: 'M64 P0' }]
+    };
+    render(
+      <MachineSettingsForm
+        machineSettings={toolSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Effective Tip Diameter (mm)'), { target: { value: '1.985' } });
+    expect(mockSetMachineSettings.mock.calls[0][0](toolSettings).toolLibrary[0].tipDiameter).toBe(1.985);
+
+    fireEvent.change(screen.getByLabelText('Probe Enable Code'), { target: { value: ' ' } });
+    expect(mockSetMachineSettings.mock.calls[1][0](toolSettings).toolLibrary[0].probeOnCode).toBeUndefined();
+
+    await user.click(screen.getByRole('button', { name: 'Add Tool' }));
+    expect(mockSetMachineSettings.mock.calls[2][0](toolSettings).toolLibrary).toHaveLength(2);
+
+    await user.click(screen.getByRole('button', { name: 'Remove Tool' }));
+    expect(mockSetMachineSettings.mock.calls[3][0](toolSettings).toolLibrary).toBeUndefined();
+  });
+
+  it('models a library tool as an assembly that sets its gauge length', async () => {
+    const user = userEvent.setup();
+    const tool = { id: 'probe', name: 'Touch probe', type: 'touchProbe' as const, tipDiameter: 2, length: 50 };
+    const { rerender } = render(
+      <MachineSettingsForm
+        machineSettings={{ ...mockMachineSettings, toolLibrary: [tool] }}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    await user.click(screen.getByLabelText('Model Tool Assembly'));
+    const [modelled] = mockSetMachineSettings.mock.calls[0][0]({ ...mockMachineSettings, toolLibrary: [tool] }).toolLibrary;
+    expect(modelled.assembly.cutter).toEqual({ length: 20, diameter: 2 });
+
+    rerender(
+      <MachineSettingsForm
+        machineSettings={{ ...mockMachineSettings, toolLibrary: [modelled] }}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+    expect(screen.getByLabelText('Length (mm)')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Holder Length (mm)'), { target: { value: '30' } });
+    const [lengthened] = mockSetMachineSettings.mock.calls[1][0]({ ...mockMachineSettings, toolLibrary: [modelled] }).toolLibrary;
+    expect(lengthened.assembly.holder.length).toBe(30);
+    expect(lengthened.length).toBe(65);
+
+    fireEvent.change(screen.getByLabelText('Holder Top Diameter (mm)'), { target: { value: '40' } });
+    expect(mockSetMachineSettings.mock.calls[2][0]({ ...mockMachineSettings, toolLibrary: [modelled] }).toolLibrary[0].assembly.holder)
+      .toEqual({ length: 15, diameter: 32, topDiameter: 40 });
+  });
+
+  it('creates, renames and imports machine profiles', async () => {
+    const user = userEvent.setup();
+    useAppStore.getState().resetToDefaults();
+    render(
+      <MachineSettingsForm
+        machineSettings={mockMachineSettings}
+        setMachineSettings={mockSetMachineSettings}
+        updateAxisConfig={mockUpdateAxisConfig}
+      />
+    );
+
+    expect(screen.getByRole('button', { name: 'Delete' })).toBeDisabled();
+
+    await user.click(screen.getByRole('button', { name: 'New Profile' }));
+    expect(screen.getByLabelText('Profile Name')).toHaveValue('New machine');
+
+    fireEvent.change(screen.getByLabelText('Profile Name'), { target: { value: '' } });
+    fireEvent.change(screen.getByLabelText('Profile Name'), { target: { value: 'Tormach' } });
+    expect(useAppStore.getState().machineProfiles.map(profile => profile.name)).toEqual(['Horizontal mill', 'Tormach']);
+
+    const file = new File(['{"format": "something-else"}'], 'profiles.json', { type: 'application/json' });
+    await user.upload(screen.getByTestId('profile-file-input'), file);
+    expect(await screen.findByText('The file is not a machine profile export')).toBeInTheDocument();
+  });
 });
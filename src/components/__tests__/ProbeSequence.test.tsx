@@ -31,6 +31,15 @@ describe('ProbeSequence', () => {
     onProbeSequenceSettingsChange: mockOnProbeSequenceSettingsChange
   };
 
+  const defaultSettingsForProfiles: ProbeSequenceSettings = {
+    initialPosition: { X: -78, Y: -100, Z: -41 },
+    dwellsBeforeProbe: 15,
+    spindleSpeed: 5000,
+    units: 'mm',
+    endmillSize: { input: '1/8', unit: 'fraction', sizeInMM: 3.175 },
+    operations: []
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
@@ -200,6 +209,124 @@ describe('ProbeSequence', () => {
     expect(mockOnProbeSequenceChange).toHaveBeenCalled();
   });
 
+  it('switches an operation to a composite kind', async () => {
+    render(<ProbeSequence {...defaultProps} />);
+    
+    fireEvent.click(screen.getByText(/Add Probe Operation/i));
+    await waitFor(() => {
+      expect(screen.getByText('Probe Operation 1')).toBeInTheDocument();
+    });
+    
+    fireEvent.click(screen.getByRole('combobox', { name: 'Operation type' }));
+    fireEvent.click(await screen.findByText('Bore center'));
+    
+    await waitFor(() => {
+      expect(screen.getByLabelText(/Expected Size/)).toHaveValue('20');
+    });
+    expect(screen.getByLabelText(/Clearance/)).toHaveValue('5');
+    expect(screen.queryByText(/^Distance/)).not.toBeInTheDocument();
+    
+    fireEvent.change(screen.getByLabelText(/Expected Size/), { target: { value: '32' } });
+    const operations = mockOnProbeSequenceChange.mock.calls[mockOnProbeSequenceChange.mock.calls.length - 1][0];
+    expect(operations[0].composite).toEqual({ kind: 'boreCenter', size: 32, clearance: 5, depth: 5 });
+  });
+
+  it('switches an operation to an edge angle with coordinate rotation', async () => {
+    render(<ProbeSequence {...defaultProps} />);
+    
+    fireEvent.click(screen.getByText(/Add Probe Operation/i));
+    await waitFor(() => {
+      expect(screen.getByText('Probe Operation 1')).toBeInTheDocument();
+    });
+    
+    fireEvent.click(screen.getByRole('combobox', { name: 'Operation type' }));
+    fireEvent.click(await screen.findByText('Edge angle'));
+    
+    await waitFor(() => {
+      expect(screen.getByLabelText(/Touch Spacing/)).toHaveValue('20');
+    });
+    expect(screen.getByText(/^Direction/)).toBeInTheDocument();
+    expect(screen.queryByText(/^Distance/)).not.toBeInTheDocument();
+    
+    fireEvent.click(screen.getByLabelText(/Rotate coordinates/));
+    const operations = mockOnProbeSequenceChange.mock.calls[mockOnProbeSequenceChange.mock.calls.length - 1][0];
+    expect(operations[0].composite).toMatchObject({ kind: 'edgeAngle', rotateCoordinates: true });
+  });
+
+  it('indexes an operation on a configured rotary axis', async () => {
+    const rotaryMachineSettings = createMockMachineSettings({
+      rotaryAxes: { A: { min: -90, max: 90, center: { X: 0, Y: 0, Z: 0 } } }
+    });
+    render(<ProbeSequence {...defaultProps} machineSettings={rotaryMachineSettings} />);
+    
+    fireEvent.click(screen.getByText(/Add Probe Operation/i));
+    await waitFor(() => {
+      expect(screen.getByText('Probe Operation 1')).toBeInTheDocument();
+    });
+    expect(screen.queryByLabelText(/B Index Angle/)).not.toBeInTheDocument();
+    
+    fireEvent.change(screen.getByLabelText(/A Index Angle/), { target: { value: '90' } });
+    const lastOperations = () => mockOnProbeSequenceChange.mock.calls[mockOnProbeSequenceChange.mock.calls.length - 1][0];
+    expect(lastOperations()[0].rotaryIndex).toEqual({ A: 90 });
+    
+    fireEvent.change(screen.getByLabelText(/A Index Angle/), { target: { value: '' } });
+    expect(lastOperations()[0].rotaryIndex).toBeUndefined();
+  });
+
+  it('probes with the tip diameter of the selected library tool', async () => {
+    const toolMachineSettings = createMockMachineSettings({
+      toolLibrary: [
+        { id: 'probe', name: 'Touch probe', type: 'touchProbe', tipDiameter: 2, length: 50 },
+        { id: 'endmill', name: '6mm endmill', type: 'endmill', tipDiameter: 6, length: 30 }
+      ]
+    });
+    render(<ProbeSequence {...defaultProps} machineSettings={toolMachineSettings} />);
+
+    fireEvent.click(screen.getByText(/Add Probe Operation/i));
+    fireEvent.click(screen.getByRole('combobox', { name: 'Sequence tool' }));
+    fireEvent.click(await screen.findByText('Touch probe (3D touch probe)'));
+
+    const lastSettings = () => mockOnProbeSequenceSettingsChange.mock.calls[mockOnProbeSequenceSettingsChange.mock.calls.length - 1][0];
+    const lastOperations = () => mockOnProbeSequenceChange.mock.calls[mockOnProbeSequenceChange.mock.calls.length - 1][0];
+    await waitFor(() => {
+      expect(lastSettings()).toMatchObject({ toolId: 'probe', endmillSize: { sizeInMM: 2 } });
+    });
+    expect(screen.getByDisplayValue('2')).toBeDisabled();
+    expect(lastOperations()[0].wcsOffset).toBe(1);
+
+    fireEvent.click(screen.getByRole('combobox', { name: 'Operation tool' }));
+    fireEvent.click(await screen.findByText('6mm endmill'));
+    expect(lastOperations()[0]).toMatchObject({ toolId: 'endmill', wcsOffset: 3 });
+  });
+
+  it('resolves field expressions against variables and the stock', async () => {
+    render(<ProbeSequence {...defaultProps} stockSize={[40, 30, 10]} />);
+
+    fireEvent.click(screen.getByText(/Add Probe Operation/i));
+    fireEvent.click(screen.getByText('Add Variable'));
+    fireEvent.change(screen.getByLabelText('Variable 1 name'), { target: { value: 'clearance' } });
+    fireEvent.change(screen.getByLabelText('Variable 1 expression'), { target: { value: '5' } });
+    await waitFor(() => {
+      expect(screen.getByText('Probe Operation 1')).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByDisplayValue('25'), { target: { value: 'stock.width/2 + clearance' } });
+    expect(screen.getByDisplayValue('stock.width/2 + clearance')).toBeInTheDocument();
+    expect(screen.getByText('= 25')).toBeInTheDocument();
+    const lastOperations = () => mockOnProbeSequenceChange.mock.calls[mockOnProbeSequenceChange.mock.calls.length - 1][0];
+    expect(lastOperations()[0]).toMatchObject({ distance: 25, expressions: { distance: 'stock.width/2 + clearance' } });
+
+    // Changing the variable re-resolves the field
+    fireEvent.change(screen.getByLabelText('Variable 1 expression'), { target: { value: '8' } });
+    await waitFor(() => {
+      expect(lastOperations()[0].distance).toBe(28);
+    });
+
+    fireEvent.change(screen.getByDisplayValue('stock.width/2 + clearance'), { target: { value: 'stock.width + gap' } });
+    expect(screen.getByText("Unknown name 'gap'")).toBeInTheDocument();
+    expect(lastOperations()[0].distance).toBe(28);
+  });
+
   it('updates probe operation distance', () => {
     render(<ProbeSequence {...defaultProps} />);
     
@@ -654,6 +781,43 @@ describe('ProbeSequence', () => {
     expect(screen.getByText(/Operation 1/i)).toBeInTheDocument();
   });
 
+  it('shows imported raw steps read-only', () => {
+    const initialProbeSequence: ProbeOperation[] = [{
+      id: 'probe-1',
+      axis: 'Y',
+      direction: -1,
+      distance: 25,
+      feedRate: 10,
+      backoffDistance: 1,
+      wcsOffset: 1.5875,
+      preMoves: [],
+      postMoves: [{ id: 'raw-1', type: 'raw', description: 'Coolant on', rawText: 'M8 (Coolant on)' }]
+    }];
+
+    render(
+      <ProbeSequence
+        {...defaultProps}
+        initialData={{
+          probeSequence: initialProbeSequence,
+          probeSequenceSettings: {
+            initialPosition: { X: -78, Y: -100, Z: -41 },
+            dwellsBeforeProbe: 15,
+            spindleSpeed: 5000,
+            units: 'mm',
+            endmillSize: { input: '1/8', unit: 'fraction', sizeInMM: 3.175 },
+            operations: []
+          }
+        }}
+      />
+    );
+
+    fireEvent.click(screen.getByText('1 Post-Probe Movements'));
+
+    expect(screen.getByText('Imported G-code (read-only)')).toBeInTheDocument();
+    expect(screen.getByTestId('raw-step-raw-1')).toHaveTextContent('M8 (Coolant on)');
+    expect(screen.queryByDisplayValue('Coolant on')).not.toBeInTheDocument();
+  });
+
   it('handles tool size unit changes', () => {
     render(<ProbeSequence {...defaultProps} />);
     
@@ -935,4 +1099,64 @@ describe('ProbeSequence', () => {
       }
     }
   });
+
+  it('warns when the sequence was authored for another profile and adopts the active one', () => {
+    const settings = { ...defaultSettingsForProfiles, profileId: 'router' };
+    const profiles = [
+      { id: 'router', name: 'Shop router' },
+      { id: 'mill', name: 'Haas VF-2' }
+    ].map(({ id, name }) => ({
+      id,
+      name,
+      machineSettings: mockMachineSettings,
+      probingDefaults: settings,
+      dialect: 'linuxcnc' as const
+    }));
+
+    render(
+      <ProbeSequence
+        {...defaultProps}
+        initialData={{ probeSequence: [], probeSequenceSettings: settings }}
+        machineProfiles={profiles}
+        activeProfileId="mill"
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('This sequence was authored for Shop router, not the active profile Haas VF-2');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use Active Profile' }));
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(mockOnProbeSequenceSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ profileId: 'mill' }));
+  });
+
+  it('offers only the work offsets the dialect can select', () => {
+    const operation: ProbeOperation = {
+      id: 'probe-1', axis: 'X', direction: -1, distance: 25, feedRate: 10, backoffDistance: 1, wcsOffset: 0,
+      wcsIndex: 10, preMoves: [], postMoves: []
+    };
+    const renderWithDialect = (dialect: ProbeSequenceSettings['dialect']) => render(
+      <ProbeSequence
+        {...defaultProps}
+        initialData={{ probeSequence: [operation], probeSequenceSettings: { ...defaultSettingsForProfiles, dialect } }}
+      />
+    );
+
+    const { unmount } = renderWithDialect('fanuc');
+    expect(screen.getByText('G54.1 P4')).toBeInTheDocument();
+    expect(screen.queryByText(/cannot select work offset/)).not.toBeInTheDocument();
+    unmount();
+
+    renderWithDialect('grbl');
+    expect(screen.getByText('GRBL cannot select work offset P10')).toBeInTheDocument();
+  });
+
+  it('records the active profile when the first operation is added', () => {
+    render(<ProbeSequence {...defaultProps} activeProfileId="mill" />);
+
+    fireEvent.click(screen.getByText('Add Probe Operation'));
+
+    expect(mockOnProbeSequenceSettingsChange).toHaveBeenLastCalledWith(expect.objectContaining({ profileId: 'mill' }));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
 });
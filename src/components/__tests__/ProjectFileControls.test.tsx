@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import ProjectFileControls from '../ProjectFileControls';
+import { useAppStore } from '@/store';
+
+describe('ProjectFileControls', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetToDefaults();
+  });
+
+  it('saves the job and opens it again in place of later edits', async () => {
+    const user = userEvent.setup();
+    let saved: Blob | undefined;
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      saved = blob;
+      return 'blob:project';
+    });
+    URL.revokeObjectURL = vi.fn();
+
+    useAppStore.getState().addProbeOperation({ id: 'probe-1', axis: 'Z' });
+    useAppStore.getState().setVisualizationSettings({ stockSize: [60, 40, 12] });
+    render(<ProjectFileControls />);
+
+    await user.click(screen.getByRole('button', { name: 'Save Project' }));
+    await waitFor(() => expect(saved).toBeDefined());
+
+    useAppStore.getState().resetToDefaults();
+    const importCounter = useAppStore.getState().importCounter;
+    await user.upload(screen.getByTestId('project-file-input'), new File([await saved!.text()], 'job.mps'));
+
+    const state = useAppStore.getState();
+    expect(state.probeSequence.map(probe => probe.id)).toEqual(['probe-1']);
+    expect(state.visualizationSettings.stockSize).toEqual([60, 40, 12]);
+    expect(state.importCounter).toBe(importCounter + 1);
+  });
+
+  it('reports why a file cannot be opened and keeps the current job', async () => {
+    const user = userEvent.setup();
+    useAppStore.getState().addProbeOperation({ id: 'probe-1' });
+    render(<ProjectFileControls />);
+
+    const broken = JSON.stringify({ format: 'mill-probe-studio-project', version: 2, state: { machineSettings: {} } });
+    await user.upload(screen.getByTestId('project-file-input'), new File([broken], 'broken.mps'));
+
+    expect(await screen.findByText('Could not open broken.mps: machineSettings.units is invalid')).toBeInTheDocument();
+    expect(useAppStore.getState().probeSequence).toHaveLength(1);
+  });
+});
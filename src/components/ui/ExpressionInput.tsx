@@ -0,0 +1,65 @@
+// src/components/ui/ExpressionInput.tsx
+// Numeric input that also accepts an expression, showing what it evaluates to
+
+import React from 'react';
+import { Input } from './input';
+import { evaluateExpression, isLiteralNumber, type ExpressionScope } from '@/utils/expressions';
+
+interface ExpressionInputProps {
+  id?: string;
+  value: number | undefined;
+  expression?: string;
+  scope: ExpressionScope;
+  // `expression` is undefined when a plain number (or nothing) was entered
+  onChange: (value: number | undefined, expression: string | undefined) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const formatValue = (value: number): string => String(Math.round(value * 1e4) / 1e4);
+
+export const ExpressionInput: React.FC<ExpressionInputProps> = ({
+  id,
+  value,
+  expression,
+  scope,
+  onChange,
+  placeholder,
+  disabled,
+  className
+}) => {
+  const handleChange = (text: string) => {
+    if (text.trim() === '') {
+      onChange(undefined, undefined);
+    } else if (isLiteralNumber(text)) {
+      onChange(parseFloat(text), undefined);
+    } else {
+      // An expression that does not evaluate yet keeps the last value
+      const result = evaluateExpression(text, scope);
+      onChange('error' in result ? value : result.value, text);
+    }
+  };
+
+  const result = expression !== undefined ? evaluateExpression(expression, scope) : undefined;
+  const text = expression ?? (value === undefined || Number.isNaN(value) ? '' : String(value));
+
+  return (
+    <>
+      <Input
+        id={id}
+        type="text"
+        inputMode="decimal"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={className}
+      />
+      {result && ('error' in result
+        ? <p className="text-xs text-destructive mt-1">{result.error}</p>
+        : <p className="text-xs text-muted-foreground mt-1">= {formatValue(result.value)}</p>
+      )}
+    </>
+  );
+};
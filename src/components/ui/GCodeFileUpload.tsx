@@ -0,0 +1,96 @@
+import React, { useCallback, useRef } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Upload, Loader2 } from 'lucide-react';
+import { GCODE_FILE_EXTENSIONS, isGCodeFile } from '@/utils/gcodeFiles';
+
+export interface GCodeFileUploadProps {
+  onFileSelected: (file: File) => Promise<void> | void;
+  progress?: number | null; // Fraction read while a file is loading
+  disabled?: boolean;
+}
+
+/**
+ * Drop zone and file picker for G-code program files (.nc, .gcode, .tap, .ngc)
+ */
+export const GCodeFileUpload: React.FC<GCodeFileUploadProps> = ({
+  onFileSelected,
+  progress = null,
+  disabled = false
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isLoading = progress !== null;
+
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      await onFileSelected(file);
+    }
+    // Allow picking the same file again after editing it on disk
+    event.target.value = '';
+  }, [onFileSelected]);
+
+  const handleButtonClick = useCallback(() => {
+    if (!disabled && !isLoading) {
+      fileInputRef.current?.click();
+    }
+  }, [disabled, isLoading]);
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+  }, []);
+
+  const handleDrop = useCallback(async (event: React.DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (disabled || isLoading) return;
+
+    const validFile = Array.from(event.dataTransfer.files).find(file => isGCodeFile(file.name));
+    if (validFile) {
+      await onFileSelected(validFile);
+    }
+  }, [disabled, isLoading, onFileSelected]);
+
+  return (
+    <div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={GCODE_FILE_EXTENSIONS.join(',')}
+        onChange={handleFileChange}
+        disabled={disabled}
+        className="hidden"
+        data-testid="gcode-file-input"
+      />
+
+      <Card
+        className="border-dashed cursor-pointer hover:bg-muted/50 transition-colors"
+        onClick={handleButtonClick}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        data-testid="gcode-drop-zone"
+      >
+        <CardContent className="p-4 text-center">
+          {isLoading ? (
+            <>
+              <Loader2 className="h-6 w-6 mx-auto mb-2 text-blue-500 animate-spin" />
+              <p className="text-sm text-muted-foreground">
+                Reading file... {Math.round(progress * 100)}%
+              </p>
+            </>
+          ) : (
+            <>
+              <Upload className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground mb-1">
+                Click to open a G-code file or drag and drop
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {GCODE_FILE_EXTENSIONS.join(', ')} files
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -67,6 +67,36 @@ export const CoordinateAxes: React.FC<CoordinateAxesProps> = ({
   );
 };
 
+export interface WorkOffsetOriginsProps {
+  origins: Array<{ label: string; position: [number, number, number] }>;
+  size: number;
+}
+
+/**
+ * Work coordinate system origins (G54, G55, ...) set by the probe sequence
+ */
+export const WorkOffsetOrigins: React.FC<WorkOffsetOriginsProps> = ({
+  origins,
+  size
+}) => (
+  <group>
+    {origins.map(({ label, position }) => (
+      <group key={label}>
+        <CoordinateAxes size={size} origin={position} />
+        <Text
+          position={[position[0], position[1], position[2] - 1]}
+          fontSize={0.8}
+          color={DEFAULT_VISUALIZATION_CONFIG.colors.axes.z}
+          anchorX="center"
+          anchorY="middle"
+        >
+          {label}
+        </Text>
+      </group>
+    ))}
+  </group>
+);
+
 export interface EnhancedAxisLabelsProps {
   workspaceBounds: WorkspaceBounds;
   units: string;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useCrashReport,
+  useGeneratedGCode,
+  useGeneratedSourceMap,
+  useMachineSettings,
+  useMachineSettingsActions,
+  useProbeSequence
+} from '@/store';
+import type { SpindleNose } from '@/types/machine';
+import { DEFAULT_TOOL_LENGTH, type Position3D } from '@/utils/machine/VirtualMill';
+import type { ToolPart } from '@/utils/machine/sweptCollision';
+import { findSourceLine } from '@/utils/gcodeSourceMap';
+
+const DEFAULT_SPINDLE_NOSE: Record<'mm' | 'inch', SpindleNose> = {
+  mm: { diameter: 40, length: 60 },
+  inch: { diameter: 1.5, length: 2.5 }
+};
+
+const partLabels: Record<ToolPart, string> = {
+  tool: 'Tool',
+  cutter: 'Cutter',
+  shank: 'Shank',
+  holder: 'Holder',
+  spindleNose: 'Spindle nose'
+};
+const obstacleLabels = { stock: 'stock', model: 'model', stage: 'stage' };
+
+/**
+ * Moves the simulated sequence runs into the stock, custom model or stage,
+ * with the G-code line each one comes from
+ */
+export const CrashReport: React.FC = () => {
+  const crashes = useCrashReport();
+  const probeSequence = useProbeSequence();
+  const gcode = useGeneratedGCode();
+  const sourceMap = useGeneratedSourceMap();
+  const machineSettings = useMachineSettings();
+  const { setMachineSettings } = useMachineSettingsActions();
+
+  const { units, spindleNose } = machineSettings;
+  const gcodeLines = gcode.split('\n');
+  const format = (position: Position3D) =>
+    (['X', 'Y', 'Z'] as const).map(axis => `${axis}${position[axis].toFixed(units === 'inch' ? 4 : 3)}`).join(' ');
+  const operationNumber = (id: string) => probeSequence.findIndex(operation => operation.id === id) + 1;
+  const readNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+  const setSpindleNose = (nose: SpindleNose | undefined) =>
+    setMachineSettings(prev => ({ ...prev, spindleNose: nose }));
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex items-center space-x-2 pb-2">
+          <Checkbox
+            id="crash-spindle-nose"
+            checked={spindleNose !== undefined}
+            onCheckedChange={(checked) => setSpindleNose(checked === true ? DEFAULT_SPINDLE_NOSE[units] : undefined)}
+          />
+          <Label htmlFor="crash-spindle-nose" className="text-sm">Check the spindle nose</Label>
+        </div>
+        {spindleNose && (
+          <>
+            <div>
+              <Label htmlFor="spindle-nose-diameter" className="text-sm">Nose diameter ({units})</Label>
+              <Input
+                id="spindle-nose-diameter"
+                type="number"
+                min={0}
+                step="any"
+                value={spindleNose.diameter}
+                onChange={(e) => setSpindleNose({ ...spindleNose, diameter: readNumber(e.target.value) })}
+                className="w-28"
+              />
+            </div>
+            <div>
+              <Label htmlFor="spindle-nose-length" className="text-sm">Nose length ({units})</Label>
+              <Input
+                id="spindle-nose-length"
+                type="number"
+                min={0}
+                step="any"
+                value={spindleNose.length}
+                onChange={(e) => setSpindleNose({ ...spindleNose, length: readNumber(e.target.value) })}
+                className="w-28"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {crashes.length === 0 ? (
+        <div className="text-muted-foreground">
+          No crashes. Every rapid and linear move clears the stock, model and stage.
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="py-1 pr-2">Step</th>
+              <th className="py-1 pr-2">G-code</th>
+              <th className="py-1 pr-2">Hit</th>
+              <th className="py-1 pr-2">Tool at</th>
+              <th className="py-1">Contact</th>
+            </tr>
+          </thead>
+          <tbody>
+            {crashes.map((crash, index) => {
+              const line = findSourceLine(sourceMap, crash.source);
+              return (
+                <tr key={`${crash.stepId}-${index}`} className="border-b last:border-0 align-top">
+                  <td className="py-1 pr-2">
+                    {crash.stepIndex + 1}
+                    <div className="text-xs text-muted-foreground">operation #{operationNumber(crash.source.operationId)}</div>
+                  </td>
+                  <td className="py-1 pr-2 font-mono text-xs">
+                    {line === -1 ? '—' : <>Line {line + 1}: {gcodeLines[line]}</>}
+                  </td>
+                  <td className="py-1 pr-2">
+                    <Badge variant="destructive">{partLabels[crash.part]} → {obstacleLabels[crash.obstacle]}</Badge>
+                  </td>
+                  <td className="py-1 pr-2 font-mono text-xs">{format(crash.toolPosition)}</td>
+                  <td className="py-1 font-mono text-xs">{format(crash.contactPoint)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        The tool is swept as its library assembly of cutter, shank and holder, or else as a cylinder of its tip diameter and gauge
+        length ({DEFAULT_TOOL_LENGTH} mm without a library tool), standing on its tip. Probe moves only check the parts above the tip.
+        Positions are in machine coordinates; crashes are marked in red in the scene.
+      </p>
+    </div>
+  );
+};
+
+export default CrashReport;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useCycleTime, useProbeSequence } from '@/store';
+import { formatDuration } from '@/utils/cycleTime';
+
+/**
+ * How long the simulated sequence takes, split by operation into moves,
+ * probing and dwells
+ */
+export const CycleTimeReport: React.FC = () => {
+  const cycleTime = useCycleTime();
+  const probeSequence = useProbeSequence();
+
+  if (!cycleTime || cycleTime.operations.length === 0) {
+    return <div className="text-muted-foreground">Run the simulation to estimate the cycle time.</div>;
+  }
+
+  const operationNumber = (id: string) => probeSequence.findIndex(operation => operation.id === id) + 1;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="text-sm">
+        Estimated cycle time: <span className="font-semibold">{formatDuration(cycleTime.total)}</span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground border-b">
+            <th className="py-1 pr-2">Operation</th>
+            <th className="py-1 pr-2">Moves</th>
+            <th className="py-1 pr-2">Probing</th>
+            <th className="py-1 pr-2">Dwells</th>
+            <th className="py-1">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cycleTime.operations.map(operation => (
+            <tr key={operation.operationId} className="border-b last:border-0">
+              <td className="py-1 pr-2">#{operationNumber(operation.operationId)}</td>
+              <td className="py-1 pr-2 font-mono text-xs">{formatDuration(operation.moves)}</td>
+              <td className="py-1 pr-2 font-mono text-xs">{formatDuration(operation.probing)}</td>
+              <td className="py-1 pr-2 font-mono text-xs">{formatDuration(operation.dwells)}</td>
+              <td className="py-1 font-mono text-xs">{formatDuration(operation.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-muted-foreground">
+        Moves accelerate up to the machine's motion limits and blend through corners; probes start and stop at rest and
+        run until the predicted trip. Probing time assumes every probe triggers where the simulation predicts.
+      </p>
+    </div>
+  );
+};
+
+export default CycleTimeReport;
@@ -1,6 +1,7 @@
 import React, { useCallback, useState, useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { DEFAULT_VISUALIZATION_CONFIG } from '@/config/visualization/visualizationConfig';
+import type { ToolType } from '@/types/machine';
 
 export interface InteractiveStockProps {
   position: [number, number, number];
@@ -110,6 +111,7 @@ export interface ToolVisualizationProps {
   position: [number, number, number];
   diameter: number;
   length: number;
+  toolType?: ToolType; // Touch probes are drawn as a stylus with a ball tip
   onHover?: (position: [number, number, number] | null) => void;
   onSelect?: () => void;
   isSelected?: boolean;
@@ -123,11 +125,13 @@ export const ToolVisualization: React.FC<ToolVisualizationProps> = ({
   position,
   diameter,
   length,
+  toolType,
   onHover,
   onSelect,
   isSelected = false
 }) => {
   const [isHovered, setIsHovered] = useState(false);
+  const isTouchProbe = toolType === 'touchProbe';
 
   const handlePointerDown = useCallback((event: React.PointerEvent) => {
     event?.stopPropagation?.();
@@ -174,7 +178,7 @@ export const ToolVisualization: React.FC<ToolVisualizationProps> = ({
   // The difference is handled at the scene level through rotations
   return (
     <group position={position}>
-      {/* Tool shank - extends upward from tip */}
+      {/* Tool shank (or probe stylus stem) - extends upward from tip */}
       <mesh 
         position={[0, 0, length / 2]}
         rotation={[Math.PI / 2, 0, 0]}
@@ -183,18 +187,18 @@ export const ToolVisualization: React.FC<ToolVisualizationProps> = ({
         onPointerMove={handlePointerMove}
         onPointerLeave={handlePointerLeave}
       >
-        <cylinderGeometry args={[diameter / 2, diameter / 2, length, 16]} />
+        <cylinderGeometry args={isTouchProbe ? [diameter / 4, diameter / 4, length, 16] : [diameter / 2, diameter / 2, length, 16]} />
         <meshStandardMaterial color={colors.shank} />
       </mesh>
       
-      {/* Tool tip indicator - at group position */}
+      {/* Tool tip indicator, or the stylus ball centered on the trip point - at group position */}
       <mesh 
         position={[0, 0, 0]}
         onPointerEnter={handlePointerEnter}
         onPointerMove={handlePointerMove}
         onPointerLeave={handlePointerLeave}
       >
-        <sphereGeometry args={[diameter / 4, 8, 8]} />
+        <sphereGeometry args={isTouchProbe ? [diameter / 2, 16, 16] : [diameter / 4, 8, 8]} />
         <meshStandardMaterial color={colors.tip} />
       </mesh>
     </group>
@@ -292,3 +296,30 @@ export const HorizontalStage: React.FC<HorizontalStageProps> = ({
     </mesh>
   );
 };
+
+export interface RotaryStageProps {
+  axis: 'X' | 'Y'; // Linear axis the stage turns about (A and B)
+  pivot: [number, number, number]; // A point on the rotation axis, in scene coordinates
+  angle: number; // Degrees, counterclockwise looking down the axis
+  children: React.ReactNode;
+}
+
+/**
+ * Rotary table or trunnion stage that turns what it carries about a line through `pivot`
+ */
+export const RotaryStage: React.FC<RotaryStageProps> = ({
+  axis,
+  pivot,
+  angle,
+  children
+}) => {
+  const radians = angle * Math.PI / 180;
+  const rotation: [number, number, number] = axis === 'X' ? [radians, 0, 0] : [0, radians, 0];
+  return (
+    <group position={pivot} rotation={rotation}>
+      <group position={[-pivot[0], -pivot[1], -pivot[2]]}>
+        {children}
+      </group>
+    </group>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Play } from "lucide-react";
+import { useAppStore, useMachineSettings, useMachineSettingsActions, useProbeSequence, useProbeSequenceSettings } from '@/store';
+import { useCustomModelInfo } from '@/hooks/visualization/useCustomModelInfo';
+import type { ProbeErrorModel } from '@/types/machine';
+import { DEFAULT_PROBE_ERROR_MODEL } from '@/utils/probeErrorModel';
+import {
+  DEFAULT_UNCERTAINTY_RUNS,
+  MAX_UNCERTAINTY_RUNS,
+  meetsTolerance,
+  runProbeUncertaintyInChunks,
+  type AxisUncertainty,
+  type SampleSummary
+} from '@/utils/probeUncertainty';
+import { DEFAULT_WCS_TOLERANCE } from '@/utils/wcsVerification';
+import { getWcsCode } from '@/utils/workCoordinateSystems';
+
+const modelFields: { field: keyof ProbeErrorModel; label: string; inUnits: boolean }[] = [
+  { field: 'repeatability', label: 'Repeatability (1σ)', inUnits: true },
+  { field: 'preTravel', label: 'Pre-travel', inUnits: true },
+  { field: 'triggerDelay', label: 'Trigger delay (ms)', inUnits: false },
+  { field: 'stockPlacement', label: 'Stock placement (±)', inUnits: true },
+  { field: 'backlash', label: 'Backlash', inUnits: true }
+];
+
+const Histogram: React.FC<{ summary: SampleSummary; label: string }> = ({ summary, label }) => {
+  const tallest = Math.max(...summary.histogram);
+  return (
+    <div role="img" aria-label={label} className="flex items-end gap-px h-16 border-b">
+      {summary.histogram.map((count, bin) => (
+        <div
+          key={bin}
+          className="flex-1 bg-primary/70"
+          style={{ height: `${(count / tallest) * 100}%` }}
+          title={`${count}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Runs the sequence many times with randomized probe trips and shows how
+ * widely each work offset origin lands
+ */
+export const ProbeUncertaintyPanel: React.FC = () => {
+  const machineSettings = useMachineSettings();
+  const { setMachineSettings } = useMachineSettingsActions();
+  const probeSequence = useProbeSequence();
+  const probeSequenceSettings = useProbeSequenceSettings();
+  const visualizationSettings = useAppStore(state => state.visualizationSettings);
+  const { customModelInfo } = useCustomModelInfo(
+    visualizationSettings.modelFile,
+    visualizationSettings.stockSize,
+    visualizationSettings.stockPosition,
+    visualizationSettings.stockRotation
+  );
+
+  const { units } = machineSettings;
+  const model = machineSettings.probeErrorModel ?? DEFAULT_PROBE_ERROR_MODEL[units];
+  const [runs, setRuns] = useState(DEFAULT_UNCERTAINTY_RUNS);
+  const [tolerance, setTolerance] = useState(DEFAULT_WCS_TOLERANCE[units]);
+  const [results, setResults] = useState<AxisUncertainty[] | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // Fraction of the runs done while running
+  const runRef = useRef<AbortController | null>(null);
+
+  // Results and any unfinished run belong to the sequence, machine and stock they were run for
+  const { stockSize, stockPosition, stockRotation } = visualizationSettings;
+  useEffect(() => {
+    runRef.current?.abort();
+    setResults(null);
+    setProgress(null);
+  }, [machineSettings, probeSequence, probeSequenceSettings, stockSize, stockPosition, stockRotation, customModelInfo]);
+
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const format = (value: number) => value.toFixed(units === 'inch' ? 5 : 4);
+  const readNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+  const updateModel = (field: keyof ProbeErrorModel, value: number) =>
+    setMachineSettings(prev => ({ ...prev, probeErrorModel: { ...model, [field]: value } }));
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    runRef.current = controller;
+    setResults(null);
+    setProgress(0);
+
+    const uncertainty = await runProbeUncertaintyInChunks(
+      {
+        machineSettings,
+        sequence: { ...probeSequenceSettings, operations: probeSequence },
+        stockSize,
+        stockPosition,
+        stockRotation,
+        customModel: customModelInfo
+      },
+      model,
+      Math.min(Math.max(runs, 1), MAX_UNCERTAINTY_RUNS),
+      { onProgress: setProgress, signal: controller.signal }
+    );
+    if (controller.signal.aborted) return;
+    setResults(uncertainty ?? null);
+    setProgress(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {modelFields.map(({ field, label, inUnits }) => (
+          <div key={field}>
+            <Label htmlFor={`probe-error-${field}`} className="text-sm">{inUnits ? `${label} (${units})` : label}</Label>
+            <Input
+              id={`probe-error-${field}`}
+              type="number"
+              min={0}
+              step="any"
+              value={model[field]}
+              onChange={(e) => updateModel(field, readNumber(e.target.value))}
+            />
+          </div>
+        ))}
+        <div>
+          <Label htmlFor="uncertainty-runs" className="text-sm">Runs</Label>
+          <Input
+            id="uncertainty-runs"
+            type="number"
+            min={1}
+            max={MAX_UNCERTAINTY_RUNS}
+            value={runs}
+            onChange={(e) => setRuns(Math.round(readNumber(e.target.value)))}
+          />
+        </div>
+        <div>
+          <Label htmlFor="uncertainty-tolerance" className="text-sm">Tolerance (± {units})</Label>
+          <Input
+            id="uncertainty-tolerance"
+            type="number"
+            min={0}
+            step="any"
+            value={tolerance}
+            onChange={(e) => setTolerance(readNumber(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <div>
+        <Button size="sm" onClick={handleRun} disabled={probeSequence.length === 0 || progress !== null}>
+          <Play className="w-4 h-4 mr-2" />
+          Run Simulations
+        </Button>
+        {progress !== null && (
+          <span className="ml-3 text-sm text-muted-foreground">Running... {Math.round(progress * 100)}%</span>
+        )}
+      </div>
+
+      {results && results.length === 0 && (
+        <div className="text-muted-foreground">The sequence sets no work offsets.</div>
+      )}
+
+      {results && results.map(result => {
+        const name = `${getWcsCode(result.wcsIndex)} ${result.axis}`;
+        const meets = meetsTolerance(result, tolerance);
+        return (
+          <div key={name} className="border rounded p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">{name}</span>
+              {meets !== undefined && (
+                <Badge variant={meets ? 'secondary' : 'destructive'}>
+                  {meets ? 'Within tolerance' : 'Exceeds tolerance'}
+                </Badge>
+              )}
+            </div>
+            <Histogram summary={result.origins} label={`${name} origin histogram`} />
+            <div className="flex justify-between text-xs text-muted-foreground font-mono">
+              <span>{format(result.origins.min)}</span>
+              <span>{format(result.origins.max)}</span>
+            </div>
+            <div className="text-xs">
+              Origin {format(result.origins.mean)}, σ {format(result.origins.stdDev)},
+              3σ {format(result.origins.lower)} to {format(result.origins.upper)}
+            </div>
+            {result.errors && (
+              <div className="text-xs">
+                Off the stock by {format(result.errors.mean)}, 3σ {format(result.errors.lower)} to {format(result.errors.upper)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-muted-foreground">
+        Origins are in machine coordinates. Placement moves the stock, so only the difference from the stock is checked
+        against the tolerance; inside features and rotated stock have no stock difference.
+      </p>
+    </div>
+  );
+};
+
+export default ProbeUncertaintyPanel;
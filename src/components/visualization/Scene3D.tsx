@@ -6,14 +6,18 @@ import {
   InteractiveStock, 
   ToolVisualization, 
   MachineTable, 
-  HorizontalStage 
+  HorizontalStage,
+  RotaryStage
 } from './MachineObjects';
 import { CustomModelStock } from './CustomModelStock';
+import { ROTARY_PIVOT_AXIS } from '@/utils/rotaryAxes';
+import { getOperationTool } from '@/utils/toolLibrary';
 import {
   CoordinateAxes,
   EnhancedAxisLabels,
   CoordinateHover,
-  WorkspaceBoundsVisualization
+  WorkspaceBoundsVisualization,
+  WorkOffsetOrigins
 } from './CoordinateSystem';
 import { ProbePathVisualization } from './ProbePathVisualization';
 import { SceneLighting, SceneGrid, SceneFloor } from './SceneEnvironment';
@@ -35,6 +39,7 @@ import type { Position3D } from '@/utils/visualization/machineGeometry';
 import { useAppStore } from '@/store';
 import { ProbeLivePath } from './ProbeLivePath';
 import { useVirtualMillContext } from './useVirtualMillContext';
+import { getWcsCode } from '@/utils/workCoordinateSystems';
 
 export interface Scene3DProps {
   machineSettings: MachineSettings;
@@ -215,8 +220,13 @@ export const Scene3D: React.FC<Scene3DProps> = ({
   // Get machine orientation configuration
   const orientationConfig = MACHINE_ORIENTATION_CONFIGS[machineOrientation];
   
-  // Tool properties
-  const toolDiameter = probeSequence?.endmillSize.sizeInMM || 6;
+  // Tool properties: the library tool of the operation being simulated, else the sequence's
+  const activeTool = getOperationTool(
+    (simulationState.isActive && virtualMillContext?.currentStep?.operation) || {},
+    probeSequence ?? {},
+    machineSettings.toolLibrary
+  );
+  const toolDiameter = activeTool?.tipDiameter || probeSequence?.endmillSize.sizeInMM || 6;
   
   // Calculate effective tool position (simulation overrides normal position when active)
   const effectiveToolPosition = useMemo(() => {
@@ -235,6 +245,22 @@ export const Scene3D: React.FC<Scene3DProps> = ({
     }
   }, [simulationState.isActive, simulationState.currentPosition, geometry.toolPosition, machineSettings, probeSequence, machineOrientation]);
   
+  // Work offset origins predicted by the VirtualMill, in world coordinates
+  const workOffsetOrigins = useMemo(() => 
+    Object.entries(virtualMillContext?.wcsOffsets ?? {}).map(([index, offset]) => {
+      const tempProbeSequence: ProbeSequenceSettings = {
+        ...probeSequence,
+        initialPosition: offset
+      } as ProbeSequenceSettings;
+      const world = calculateToolPosition(machineSettings, tempProbeSequence, machineOrientation);
+      return {
+        label: getWcsCode(Number(index)),
+        position: [world.x, world.y, world.z] as [number, number, number]
+      };
+    }),
+    [virtualMillContext?.wcsOffsets, machineSettings, probeSequence, machineOrientation]
+  );
+
   // Calculate camera target based on pivot mode
   const cameraTarget: Position3D = useMemo(() => {
     switch (pivotMode) {
@@ -612,6 +638,45 @@ export const Scene3D: React.FC<Scene3DProps> = ({
     }
   }, [onManualCameraChange, onAnimationStateChange]);
 
+  // Rotary axes carry the stock: B outermost, then A. Centers are given in stock
+  // position coordinates, so they shift with the stock's world placement.
+  const stockRotaryStages = useMemo(() => (['B', 'A'] as const).flatMap(axis => {
+    const config = machineSettings.rotaryAxes?.[axis];
+    if (!config) return [];
+    const pivot: [number, number, number] = [
+      config.center.X + stockWorldPosition[0] - stockPosition[0],
+      config.center.Y + stockWorldPosition[1] - stockPosition[1],
+      config.center.Z + stockWorldPosition[2] - stockPosition[2]
+    ];
+    const angle = simulationState.isActive ? virtualMillContext?.rotaryPosition[axis] ?? 0 : 0;
+    return [{ axis, pivot, angle }];
+  }), [machineSettings.rotaryAxes, stockWorldPosition, stockPosition, simulationState.isActive, virtualMillContext?.rotaryPosition]);
+
+  const stockObject = modelFile ? (
+    <CustomModelStock 
+      key={modelFile.name + modelFile.size + modelFile.lastModified}
+      // Calculate the world position so that after rotation, the minimum X of the stock aligns with the stage X+ face
+      position={stockWorldPosition}
+      size={stockSize}
+      rotation={effectiveStockRotation}
+      modelFile={modelFile}
+      onHover={showCoordinateHover && !isGizmoDragging ? setHoverPosition : undefined}
+      onModelLoad={handleModelLoad}
+      onModelError={handleModelError}
+      onSelect={!isGizmoDragging ? handleStockSelect : undefined}
+      isSelected={sceneInteraction.interactionState.selectedObject === 'model'}
+    />
+  ) : (
+    <InteractiveStock 
+      position={stockWorldPosition} 
+      size={stockSize}
+      rotation={effectiveStockRotation}
+      onHover={showCoordinateHover && !isGizmoDragging ? setHoverPosition : undefined}
+      onSelect={!isGizmoDragging ? handleStockSelect : undefined}
+      isSelected={sceneInteraction.interactionState.selectedObject === 'stock'}
+    />
+  );
+
   return (
     <>
       {/* Background plane for deselection - only in select mode */}
@@ -670,6 +735,9 @@ export const Scene3D: React.FC<Scene3DProps> = ({
           origin={[0, 0, 0]}
         />
 
+        {/* Work coordinate system origins */}
+        <WorkOffsetOrigins origins={workOffsetOrigins} size={5} />
+
         {/* Grid */}
         <SceneGrid
           workspaceBounds={geometry.workspaceBounds}
@@ -692,30 +760,11 @@ export const Scene3D: React.FC<Scene3DProps> = ({
         Example debug (uncomment for development):
         console.debug('[Scene3D] Stock world position (should be grounded):', stockWorldPosition, 'Rotation:', effectiveStockRotation);
         */}
-        {modelFile ? (
-          <CustomModelStock 
-            key={modelFile.name + modelFile.size + modelFile.lastModified}
-            // Calculate the world position so that after rotation, the minimum X of the stock aligns with the stage X+ face
-            position={stockWorldPosition}
-            size={stockSize}
-            rotation={effectiveStockRotation}
-            modelFile={modelFile}
-            onHover={showCoordinateHover && !isGizmoDragging ? setHoverPosition : undefined}
-            onModelLoad={handleModelLoad}
-            onModelError={handleModelError}
-            onSelect={!isGizmoDragging ? handleStockSelect : undefined}
-            isSelected={sceneInteraction.interactionState.selectedObject === 'model'}
-          />
-        ) : (
-          <InteractiveStock 
-            position={stockWorldPosition} 
-            size={stockSize}
-            rotation={effectiveStockRotation}
-            onHover={showCoordinateHover && !isGizmoDragging ? setHoverPosition : undefined}
-            onSelect={!isGizmoDragging ? handleStockSelect : undefined}
-            isSelected={sceneInteraction.interactionState.selectedObject === 'stock'}
-          />
-        )}
+        {stockRotaryStages.reduceRight<React.ReactNode>((content, stage) => (
+          <RotaryStage key={stage.axis} axis={ROTARY_PIVOT_AXIS[stage.axis]} pivot={stage.pivot} angle={stage.angle}>
+            {content}
+          </RotaryStage>
+        ), stockObject)}
 
         {/* Coordinate hover display */}
         {showCoordinateHover && hoverPosition && (
@@ -734,7 +783,8 @@ export const Scene3D: React.FC<Scene3DProps> = ({
         <ToolVisualization
           position={[effectiveToolPosition.x, effectiveToolPosition.y, effectiveToolPosition.z]}
           diameter={toolDiameter}
-          length={DEFAULT_VISUALIZATION_CONFIG.toolLength}
+          length={activeTool?.length || DEFAULT_VISUALIZATION_CONFIG.toolLength}
+          toolType={activeTool?.type}
           onHover={showCoordinateHover && !isGizmoDragging ? setHoverPosition : undefined}
           onSelect={!isGizmoDragging ? handleSpindleSelect : undefined}
           isSelected={sceneInteraction.interactionState.selectedObject === 'spindle'}
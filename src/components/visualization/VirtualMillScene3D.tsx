@@ -26,6 +26,15 @@ const VirtualMillScene3DContent: React.FC<Scene3DProps> = (props) => {
           contactPointColor={virtualMillContext.hasCustomModel ? "#ff6644" : "#4466ff"}
         />
       )}
+
+      {/* Where moves crash into the stock, model or stage */}
+      {virtualMillContext && (
+        <CollisionIndicator
+          contactPoints={virtualMillContext.crashes.map(crash => crash.contactPoint)}
+          contactPointSize={1.5}
+          contactPointColor="#ff0000"
+        />
+      )}
     </>
   );
 };
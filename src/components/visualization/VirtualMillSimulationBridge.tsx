@@ -4,6 +4,7 @@ import { useVirtualMillSimulation } from '@/hooks/visualization/useVirtualMillSi
 import { useAppStore } from '@/store';
 import type { ProbeSequenceSettings } from '@/types/machine';
 import { VirtualMillContext, type VirtualMillSimulationContext } from './useVirtualMillContext';
+import { findSourceLine } from '@/utils/gcodeSourceMap';
 
 interface VirtualMillSimulationBridgeProps {
   probeSequence?: ProbeSequenceSettings;
@@ -19,22 +20,29 @@ export const VirtualMillSimulationBridge: React.FC<VirtualMillSimulationBridgePr
   children
 }) => {
   const simulationState = useAppStore(state => state.simulationState);
+  const sourceMap = useAppStore(state => state.generatedSourceMap);
   
   // Use VirtualMill simulation
   const virtualMillSim = useVirtualMillSimulation(probeSequence);
   
-  // Get current GCode line index from current step
-  const currentGCodeLineIndex = virtualMillSim.currentStep?.gcodeLineIndex ?? 0;
+  // Locate the current step's line through the generator's source map
+  const currentStep = virtualMillSim.currentStep;
+  const currentGCodeLineIndex = currentStep && sourceMap
+    ? Math.max(findSourceLine(sourceMap, currentStep.source), 0)
+    : 0;
 
   // Create context value
   const contextValue: VirtualMillSimulationContext = {
     contactPoints: virtualMillSim.contactPoints,
+    crashes: virtualMillSim.crashes,
+    wcsOffsets: virtualMillSim.wcsOffsets,
     hasCustomModel: virtualMillSim.hasCustomModel,
     clearContactPoints: virtualMillSim.clearContactPoints,
     isUsingVirtualMill: true,
     totalSteps: virtualMillSim.totalSteps,
     currentStep: virtualMillSim.currentStep,
     currentGCodeLineIndex,
+    rotaryPosition: virtualMillSim.rotaryPosition,
     isReady: virtualMillSim.isReady
   };
   
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAppStore, useProbeSequence, useWcsVerification } from '@/store';
+import { getWcsCode } from '@/utils/workCoordinateSystems';
+import {
+  DEFAULT_WCS_TOLERANCE,
+  assessWcsAxis,
+  wcsDiagnoses,
+  type WcsTarget
+} from '@/utils/wcsVerification';
+
+const targetLabels: Record<WcsTarget, string> = {
+  min: 'min face',
+  max: 'max face',
+  center: 'center'
+};
+
+/**
+ * Table of the work offset origins the simulated sequence ends with, next to
+ * where the stock feature each one was zeroed on really is
+ */
+export const WcsVerificationReport: React.FC = () => {
+  const measurements = useWcsVerification();
+  const probeSequence = useProbeSequence();
+  const units = useAppStore(state => state.probeSequenceSettings.units);
+  const [tolerance, setTolerance] = useState(DEFAULT_WCS_TOLERANCE[units]);
+
+  const format = (value: number) => value.toFixed(units === 'inch' ? 4 : 3);
+  const operationNumber = (id: string) => probeSequence.findIndex(operation => operation.id === id) + 1;
+
+  if (measurements.length === 0) {
+    return (
+      <div className="text-muted-foreground">
+        No work offsets to verify. Operations that zero on the stock's outer faces, corners or centers are listed here.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="wcs-tolerance" className="text-sm">Tolerance ({units})</Label>
+        <Input
+          id="wcs-tolerance"
+          type="number"
+          min={0}
+          step={units === 'inch' ? 0.0001 : 0.001}
+          value={tolerance}
+          onChange={(e) => setTolerance(Math.max(0, Number(e.target.value) || 0))}
+          className="w-28"
+        />
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-muted-foreground border-b">
+            <th className="py-1 pr-2">WCS</th>
+            <th className="py-1 pr-2">Axis</th>
+            <th className="py-1 pr-2">Zeroed on</th>
+            <th className="py-1 pr-2 text-right">Origin</th>
+            <th className="py-1 pr-2 text-right">Stock</th>
+            <th className="py-1 pr-2 text-right">Difference</th>
+            <th className="py-1">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {measurements.map((measurement) => {
+            const { withinTolerance, diagnosis } = assessWcsAxis(measurement, tolerance);
+            return (
+              <tr key={`${measurement.wcsIndex}-${measurement.axis}`} className="border-b last:border-0 align-top">
+                <td className="py-1 pr-2">{getWcsCode(measurement.wcsIndex)}</td>
+                <td className="py-1 pr-2">{measurement.axis}</td>
+                <td className="py-1 pr-2">
+                  {measurement.axis} {targetLabels[measurement.target]} (operation #{operationNumber(measurement.operationId)})
+                </td>
+                <td className="py-1 pr-2 text-right font-mono">{format(measurement.originCoordinate)}</td>
+                <td className="py-1 pr-2 text-right font-mono">{format(measurement.targetCoordinate)}</td>
+                <td className="py-1 pr-2 text-right font-mono">{format(measurement.error)}</td>
+                <td className="py-1">
+                  {withinTolerance ? (
+                    <Badge variant="secondary">OK</Badge>
+                  ) : (
+                    <div className="flex flex-col gap-1">
+                      <Badge variant="destructive">Off</Badge>
+                      {diagnosis && <span className="text-xs text-destructive">{wcsDiagnoses[diagnosis]}</span>}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-muted-foreground">
+        Origins are in machine coordinates, measured against the stock or custom model bounds. Inside features and
+        rotated stock are not checked.
+      </p>
+    </div>
+  );
+};
+
+export default WcsVerificationReport;
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import CrashReport from '../CrashReport';
+import { useAppStore } from '@/store';
+
+describe('CrashReport', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetToDefaults();
+  });
+
+  it('renders a note when no move crashes', () => {
+    render(<CrashReport />);
+    expect(screen.getByText(/No crashes/)).toBeInTheDocument();
+  });
+
+  it('lists a crash with the G-code line it comes from', () => {
+    useAppStore.getState().addProbeOperation({ id: 'probe-1', axis: 'Y' });
+    render(<CrashReport />);
+
+    act(() => {
+      useAppStore.getState().setGeneratedGCode('G90\nG53 G0 Y-5\nG38.2 Z-10 F100', [
+        null,
+        { operationId: 'probe-1', movementId: 'pre-1' },
+        { operationId: 'probe-1', probeStage: 0 }
+      ]);
+      useAppStore.getState().setCrashReport([{
+        stepId: 'step-0',
+        stepIndex: 0,
+        source: { operationId: 'probe-1', movementId: 'pre-1' },
+        obstacle: 'stock',
+        part: 'tool',
+        startPosition: { X: 0, Y: -30, Z: 0 },
+        endPosition: { X: 0, Y: -5, Z: 0 },
+        toolPosition: { X: 0, Y: -14.0875, Z: 0 },
+        contactPoint: { X: 0, Y: -12.5, Z: 0 }
+      }]);
+    });
+
+    expect(screen.getByText('operation #1')).toBeInTheDocument();
+    expect(screen.getByText('Line 2: G53 G0 Y-5')).toBeInTheDocument();
+    expect(screen.getByText('Tool → stock')).toBeInTheDocument();
+    expect(screen.getByText('X0.000 Y-14.088 Z0.000')).toBeInTheDocument();
+  });
+
+  it('saves the spindle nose in the machine settings', async () => {
+    const user = userEvent.setup();
+    render(<CrashReport />);
+
+    await user.click(screen.getByLabelText('Check the spindle nose'));
+    expect(useAppStore.getState().machineSettings.spindleNose).toEqual({ diameter: 40, length: 60 });
+
+    const length = screen.getByLabelText('Nose length (mm)');
+    await user.clear(length);
+    await user.type(length, '80');
+    expect(useAppStore.getState().machineSettings.spindleNose).toEqual({ diameter: 40, length: 80 });
+
+    await user.click(screen.getByLabelText('Check the spindle nose'));
+    expect(useAppStore.getState().machineSettings.spindleNose).toBeUndefined();
+  });
+});
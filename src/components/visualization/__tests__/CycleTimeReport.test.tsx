@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import CycleTimeReport from '../CycleTimeReport';
+import { useAppStore } from '@/store';
+
+describe('CycleTimeReport', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetToDefaults();
+  });
+
+  it('renders a note before the simulation runs', () => {
+    render(<CycleTimeReport />);
+    expect(screen.getByText(/Run the simulation/)).toBeInTheDocument();
+  });
+
+  it('renders the total and each operation', () => {
+    useAppStore.getState().addProbeOperation({ id: 'probe-1', axis: 'Y' });
+    render(<CycleTimeReport />);
+
+    act(() => {
+      useAppStore.getState().setCycleTime({
+        operations: [{ operationId: 'probe-1', moves: 4000, probing: 61000, dwells: 20, total: 65020 }],
+        total: 65020
+      });
+    });
+
+    expect(screen.getByText('1 min 5.0 s', { selector: 'span' })).toBeInTheDocument();
+    expect(screen.getByText('#1')).toBeInTheDocument();
+    expect(screen.getByText('4.0 s')).toBeInTheDocument();
+    expect(screen.getByText('1 min 1.0 s')).toBeInTheDocument();
+    expect(screen.getByText('0.0 s')).toBeInTheDocument();
+    expect(screen.getByText('1 min 5.0 s', { selector: 'td' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import ProbeUncertaintyPanel from '../ProbeUncertaintyPanel';
+import { useAppStore } from '@/store';
+
+describe('ProbeUncertaintyPanel', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetToDefaults();
+  });
+
+  it('saves the error model with the machine settings', async () => {
+    const user = userEvent.setup();
+    render(<ProbeUncertaintyPanel />);
+
+    const backlash = screen.getByLabelText('Backlash (mm)');
+    await user.clear(backlash);
+    await user.type(backlash, '0.02');
+
+    expect(useAppStore.getState().machineSettings.probeErrorModel).toMatchObject({ backlash: 0.02, repeatability: 0.001 });
+  });
+
+  it('runs the sequence and shows the spread of each origin', async () => {
+    const user = userEvent.setup();
+    useAppStore.getState().addProbeOperation({ id: 'probe-1', axis: 'Z', direction: -1 });
+    render(<ProbeUncertaintyPanel />);
+
+    await user.click(screen.getByRole('button', { name: 'Run Simulations' }));
+
+    expect(await screen.findByRole('img', { name: 'G54 Z origin histogram' })).toBeInTheDocument();
+    expect(screen.getByText(/^Origin /)).toBeInTheDocument();
+  });
+
+  it('clears the results when the sequence changes', async () => {
+    const user = userEvent.setup();
+    useAppStore.getState().addProbeOperation({ id: 'probe-1', axis: 'Z', direction: -1 });
+    render(<ProbeUncertaintyPanel />);
+
+    await user.click(screen.getByRole('button', { name: 'Run Simulations' }));
+    expect(await screen.findByRole('img', { name: 'G54 Z origin histogram' })).toBeInTheDocument();
+
+    act(() => {
+      useAppStore.getState().updateProbeOperation('probe-1', 'axis', 'X');
+    });
+
+    expect(screen.queryByRole('img', { name: 'G54 Z origin histogram' })).not.toBeInTheDocument();
+  });
+});
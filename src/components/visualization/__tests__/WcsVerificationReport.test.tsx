@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import WcsVerificationReport from '../WcsVerificationReport';
+import { useAppStore } from '@/store';
+
+describe('WcsVerificationReport', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetToDefaults();
+  });
+
+  it('renders a note until the simulation sets a work offset', () => {
+    render(<WcsVerificationReport />);
+    expect(screen.getByText(/No work offsets to verify/)).toBeInTheDocument();
+  });
+
+  it('flags an origin off the stock and explains the likely cause', async () => {
+    const user = userEvent.setup();
+    useAppStore.getState().addProbeOperation({ id: 'probe-1', axis: 'Y' });
+    render(<WcsVerificationReport />);
+
+    act(() => {
+      useAppStore.getState().setWcsVerification([{
+        wcsIndex: 1,
+        axis: 'Y',
+        operationId: 'probe-1',
+        target: 'min',
+        originCoordinate: -14,
+        targetCoordinate: -12.5,
+        error: -1.5,
+        approach: 1,
+        toolRadius: 1.5
+      }]);
+    });
+
+    expect(screen.getByText('G54')).toBeInTheDocument();
+    expect(screen.getByText('Y min face (operation #1)')).toBeInTheDocument();
+    expect(screen.getByText('-1.500')).toBeInTheDocument();
+    expect(screen.getByText(/No tool-radius allowance/)).toBeInTheDocument();
+
+    // A looser tolerance accepts the same origin
+    const tolerance = screen.getByLabelText('Tolerance (mm)');
+    await user.clear(tolerance);
+    await user.type(tolerance, '2');
+    expect(screen.getByText('OK')).toBeInTheDocument();
+  });
+});
@@ -1,15 +1,19 @@
 import { createContext, useContext } from 'react';
-import type { VirtualMillSimulationStep } from '@/hooks/visualization/useVirtualMillSimulation';
+import type { SimulatedCrash, VirtualMillSimulationStep } from '@/utils/machine/sequenceSimulation';
 import type { Position3D } from '@/utils/machine/VirtualMill';
+import type { RotaryPosition } from '@/types/machine';
 
 export interface VirtualMillSimulationContext {
   contactPoints: Position3D[];
+  crashes: SimulatedCrash[]; // Moves that hit the stock, model or stage
+  wcsOffsets: Record<number, Position3D>; // Predicted work offset origins keyed by P index
   hasCustomModel: boolean;
   clearContactPoints: () => void;
   isUsingVirtualMill: boolean;
   totalSteps: number;
   currentStep: VirtualMillSimulationStep | null;
   currentGCodeLineIndex: number;
+  rotaryPosition: RotaryPosition; // Rotary angles at the current step, in degrees
   isReady: boolean;
 }
 
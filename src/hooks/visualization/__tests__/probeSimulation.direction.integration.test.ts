@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { generateSimulationSteps } from '../useProbeSimulation';
 import type { ParsedGCodeLine } from '../useProbeSimulation';
+import { parseGCodeBlocks } from '@/utils/gcodeBlocks';
 
 describe('probe simulation step direction', () => {
   it('should generate a SimulationStep that moves Y- for a Y- probe', () => {
@@ -22,4 +23,20 @@ describe('probe simulation step direction', () => {
     expect(probeStep!.startPosition.Y).toBe(0);
     expect(probeStep!.endPosition.Y).toBe(-10);
   });
+  it('should generate steps from parsed G-code blocks', () => {
+    const blocks = parseGCodeBlocks('G21\n(Probe X)\nG91 G38.2 X-5 F50\nG10 L20 P1 X0\nG90 G0 X2\nG53 G0 Z-4');
+    const steps = generateSimulationSteps(blocks, { X: 10, Y: 0, Z: 0 });
+
+    expect(steps.map(step => [step.type, step.gcodeLineIndex])).toEqual([
+      ['probe', 2],
+      ['wcs', 3],
+      ['rapid', 4],
+      ['rapid', 5]
+    ]);
+    expect(steps[0].endPosition.X).toBe(5);
+    // G0 X2 is absolute in the work offset set by G10
+    expect(steps[2].endPosition.X).toBe(7);
+    // G53 moves ignore the work offset
+    expect(steps[3].endPosition.Z).toBe(-4);
+  });
 });
@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import useProbeSimulation, { type ParsedGCodeLine } from '../useProbeSimulation';
+import { useAppStore } from '@/store';
+import { DEFAULT_MOTION_LIMITS } from '@/utils/machine/motionPlanner';
+
+const parsedGCode: ParsedGCodeLine[] = [{ type: 'rapid', X: 100, positionMode: 'absolute', coordinateSystem: 'machine' }];
+const initialPosition = { X: 0, Y: 0, Z: 0 };
+
+describe('useProbeSimulation motion limits', () => {
+  beforeEach(() => {
+    useAppStore.getState().resetToDefaults();
+  });
+
+  it('re-times the steps when the machine motion limits change', () => {
+    const { result } = renderHook(() => useProbeSimulation(parsedGCode, initialPosition));
+    const defaultDuration = result.current.steps[0].duration!;
+
+    act(() => {
+      const slow = DEFAULT_MOTION_LIMITS.mm;
+      useAppStore.getState().setMachineSettings(prev => ({
+        ...prev,
+        motionLimits: { ...slow, axes: { ...slow.axes, X: { ...slow.axes.X, maxRate: slow.axes.X.maxRate / 10 } } }
+      }));
+    });
+
+    expect(result.current.steps[0].duration!).toBeGreaterThan(defaultDuration * 5);
+  });
+});
@@ -49,7 +49,10 @@ describe('useVirtualMillSimulation', () => {
     setSimulationPosition: vi.fn(),
     addContactPoint: vi.fn(),
     pauseSimulation: vi.fn(),
-    setSimulationStep: vi.fn()
+    setSimulationStep: vi.fn(),
+    setWcsVerification: vi.fn(),
+    setCrashReport: vi.fn(),
+    setCycleTime: vi.fn()
   };
 
   beforeEach(() => {
@@ -137,10 +140,11 @@ describe('useVirtualMillSimulation', () => {
     );
 
     expect(result.current.isReady).toBe(true);
-    expect(result.current.totalSteps).toBe(1);
-    expect(result.current.steps).toHaveLength(1);
+    // Header moves and spindle dwell, the probe, then the backoff
+    expect(result.current.totalSteps).toBe(6);
+    expect(result.current.steps.map(step => step.type)).toEqual(['rapid', 'rapid', 'rapid', 'dwell', 'probe', 'rapid']);
     
-    const step = result.current.steps[0];
+    const step = result.current.steps[4];
     expect(step.type).toBe('probe');
     expect(step.gCodeCommand.axis).toBe('Z');
     expect(step.gCodeCommand.direction).toBe(-1);
@@ -187,10 +191,311 @@ describe('useVirtualMillSimulation', () => {
       useVirtualMillSimulation(probeSequence)
     );
 
-    expect(result.current.totalSteps).toBe(3); // pre-move + probe + post-move
-    expect(result.current.steps[0].type).toBe('rapid'); // pre-move
-    expect(result.current.steps[1].type).toBe('probe'); // probe
-    expect(result.current.steps[2].type).toBe('rapid'); // post-move
+    const steps = result.current.steps.slice(4); // After the header
+    expect(steps).toHaveLength(4); // pre-move + probe + backoff + post-move
+    expect(steps[0].source).toEqual({ operationId: 'probe-1', movementId: 'pre-1' });
+    expect(steps[1].type).toBe('probe');
+    expect(steps[2].gCodeCommand).toMatchObject({ Z: 2, positionMode: 'relative' }); // backoff
+    expect(steps[3].source).toEqual({ operationId: 'probe-1', movementId: 'post-1' });
+  });
+
+  it('should simulate seek/latch probing step by step', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'probe-1',
+          axis: 'Z' as const,
+          direction: -1 as const,
+          distance: 10,
+          feedRate: 100,
+          seekLatch: { seekFeedRate: 200, latchFeedRate: 20, retractDistance: 1, repeatCount: 2 },
+          backoffDistance: 2,
+          wcsOffset: 0,
+          preMoves: [],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      initialPosition: { X: 0, Y: 0, Z: 0 }
+    };
+
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+
+    const steps = result.current.steps.slice(4, -1); // Between the header and the backoff
+    expect(steps.map(step => step.type)).toEqual(['probe', 'rapid', 'probe', 'rapid', 'probe']);
+    expect(steps[0].gCodeCommand).toMatchObject({ distance: 10, feedRate: 200 });
+    expect(steps[1].gCodeCommand).toMatchObject({ Z: 1, positionMode: 'relative' });
+    expect(steps[2].gCodeCommand).toMatchObject({ distance: 2, feedRate: 20 });
+    // Only the final latch sets the work offset
+    expect(steps.filter(step => step.workOffsetCommand)).toEqual([steps[4]]);
+  });
+
+  it('should check radius-compensated work offsets against the probed face', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'probe-1',
+          axis: 'Y' as const,
+          direction: 1 as const,
+          distance: 100,
+          feedRate: 100,
+          backoffDistance: 2,
+          wcsOffset: -1.5875,
+          compensateToolRadius: true,
+          preMoves: [],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      initialPosition: { X: 0, Y: -30, Z: 0 },
+      endmillSize: { input: '1/8', unit: 'fraction' as const, sizeInMM: 3.175 },
+      units: 'mm' as const
+    };
+
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+
+    expect(result.current.workOffsetChecks).toEqual([
+      expect.objectContaining({ operationId: 'probe-1', axis: 'Y', faceCoordinate: -12.5, onFace: true })
+    ]);
+    expect(result.current.workOffsetChecks[0].error).toBeCloseTo(0);
+  });
+
+  it('should report an origin set with the wrong offset sign against the stock face', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'probe-1',
+          axis: 'Y' as const,
+          direction: 1 as const,
+          distance: 100,
+          feedRate: 100,
+          backoffDistance: 2,
+          wcsOffset: 1.5875,
+          preMoves: [],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      initialPosition: { X: 0, Y: -30, Z: 0 },
+      endmillSize: { input: '1/8', unit: 'fraction' as const, sizeInMM: 3.175 },
+      units: 'mm' as const
+    };
+
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+
+    const [measurement] = result.current.wcsVerification;
+    expect(result.current.wcsVerification).toHaveLength(1);
+    expect(measurement).toMatchObject({ wcsIndex: 1, axis: 'Y', operationId: 'probe-1', target: 'min', targetCoordinate: -12.5, approach: 1 });
+    expect(measurement.error).toBeCloseTo(-3.175);
+    expect(mockStoreActions.setWcsVerification).toHaveBeenLastCalledWith(result.current.wcsVerification);
+  });
+
+  it('should report a pre-move that rapids into the stock', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'probe-1',
+          axis: 'Z' as const,
+          direction: -1 as const,
+          distance: 10,
+          feedRate: 100,
+          backoffDistance: 2,
+          wcsOffset: 0,
+          preMoves: [
+            {
+              id: 'pre-1',
+              type: 'rapid' as const,
+              description: 'Pre-move',
+              axesValues: { Y: -5 },
+              positionMode: 'absolute' as const,
+              coordinateSystem: 'machine' as const
+            }
+          ],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      initialPosition: { X: 0, Y: -30, Z: 0 },
+      endmillSize: { input: '1/8', unit: 'fraction' as const, sizeInMM: 3.175 },
+      units: 'mm' as const
+    };
+
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+
+    // The header's moves from home cross the stock too
+    const crashes = result.current.crashes.filter(({ source }) => source.movementId === 'pre-1');
+    const [crash] = crashes;
+    const stepIndex = result.current.steps.findIndex(({ source }) => source.movementId === 'pre-1');
+    expect(crashes).toHaveLength(1);
+    expect(crash).toMatchObject({ stepId: result.current.steps[stepIndex].id, stepIndex, obstacle: 'stock', part: 'tool' });
+    expect(crash.source).toEqual({ operationId: 'probe-1', movementId: 'pre-1' });
+    expect(crash.toolPosition.Y).toBeCloseTo(-12.5 - 1.5875);
+    expect(mockStoreActions.setCrashReport).toHaveBeenLastCalledWith(result.current.crashes);
+  });
+
+  it('should zero a boss center on the measured midpoint', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'boss',
+          axis: 'X' as const,
+          direction: -1 as const,
+          distance: 10,
+          feedRate: 100,
+          backoffDistance: 1,
+          wcsOffset: 0,
+          composite: { kind: 'bossCenter' as const, size: 25, clearance: 5, depth: 12 },
+          preMoves: [],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      // Off the expected center, which the measured midpoint corrects
+      initialPosition: { X: -38, Y: -41, Z: -25 },
+      endmillSize: { input: '1/8', unit: 'fraction' as const, sizeInMM: 3.175 },
+      units: 'mm' as const
+    };
+
+    // Keep the whole boss inside the machine travel
+    const { stockPosition } = mockVisualizationSettings;
+    mockVisualizationSettings.stockPosition = [-40, -40, -40];
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+    mockVisualizationSettings.stockPosition = stockPosition;
+
+    const { steps, wcsOffsets } = result.current;
+    expect(steps.filter(step => step.type === 'probe').map(step => step.source)).toEqual([0, 1, 2, 3].map(touch => ({ operationId: 'boss', probeStage: 0, touch })));
+    expect(steps.filter(step => step.type === 'wcs')).toHaveLength(2);
+    expect(wcsOffsets[1].X).toBeCloseTo(-40);
+    expect(wcsOffsets[1].Y).toBeCloseTo(-40);
+    expect(result.current.wcsVerification.map(({ axis, target, targetCoordinate }) => ({ axis, target, targetCoordinate })))
+      .toEqual([{ axis: 'X', target: 'center', targetCoordinate: -40 }, { axis: 'Y', target: 'center', targetCoordinate: -40 }]);
+  });
+
+  it('should measure the edge angle of rotated stock', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'edge',
+          axis: 'X' as const,
+          direction: 1 as const,
+          distance: 10,
+          feedRate: 100,
+          backoffDistance: 1,
+          wcsOffset: 0,
+          composite: { kind: 'edgeAngle' as const, size: 10, clearance: 5, depth: 10 },
+          preMoves: [],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      // Beside the -X face, level with the first touch
+      initialPosition: { X: -59.0875, Y: -45, Z: -30 },
+      endmillSize: { input: '1/8', unit: 'fraction' as const, sizeInMM: 3.175 },
+      units: 'mm' as const
+    };
+
+    const { stockPosition, stockRotation } = mockVisualizationSettings;
+    mockVisualizationSettings.stockPosition = [-40, -40, -40];
+    mockVisualizationSettings.stockRotation = [0, 0, 3 * Math.PI / 180];
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+    mockVisualizationSettings.stockPosition = stockPosition;
+    mockVisualizationSettings.stockRotation = stockRotation;
+
+    const [measurement] = result.current.edgeAngles;
+    expect(result.current.edgeAngles).toHaveLength(1);
+    expect(measurement).toMatchObject({ operationId: 'edge', axis: 'X' });
+    expect(measurement.stockAngle).toBeCloseTo(3);
+    expect(measurement.angle).toBeCloseTo(3);
+    // Edge angles never move the work offset
+    expect(result.current.steps.some(step => step.type === 'wcs' || step.workOffsetCommand)).toBe(false);
+    expect(result.current.wcsVerification).toEqual([]);
+  });
+
+  it('should run the header from home and back off after each probe', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'probe-1',
+          axis: 'Z' as const,
+          direction: -1 as const,
+          distance: 30,
+          feedRate: 100,
+          backoffDistance: 2,
+          wcsOffset: 0,
+          preMoves: [],
+          postMoves: []
+        }
+      ] as ProbeOperation[],
+      initialPosition: { X: -40, Y: -40, Z: -20 }
+    };
+
+    const { stockPosition } = mockVisualizationSettings;
+    mockVisualizationSettings.stockPosition = [-40, -40, -40];
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+    mockVisualizationSettings.stockPosition = stockPosition;
+
+    const { steps } = result.current;
+    expect(steps[0].startPosition).toEqual({ X: -0.5, Y: -0.5, Z: -0.5 });
+    expect(steps.slice(0, 3).map(step => step.endPosition)).toEqual([
+      { X: -0.5, Y: -0.5, Z: -20 },
+      { X: -0.5, Y: -40, Z: -20 },
+      { X: -40, Y: -40, Z: -20 }
+    ]);
+    expect(steps[3]).toMatchObject({ type: 'dwell', duration: 3000 });
+    steps.slice(0, 3).forEach(step => expect(step.duration).toBeGreaterThan(0));
+
+    // The backoff leaves from where the probe tripped
+    const backoff = steps[5];
+    expect(backoff.startPosition.Z).toBeCloseTo(-35);
+    expect(backoff.endPosition.Z).toBeCloseTo(-33);
+    expect(backoff.duration).toBeGreaterThan(0);
+  });
+
+  it('should end moves in work coordinates at their machine position', () => {
+    const probeSequence = {
+      operations: [
+        {
+          id: 'probe-1',
+          axis: 'Z' as const,
+          direction: -1 as const,
+          distance: 30,
+          feedRate: 100,
+          backoffDistance: 2,
+          wcsOffset: 0,
+          preMoves: [],
+          postMoves: [
+            {
+              id: 'post-1',
+              type: 'rapid' as const,
+              description: 'Up to Z10 in G54',
+              axesValues: { Z: 10 },
+              positionMode: 'absolute' as const,
+              coordinateSystem: 'wcs' as const
+            }
+          ]
+        }
+      ] as ProbeOperation[],
+      initialPosition: { X: -40, Y: -40, Z: -20 }
+    };
+
+    const { stockPosition } = mockVisualizationSettings;
+    mockVisualizationSettings.stockPosition = [-40, -40, -40];
+    const { result } = renderHook(() => 
+      useVirtualMillSimulation(probeSequence)
+    );
+    mockVisualizationSettings.stockPosition = stockPosition;
+
+    const postMove = result.current.steps.find(({ source }) => source.movementId === 'post-1')!;
+    expect(postMove.endPosition.Z).toBeCloseTo(result.current.wcsOffsets[1].Z + 10);
+    expect(postMove.endPosition.Z).toBeCloseTo(-25);
   });
 
   it('should provide VirtualMill instance', () => {
@@ -232,7 +537,7 @@ describe('useVirtualMillSimulation', () => {
       useVirtualMillSimulation(probeSequence)
     );
 
-    const preMove = result.current.steps[0];
+    const preMove = result.current.steps.find(({ source }) => source.movementId === 'pre-1')!;
     expect(preMove.gCodeCommand.positionMode).toBe('absolute');
     expect(preMove.gCodeCommand.coordinateSystem).toBe('machine');
   });
@@ -2,7 +2,9 @@
 import React, { useCallback, useEffect, useRef } from 'react';
 import { useAppStore } from '@/store';
 import { calculateStagePosition, calculateStockWorldPosition } from '@/utils/visualization/machineGeometry';
-import type { MovementStep } from '@/types/machine';
+import type { MotionLimits, MovementStep } from '@/types/machine';
+import { isProbeMotion, type GCodeAxis, type GCodeBlock } from '@/utils/gcodeBlocks';
+import { DEFAULT_MOTION_LIMITS, estimateBlockDurations, getMotionLimits } from '@/utils/machine/motionPlanner';
 
 export interface ParsedGCodeLine {
   type: string; // e.g., 'rapid', 'probe', 'dwell', 'wcs' , etc.
@@ -37,14 +39,56 @@ interface SimulationStep {
   operation?: ParsedGCodeLine;
 }
 
-const BASE_RAPID_SPEED = 2000; // mm/min for rapid moves
+const isGCodeBlock = (line: ParsedGCodeLine | GCodeBlock): line is GCodeBlock => 'modal' in line;
+
+/**
+ * Expand a parsed G-code block into simulation lines (one per G10 axis)
+ */
+export function toParsedGCodeLines(block: GCodeBlock): ParsedGCodeLine[] {
+  const positionMode = block.modal.distance;
+  const coordinateSystem = block.machineCoordinates ? 'machine' : 'wcs';
+  const axes = Object.keys(block.axes) as GCodeAxis[];
+
+  if (isProbeMotion(block.motion)) {
+    if (axes.length !== 1) return [];
+    const [axis] = axes;
+    const value = block.axes[axis]!;
+    return [{
+      type: 'probe',
+      axis,
+      value,
+      direction: value < 0 ? -1 : 1,
+      distance: Math.abs(value),
+      feedRate: block.modal.feedRate,
+      positionMode,
+      coordinateSystem
+    }];
+  }
+  if (block.motion === 'G0' || block.motion === 'G1') {
+    return [{
+      type: block.motion === 'G0' ? 'rapid' : 'linear',
+      ...block.axes,
+      ...(block.motion === 'G1' && { feedRate: block.modal.feedRate }),
+      positionMode,
+      coordinateSystem
+    }];
+  }
+  if (block.nonModal === 'G10' && block.values.L === 20) {
+    return axes.map(axis => ({ type: 'wcs', axis, value: block.axes[axis] }));
+  }
+  if (block.nonModal === 'G4') {
+    return [{ type: 'dwell', dwellTime: block.values.P ?? 0 }];
+  }
+  return [];
+}
 
 /**
  * Generate simulation steps from parsed G-code
  */
 export function generateSimulationSteps(
-  parsedGCode: ParsedGCodeLine[],
-  initialPosition: { X: number; Y: number; Z: number }
+  parsedGCode: Array<ParsedGCodeLine | GCodeBlock>,
+  initialPosition: { X: number; Y: number; Z: number },
+  motionLimits: MotionLimits = DEFAULT_MOTION_LIMITS.mm
 ): SimulationStep[] {
   // DEBUG: Log parsedGCode for test diagnosis
   if (typeof window !== 'undefined' && (window as unknown as Record<string, unknown>).DEBUG_PROBE_SIM) {
@@ -56,14 +100,19 @@ export function generateSimulationSteps(
   let stepId = 0;
   const wcsOffset = { X: 0, Y: 0, Z: 0 };
 
-  parsedGCode.forEach((line, idx) => {
+  // Blocks keep their source line; plain lines are indexed by position
+  const lines = parsedGCode.flatMap((entry, idx) => isGCodeBlock(entry)
+    ? toParsedGCodeLines(entry).map(line => ({ line, lineIndex: entry.lineIndex }))
+    : [{ line: entry, lineIndex: idx }]);
+
+  lines.forEach(({ line, lineIndex }) => {
     // Example: handle motion, dwell, spindle, mode, wcs, etc.
     const step: Partial<SimulationStep> = {
       id: `step-${stepId++}`,
       type: line.type,
       startPosition: { ...currentPos },
       endPosition: { ...currentPos },
-      gcodeLineIndex: idx,
+      gcodeLineIndex: lineIndex,
       gcode: line
     };
     if (line.type === 'rapid' || line.type === 'linear') {
@@ -74,29 +123,25 @@ export function generateSimulationSteps(
         endPos.Y += line.Y ?? 0;
         endPos.Z += line.Z ?? 0;
       } else {
-        endPos.X = line.X !== undefined ? (line.X + wcsOffset.X) : endPos.X;
-        endPos.Y = line.Y !== undefined ? (line.Y + wcsOffset.Y) : endPos.Y;
-        endPos.Z = line.Z !== undefined ? (line.Z + wcsOffset.Z) : endPos.Z;
+        const offset = line.coordinateSystem === 'machine' ? { X: 0, Y: 0, Z: 0 } : wcsOffset;
+        endPos.X = line.X !== undefined ? (line.X + offset.X) : endPos.X;
+        endPos.Y = line.Y !== undefined ? (line.Y + offset.Y) : endPos.Y;
+        endPos.Z = line.Z !== undefined ? (line.Z + offset.Z) : endPos.Z;
       }
-      const distance = Math.sqrt(
-        Math.pow(endPos.X - currentPos.X, 2) +
-        Math.pow(endPos.Y - currentPos.Y, 2) +
-        Math.pow(endPos.Z - currentPos.Z, 2)
-      );
       step.endPosition = endPos;
-      step.duration = (distance / (line.feedRate || BASE_RAPID_SPEED)) * 60 * 1000;
       currentPos = endPos;
-    } else if (line.type === 'dwell') {
-      step.duration = (line.dwellTime || 0) * 1000;
     } else if (line.type === 'wcs') {
-      // G10 L20 P1: set WCS offset
+      // G10 L20 P1: make the current position read `value`
       if (line.axis && typeof line.value === 'number') {
-        wcsOffset[line.axis] = line.value - currentPos[line.axis];
+        wcsOffset[line.axis] = currentPos[line.axis] - line.value;
       }
     } else if (line.type === 'probe') {
       // Handle probe operation as a linear move along the axis
       const endPos = { ...currentPos };
-      if (
+      if (line.axis && line.positionMode === 'absolute' && typeof line.value === 'number') {
+        // Absolute probe words are targets, not distances
+        endPos[line.axis] = line.value + (line.coordinateSystem === 'machine' ? 0 : wcsOffset[line.axis]);
+      } else if (
         line.axis &&
         (line.direction === 1 || line.direction === -1) &&
         typeof line.distance === 'number'
@@ -104,7 +149,6 @@ export function generateSimulationSteps(
         endPos[line.axis] += line.direction * line.distance;
       }
       step.endPosition = endPos;
-      step.duration = (typeof line.distance === 'number' ? line.distance : 1) / (line.feedRate || BASE_RAPID_SPEED) * 60 * 1000;
       step.isProbing = true;
       step.axis = line.axis;
       step.operation = line;
@@ -118,6 +162,18 @@ export function generateSimulationSteps(
     // Add more types as needed (spindle, mode, etc.)
     steps.push(step as SimulationStep);
   });
+
+  // Moves and dwells take the time the motion planner gives them
+  const durations = estimateBlockDurations(steps.map(step => ({
+    ...step,
+    feedRate: step.gcode.feedRate,
+    dwellTime: step.gcode.dwellTime
+  })), motionLimits);
+  steps.forEach((step, index) => {
+    if (['rapid', 'linear', 'probe', 'dwell'].includes(step.type)) {
+      step.duration = durations[index];
+    }
+  });
   return steps;
 }
 
@@ -280,7 +336,7 @@ export function doesProbeCylinderIntersectStock({
 }
 
 // Restore useProbeSimulation to accept parsedGCode and initialPosition as arguments
-function useProbeSimulation(parsedGCode: ParsedGCodeLine[], initialPosition: { X: number; Y: number; Z: number }) {
+function useProbeSimulation(parsedGCode: Array<ParsedGCodeLine | GCodeBlock>, initialPosition: { X: number; Y: number; Z: number }) {
   const animationRef = useRef<number | null>(null);
   const lastTimestampRef = useRef<number>(0);
   const simulationStepsRef = useRef<SimulationStep[]>([]);
@@ -301,6 +357,8 @@ function useProbeSimulation(parsedGCode: ParsedGCodeLine[], initialPosition: { X
   const simulationState = useAppStore(state => state.simulationState);
   const simulationStateRef = useRef(simulationState);
   simulationStateRef.current = simulationState;
+  // The stored limits or the defaults for the units, so the steps are re-timed when either changes
+  const motionLimits = useAppStore(state => getMotionLimits(state.machineSettings));
   const {
     pauseSimulation,
     setSimulationStep,
@@ -513,7 +571,7 @@ function useProbeSimulation(parsedGCode: ParsedGCodeLine[], initialPosition: { X
   // On parsedGCode/initialPosition change, only regenerate simulation steps for display (do not update simulation step, position, or refs)
   useEffect(() => {
     if (parsedGCode && parsedGCode.length > 0 && initialPosition) {
-      const steps = generateSimulationSteps(parsedGCode, initialPosition);
+      const steps = generateSimulationSteps(parsedGCode, initialPosition, motionLimits);
       simulationStepsRef.current = steps;
       setSteps(steps); // <-- update state for immediate reactivity
     } else {
@@ -521,7 +579,7 @@ function useProbeSimulation(parsedGCode: ParsedGCodeLine[], initialPosition: { X
       setSteps([]);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [JSON.stringify(parsedGCode), initialPosition && `${initialPosition.X},${initialPosition.Y},${initialPosition.Z}`]);
+  }, [JSON.stringify(parsedGCode), initialPosition && `${initialPosition.X},${initialPosition.Y},${initialPosition.Z}`, motionLimits]);
 
   // Add effect to fully reset refs and cancel animation on stop/reset
   useEffect(() => {
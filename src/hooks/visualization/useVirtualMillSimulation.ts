@@ -2,45 +2,48 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useAppStore } from '@/store';
 import { VirtualMill } from '@/utils/machine/VirtualMill';
-import type { GCodeCommand, Position3D } from '@/utils/machine/VirtualMill';
-import type { ProbeOperation } from '@/types/machine';
+import type { Position3D } from '@/utils/machine/VirtualMill';
+import {
+  simulateProbeSequence,
+  type EdgeAngleMeasurement,
+  type SimulatedCrash,
+  type SimulatedSequence,
+  type VirtualMillSimulationStep,
+  type WorkOffsetFaceCheck
+} from '@/utils/machine/sequenceSimulation';
+import { getMotionLimits } from '@/utils/machine/motionPlanner';
+import { DEFAULT_PROBE_MODE } from '@/utils/probeModes';
+import { summarizeCycleTime } from '@/utils/cycleTime';
+import type { WcsAxisMeasurement } from '@/utils/wcsVerification';
+import type { RotaryPosition } from '@/types/machine';
 import { useCustomModelInfo } from './useCustomModelInfo';
 import { useNotifications } from '@/hooks/useNotifications';
 
 // Debug flag to control verbose logging
 const DEBUG_SIMULATION = false;
 
-export interface VirtualMillSimulationStep {
-  id: string;
-  type: 'rapid' | 'linear' | 'probe' | 'dwell' | 'wcs';
-  gCodeCommand: GCodeCommand;
-  operation?: ProbeOperation;
-  startPosition: { X: number; Y: number; Z: number };
-  endPosition: { X: number; Y: number; Z: number };
-  duration: number;
-  gcodeLineIndex: number;
-}
-
 /**
  * Hook that integrates VirtualMill as the simulation controller
  * This replaces the custom simulation logic with VirtualMill's sophisticated simulation engine
  */
 export function useVirtualMillSimulation(
-  probeSequence?: { 
-    operations: ProbeOperation[];
-    initialPosition: { X: number; Y: number; Z: number };
-  }
+  probeSequence?: SimulatedSequence
 ) {
   // Store state and actions
   const simulationState = useAppStore(state => state.simulationState);
   const machineSettings = useAppStore(state => state.machineSettings);
   const visualizationSettings = useAppStore(state => state.visualizationSettings);
+  const stockSize = visualizationSettings?.stockSize;
+  const toolLibrary = machineSettings?.toolLibrary;
   const storeActions = useAppStore();
   const {
     setSimulationPosition,
     addContactPoint,
     pauseSimulation,
-    setSimulationStep
+    setSimulationStep,
+    setWcsVerification,
+    setCrashReport,
+    setCycleTime
   } = storeActions || {};
 
   // VirtualMill instance
@@ -49,6 +52,11 @@ export function useVirtualMillSimulation(
   const [regenerationTrigger, setRegenerationTrigger] = useState(0); // State-based trigger for step regeneration
   const [steps, setSteps] = useState<VirtualMillSimulationStep[]>([]);
   const [contactPoints, setContactPoints] = useState<Position3D[]>([]);
+  const [wcsOffsets, setWcsOffsets] = useState<Record<number, Position3D>>({});
+  const [workOffsetChecks, setWorkOffsetChecks] = useState<WorkOffsetFaceCheck[]>([]);
+  const [edgeAngles, setEdgeAngles] = useState<EdgeAngleMeasurement[]>([]);
+  const [wcsVerification, setWcsVerificationRows] = useState<WcsAxisMeasurement[]>([]);
+  const [crashes, setCrashes] = useState<SimulatedCrash[]>([]);
   const [isGeneratingSteps, setIsGeneratingSteps] = useState(false); // Prevent concurrent generation
 
   // Custom model information
@@ -60,7 +68,7 @@ export function useVirtualMillSimulation(
   );
 
   // Notifications for user feedback
-  const { showWarning, showError } = useNotifications();
+  const { showWarning, showError, showInfo } = useNotifications();
 
   // Initialize VirtualMill
   useEffect(() => {
@@ -78,7 +86,8 @@ export function useVirtualMillSimulation(
     if (virtualMillRef.current && visualizationSettings && probeSequence?.operations?.length) {
       virtualMillRef.current.setStock(
         visualizationSettings.stockSize,
-        visualizationSettings.stockPosition
+        visualizationSettings.stockPosition,
+        visualizationSettings.stockRotation
       );
       if (DEBUG_SIMULATION) {
         console.log('Updated VirtualMill stock configuration:', {
@@ -106,6 +115,27 @@ export function useVirtualMillSimulation(
     setContactPoints([]);
   }, [customModelInfo]);
 
+  // Sweep the spindle nose along with the tool when the machine has one
+  const spindleNose = machineSettings?.spindleNose;
+  useEffect(() => {
+    const mill = virtualMillRef.current;
+    if (!mill) return;
+
+    mill.setSpindleNose(spindleNose ?? null);
+    setRegenerationTrigger(prev => prev + 1);
+  }, [spindleNose]);
+
+  // Step durations follow the machine's rates and accelerations
+  const units = machineSettings?.units;
+  const motionLimits = machineSettings?.motionLimits;
+  useEffect(() => {
+    const mill = virtualMillRef.current;
+    if (!mill || !units) return;
+
+    mill.setMotionLimits(getMotionLimits({ units, motionLimits }));
+    setRegenerationTrigger(prev => prev + 1);
+  }, [units, motionLimits]);
+
   // Update contact points from VirtualMill
   useEffect(() => {
     const mill = virtualMillRef.current;
@@ -125,6 +155,7 @@ export function useVirtualMillSimulation(
   // Memoize notification functions to avoid unnecessary re-renders
   const memoizedShowWarning = useCallback(showWarning, [showWarning]);
   const memoizedShowError = useCallback(showError, [showError]);
+  const memoizedShowInfo = useCallback(showInfo, [showInfo]);
 
   // Generate simulation steps from probe sequence
   useEffect(() => {
@@ -152,167 +183,53 @@ export function useVirtualMillSimulation(
     }
 
     try {
-      // Reset mill to initial position before generating steps
-      const initialPos = probeSequence.initialPosition;
-      mill.reset(initialPos);
-      if (DEBUG_SIMULATION) {
-        console.log('Reset mill to initial position for step generation:', initialPos);
-      }
-
-      const simulationSteps: VirtualMillSimulationStep[] = [];
-      let stepId = 0;
-      let gcodeLineIndex = 0;
-      let hasErrors = false;
-
-      // Helper function to clamp position to machine limits
-      const clampToMachineLimits = (position: { X: number; Y: number; Z: number }) => {
-        const limits = mill.getAxisLimits();
-        return {
-          X: Math.max(limits.X[0], Math.min(limits.X[1], position.X)),
-          Y: Math.max(limits.Y[0], Math.min(limits.Y[1], position.Y)),
-          Z: Math.max(limits.Z[0], Math.min(limits.Z[1], position.Z))
-        };
-      };
-
-      // Helper function to safely execute G-code with error handling
-      const safeExecuteGCode = (command: GCodeCommand, operation?: string): boolean => {
-        try {
-          mill.executeGCodeSync(command);
-          return true;
-        } catch (error) {
-          console.warn(`VirtualMill execution error during ${operation || 'command'}:`, error);
-          hasErrors = true;
-          
-          // Try to recover by clamping to machine limits if it's a position error
-          if (error instanceof Error && error.message.includes('exceeds machine limits')) {
-            memoizedShowWarning(
-              'Position Clamped to Machine Limits',
-              `Some probe movements exceeded machine limits and were automatically adjusted to safe positions.`
-            );
-            
-            try {
-              // Get the current intended position and clamp it
-              const currentPos = mill.getCurrentPosition();
-              const targetPos = calculateEndPosition(currentPos, command);
-              const clampedPos = clampToMachineLimits(targetPos);
-              
-              // Create a safe movement command to the clamped position
-              const safeCommand: GCodeCommand = {
-                ...command,
-                X: clampedPos.X,
-                Y: clampedPos.Y,
-                Z: clampedPos.Z
-              };
-              
-              mill.executeGCodeSync(safeCommand);
-              if (DEBUG_SIMULATION) {
-                console.log(`Recovered by clamping position to machine limits:`, clampedPos);
-              }
-              return true;
-            } catch (recoveryError) {
-              console.error('Failed to recover from machine limits error:', recoveryError);
-              memoizedShowError(
-                'Simulation Recovery Failed',
-                'Could not recover from machine limits error. Simulation may be incomplete.'
-              );
-              // Reset to a safe position as last resort
-              try {
-                mill.reset({ X: 0, Y: 0, Z: 0 });
-                if (DEBUG_SIMULATION) {
-                  console.log('Reset mill to origin as emergency fallback');
-                }
-              } catch (resetError) {
-                console.error('Emergency reset failed:', resetError);
-              }
-              return false;
-            }
-          }
-          return false;
-        }
-      };
-
-      // Convert probe operations to G-code commands
-      probeSequence.operations.forEach((operation) => {
-        if (hasErrors) return; // Skip remaining operations if we've encountered critical errors
-
-        const currentPos = mill.getCurrentPosition();
-
-        // Pre-moves
-        operation.preMoves?.forEach((move) => {
-          const command: GCodeCommand = {
-            type: move.type as 'rapid' | 'linear',
-            ...move.axesValues,
-            positionMode: move.positionMode === 'none' ? 'absolute' : move.positionMode,
-            coordinateSystem: move.coordinateSystem === 'none' ? 'machine' : move.coordinateSystem || 'machine'
-          };
-
-          const endPos = calculateEndPosition(currentPos, command);
-          
-          simulationSteps.push({
-            id: `step-${stepId++}`,
-            type: command.type as 'rapid' | 'linear' | 'probe' | 'dwell' | 'wcs',
-            gCodeCommand: command,
-            startPosition: { ...currentPos },
-            endPosition: endPos,
-            duration: calculateDuration(currentPos, endPos, command),
-            gcodeLineIndex: gcodeLineIndex++
-          });
-
-          // Update virtual position for next calculation
-          safeExecuteGCode(command, `pre-move for operation ${operation.id}`);
-      });
-
-      // Probe move
-      const probeCommand: GCodeCommand = {
-        type: 'probe',
-        axis: operation.axis,
-        direction: operation.direction,
-        distance: operation.distance,
-        feedRate: operation.feedRate
-      };
-
-      const probeEndPos = calculateProbeEndPosition(mill.getCurrentPosition(), probeCommand);
-      
-      simulationSteps.push({
-        id: `step-${stepId++}`,
-        type: 'probe',
-        gCodeCommand: probeCommand,
-        operation,
-        startPosition: { ...mill.getCurrentPosition() },
-        endPosition: probeEndPos,
-        duration: (operation.distance / operation.feedRate) * 60 * 1000, // Convert to milliseconds
-        gcodeLineIndex: gcodeLineIndex++
-      });
-
-      // Execute probe command to update mill state
-      safeExecuteGCode(probeCommand, `probe operation ${operation.id}`);
-
-      // Post-moves
-      operation.postMoves?.forEach((move) => {
-        const command: GCodeCommand = {
-          type: move.type as 'rapid' | 'linear',
-          ...move.axesValues,
-          positionMode: move.positionMode === 'none' ? 'absolute' : move.positionMode,
-          coordinateSystem: move.coordinateSystem === 'none' ? 'machine' : move.coordinateSystem || 'machine'
-        };
-
-        const endPos = calculateEndPosition(mill.getCurrentPosition(), command);
-        
-        simulationSteps.push({
-          id: `step-${stepId++}`,
-          type: command.type as 'rapid' | 'linear' | 'probe' | 'dwell' | 'wcs',
-          gCodeCommand: command,
-          startPosition: { ...mill.getCurrentPosition() },
-          endPosition: endPos,
-          duration: calculateDuration(mill.getCurrentPosition(), endPos, command),
-          gcodeLineIndex: gcodeLineIndex++
+      // Starts from the sequence's initial position on a reset mill
+      const { operations, steps: simulationSteps, faceChecks, edgeAngles: angleMeasurements, wcsVerification: verification, crashes: moveCrashes, hasErrors } =
+        simulateProbeSequence(mill, probeSequence, stockSize ?? [0, 0, 0], toolLibrary, {
+          onWarning: memoizedShowWarning,
+          onError: memoizedShowError
         });
 
-        safeExecuteGCode(command, `post-move for operation ${operation.id}`);
-      });
-    });
-
     setSteps(simulationSteps);
+    setWcsOffsets(mill.getWCSOffsets());
+    setWorkOffsetChecks(faceChecks);
+    setEdgeAngles(angleMeasurements);
+    setWcsVerificationRows(verification);
+    setWcsVerification?.(verification);
+    setCrashes(moveCrashes);
+    setCrashReport?.(moveCrashes);
+    setCycleTime?.(summarizeCycleTime(simulationSteps));
+
+    if (moveCrashes.length > 0) {
+      memoizedShowWarning(
+        'Crash Predicted',
+        moveCrashes
+          .map(crash => `${crash.part === 'spindleNose' ? 'Spindle nose' : 'Tool'} hits the ${crash.obstacle} on step ${crash.stepIndex + 1}`)
+          .join('; ')
+      );
+    }
+
+    // Radius-compensated offsets should always land on the face
+    const compensatedMisses = faceChecks.filter(check => 
+      !check.onFace && operations.find(op => op.id === check.operationId)?.compensateToolRadius
+    );
+    if (compensatedMisses.length > 0) {
+      memoizedShowWarning(
+        'Work Offset Off the Stock Face',
+        compensatedMisses
+          .map(check => `${check.axis} origin is ${check.error.toFixed(4)} from the probed face`)
+          .join('; ')
+      );
+    }
+    
+    if (angleMeasurements.length > 0) {
+      memoizedShowInfo(
+        'Edge Angle Measured',
+        angleMeasurements
+          .map(measurement => `${measurement.axis} edge at ${measurement.angle.toFixed(3)}° (stock rotated ${measurement.stockAngle.toFixed(3)}°)`)
+          .join('; ')
+      );
+    }
     
     if (hasErrors) {
       memoizedShowWarning(
@@ -346,7 +263,7 @@ export function useVirtualMillSimulation(
     }
     setIsGeneratingSteps(false); // Ensure flag is reset even on error
   }
-  }, [probeSequence, regenerationTrigger, isGeneratingSteps, memoizedShowWarning, memoizedShowError]); // Include regeneration trigger in dependencies
+  }, [probeSequence, stockSize, toolLibrary, regenerationTrigger, isGeneratingSteps, memoizedShowWarning, memoizedShowError, memoizedShowInfo, setWcsVerification, setCrashReport, setCycleTime]); // Include regeneration trigger in dependencies
 
   // Animation loop using VirtualMill's real-time movement
   const animate = useCallback(async () => {
@@ -374,6 +291,21 @@ export function useVirtualMillSimulation(
         });
       }
 
+      // Alarming probe cycles stop the program when they never trip
+      if (currentStep.type === 'probe' && !result.success) {
+        memoizedShowWarning(
+          'Probe Alarm',
+          `${currentStep.operation?.probeMode ?? DEFAULT_PROBE_MODE} on ${currentStep.gCodeCommand.axis} reached the end of travel without tripping.`
+        );
+        pauseSimulation?.();
+        return;
+      }
+
+      // Apply the operation's work offset so later WCS moves resolve against it
+      if (currentStep.workOffsetCommand) {
+        mill.executeGCodeSync(currentStep.workOffsetCommand);
+      }
+
       // Move to next step
       const nextIndex = (simulationState?.currentStepIndex || 0) + 1;
       if (nextIndex < steps.length) {
@@ -385,7 +317,7 @@ export function useVirtualMillSimulation(
       console.error('Simulation error:', error);
       pauseSimulation?.();
     }
-  }, [simulationState, steps, pauseSimulation, setSimulationStep, addContactPoint]);
+  }, [simulationState, steps, pauseSimulation, setSimulationStep, addContactPoint, memoizedShowWarning]);
 
   // Real-time position updates
   useEffect(() => {
@@ -490,8 +422,14 @@ export function useVirtualMillSimulation(
     totalSteps: steps.length,
     isReady: steps.length > 0,
     currentStep: steps[simulationState?.currentStepIndex || 0] || null,
+    rotaryPosition: getRotaryPositionAt(steps, simulationState?.currentStepIndex || 0),
     virtualMill: virtualMillRef.current,
     contactPoints,
+    wcsOffsets,
+    workOffsetChecks,
+    edgeAngles,
+    wcsVerification,
+    crashes,
     hasCustomModel: Boolean(customModelInfo),
     // Additional methods for debugging/inspection
     getCurrentMovement: () => virtualMillRef.current?.getCurrentMovement() || null,
@@ -504,48 +442,7 @@ export function useVirtualMillSimulation(
 }
 
 // Helper functions
-function calculateEndPosition(
-  currentPos: { X: number; Y: number; Z: number },
-  command: GCodeCommand
-): { X: number; Y: number; Z: number } {
-  // Use VirtualMill's coordinate transformation logic
-  const targetPos = { ...currentPos };
-  
-  if (command.positionMode === 'relative') {
-    targetPos.X += command.X || 0;
-    targetPos.Y += command.Y || 0;
-    targetPos.Z += command.Z || 0;
-  } else {
-    targetPos.X = command.X !== undefined ? command.X : targetPos.X;
-    targetPos.Y = command.Y !== undefined ? command.Y : targetPos.Y;
-    targetPos.Z = command.Z !== undefined ? command.Z : targetPos.Z;
-  }
-
-  return targetPos;
-}
-
-function calculateProbeEndPosition(
-  currentPos: { X: number; Y: number; Z: number },
-  command: GCodeCommand
-): { X: number; Y: number; Z: number } {
-  const endPos = { ...currentPos };
-  if (command.axis && command.direction && command.distance) {
-    endPos[command.axis] += command.direction * command.distance;
-  }
-  return endPos;
-}
-
-function calculateDuration(
-  startPos: { X: number; Y: number; Z: number },
-  endPos: { X: number; Y: number; Z: number },
-  command: GCodeCommand
-): number {
-  const distance = Math.sqrt(
-    Math.pow(endPos.X - startPos.X, 2) +
-    Math.pow(endPos.Y - startPos.Y, 2) +
-    Math.pow(endPos.Z - startPos.Z, 2)
-  );
-  
-  const feedrate = command.feedRate || (command.type === 'rapid' ? 6000 : 1000);
-  return (distance / feedrate) * 60 * 1000; // Convert to milliseconds
+// The stock stays where the last rotary move up to the step left it
+function getRotaryPositionAt(steps: VirtualMillSimulationStep[], stepIndex: number): RotaryPosition {
+  return steps.slice(0, stepIndex + 1).reduce<RotaryPosition>((position, step) => step.rotaryPosition ?? position, {});
 }
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { act, renderHook } from '@testing-library/react';
 import type { ProbeOperation } from '@/types/machine';
 import {
@@ -10,6 +10,7 @@ import {
   useVisualizationSettings,
   useCameraSettings,
   useMachineSettingsActions,
+  useMachineProfileActions,
   useProbeSequenceActions,
   useGCodeActions,
   useImportActions,
@@ -217,6 +218,166 @@ describe('App Store', () => {
     });
   });
 
+  describe('Machine profile actions', () => {
+    beforeEach(() => {
+      act(() => {
+        useAppStore.getState().resetToDefaults();
+      });
+    });
+
+    it('should keep the active profile in step with machine settings edits', () => {
+      const { result } = renderHook(() => useMachineSettingsActions());
+
+      act(() => {
+        result.current.updateAxisConfig('X', 'min', -90);
+      });
+
+      const state = useAppStore.getState();
+      expect(state.machineProfiles).toHaveLength(1);
+      expect(state.machineProfiles[0].machineSettings.axes.X.min).toBe(-90);
+    });
+
+    it('should switch machine settings with the active profile', () => {
+      const { result } = renderHook(() => useMachineProfileActions());
+      const { result: machineActions } = renderHook(() => useMachineSettingsActions());
+
+      act(() => {
+        result.current.addMachineProfile('Router');
+        machineActions.current.setMachineSettings(prev => ({ ...prev, units: 'inch', machineOrientation: 'vertical' }));
+      });
+
+      let state = useAppStore.getState();
+      const router = state.machineProfiles[1];
+      expect(state.activeProfileId).toBe(router.id);
+      expect(router.name).toBe('Router');
+
+      act(() => {
+        result.current.setActiveMachineProfile('default');
+      });
+
+      state = useAppStore.getState();
+      expect(state.machineSettings.machineOrientation).toBe('horizontal');
+      expect(state.probeSequenceSettings.units).toBe('mm');
+
+      act(() => {
+        result.current.setActiveMachineProfile(router.id);
+      });
+
+      state = useAppStore.getState();
+      expect(state.machineSettings.machineOrientation).toBe('vertical');
+      expect(state.probeSequenceSettings.units).toBe('inch');
+    });
+
+    it('should apply the dialect and probing defaults of the activated profile', () => {
+      const { result } = renderHook(() => useMachineProfileActions());
+      const { result: probeActions } = renderHook(() => useProbeSequenceActions());
+      const defaults = useAppStore.getState().probeSequenceSettings;
+
+      act(() => {
+        probeActions.current.setProbeSequenceSettings(prev => ({ ...prev, profileId: 'default' }));
+        result.current.addMachineProfile('Router');
+        probeActions.current.setProbeSequenceSettings(prev => ({ ...prev, spindleSpeed: 12000, dialect: 'grbl' }));
+        result.current.saveProbingDefaults();
+      });
+      const router = useAppStore.getState().machineProfiles[1];
+
+      act(() => {
+        result.current.setActiveMachineProfile('default');
+      });
+
+      let settings = useAppStore.getState().probeSequenceSettings;
+      expect(settings.dialect).toBe(defaults.dialect);
+      expect(settings.spindleSpeed).toBe(defaults.spindleSpeed);
+
+      act(() => {
+        result.current.setActiveMachineProfile(router.id);
+      });
+
+      settings = useAppStore.getState().probeSequenceSettings;
+      expect(settings.dialect).toBe('grbl');
+      expect(settings.spindleSpeed).toBe(12000);
+      expect(settings.profileId).toBe('default');
+    });
+
+    it('should give duplicates made in the same millisecond distinct ids', () => {
+      const { result } = renderHook(() => useMachineProfileActions());
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+
+      act(() => {
+        result.current.duplicateMachineProfile('default');
+        result.current.duplicateMachineProfile('default');
+      });
+      vi.restoreAllMocks();
+
+      const ids = useAppStore.getState().machineProfiles.map(p => p.id);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it('should duplicate, rename and remove profiles', () => {
+      const { result } = renderHook(() => useMachineProfileActions());
+
+      act(() => {
+        result.current.duplicateMachineProfile('default');
+      });
+
+      let state = useAppStore.getState();
+      const copy = state.machineProfiles[1];
+      expect(copy.name).toBe('Horizontal mill copy');
+      expect(copy.machineSettings).toEqual(state.machineProfiles[0].machineSettings);
+
+      act(() => {
+        result.current.renameMachineProfile(copy.id, 'Haas VF-2');
+        result.current.renameMachineProfile(copy.id, '  ');
+      });
+      expect(useAppStore.getState().machineProfiles[1].name).toBe('Haas VF-2');
+
+      act(() => {
+        result.current.removeMachineProfile(copy.id);
+        result.current.removeMachineProfile('default');
+      });
+
+      state = useAppStore.getState();
+      expect(state.machineProfiles.map(p => p.id)).toEqual(['default']);
+      expect(state.activeProfileId).toBe('default');
+    });
+
+    it('should import profiles and replace the active one by id', () => {
+      const { result } = renderHook(() => useMachineProfileActions());
+      const imported = {
+        ...useAppStore.getState().machineProfiles[0],
+        name: 'Shared mill',
+        machineSettings: { ...useAppStore.getState().machineSettings, stageDimensions: [1, 2, 3] as [number, number, number] }
+      };
+
+      act(() => {
+        result.current.importMachineProfiles([imported]);
+      });
+
+      const state = useAppStore.getState();
+      expect(state.machineProfiles).toHaveLength(1);
+      expect(state.machineProfiles[0].name).toBe('Shared mill');
+      expect(state.machineSettings.stageDimensions).toEqual([1, 2, 3]);
+    });
+
+    it('should start new sequences from the saved probing defaults', () => {
+      const { result } = renderHook(() => useMachineProfileActions());
+      const { result: probeActions } = renderHook(() => useProbeSequenceActions());
+
+      act(() => {
+        probeActions.current.setProbeSequenceSettings(prev => ({ ...prev, spindleSpeed: 0, dialect: 'grbl' }));
+        result.current.saveProbingDefaults();
+      });
+      act(() => {
+        probeActions.current.resetProbeSettings();
+      });
+
+      const settings = useAppStore.getState().probeSequenceSettings;
+      expect(settings.spindleSpeed).toBe(0);
+      expect(settings.dialect).toBe('grbl');
+      expect(settings.profileId).toBe('default');
+    });
+  });
+
   describe('Probe sequence actions', () => {
     it('should set probe sequence with array', () => {
       const { result } = renderHook(() => useProbeSequenceActions());
@@ -439,6 +600,26 @@ describe('App Store', () => {
       const generatedGCode = useAppStore.getState().generatedGCode;
       expect(generatedGCode).toBe(gcode);
     });
+
+    it('should store the source map and selected operation', () => {
+      const { result } = renderHook(() => useGCodeActions());
+      const sourceMap = [null, { operationId: 'probe-1', probeStage: 0 }];
+
+      act(() => {
+        result.current.setGeneratedGCode('G21\nG38.2 X-10 F100\n', sourceMap);
+        result.current.setSelectedOperationId('probe-1');
+      });
+
+      const state = useAppStore.getState();
+      expect(state.generatedSourceMap).toEqual(sourceMap);
+      expect(state.selectedOperationId).toBe('probe-1');
+
+      act(() => {
+        result.current.setGeneratedGCode('G21\n');
+      });
+
+      expect(useAppStore.getState().generatedSourceMap).toEqual([]);
+    });
   });
 
   describe('Import actions', () => {
@@ -512,6 +693,64 @@ describe('App Store', () => {
       expect(state.importCounter).toBe(1);
     });
 
+    it('should append imported operations without touching settings', () => {
+      const { result } = renderHook(() => useImportActions());
+      const existing = useAppStore.getState().probeSequence.map(operation => operation.id);
+      const originalSettings = { ...useAppStore.getState().probeSequenceSettings };
+
+      act(() => {
+        result.current.handleGCodeImport({
+          probeSequence: [{
+            id: 'appended-1',
+            axis: 'Z' as const,
+            direction: -1 as const,
+            distance: 5,
+            feedRate: 50,
+            backoffDistance: 1,
+            wcsOffset: 0,
+            preMoves: [],
+            postMoves: []
+          }],
+          spindleSpeed: 9000,
+          units: originalSettings.units
+        }, 'append');
+      });
+
+      const state = useAppStore.getState();
+      expect(state.probeSequence.map(operation => operation.id)).toEqual([...existing, 'appended-1']);
+      expect(state.probeSequenceSettings.spindleSpeed).toBe(originalSettings.spindleSpeed);
+      expect(state.probeSequenceSettings.units).toBe(originalSettings.units);
+      expect(state.importCounter).toBe(1);
+    });
+
+    it('should refuse to append operations in other units', () => {
+      const { result } = renderHook(() => useImportActions());
+      const existing = useAppStore.getState().probeSequence;
+      const otherUnits = useAppStore.getState().probeSequenceSettings.units === 'mm' ? 'inch' as const : 'mm' as const;
+
+      act(() => {
+        result.current.handleGCodeImport({
+          probeSequence: [{
+            id: 'appended-1',
+            axis: 'Z' as const,
+            direction: -1 as const,
+            distance: 5,
+            feedRate: 50,
+            backoffDistance: 1,
+            wcsOffset: 0,
+            preMoves: [],
+            postMoves: []
+          }],
+          units: otherUnits
+        }, 'append');
+      });
+
+      const state = useAppStore.getState();
+      expect(state.probeSequence).toEqual(existing);
+      expect(state.probeSequenceSettings.units).not.toBe(otherUnits);
+      expect(state.importCounter).toBe(0);
+    });
+
     it('should increment import counter', () => {
       const { result } = renderHook(() => useImportActions());
       
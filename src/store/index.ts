@@ -6,12 +6,27 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import type { 
   MachineSettings, 
+  MachineProfile,
   ProbeOperation, 
   ProbeSequenceSettings,
   AxisConfig 
 } from '@/types/machine';
 import type { SerializedFile } from '@/utils/fileStorage';
+import type { GCodeSourceMap } from '@/utils/gcodeSourceMap';
+import type { WcsAxisMeasurement } from '@/utils/wcsVerification';
+import type { SimulatedCrash } from '@/utils/machine/sequenceSimulation';
+import type { CycleTimeBreakdown } from '@/utils/cycleTime';
 import { deserializeFile, serializeFile, isFileSizeStorable } from '@/utils/fileStorage';
+import {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE_NAME,
+  applyMachineProfile,
+  createMachineProfile,
+  getProbingDefaults,
+  mergeMachineProfiles,
+  uniqueProfileName
+} from '@/utils/machineProfiles';
+import { PROJECT_FILE_VERSION, migrateProjectState, type ProjectState } from '@/utils/projectFile';
 
 // Default machine settings
 const defaultMachineSettings: MachineSettings = {
@@ -53,13 +68,22 @@ const defaultProbeSequenceSettings: ProbeSequenceSettings = {
     unit: 'fraction',
     sizeInMM: 3.175
   },
+  dialect: 'linuxcnc',
   operations: []
 };
 
+// The built-in horizontal mill, and the profile earlier single-machine storage becomes
+const defaultMachineProfile = createMachineProfile(DEFAULT_PROFILE_NAME, defaultMachineSettings, defaultProbeSequenceSettings, DEFAULT_PROFILE_ID);
+
 // Store state interface
+// Whether imported operations replace the sequence or are added after it
+export type ImportMode = 'replace' | 'append';
+
 interface AppState {
   // Machine settings
-  machineSettings: MachineSettings;
+  machineSettings: MachineSettings; // Working copy of the active profile's settings
+  machineProfiles: MachineProfile[];
+  activeProfileId: string;
   
   // Probe sequence data
   probeSequence: ProbeOperation[];
@@ -67,6 +91,8 @@ interface AppState {
   
   // UI state
   generatedGCode: string;
+  generatedSourceMap: GCodeSourceMap; // Line-to-operation map for generatedGCode
+  selectedOperationId: string | null; // Operation focused across the editor, G-code and simulator
   importCounter: number;
   
   // Simulation state
@@ -85,6 +111,9 @@ interface AppState {
     speed: number; // Simulation speed multiplier (0.1 to 3.0)
     totalSteps: number; // Total number of simulation steps
   };
+  wcsVerification: WcsAxisMeasurement[]; // Predicted work offset origins against the stock, from the last simulation
+  crashReport: SimulatedCrash[]; // Moves the last simulation ran into the stock, model or stage
+  cycleTime: CycleTimeBreakdown | null; // Estimated run time of the last simulation
   
   // Visualization state
   visualizationSettings: {
@@ -113,6 +142,15 @@ interface AppActions {
   setMachineSettings: (settings: MachineSettings | ((prev: MachineSettings) => MachineSettings)) => void;
   updateAxisConfig: (axis: 'X' | 'Y' | 'Z', field: keyof AxisConfig, value: AxisConfig[keyof AxisConfig]) => void;
   
+  // Machine profile actions
+  addMachineProfile: (name?: string) => void; // Starts from the built-in machine and becomes active
+  duplicateMachineProfile: (id: string) => void;
+  renameMachineProfile: (id: string, name: string) => void;
+  removeMachineProfile: (id: string) => void; // The last profile cannot be removed
+  setActiveMachineProfile: (id: string) => void;
+  importMachineProfiles: (profiles: MachineProfile[]) => void;
+  saveProbingDefaults: () => void; // Store the current sequence's probing settings and dialect in the active profile
+  
   // Probe sequence actions
   setProbeSequence: (sequence: ProbeOperation[] | ((prev: ProbeOperation[]) => ProbeOperation[])) => void;
   setProbeSequenceSettings: (settings: ProbeSequenceSettings | ((prev: ProbeSequenceSettings) => ProbeSequenceSettings)) => void;
@@ -121,17 +159,20 @@ interface AppActions {
   removeProbeOperation: (id: string) => void;
   
   // G-code actions
-  setGeneratedGCode: (gcode: string) => void;
+  setGeneratedGCode: (gcode: string, sourceMap?: GCodeSourceMap) => void;
+  setSelectedOperationId: (operationId: string | null) => void;
   
   // Import/utility actions
   incrementImportCounter: () => void;
+  loadProject: (project: ProjectState) => void; // Replaces the job with a project file's contents
   handleGCodeImport: (parseResult: {
     probeSequence: ProbeOperation[];
     initialPosition?: { X: number; Y: number; Z: number };
     dwellsBeforeProbe?: number;
     spindleSpeed?: number;
     units?: 'mm' | 'inch';
-  }) => void;
+    programEnd?: string;
+  }, mode?: ImportMode) => void;
   
   // Visualization actions
   setVisualizationSettings: (settings: Partial<AppState['visualizationSettings']>) => void;
@@ -154,6 +195,9 @@ interface AppActions {
   setSimulationSpeed: (speed: number) => void;
   addContactPoint: (point: { position: { X: number; Y: number; Z: number }; probeOperationId: string; axis: 'X' | 'Y' | 'Z' }) => void;
   clearContactPoints: () => void;
+  setWcsVerification: (measurements: WcsAxisMeasurement[]) => void;
+  setCrashReport: (crashes: SimulatedCrash[]) => void;
+  setCycleTime: (cycleTime: CycleTimeBreakdown | null) => void;
   
   // Reset actions
   resetToDefaults: () => void;
@@ -161,15 +205,35 @@ interface AppActions {
   resetProbeSettings: () => void;
 }
 
+// Keep the active profile in step with edits to the working machine settings
+const syncActiveProfile = (state: AppState) => {
+  const profile = state.machineProfiles.find(p => p.id === state.activeProfileId);
+  if (profile) {
+    profile.machineSettings = state.machineSettings;
+  }
+};
+
+// The sequence takes on the profile's dialect and probing defaults but keeps the profile it was authored for
+const activateProfile = (state: AppState, profile: MachineProfile) => {
+  const { profileId } = state.probeSequenceSettings;
+  state.activeProfileId = profile.id;
+  state.machineSettings = profile.machineSettings;
+  state.probeSequenceSettings = { ...applyMachineProfile(state.probeSequenceSettings, profile), profileId };
+};
+
 // Create the store with persistence
 export const useAppStore = create<AppState & AppActions>()(
   persist(
     immer((set) => ({
       // Initial state
       machineSettings: defaultMachineSettings,
+      machineProfiles: [defaultMachineProfile],
+      activeProfileId: DEFAULT_PROFILE_ID,
       probeSequence: [],
       probeSequenceSettings: defaultProbeSequenceSettings,
       generatedGCode: '',
+      generatedSourceMap: [],
+      selectedOperationId: null,
       importCounter: 0,
       simulationState: {
         isActive: false,
@@ -180,6 +244,9 @@ export const useAppStore = create<AppState & AppActions>()(
         speed: 1.0,
         totalSteps: 0
       },
+      wcsVerification: [],
+      crashReport: [],
+      cycleTime: null,
       visualizationSettings: {
         stockSize: [25, 25, 10],
         stockPosition: [0, 0, 0],
@@ -209,6 +276,7 @@ export const useAppStore = create<AppState & AppActions>()(
         
         // Sync units to probe sequence settings
         state.probeSequenceSettings.units = state.machineSettings.units;
+        syncActiveProfile(state);
       }),
       
       updateAxisConfig: (axis, field, value) => set((state) => {
@@ -216,6 +284,69 @@ export const useAppStore = create<AppState & AppActions>()(
           ...state.machineSettings.axes[axis],
           [field]: value,
         };
+        syncActiveProfile(state);
+      }),
+      
+      // Machine profile actions
+      addMachineProfile: (name = 'New machine') => set((state) => {
+        const profile = createMachineProfile(
+          uniqueProfileName(name, state.machineProfiles),
+          defaultMachineSettings,
+          defaultProbeSequenceSettings
+        );
+        state.machineProfiles.push(profile);
+        activateProfile(state, profile);
+      }),
+      
+      duplicateMachineProfile: (id) => set((state) => {
+        const source = state.machineProfiles.find(p => p.id === id);
+        if (!source) return;
+        const profile: MachineProfile = {
+          ...source,
+          id: `profile-${crypto.randomUUID()}`,
+          name: uniqueProfileName(`${source.name} copy`, state.machineProfiles)
+        };
+        state.machineProfiles.push(profile);
+        activateProfile(state, profile);
+      }),
+      
+      renameMachineProfile: (id, name) => set((state) => {
+        const profile = state.machineProfiles.find(p => p.id === id);
+        if (profile && name.trim()) {
+          profile.name = name;
+        }
+      }),
+      
+      removeMachineProfile: (id) => set((state) => {
+        if (state.machineProfiles.length <= 1) return;
+        state.machineProfiles = state.machineProfiles.filter(p => p.id !== id);
+        if (state.activeProfileId === id) {
+          activateProfile(state, state.machineProfiles[0]);
+        }
+      }),
+      
+      setActiveMachineProfile: (id) => set((state) => {
+        const profile = state.machineProfiles.find(p => p.id === id);
+        if (profile) {
+          activateProfile(state, profile);
+        }
+      }),
+      
+      importMachineProfiles: (profiles) => set((state) => {
+        state.machineProfiles = mergeMachineProfiles(state.machineProfiles, profiles);
+        // Re-importing the active profile replaces the working settings too
+        const active = profiles.find(p => p.id === state.activeProfileId);
+        if (active) {
+          activateProfile(state, active);
+        }
+      }),
+      
+      saveProbingDefaults: () => set((state) => {
+        const profile = state.machineProfiles.find(p => p.id === state.activeProfileId);
+        if (profile) {
+          profile.probingDefaults = getProbingDefaults(state.probeSequenceSettings);
+          profile.dialect = state.probeSequenceSettings.dialect ?? profile.dialect;
+        }
       }),
       
       // Probe sequence actions
@@ -266,8 +397,13 @@ export const useAppStore = create<AppState & AppActions>()(
       }),
       
       // G-code actions
-      setGeneratedGCode: (gcode) => set((state) => {
+      setGeneratedGCode: (gcode, sourceMap = []) => set((state) => {
         state.generatedGCode = gcode;
+        state.generatedSourceMap = sourceMap;
+      }),
+
+      setSelectedOperationId: (operationId) => set((state) => {
+        state.selectedOperationId = operationId;
       }),
       
       // Import/utility actions
@@ -275,9 +411,45 @@ export const useAppStore = create<AppState & AppActions>()(
         state.importCounter += 1;
       }),
       
-      handleGCodeImport: (parseResult) => set((state) => {
+      loadProject: (project) => set((state) => {
+        // The project's profile is imported like a shared profile file and made active
+        state.machineProfiles = mergeMachineProfiles(state.machineProfiles, project.machineProfiles);
+        state.activeProfileId = project.activeProfileId;
+        state.machineSettings = project.machineSettings;
+        syncActiveProfile(state);
+        
+        state.probeSequence = project.probeSequence;
+        state.probeSequenceSettings = project.probeSequenceSettings;
+        const { serializedModelFile } = project.visualizationSettings;
+        state.visualizationSettings = {
+          ...project.visualizationSettings,
+          modelFile: serializedModelFile ? deserializeFile(serializedModelFile) : null,
+          isLoadingModelFile: false
+        };
+        state.cameraSettings = project.cameraSettings;
+        
+        state.generatedGCode = '';
+        state.generatedSourceMap = [];
+        state.selectedOperationId = null;
+        // Remount the editor with the loaded sequence, as an import does
+        state.importCounter += 1;
+      }),
+      
+      handleGCodeImport: (parseResult, mode = 'replace') => set((state) => {
+        if (mode === 'append') {
+          // Appended operations run under the existing program settings, so they must share its units;
+          // the import panel says why it will not append
+          if (parseResult.units && parseResult.units !== state.probeSequenceSettings.units) return;
+          state.probeSequence.push(...parseResult.probeSequence);
+          state.probeSequenceSettings.programEnd ??= parseResult.programEnd;
+          state.importCounter += 1;
+          return;
+        }
+
         // Update probe sequence
         state.probeSequence = parseResult.probeSequence;
+        state.probeSequenceSettings.profileId = state.activeProfileId;
+        state.probeSequenceSettings.programEnd = parseResult.programEnd;
         
         // Update settings conditionally
         if (parseResult.initialPosition) {
@@ -294,6 +466,7 @@ export const useAppStore = create<AppState & AppActions>()(
         if (parseResult.units) {
           state.machineSettings.units = parseResult.units;
           state.probeSequenceSettings.units = parseResult.units;
+          syncActiveProfile(state);
         }
         
         // Increment import counter
@@ -448,12 +621,28 @@ export const useAppStore = create<AppState & AppActions>()(
         state.simulationState.contactPoints = [];
       }),
       
+      setWcsVerification: (measurements) => set((state) => {
+        state.wcsVerification = measurements;
+      }),
+
+      setCrashReport: (crashes) => set((state) => {
+        state.crashReport = crashes;
+      }),
+
+      setCycleTime: (cycleTime) => set((state) => {
+        state.cycleTime = cycleTime;
+      }),
+      
       // Reset actions
       resetToDefaults: () => set((state) => {
         state.machineSettings = defaultMachineSettings;
+        state.machineProfiles = [defaultMachineProfile];
+        state.activeProfileId = DEFAULT_PROFILE_ID;
         state.probeSequence = [];
         state.probeSequenceSettings = defaultProbeSequenceSettings;
         state.generatedGCode = '';
+        state.generatedSourceMap = [];
+        state.selectedOperationId = null;
         state.importCounter = 0;
         state.simulationState = {
           isActive: false,
@@ -464,6 +653,9 @@ export const useAppStore = create<AppState & AppActions>()(
           speed: 1,
           totalSteps: 0
         };
+        state.wcsVerification = [];
+        state.crashReport = [];
+        state.cycleTime = null;
         state.visualizationSettings = {
           stockSize: [25, 25, 10],
           stockPosition: [0, 0, 0],
@@ -485,21 +677,29 @@ export const useAppStore = create<AppState & AppActions>()(
       resetMachineSettings: () => set((state) => {
         state.machineSettings = defaultMachineSettings;
         state.probeSequenceSettings.units = defaultMachineSettings.units;
+        syncActiveProfile(state);
       }),
       
       resetProbeSettings: () => set((state) => {
+        const profile = state.machineProfiles.find(p => p.id === state.activeProfileId);
         state.probeSequence = [];
-        state.probeSequenceSettings = defaultProbeSequenceSettings;
+        state.probeSequenceSettings = profile
+          ? applyMachineProfile(defaultProbeSequenceSettings, profile)
+          : defaultProbeSequenceSettings;
         state.generatedGCode = '';
+        state.generatedSourceMap = [];
+        state.selectedOperationId = null;
       })
     })),
     {
       name: 'mill-probe-studio-storage', // localStorage key
       storage: createJSONStorage(() => localStorage),
-      version: 1,
+      version: PROJECT_FILE_VERSION,
       // Only persist certain parts of the state
       partialize: (state) => ({
         machineSettings: state.machineSettings,
+        machineProfiles: state.machineProfiles,
+        activeProfileId: state.activeProfileId,
         probeSequence: state.probeSequence,
         probeSequenceSettings: state.probeSequenceSettings,
         visualizationSettings: {
@@ -508,8 +708,11 @@ export const useAppStore = create<AppState & AppActions>()(
           // serializedModelFile will be persisted
         },
         cameraSettings: state.cameraSettings
-        // Don't persist: generatedGCode, importCounter (these are session-specific)
+        // Don't persist: generatedGCode, generatedSourceMap, selectedOperationId, importCounter, wcsVerification, crashReport, cycleTime (these are session-specific)
       }),
+      // Shared with project files, which use the same schema
+      migrate: (persistedState, version) =>
+        migrateProjectState(persistedState as Record<string, unknown>, version) as Partial<AppState>,
       // Restore File objects from serialized data when rehydrating
       onRehydrateStorage: () => (state) => {
         // Check for serialized model file to restore
@@ -540,8 +743,15 @@ export const useMachineSettings = () => useAppStore((state) => state.machineSett
 export const useProbeSequence = () => useAppStore((state) => state.probeSequence);
 export const useProbeSequenceSettings = () => useAppStore((state) => state.probeSequenceSettings);
 export const useGeneratedGCode = () => useAppStore((state) => state.generatedGCode);
+export const useGeneratedSourceMap = () => useAppStore((state) => state.generatedSourceMap);
+export const useSelectedOperationId = () => useAppStore((state) => state.selectedOperationId);
 export const useVisualizationSettings = () => useAppStore((state) => state.visualizationSettings);
 export const useCameraSettings = () => useAppStore((state) => state.cameraSettings);
+export const useMachineProfiles = () => useAppStore((state) => state.machineProfiles);
+export const useActiveProfileId = () => useAppStore((state) => state.activeProfileId);
+export const useWcsVerification = () => useAppStore((state) => state.wcsVerification);
+export const useCrashReport = () => useAppStore((state) => state.crashReport);
+export const useCycleTime = () => useAppStore((state) => state.cycleTime);
 
 // Action hooks with stable references
 export const useMachineSettingsActions = () => {
@@ -552,6 +762,26 @@ export const useMachineSettingsActions = () => {
   return { setMachineSettings, updateAxisConfig, resetMachineSettings };
 };
 
+export const useMachineProfileActions = () => {
+  const addMachineProfile = useAppStore((state) => state.addMachineProfile);
+  const duplicateMachineProfile = useAppStore((state) => state.duplicateMachineProfile);
+  const renameMachineProfile = useAppStore((state) => state.renameMachineProfile);
+  const removeMachineProfile = useAppStore((state) => state.removeMachineProfile);
+  const setActiveMachineProfile = useAppStore((state) => state.setActiveMachineProfile);
+  const importMachineProfiles = useAppStore((state) => state.importMachineProfiles);
+  const saveProbingDefaults = useAppStore((state) => state.saveProbingDefaults);
+  
+  return {
+    addMachineProfile,
+    duplicateMachineProfile,
+    renameMachineProfile,
+    removeMachineProfile,
+    setActiveMachineProfile,
+    importMachineProfiles,
+    saveProbingDefaults
+  };
+};
+
 export const useProbeSequenceActions = () => {
   const setProbeSequence = useAppStore((state) => state.setProbeSequence);
   const setProbeSequenceSettings = useAppStore((state) => state.setProbeSequenceSettings);
@@ -572,13 +802,15 @@ export const useProbeSequenceActions = () => {
 
 export const useGCodeActions = () => {
   const setGeneratedGCode = useAppStore((state) => state.setGeneratedGCode);
-  return { setGeneratedGCode };
+  const setSelectedOperationId = useAppStore((state) => state.setSelectedOperationId);
+  return { setGeneratedGCode, setSelectedOperationId };
 };
 
 export const useImportActions = () => {
   const handleGCodeImport = useAppStore((state) => state.handleGCodeImport);
   const incrementImportCounter = useAppStore((state) => state.incrementImportCounter);
-  return { handleGCodeImport, incrementImportCounter };
+  const loadProject = useAppStore((state) => state.loadProject);
+  return { handleGCodeImport, incrementImportCounter, loadProject };
 };
 
 export const useVisualizationActions = () => {
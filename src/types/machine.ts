@@ -8,6 +8,18 @@ export interface AxisConfig {
   max: number;
 }
 
+// Rotary axes: A turns about a line parallel to X, B about one parallel to Y
+export type RotaryAxis = 'A' | 'B';
+
+export interface RotaryAxisConfig {
+  min: number; // Degrees
+  max: number;
+  center: { X: number; Y: number; Z: number }; // A point on the rotation axis, in the same coordinates as the stock position
+}
+
+// Rotary angles in degrees; an axis left out is at 0
+export type RotaryPosition = Partial<Record<RotaryAxis, number>>;
+
 export interface MachineSettings {
   units: 'mm' | 'inch';
   axes: {
@@ -15,10 +27,98 @@ export interface MachineSettings {
     Y: AxisConfig;
     Z: AxisConfig;
   };
+  rotaryAxes?: Partial<Record<RotaryAxis, RotaryAxisConfig>>; // Rotary table or trunnion axes, when fitted
   machineOrientation: 'vertical' | 'horizontal';
   stageDimensions: [number, number, number]; // [height, width, depth] in mm or inches
+  programTemplates?: ProgramTemplates; // Replace the built-in start and end blocks when set
+  toolLibrary?: Tool[]; // Probes and tools sequences and operations can select
+  probeErrorModel?: ProbeErrorModel; // How far real probe readings stray, for uncertainty analysis
+  spindleNose?: SpindleNose; // Checked for crashes along with the tool when set
+  motionLimits?: MotionLimits; // Cycle time estimates use typical limits for the units when unset
+}
+
+// Sequence settings a profile starts new sequences from
+export type ProbingDefaults = Pick<ProbeSequenceSettings, 'initialPosition' | 'dwellsBeforeProbe' | 'spindleSpeed' | 'endmillSize'>;
+
+// A named machine: its axes, orientation and stage, plus how sequences for it are probed and posted
+export interface MachineProfile {
+  id: string;
+  name: string;
+  machineSettings: MachineSettings;
+  probingDefaults: ProbingDefaults;
+  dialect: GCodeDialect;
+}
+
+export type ToolType = 'touchProbe' | 'endmill' | 'toolSetter';
+
+export interface Tool {
+  id: string;
+  name: string;
+  type: ToolType;
+  tipDiameter: number; // Effective tip diameter in mm: the calibrated stylus ball or the endmill
+  length: number; // Gauge length in mm, from the spindle nose to the tip
+  probeOnCode?: string; // Written before each probe operation using the tool, e.g. M64 P0
+  probeOffCode?: string; // Written after the probe operation, e.g. M65 P0
+  assembly?: ToolAssembly; // Checked for crashes in place of a plain tip-sized cylinder when set
+}
+
+// A section of a tool assembly, in mm: a cylinder, or a cone when the diameters differ
+export interface ToolSection {
+  length: number;
+  diameter: number; // At the end nearer the tip
+  topDiameter?: number; // At the end nearer the spindle; the same as diameter when unset
+}
+
+// What a tool is built from, tip first; together the sections make up its gauge length
+export interface ToolAssembly {
+  cutter: ToolSection; // Flutes or stylus
+  shank: ToolSection;
+  holder: ToolSection;
+}
+
+// Measurement errors of a probe trip, in machine units unless noted
+export interface ProbeErrorModel {
+  repeatability: number; // One standard deviation of the trip point
+  preTravel: number; // Stylus deflection before the probe trips, at any feed
+  triggerDelay: number; // Milliseconds from trip to latched position, so pre-travel grows with feed
+  stockPlacement: number; // The stock sits anywhere within ± this of its set position, per axis
+  backlash: number; // Lost motion taken up when an axis reverses
 }
 
+// The end of the spindle the tool sticks out of, in machine units
+export interface SpindleNose {
+  diameter: number;
+  length: number; // Checked from the tool's gauge length up
+}
+
+// How fast an axis moves and changes speed, in machine units
+export interface AxisMotion {
+  maxRate: number; // Per minute; rapids run at it
+  acceleration: number; // Per second squared
+}
+
+// What the controller's motion planner works within, for cycle time estimates
+export interface MotionLimits {
+  axes: Record<'X' | 'Y' | 'Z', AxisMotion>;
+  junctionDeviation: number; // Machine units a corner may round off, which sets the speed through it
+}
+
+// User-editable G-code blocks with {placeholder} substitution
+export interface ProgramTemplates {
+  header?: string; // Replaces units, initial positioning and spindle start
+  footer?: string; // Replaces the return to origin, spindle stop and program end
+}
+
+export type GCodeDialect = 'grbl' | 'linuxcnc' | 'mach' | 'fanuc' | 'haas';
+
+// Literal output writes every number inline; parametric output moves probe blocks
+// into subroutines and computes offsets from the controller's probe result variables.
+export type GCodeOutputMode = 'literal' | 'parametric';
+
+// Straight probe cycle: G38.2/G38.3 probe toward the workpiece, G38.4/G38.5 probe away.
+// G38.3 and G38.5 do not alarm when the probe never trips.
+export type ProbeMode = 'G38.2' | 'G38.3' | 'G38.4' | 'G38.5';
+
 export interface ProbeSequenceSettings {
   initialPosition: {
     X: number;
@@ -33,29 +133,78 @@ export interface ProbeSequenceSettings {
     unit: 'fraction' | 'inch' | 'mm';
     sizeInMM: number;
   };
+  toolId?: string; // Library tool the sequence probes with; endmillSize follows its tip diameter
+  dialect?: GCodeDialect; // Controller flavor used by the post-processor (defaults to LinuxCNC)
+  outputMode?: GCodeOutputMode; // Defaults to literal
+  variables?: SequenceVariable[]; // Named values field expressions can reference
+  profileId?: string; // Machine profile the sequence was authored for
+  programEnd?: string; // Imported program end and everything after it (e.g. subprograms), written back verbatim
   operations: ProbeOperation[];
 }
 
+// A named value defined by an expression; it can reference stock dimensions,
+// the tool and variables defined before it
+export interface SequenceVariable {
+  name: string;
+  expression: string;
+}
+
+// Expressions for numeric fields keyed by field path, e.g. { distance: 'stock.width/2 + 5' }
+// or { 'axesValues.X': '-clearance' }. The field itself keeps the last resolved value.
+export type FieldExpressions = Record<string, string>;
+
+// Two-stage probing: a fast seek, then `repeatCount` short retract + slow latch probes
+export interface SeekLatchConfig {
+  seekFeedRate: number;
+  latchFeedRate: number;
+  retractDistance: number; // Distance backed off before each latch probe
+  repeatCount: number; // Number of latch probes (at least 1)
+}
+
+// Multi-touch cycles that expand into single-axis touches
+export type CompositeProbeKind = 'outsideCorner' | 'insideCorner' | 'webWidth' | 'pocketWidth' | 'bossCenter' | 'boreCenter' | 'edgeAngle';
+
+export interface CompositeProbe {
+  kind: CompositeProbeKind;
+  size: number; // Expected web/pocket width, boss/bore diameter or edge angle touch spacing (unused by corners)
+  clearance: number; // Gap left before each face, also the travel allowed past it
+  depth: number; // How far below the start height the touches are made
+  cornerDirection?: { X: 1 | -1; Y: 1 | -1 }; // Corners: travel of the X and Y touches (defaults to +X, +Y)
+  rotateCoordinates?: boolean; // Edge angle: rotate the XY plane by the measured angle (G68)
+}
+
 export interface ProbeOperation {
   id: string;
   axis: 'X' | 'Y' | 'Z';
   direction: 1 | -1;
   distance: number;
   feedRate: number;
+  probeMode?: ProbeMode; // Defaults to G38.2
+  seekLatch?: SeekLatchConfig; // When set, replaces the single feedRate probe
   backoffDistance: number;
   wcsOffset: number;
+  compensateToolRadius?: boolean; // Derive wcsOffset from the endmill radius, axis and direction
+  wcsIndex?: number; // Work offset P index: 1 = G54 ... 6 = G59, 7-9 = G59.1-G59.3 (defaults to 1)
+  composite?: CompositeProbe; // When set, replaces the single touch (web/pocket width and edge angle probe along `axis`)
+  rotaryIndex?: RotaryPosition; // Absolute rotary angles indexed to before the pre-moves
+  toolId?: string; // Library tool used instead of the sequence's
+  expressions?: FieldExpressions; // e.g. distance, feedRate, composite.size
   preMoves: MovementStep[];
   postMoves: MovementStep[];
 }
 
 export interface MovementStep {
   id: string;
-  type: 'rapid' | 'dwell'; // Simplified to just 'rapid' (G0) and 'dwell' (G4)
+  type: 'rapid' | 'dwell' | 'raw'; // 'raw' keeps an imported line the editor does not model
   dwellTime?: number; // For dwell moves
+  rawText?: string; // For raw steps: the original line, emitted verbatim
+  diagnostic?: string; // For raw steps: why the line was not imported as a step of its own
   description: string;
   
   // For rapid moves (G0):
-  axesValues?: { [axis: string]: number }; // e.g. { X: -5.5, Y: -4 }
+  axesValues?: { [axis: string]: number }; // e.g. { X: -5.5, Y: -4 }, plus A/B degrees on rotary machines
   positionMode?: 'relative' | 'absolute' | 'none'; // G91 vs G90 vs unspecified
   coordinateSystem?: 'machine' | 'wcs' | 'none'; // G53 vs G54 vs unspecified
+  wcsIndex?: number; // Work offset selected when coordinateSystem is 'wcs' (defaults to 1 = G54)
+  expressions?: FieldExpressions; // e.g. axesValues.X, dwellTime
 }
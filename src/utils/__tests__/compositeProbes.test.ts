@@ -0,0 +1,146 @@
+// src/utils/__tests__/compositeProbes.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { createCompositeProbe, expandCompositeProbe, getEdgeAngle, getProbeResultCount, type CompositeProbeStep } from '../compositeProbes';
+import type { CompositeProbeKind, ProbeOperation } from '@/types/machine';
+
+const settings = {
+  units: 'mm' as const,
+  endmillSize: { input: '3', unit: 'mm' as const, sizeInMM: 3 }
+};
+
+const createOperation = (kind: CompositeProbeKind, overrides: Partial<ProbeOperation> = {}): ProbeOperation => ({
+  id: 'op',
+  axis: 'X',
+  direction: -1,
+  distance: 25,
+  feedRate: 100,
+  backoffDistance: 1,
+  wcsOffset: 0,
+  wcsIndex: 2,
+  preMoves: [],
+  postMoves: [],
+  composite: { ...createCompositeProbe(kind), size: 20, clearance: 5, depth: 4 },
+  ...overrides
+});
+
+const touches = (steps: CompositeProbeStep[]) =>
+  steps.flatMap(step => step.type === 'touch' ? [step] : []);
+
+describe('compositeProbes', () => {
+  describe('expandCompositeProbe', () => {
+    it('should return no steps for a single touch operation', () => {
+      expect(expandCompositeProbe({ ...createOperation('webWidth'), composite: undefined }, settings, true)).toEqual([]);
+    });
+
+    it('should touch both faces of an outside corner and set the WCS on each', () => {
+      const steps = expandCompositeProbe(createOperation('outsideCorner'), settings, false);
+
+      expect(steps.map(step => step.type)).toEqual(['touch', 'touch']);
+      const [x, y] = touches(steps);
+      expect(x).toMatchObject({ setsWorkOffset: true, probe: { axis: 'X', direction: 1, distance: 10, wcsOffset: -1.5, wcsIndex: 2 } });
+      expect(y).toMatchObject({ setsWorkOffset: true, probe: { axis: 'Y', direction: 1, distance: 10, wcsOffset: -1.5 } });
+      expect(x.probe.preMoves.map(move => move.axesValues)).toEqual([{ X: -6.5, Y: 6.5 }, { Z: -4 }]);
+      expect(x.probe.postMoves.map(move => move.axesValues)).toEqual([{ X: -1 }, { Z: 4 }]);
+      expect(y.probe.preMoves.map(move => move.axesValues)).toEqual([{ X: 9, Y: -13 }, { Z: -4 }]);
+      // The last touch returns to the start above the corner
+      expect(y.probe.postMoves.map(move => move.axesValues)).toEqual([{ Y: -1 }, { Z: 4 }, { X: -6.5, Y: 2.5 }]);
+      expect(x.probe.composite).toBeUndefined();
+    });
+
+    it('should follow the corner direction and stay down inside a corner', () => {
+      const operation = createOperation('insideCorner');
+      const steps = expandCompositeProbe({ ...operation, composite: { ...operation.composite!, cornerDirection: { X: -1, Y: 1 } } }, settings, false);
+      const [x, y] = touches(steps);
+
+      expect(x.probe).toMatchObject({ axis: 'X', direction: -1, wcsOffset: 1.5 });
+      expect(x.probe.preMoves.map(move => move.axesValues)).toEqual([{ Z: -4 }]);
+      expect(y.probe.preMoves.map(move => move.axesValues)).toEqual([{ X: 4 }]);
+      expect(y.probe.postMoves.map(move => move.axesValues)).toEqual([{ Y: -1 }, { Y: -4 }, { Z: 4 }]);
+    });
+
+    it('should record both touches and zero the measured center', () => {
+      const steps = expandCompositeProbe(createOperation('pocketWidth', { axis: 'Y' }), settings, true);
+
+      expect(steps.map(step => step.type)).toEqual(['touch', 'touch', 'center']);
+      expect(touches(steps).map(({ setsWorkOffset, probe }) => ({ setsWorkOffset, axis: probe.axis, direction: probe.direction, distance: probe.distance })))
+        .toEqual([
+          { setsWorkOffset: false, axis: 'Y', direction: -1, distance: 13.5 },
+          { setsWorkOffset: false, axis: 'Y', direction: 1, distance: 13.5 }
+        ]);
+      expect(steps[2]).toMatchObject({
+        type: 'center',
+        axis: 'Y',
+        touches: [0, 1],
+        measured: true,
+        moves: [
+          { axesValues: { Y: 0 }, positionMode: 'absolute', coordinateSystem: 'wcs', wcsIndex: 2 },
+          { axesValues: { Z: 4 }, positionMode: 'relative' }
+        ]
+      });
+    });
+
+    it('should let the second touch set the expected center when it cannot be measured', () => {
+      const steps = expandCompositeProbe(createOperation('webWidth'), settings, false);
+      const [first, second] = touches(steps);
+
+      expect(first.setsWorkOffset).toBe(false);
+      expect(second).toMatchObject({ setsWorkOffset: true, probe: { direction: -1, wcsOffset: 11.5 } });
+      expect(steps[2]).toMatchObject({ type: 'center', measured: false });
+    });
+
+    it('should center X before touching Y on a boss', () => {
+      const steps = expandCompositeProbe(createOperation('bossCenter'), settings, true);
+
+      expect(steps.map(step => step.type === 'touch' ? step.probe.axis : `center ${step.axis}`))
+        .toEqual(['X', 'X', 'center X', 'Y', 'Y', 'center Y']);
+      // The first Y touch starts from the X center
+      const [, , yTouch] = touches(steps);
+      expect(yTouch.probe.preMoves[0].axesValues).toEqual({ Y: -16.5 });
+      // Move ids stay unique so the source map can tell the moves apart
+      const moveIds = steps.flatMap(step => step.type === 'touch' ? [...step.probe.preMoves, ...step.probe.postMoves] : step.type === 'center' ? step.moves : []).map(move => move.id);
+      expect(new Set(moveIds).size).toBe(moveIds.length);
+    });
+
+    it('should touch one face twice along its length for an edge angle', () => {
+      const operation = createOperation('edgeAngle', { axis: 'Y', direction: 1 });
+      const steps = expandCompositeProbe({ ...operation, composite: { ...operation.composite!, rotateCoordinates: true } }, settings, true);
+      const [first, second] = touches(steps);
+
+      expect(steps.map(step => step.type)).toEqual(['touch', 'touch', 'angle']);
+      expect([first, second].map(({ setsWorkOffset, probe }) => ({ setsWorkOffset, axis: probe.axis, direction: probe.direction, distance: probe.distance })))
+        .toEqual([
+          { setsWorkOffset: false, axis: 'Y', direction: 1, distance: 10 },
+          { setsWorkOffset: false, axis: 'Y', direction: 1, distance: 10 }
+        ]);
+      // Starts beside the face, steps along it by the spacing and returns
+      expect(first.probe.preMoves.map(move => move.axesValues)).toEqual([{ Z: -4 }]);
+      expect(second.probe.preMoves.map(move => move.axesValues)).toEqual([{ X: 20, Y: -4 }, { Z: -4 }]);
+      expect(second.probe.postMoves.map(move => move.axesValues)).toEqual([{ Y: -1 }, { Z: 4 }, { X: -20, Y: -4 }]);
+      expect(steps[2]).toEqual({ type: 'angle', axis: 'Y', touches: [0, 1], spacing: 20, rotate: true });
+    });
+
+    it('should order X face touches so a counterclockwise face reads positive', () => {
+      const steps = expandCompositeProbe(createOperation('edgeAngle'), settings, false);
+
+      expect(steps[2]).toMatchObject({ type: 'angle', axis: 'X', touches: [1, 0], rotate: false });
+    });
+  });
+
+  describe('getEdgeAngle', () => {
+    it('should return the angle in degrees between two touches', () => {
+      expect(getEdgeAngle(0, 0, 20)).toBe(0);
+      expect(getEdgeAngle(1, 2, 1)).toBeCloseTo(45);
+      expect(getEdgeAngle(0, -20 * Math.tan(Math.PI / 90), 20)).toBeCloseTo(-2);
+    });
+  });
+
+  describe('getProbeResultCount', () => {
+    it('should count one result per touch and one per angle', () => {
+      expect(getProbeResultCount({ ...createOperation('webWidth'), composite: undefined })).toBe(1);
+      expect(getProbeResultCount(createOperation('outsideCorner'))).toBe(2);
+      expect(getProbeResultCount(createOperation('boreCenter'))).toBe(4);
+      expect(getProbeResultCount(createOperation('edgeAngle'))).toBe(3);
+    });
+  });
+});
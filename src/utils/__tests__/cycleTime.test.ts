@@ -0,0 +1,40 @@
+// src/utils/__tests__/cycleTime.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { formatDuration, summarizeCycleTime } from '../cycleTime';
+
+describe('cycleTime', () => {
+  describe('summarizeCycleTime', () => {
+    it('should split each operation into moves, probing and dwells', () => {
+      const breakdown = summarizeCycleTime([
+        { type: 'rapid', duration: 1000, source: { operationId: 'a', movementId: 'm1' } },
+        { type: 'dwell', duration: 20, source: { operationId: 'a' } },
+        { type: 'probe', duration: 3000, source: { operationId: 'a', probeStage: 0 } },
+        { type: 'linear', duration: 500, source: { operationId: 'a', probeStage: 0 } },
+        { type: 'probe', duration: 2000, source: { operationId: 'b', probeStage: 0 } }
+      ]);
+
+      expect(breakdown.operations).toEqual([
+        { operationId: 'a', moves: 1500, probing: 3000, dwells: 20, total: 4520 },
+        { operationId: 'b', moves: 0, probing: 2000, dwells: 0, total: 2000 }
+      ]);
+      expect(breakdown.total).toBe(6520);
+    });
+
+    it('should be empty without steps', () => {
+      expect(summarizeCycleTime([])).toEqual({ operations: [], total: 0 });
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should show seconds to the tenth', () => {
+      expect(formatDuration(12345)).toBe('12.3 s');
+      expect(formatDuration(0)).toBe('0.0 s');
+    });
+
+    it('should add minutes from one minute on', () => {
+      expect(formatDuration(65000)).toBe('1 min 5.0 s');
+      expect(formatDuration(59990)).toBe('1 min 0.0 s');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+// src/utils/__tests__/expressions.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, isLiteralNumber } from '../expressions';
+
+const scope = { 'stock.width': 40, clearance: 5 };
+
+describe('expressions', () => {
+  describe('evaluateExpression', () => {
+    it('should evaluate arithmetic with the usual precedence', () => {
+      expect(evaluateExpression('1 + 2 * 3', {})).toEqual({ value: 7 });
+      expect(evaluateExpression('(1 + 2) * 3', {})).toEqual({ value: 9 });
+      expect(evaluateExpression('10 - 4 - 3', {})).toEqual({ value: 3 });
+      expect(evaluateExpression('2 ^ 3 ^ 2', {})).toEqual({ value: 512 });
+      expect(evaluateExpression('-2 ^ 2', {})).toEqual({ value: -4 });
+      expect(evaluateExpression('1.5e1 / .5', {})).toEqual({ value: 30 });
+    });
+
+    it('should look up names, including dotted ones', () => {
+      expect(evaluateExpression('stock.width/2 + clearance', scope)).toEqual({ value: 25 });
+    });
+
+    it('should call the supported functions', () => {
+      expect(evaluateExpression('max(clearance, 2, 8) + abs(-1)', scope)).toEqual({ value: 9 });
+      expect(evaluateExpression('sqrt(16) + round(1.6) + floor(1.6) + ceil(1.2)', {})).toEqual({ value: 9 });
+    });
+
+    it('should report unknown names and functions', () => {
+      expect(evaluateExpression('stock.length', scope)).toEqual({ error: "Unknown name 'stock.length'" });
+      expect(evaluateExpression('constructor', scope)).toEqual({ error: "Unknown name 'constructor'" });
+      expect(evaluateExpression('alert(1)', scope)).toEqual({ error: "Unknown function 'alert'" });
+      expect(evaluateExpression('abs(1, 2)', scope)).toEqual({ error: 'abs() takes 1 argument' });
+      expect(evaluateExpression('min()', scope)).toEqual({ error: 'min() takes at least 1 argument' });
+    });
+
+    it('should report syntax errors with their position', () => {
+      expect(evaluateExpression('1 +', {})).toEqual({ error: 'Expression ends too early' });
+      expect(evaluateExpression('2 3', {})).toEqual({ error: "Unexpected '3' at position 3" });
+      expect(evaluateExpression('2 * (3', {})).toEqual({ error: 'Expression ends too early' });
+      expect(evaluateExpression('width; 1', { width: 1 })).toEqual({ error: "Unexpected ';' at position 6" });
+      expect(evaluateExpression('  ', {})).toEqual({ error: 'Expression is empty' });
+    });
+
+    it('should reject results that are not finite numbers', () => {
+      expect(evaluateExpression('1 / (clearance - 5)', scope)).toEqual({ error: 'Division by zero' });
+      expect(evaluateExpression('sqrt(-1)', {})).toEqual({ error: 'Result is not a finite number' });
+    });
+  });
+
+  describe('isLiteralNumber', () => {
+    it('should accept plain numbers only', () => {
+      expect(isLiteralNumber('12.5')).toBe(true);
+      expect(isLiteralNumber(' -3 ')).toBe(true);
+      expect(isLiteralNumber('1e-3')).toBe(true);
+      expect(isLiteralNumber('1 + 2')).toBe(false);
+      expect(isLiteralNumber('clearance')).toBe(false);
+      expect(isLiteralNumber('')).toBe(false);
+    });
+  });
+});
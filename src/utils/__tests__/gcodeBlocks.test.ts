@@ -0,0 +1,67 @@
+// src/utils/__tests__/gcodeBlocks.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { parseGCodeBlocks } from '../gcodeBlocks';
+
+describe('gcodeBlocks', () => {
+  it('should normalize codes and split axis and value words', () => {
+    const [block] = parseGCodeBlocks('N20 G01 X10 Y-2 F250 (Cut)');
+
+    expect(block).toMatchObject({
+      lineIndex: 0,
+      lineNumber: 20,
+      gCodes: ['G1'],
+      axes: { X: 10, Y: -2 },
+      values: { F: 250 },
+      motion: 'G1',
+      comment: 'Cut',
+      errors: []
+    });
+  });
+
+  it('should carry modal groups across lines', () => {
+    const blocks = parseGCodeBlocks('G20 G91\nG0 X1\nY2\n\nG56 G90 G1 F30 Z-1\nX3\nG38.3 Z-5');
+
+    expect(blocks.map(block => block.lineIndex)).toEqual([0, 1, 2, 4, 5, 6]);
+    expect(blocks[2]).toMatchObject({ motion: 'G0', axes: { Y: 2 } });
+    expect(blocks[2].modal).toEqual({ motion: 'G0', distance: 'relative', wcsIndex: 1, units: 'inch' });
+    expect(blocks[4]).toMatchObject({ motion: 'G1', modal: { distance: 'absolute', wcsIndex: 3, feedRate: 30 } });
+    expect(blocks[5].modal).toMatchObject({ motion: 'G38.3', feedRate: 30 });
+  });
+
+  it('should treat G53 as non-modal', () => {
+    const blocks = parseGCodeBlocks('G90 G53 G0 Z-5\nX1');
+
+    expect(blocks[0].machineCoordinates).toBe(true);
+    expect(blocks[1].machineCoordinates).toBe(false);
+    expect(blocks[1].motion).toBe('G0');
+  });
+
+  it('should not read axis words of G10 and G92 as motion', () => {
+    const [setOffset, move] = parseGCodeBlocks('G0 X1\nG10 L20 P2 X0\nX2').slice(1);
+
+    expect(setOffset).toMatchObject({ nonModal: 'G10', axes: { X: 0 }, values: { L: 20, P: 2 } });
+    expect(setOffset.motion).toBeUndefined();
+    expect(setOffset.modal.motion).toBe('G0');
+    expect(move.motion).toBe('G0');
+  });
+
+  it('should track spindle speed and M codes', () => {
+    const blocks = parseGCodeBlocks('S5000\nM4');
+
+    expect(blocks[1]).toMatchObject({ mCodes: ['M4'], modal: { spindleSpeed: 5000 } });
+  });
+
+  it('should report conflicting codes, repeated words and axes without motion', () => {
+    expect(parseGCodeBlocks('G0 G1 X1')[0].errors[0].message).toBe('Conflicting codes in one block: G0 G1');
+    expect(parseGCodeBlocks('G0 X1 X2')[0].errors[0].message).toBe('X appears more than once');
+    expect(parseGCodeBlocks('X1')[0].errors[0].message).toBe('Axis words without an active motion mode');
+  });
+
+  it('should keep comment-only lines as empty blocks', () => {
+    const [block] = parseGCodeBlocks('(=== Probe Operation 1 ===)');
+
+    expect(block.words).toEqual([]);
+    expect(block.comment).toBe('=== Probe Operation 1 ===');
+  });
+});
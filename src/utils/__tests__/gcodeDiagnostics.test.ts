@@ -0,0 +1,89 @@
+// src/utils/__tests__/gcodeDiagnostics.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { applyDiagnosticFix, formatDiagnostic, type GCodeDiagnostic } from '../gcodeDiagnostics';
+import { parseGCode } from '../gcodeParser';
+
+const findDiagnostic = (gcode: string, code: GCodeDiagnostic['code']): GCodeDiagnostic => {
+  const diagnostic = parseGCode(gcode).diagnostics.find(candidate => candidate.code === code);
+  expect(diagnostic).toBeDefined();
+  return diagnostic!;
+};
+
+describe('gcodeDiagnostics', () => {
+  describe('parser diagnostics', () => {
+    it('should report a probe line with two axes and offer to keep the first', () => {
+      const gcode = 'G21\n  G38.2 X-10 Y5 F100 (Probe)';
+      const diagnostic = findDiagnostic(gcode, 'probe-axis-count');
+
+      expect(diagnostic).toMatchObject({
+        severity: 'error',
+        lineIndex: 1,
+        column: 2,
+        endColumn: 28,
+        fix: { label: 'Keep only X-10' }
+      });
+      expect(applyDiagnosticFix(gcode, diagnostic)).toBe('G21\n  G38.2 X-10 F100 (Probe)');
+    });
+
+    it('should warn about G10 without a preceding probe and offer to remove it', () => {
+      const gcode = 'G10 L20 P1 X0\nG38.2 Z-10 F100';
+      const diagnostic = findDiagnostic(gcode, 'wcs-without-probe');
+
+      expect(diagnostic.severity).toBe('warning');
+      expect(applyDiagnosticFix(gcode, diagnostic)).toBe('G38.2 Z-10 F100');
+      expect(parseGCode(gcode).errors).toEqual([]);
+    });
+
+    it('should warn when G10 does not set the probed axis', () => {
+      const diagnostic = findDiagnostic('G38.2 Z-10 F100\nG10 L20 P1 X0', 'wcs-axis-mismatch');
+
+      expect(diagnostic.message).toContain('probed Z axis');
+      expect(diagnostic.fix).toBeUndefined();
+    });
+
+    it('should warn when units change mid-file and mark the unit word', () => {
+      const gcode = 'G21\nG38.2 Z-10 F100\nG20 G0 Z1';
+      const diagnostic = findDiagnostic(gcode, 'units-changed');
+
+      expect(diagnostic).toMatchObject({ severity: 'warning', lineIndex: 2, column: 0, endColumn: 3 });
+      expect(applyDiagnosticFix(gcode, diagnostic)).toBe('G21\nG38.2 Z-10 F100\nG0 Z1');
+    });
+
+    it('should warn about a probe without a feed rate and insert one before the comment', () => {
+      const gcode = 'G38.2 Z-10 (Find top)';
+      const diagnostic = findDiagnostic(gcode, 'probe-missing-feed');
+
+      expect(applyDiagnosticFix(gcode, diagnostic)).toBe('G38.2 Z-10 F10 (Find top)');
+      expect(parseGCode(applyDiagnosticFix(gcode, diagnostic)).diagnostics).toEqual([]);
+    });
+
+    it('should carry lexer and block error codes, ranges and fixes', () => {
+      const gcode = 'G0 X1 X2\nG0 Y1 (open';
+      const { diagnostics } = parseGCode(gcode);
+
+      expect(diagnostics.map(({ code, column, endColumn }) => ({ code, column, endColumn }))).toEqual([
+        { code: 'duplicate-word', column: 6, endColumn: 8 },
+        { code: 'unclosed-comment', column: 6, endColumn: 11 }
+      ]);
+      expect(applyDiagnosticFix(gcode, diagnostics[0])).toBe('G0 X1\nG0 Y1 (open');
+      expect(applyDiagnosticFix(gcode, diagnostics[1])).toBe('G0 X1 X2\nG0 Y1 (open)');
+    });
+
+    it('should only format error-severity diagnostics into errors', () => {
+      const result = parseGCode('G38.2 Z-10\nG38.2 X1 Y1 F10');
+
+      expect(result.diagnostics.map(({ severity }) => severity)).toEqual(['warning', 'error']);
+      expect(result.errors).toEqual([formatDiagnostic(result.diagnostics[1])]);
+      expect(result.errors[0]).toBe('Error parsing line 2: "G38.2 X1 Y1 F10" - Invalid probe command, expected exactly one axis');
+    });
+  });
+
+  describe('applyDiagnosticFix', () => {
+    it('should return the program unchanged without a fix', () => {
+      const diagnostic = findDiagnostic('G38.2 Z-10 F100\nG10 L20 P1 X0', 'wcs-axis-mismatch');
+
+      expect(applyDiagnosticFix('G38.2 Z-10 F100\nG10 L20 P1 X0', diagnostic)).toBe('G38.2 Z-10 F100\nG10 L20 P1 X0');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+// src/utils/__tests__/gcodeFiles.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { isGCodeFile, normalizeGCodeText, readGCodeFile } from '../gcodeFiles';
+
+describe('gcodeFiles', () => {
+  describe('isGCodeFile', () => {
+    it('should accept supported extensions in any case', () => {
+      expect(['probe.nc', 'PROBE.GCODE', 'part.tap', 'setup.ngc'].every(isGCodeFile)).toBe(true);
+      expect(isGCodeFile('model.stl')).toBe(false);
+      expect(isGCodeFile('notes.nc.txt')).toBe(false);
+    });
+  });
+
+  describe('normalizeGCodeText', () => {
+    it('should strip a byte order mark and normalize line endings', () => {
+      expect(normalizeGCodeText('\uFEFFG21\r\nG90\rG0 X1\n')).toBe('G21\nG90\nG0 X1\n');
+    });
+
+    it('should drop tape delimiters but keep comments written after them', () => {
+      expect(normalizeGCodeText('%\nO1000\nG21\n% (End of tape)\n%')).toBe('O1000\nG21\n(End of tape)');
+    });
+  });
+
+  describe('readGCodeFile', () => {
+    it('should read in chunks, keep split multi-byte characters and report progress', async () => {
+      const text = '%\r\n(Sonde ø6 – Tastkopf)\r\nG38.2 Z-10 F100\r\n%\r\n';
+      const file = new File([`\uFEFF${text}`], 'probe.nc');
+      const onProgress = vi.fn();
+
+      const result = await readGCodeFile(file, onProgress, 5);
+
+      expect(result).toBe('(Sonde ø6 – Tastkopf)\nG38.2 Z-10 F100\n');
+      expect(onProgress).toHaveBeenCalledTimes(Math.ceil(file.size / 5));
+      expect(onProgress).toHaveBeenLastCalledWith(1);
+    });
+
+    it('should return an empty program for an empty file', async () => {
+      expect(await readGCodeFile(new File([], 'empty.nc'))).toBe('');
+    });
+  });
+});
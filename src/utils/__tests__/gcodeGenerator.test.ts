@@ -1,8 +1,9 @@
 // src/utils/__tests__/gcodeGenerator.test.ts
 
 import { describe, it, expect } from 'vitest';
-import { generateGCode, GCodeGenerator } from '../gcodeGenerator';
-import type { ProbeOperation, ProbeSequenceSettings } from '@/types/machine';
+import { generateGCode, generateGCodeWithSourceMap, GCodeGenerator } from '../gcodeGenerator';
+import { parseGCode } from '../gcodeParser';
+import type { ProbeOperation, ProbeSequenceSettings, Tool } from '@/types/machine';
 
 describe('gcodeGenerator', () => {
   const sampleProbeSequenceSettings: ProbeSequenceSettings = {
@@ -96,6 +97,489 @@ describe('gcodeGenerator', () => {
     });
   });
 
+  describe('controller dialects', () => {
+    it('should default to the LinuxCNC dialect', () => {
+      const gcode = generateGCode([sampleProbeOperation], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G38.2 Y-10 F100');
+      expect(gcode).toContain('G10 L20 P1 Y1.5875');
+      expect(gcode).toContain('M2                                      (End program)');
+    });
+
+    it('should use semicolon comments for GRBL', () => {
+      const gcode = generateGCode([sampleProbeOperation], { ...sampleProbeSequenceSettings, dialect: 'grbl' });
+
+      expect(gcode).toContain('; === Probe Operation 1: Y Axis ===');
+      expect(gcode).toContain('G38.2 Y-10 F100                         ; Probe along Y- axis');
+      expect(gcode).not.toMatch(/\(Empty Buffer\)/);
+    });
+
+    it('should use G31 probing for Mach3/4', () => {
+      const gcode = generateGCode([sampleProbeOperation], { ...sampleProbeSequenceSettings, dialect: 'mach' });
+
+      expect(gcode).toContain('G31 Y-10 F100');
+      expect(gcode).toContain('G10 L20 P1 Y1.5875');
+      expect(gcode).toContain('(WARNING: Mach3 has no G10 L20, work offsets are only set on Mach4)');
+      expect(gcode).toContain('M30');
+    });
+
+    it('should emit Fanuc-style offsets, millisecond dwells and program delimiters', () => {
+      const gcode = generateGCode([sampleProbeOperation], { ...sampleProbeSequenceSettings, dialect: 'fanuc' });
+      const lines = gcode.trimEnd().split('\n');
+
+      expect(lines[0]).toBe('%');
+      expect(lines[lines.length - 1]).toBe('%');
+      expect(gcode).toContain('G31 Y-10. F100.');
+      expect(gcode).toContain('G90 G10 L2 P1 Y[#5022-#5042+#5062-1.5875]');
+      expect(gcode).toContain('G4 P10                                  (Empty Buffer)');
+      expect(gcode).toContain('G4 P3000');
+      expect(gcode).toContain('G90 G53 G0 X-78.');
+    });
+
+    it('should emit Haas program numbers', () => {
+      const gcode = generateGCode([sampleProbeOperation], { ...sampleProbeSequenceSettings, dialect: 'haas' });
+
+      expect(gcode).toContain('O00001                                  (PROBE SEQUENCE)');
+      expect(gcode).toContain('G31 Y-10. F100.');
+    });
+  });
+
+  describe('work coordinate systems', () => {
+    it('should set the work offset chosen by each operation', () => {
+      const gcode = generateGCode([
+        sampleProbeOperation,
+        { ...sampleProbeOperation, id: 'probe-2', wcsIndex: 2 },
+        { ...sampleProbeOperation, id: 'probe-3', wcsIndex: 8 }
+      ], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G10 L20 P1 Y1.5875                      (Set WCS G54 Y origin)');
+      expect(gcode).toContain('G10 L20 P2 Y1.5875                      (Set WCS G55 Y origin)');
+      expect(gcode).toContain('G10 L20 P8 Y1.5875                      (Set WCS G59.2 Y origin)');
+      expect(gcode).toContain('G0 G59.2 G90 X0Y0');
+    });
+
+    it('should select the work offset of WCS moves', () => {
+      const probe: ProbeOperation = {
+        ...sampleProbeOperation,
+        wcsIndex: 3,
+        postMoves: [{
+          id: 'move-1',
+          type: 'rapid',
+          description: 'Move to part zero',
+          axesValues: { X: 0 },
+          positionMode: 'absolute',
+          coordinateSystem: 'wcs',
+          wcsIndex: 3
+        }]
+      };
+
+      const gcode = generateGCode([probe], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G0 G90 G56 X0');
+    });
+
+    it('should use extended offsets past G59 on Fanuc and Haas', () => {
+      const probe = { ...sampleProbeOperation, wcsIndex: 7 };
+
+      const fanuc = generateGCode([probe], { ...sampleProbeSequenceSettings, dialect: 'fanuc' });
+      expect(fanuc).toContain('G90 G10 L20 P1 Y[#5022-#5042+#5062-1.5875]');
+      expect(fanuc).toContain('(Set WCS G54.1 P1 Y origin)');
+      expect(generateGCode([probe], { ...sampleProbeSequenceSettings, dialect: 'haas' }))
+        .toContain('G0 G154 P1 G90 X0Y0');
+    });
+  });
+
+  describe('probe modes', () => {
+    it('should emit the operation probe cycle', () => {
+      const gcode = generateGCode([
+        { ...sampleProbeOperation, probeMode: 'G38.3' },
+        { ...sampleProbeOperation, id: 'probe-2', probeMode: 'G38.5', direction: 1 }
+      ], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G38.3 Y-10 F100                         (Probe along Y- axis)');
+      expect(gcode).toContain('G38.5 Y10 F100                          (Probe away along Y axis)');
+    });
+
+    it('should warn when the controller cannot probe away', () => {
+      const gcode = generateGCode(
+        [{ ...sampleProbeOperation, probeMode: 'G38.4' }],
+        { ...sampleProbeSequenceSettings, dialect: 'mach' }
+      );
+
+      expect(gcode).toContain('(WARNING: Mach3/4 cannot run G38.4 (away, alarm on miss))');
+      expect(gcode).not.toContain('WARNING: Mach3/4 cannot run G38.2');
+    });
+  });
+
+  describe('seek/latch probing', () => {
+    const seekLatchProbe: ProbeOperation = {
+      ...sampleProbeOperation,
+      seekLatch: { seekFeedRate: 200, latchFeedRate: 25, retractDistance: 1.5, repeatCount: 2 }
+    };
+
+    it('should expand into a seek followed by retract/latch pairs', () => {
+      const lines = generateGCode([seekLatchProbe], sampleProbeSequenceSettings)
+        .split('\n')
+        .filter(line => /^(G38|G0 G91 Y|G10)/.test(line));
+
+      expect(lines).toEqual([
+        'G38.2 Y-10 F200                         (Seek along Y- axis)',
+        'G0 G91 Y1.5                             (Retract for latch probe)',
+        'G38.2 Y-3 F25                           (Latch along Y- axis)',
+        'G0 G91 Y1.5                             (Retract for latch probe)',
+        'G38.2 Y-3 F25                           (Latch along Y- axis)',
+        'G10 L20 P1 Y1.5875                      (Set WCS G54 Y origin)',
+        'G0 G91 Y1                               (Back off from surface)'
+      ]);
+    });
+
+    it('should round-trip through the parser', () => {
+      const parsed = parseGCode(generateGCode([seekLatchProbe], sampleProbeSequenceSettings));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.probeSequence).toHaveLength(1);
+      expect(parsed.probeSequence[0]).toMatchObject({
+        axis: 'Y',
+        direction: -1,
+        distance: 10,
+        seekLatch: seekLatchProbe.seekLatch,
+        preMoves: []
+      });
+    });
+  });
+
+  describe('tool radius compensation', () => {
+    const compensatedProbe: ProbeOperation = {
+      ...sampleProbeOperation,
+      wcsOffset: 0,
+      compensateToolRadius: true
+    };
+
+    it('should derive the WCS value from the endmill radius and probe direction', () => {
+      const gcode = generateGCode([
+        compensatedProbe,
+        { ...compensatedProbe, id: 'probe-2', direction: 1 },
+        { ...compensatedProbe, id: 'probe-3', axis: 'Z' }
+      ], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G10 L20 P1 Y1.5875');
+      expect(gcode).toContain('G10 L20 P1 Y-1.5875');
+      expect(gcode).toContain('G10 L20 P1 Z0');
+    });
+
+    it('should flip the sign for probe-away cycles', () => {
+      const gcode = generateGCode([{ ...compensatedProbe, probeMode: 'G38.4' }], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G10 L20 P1 Y-1.5875');
+    });
+
+    it('should convert the radius to inches', () => {
+      const gcode = generateGCode([compensatedProbe], { ...sampleProbeSequenceSettings, units: 'inch' });
+
+      expect(gcode).toContain('G10 L20 P1 Y0.0625');
+    });
+
+    it('should keep hand-entered values when compensation is off', () => {
+      const gcode = generateGCode([{ ...sampleProbeOperation, wcsOffset: 2 }], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('G10 L20 P1 Y2');
+    });
+
+    it('should add negative values to the skip position on Fanuc', () => {
+      const gcode = generateGCode(
+        [{ ...compensatedProbe, direction: 1 }],
+        { ...sampleProbeSequenceSettings, dialect: 'fanuc' }
+      );
+
+      expect(gcode).toContain('G90 G10 L2 P1 Y[#5022-#5042+#5062+1.5875]');
+    });
+  });
+
+  describe('parametric output', () => {
+    const parametricSettings: ProbeSequenceSettings = { ...sampleProbeSequenceSettings, outputMode: 'parametric' };
+    const probes: ProbeOperation[] = [
+      { ...sampleProbeOperation, axis: 'X' },
+      { ...sampleProbeOperation, id: 'probe-2', axis: 'X', direction: 1, wcsOffset: -1.5875, backoffDistance: -1 }
+    ];
+
+    it('should share one LinuxCNC subroutine between operations on the same axis', () => {
+      const gcode = generateGCode(probes, parametricSettings);
+
+      expect(gcode.match(/o100 sub/g)).toHaveLength(1);
+      expect(gcode).toContain('G38.2 X#1 F#2');
+      expect(gcode).toContain('G10 L20 P1 X[#3 + #<_x> - #5061]');
+      expect(gcode).toContain('o100 call [-10] [100] [1.5875] [1]      (Probe along X- axis)');
+      expect(gcode).toContain('o100 call [10] [100] [-1.5875] [-1]     (Probe along X axis)');
+      expect(gcode).toContain('#1002=#5061                             (Store operation 2 X probe result)');
+      // Subroutines must be defined before the program calls them
+      expect(gcode.indexOf('o100 endsub')).toBeLessThan(gcode.indexOf('G21'));
+    });
+
+    it('should pass latch arguments to seek/latch subroutines', () => {
+      const gcode = generateGCode([{
+        ...sampleProbeOperation,
+        seekLatch: { seekFeedRate: 200, latchFeedRate: 25, retractDistance: 1.5, repeatCount: 1 }
+      }], parametricSettings);
+
+      expect(gcode).toContain('G0 G91 Y#5');
+      expect(gcode).toContain('G38.2 Y#6 F#7');
+      expect(gcode).toContain('o100 call [-10] [200] [1.5875] [1] [1.5] [-3] [25]');
+    });
+
+    it('should place Fanuc subprograms after M30 inside the tape delimiters', () => {
+      const lines = generateGCode(probes, { ...parametricSettings, dialect: 'fanuc' }).trimEnd().split('\n');
+
+      expect(lines).toContain('#101=-10.');
+      expect(lines).toContain('M98 P1000                               (Probe along X- axis)');
+      expect(lines.findIndex(line => line.startsWith('M30'))).toBeLessThan(lines.findIndex(line => line.startsWith('O1000')));
+      expect(lines.slice(-3)).toEqual(['M99', '', '%']);
+    });
+
+    it('should fall back to literal values on controllers without variables', () => {
+      const gcode = generateGCode(probes, { ...parametricSettings, dialect: 'grbl' });
+
+      expect(gcode).toContain('; WARNING: GRBL has no parametric programming, writing literal values');
+      expect(gcode).toContain('G38.2 X-10 F100');
+    });
+  });
+
+  describe('composite operations', () => {
+    const bore: ProbeOperation = {
+      ...sampleProbeOperation,
+      id: 'bore',
+      composite: { kind: 'boreCenter', size: 20, clearance: 2, depth: 5 }
+    };
+
+    it('should write literal touches that assume the expected size', () => {
+      const gcode = generateGCode([bore], sampleProbeSequenceSettings);
+
+      expect(gcode).toContain('(=== Probe Operation 1: Bore center ===)');
+      expect(gcode).toContain('(WARNING: Bore center assumes the expected size of 20, parametric output measures it)');
+      expect(gcode).toContain('G38.2 X-10.4125 F100                    (Probe along X- axis)');
+      expect(gcode).toContain('G10 L20 P1 X8.4125                      (Set WCS G54 X origin)');
+      expect(gcode).toContain('G0 G90 G54 X0                           (Move to X center)');
+      expect(gcode.match(/G10 L20/g)).toHaveLength(2);
+      // Touches after the center move are incremental again
+      expect(gcode.indexOf('G91', gcode.indexOf('G0 G90 G54 X0'))).toBeLessThan(gcode.indexOf('G38.2 Y-10.4125'));
+    });
+
+    it('should store every touch and zero the measured midpoint in parametric output', () => {
+      const gcode = generateGCode([bore, sampleProbeOperation], { ...sampleProbeSequenceSettings, outputMode: 'parametric' });
+
+      expect(gcode).not.toContain('WARNING');
+      expect(gcode).toContain('#1001=#5061                             (Store touch 1 X probe result)');
+      expect(gcode).toContain('#1004=#5062                             (Store touch 4 Y probe result)');
+      expect(gcode).toContain('G10 L20 P1 X[0 + #<_x> - [#1001 + #1002] / 2]  (Set WCS G54 X origin midway between touches)');
+      expect(gcode).toContain('G10 L20 P1 Y[0 + #<_y> - [#1003 + #1004] / 2]');
+      // Later operations keep their own result variables and subroutine
+      expect(gcode).toContain('#1005=#5062                             (Store operation 2 Y probe result)');
+      expect(gcode.match(/o100 sub/g)).toHaveLength(1);
+    });
+
+    it('should set corner offsets from the probe result on Fanuc', () => {
+      const gcode = generateGCode([{
+        ...sampleProbeOperation,
+        composite: { kind: 'outsideCorner', size: 0, clearance: 2, depth: 5, cornerDirection: { X: 1, Y: -1 } }
+      }], { ...sampleProbeSequenceSettings, outputMode: 'parametric', dialect: 'fanuc' });
+
+      expect(gcode).toContain('G90 G10 L2 P1 X[#5021-#5041+#5061-[-1.5875]]');
+      expect(gcode).toContain('G90 G10 L2 P1 Y[#5022-#5042+#5062-[1.5875]]');
+    });
+
+    describe('edge angle', () => {
+      const edge: ProbeOperation = {
+        ...sampleProbeOperation,
+        id: 'edge',
+        composite: { kind: 'edgeAngle', size: 30, clearance: 2, depth: 5, rotateCoordinates: true }
+      };
+
+      it('should compute the angle and rotate coordinates in parametric output', () => {
+        const gcode = generateGCode([edge], { ...sampleProbeSequenceSettings, outputMode: 'parametric' });
+
+        expect(gcode).toContain('(=== Probe Operation 1: Edge angle ===)');
+        expect(gcode).not.toContain('G10 L20');
+        expect(gcode).toContain('#1003=ATAN[#1002 - #1001]/[30]          (Store Y edge angle in degrees)');
+        expect(gcode).toContain('G10 L2 P1 R#1003                        (Rotate coordinates by the edge angle)');
+      });
+
+      it('should rotate with G68 on Fanuc and only store the angle when asked to', () => {
+        const settings = { ...sampleProbeSequenceSettings, outputMode: 'parametric' as const, dialect: 'fanuc' as const };
+
+        expect(generateGCode([edge], settings)).toContain('G68 X0 Y0 R#503');
+        expect(generateGCode([{ ...edge, composite: { ...edge.composite!, rotateCoordinates: false } }], settings)).not.toContain('G68');
+      });
+
+      it('should leave the angle to the simulator in literal output', () => {
+        const gcode = generateGCode([edge], sampleProbeSequenceSettings);
+
+        expect(gcode).toContain('(WARNING: Edge angle is only computed by parametric output, the simulator reports it)');
+        expect(gcode.match(/G38\.2/g)).toHaveLength(2);
+        expect(gcode).not.toMatch(/^G10/m);
+        expect(gcode).toContain('(Y edge angle from touches 1 and 2, 30 apart: not measured, no rotation applied; parametric output applies G10 L2 P1 R[angle])');
+      });
+
+      it('should say when literal output cannot rotate coordinates', () => {
+        const grbl = generateGCode([edge], { ...sampleProbeSequenceSettings, dialect: 'grbl' });
+        const unrotated = generateGCode([{ ...edge, composite: { ...edge.composite!, rotateCoordinates: false } }], sampleProbeSequenceSettings);
+
+        expect(grbl).toContain('; Y edge angle from touches 1 and 2, 30 apart: not measured, no rotation applied; GRBL cannot rotate coordinates');
+        expect(unrotated).toContain('no rotation applied; rotation is off)');
+      });
+    });
+
+    it('should map each touch stage to its touch', () => {
+      const { gcode, sourceMap } = generateGCodeWithSourceMap([bore], sampleProbeSequenceSettings);
+      const lines = gcode.split('\n');
+
+      expect(sourceMap[lines.findIndex(line => line.startsWith('G38.2 Y10.4125'))]).toEqual({ operationId: 'bore', probeStage: 0, touch: 3 });
+      expect(sourceMap[lines.findIndex(line => line.startsWith('G0 G90 G54 Y0'))]).toEqual({ operationId: 'bore', movementId: 'bore-center-y' });
+    });
+  });
+
+  describe('rotary indexing', () => {
+    it('should index the rotary axes before the pre-moves and return to incremental mode', () => {
+      const { gcode, sourceMap } = generateGCodeWithSourceMap([{ ...sampleProbeOperation, rotaryIndex: { A: 90 } }], sampleProbeSequenceSettings);
+      const lines = gcode.split('\n');
+      const indexLine = lines.findIndex(line => line.startsWith('G0 G90 G53 A90'));
+
+      expect(lines[indexLine - 1]).toBe('(=== Probe Operation 1: Y Axis ===)');
+      expect(lines[indexLine]).toContain('(Index rotary A90)');
+      expect(lines[indexLine + 1]).toMatch(/^G91 +\(Set to incremental positioning mode\)$/);
+      expect(sourceMap[indexLine]).toEqual({ operationId: sampleProbeOperation.id, movementId: `${sampleProbeOperation.id}-index` });
+    });
+
+    it('should write nothing extra for operations without an index angle', () => {
+      expect(generateGCode([sampleProbeOperation], sampleProbeSequenceSettings)).not.toContain('G53 A');
+    });
+  });
+
+  describe('tool library', () => {
+    const tools: Tool[] = [
+      { id: 'probe', name: 'Touch probe', type: 'touchProbe', tipDiameter: 2, length: 50, probeOnCode: 'M64 P0\nG4 P0.5', probeOffCode: 'M65 P0' },
+      { id: 'endmill', name: '6mm endmill', type: 'endmill', tipDiameter: 6, length: 30 }
+    ];
+
+    it('should wrap the probe in the tool enable and disable codes', () => {
+      const gcode = generateGCode([sampleProbeOperation], { ...sampleProbeSequenceSettings, toolId: 'probe' }, {}, tools);
+      const lines = gcode.split('\n');
+      const enable = lines.findIndex(line => line.startsWith('M64 P0'));
+
+      expect(lines[enable]).toContain('(Enable Touch probe)');
+      expect(lines[enable + 1]).toBe('G4 P0.5');
+      expect(lines[enable + 2]).toContain('(Empty Buffer)');
+      const disable = lines.findIndex(line => line.startsWith('M65 P0'));
+      expect(lines[disable]).toContain('(Disable Touch probe)');
+      expect(lines[disable - 2]).toContain('(Back off from surface)');
+    });
+
+    it('should compensate with the tip diameter of the tool each operation uses', () => {
+      const compensated = { ...sampleProbeOperation, compensateToolRadius: true };
+      const gcode = generateGCode(
+        [compensated, { ...compensated, id: 'probe-2', toolId: 'endmill' }],
+        { ...sampleProbeSequenceSettings, toolId: 'probe' },
+        {},
+        tools
+      );
+
+      expect(gcode).toContain('G10 L20 P1 Y1 ');
+      expect(gcode).toContain('G10 L20 P1 Y3 ');
+      expect(gcode.match(/M64 P0/g)).toHaveLength(1);
+    });
+
+    it('should fall back to the endmill size when the tool is not in the library', () => {
+      const gcode = generateGCode([{ ...sampleProbeOperation, compensateToolRadius: true, toolId: 'removed' }], sampleProbeSequenceSettings, {}, tools);
+
+      expect(gcode).toContain('G10 L20 P1 Y1.5875');
+      expect(gcode).not.toContain('M64');
+    });
+  });
+
+  describe('program templates', () => {
+    const templates = {
+      header: '{units}\nG90 G53 G0 Z{initialPosition.Z}\nM5 (Touch probe, never spin)',
+      footer: 'G0 G53 Z0 (Safe Z)\nG0 {wcs} G90 X0Y0\nM5\nM30'
+    };
+
+    it('should replace the built-in start and end blocks', () => {
+      const gcode = generateGCode([sampleProbeOperation], sampleProbeSequenceSettings, templates);
+
+      expect(gcode.startsWith('G21\nG90 G53 G0 Z-41\nM5 (Touch probe, never spin)\n\nG91')).toBe(true);
+      expect(gcode).not.toContain('M4');
+      expect(gcode).not.toContain('S0');
+      expect(gcode.trimEnd().endsWith('G0 G53 Z0 (Safe Z)\nG0 G54 G90 X0Y0\nM5\nM30')).toBe(true);
+    });
+
+    it('should keep tape delimiters and subroutines around a footer template', () => {
+      const lines = generateGCode(
+        [sampleProbeOperation],
+        { ...sampleProbeSequenceSettings, dialect: 'fanuc', outputMode: 'parametric' },
+        templates
+      ).trimEnd().split('\n');
+
+      expect(lines[0]).toBe('%');
+      expect(lines).toContain('G90 G53 G0 Z-41.');
+      expect(lines.indexOf('M30')).toBeLessThan(lines.findIndex(line => line.startsWith('O1000')));
+      expect(lines[lines.length - 1]).toBe('%');
+    });
+
+    it('should allow an empty header', () => {
+      const gcode = generateGCode([], sampleProbeSequenceSettings, { header: '' });
+
+      expect(gcode.startsWith('G91')).toBe(true);
+      expect(gcode).toContain('G0 G54 G90 X0Y0                         (Return to origin)');
+    });
+  });
+
+  describe('source map', () => {
+    const probeWithMoves: ProbeOperation = {
+      ...sampleProbeOperation,
+      preMoves: [{ id: 'pre-1', type: 'rapid', description: 'Position for probe', axesValues: { X: 10 }, positionMode: 'relative', coordinateSystem: 'none' }],
+      postMoves: [{ id: 'post-1', type: 'dwell', description: 'Wait after probe', dwellTime: 0.5 }]
+    };
+
+    it('should map every generated line to its source', () => {
+      const { gcode, sourceMap } = generateGCodeWithSourceMap([probeWithMoves], sampleProbeSequenceSettings);
+      const lines = gcode.split('\n');
+      const lineOf = (text: string) => lines.findIndex(line => line.startsWith(text));
+
+      expect(sourceMap).toHaveLength(lines.length - 1);
+      expect(sourceMap[lineOf('G21')]).toBeNull();
+      expect(sourceMap[lineOf('G0 G91 X10')]).toEqual({ operationId: 'probe-1', movementId: 'pre-1' });
+      expect(sourceMap[lineOf('G38.2 Y-10')]).toEqual({ operationId: 'probe-1', probeStage: 0 });
+      expect(sourceMap[lineOf('G10 L20 P1 Y1.5875')]).toEqual({ operationId: 'probe-1' });
+      expect(sourceMap[lineOf('G4 P0.5')]).toEqual({ operationId: 'probe-1', movementId: 'post-1' });
+      expect(sourceMap[lineOf('G0 G54 G90 X0Y0')]).toBeNull();
+    });
+
+    it('should map each seek/latch stage separately', () => {
+      const { gcode, sourceMap } = generateGCodeWithSourceMap([{
+        ...sampleProbeOperation,
+        seekLatch: { seekFeedRate: 200, latchFeedRate: 25, retractDistance: 1.5, repeatCount: 1 }
+      }], sampleProbeSequenceSettings);
+      const lines = gcode.split('\n');
+
+      expect(sourceMap[lines.findIndex(line => line.startsWith('G38.2 Y-10 F200'))]).toEqual({ operationId: 'probe-1', probeStage: 0 });
+      expect(sourceMap[lines.findIndex(line => line.startsWith('G0 G91 Y1.5'))]).toEqual({ operationId: 'probe-1', probeStage: 1 });
+      expect(sourceMap[lines.findIndex(line => line.startsWith('G38.2 Y-3 F25'))]).toEqual({ operationId: 'probe-1', probeStage: 2 });
+    });
+
+    it('should map parametric subroutine calls but not the subroutine body', () => {
+      const { gcode, sourceMap } = generateGCodeWithSourceMap(
+        [sampleProbeOperation],
+        { ...sampleProbeSequenceSettings, outputMode: 'parametric' }
+      );
+      const lines = gcode.split('\n');
+
+      expect(sourceMap[lines.findIndex(line => line.startsWith('o100 sub'))]).toBeNull();
+      expect(sourceMap[lines.findIndex(line => line.startsWith('o100 call'))]).toEqual({ operationId: 'probe-1', probeStage: 0 });
+    });
+
+    it('should match the plain generator output', () => {
+      expect(generateGCodeWithSourceMap([probeWithMoves], sampleProbeSequenceSettings).gcode)
+        .toBe(generateGCode([probeWithMoves], sampleProbeSequenceSettings));
+    });
+  });
+
   describe('generateGCode convenience function', () => {
     it('should work the same as GCodeGenerator.generate', () => {
       const gcodeFromClass = GCodeGenerator.generate([sampleProbeOperation], sampleProbeSequenceSettings);
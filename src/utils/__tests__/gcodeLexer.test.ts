@@ -0,0 +1,73 @@
+// src/utils/__tests__/gcodeLexer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { tokenizeLine } from '../gcodeLexer';
+
+const wordsOf = (line: string) => tokenizeLine(line).words.map(({ letter, value }) => `${letter}${value}`);
+
+describe('gcodeLexer', () => {
+  it('should read leading zeros, signs and bare decimals', () => {
+    expect(wordsOf('G00 G01 x+1. Y-.5 z0010')).toEqual(['G0', 'G1', 'X1', 'Y-0.5', 'Z10']);
+    expect(wordsOf('G38.2 Z-10 F100')).toEqual(['G38.2', 'Z-10', 'F100']);
+  });
+
+  it('should split words written without spaces', () => {
+    expect(wordsOf('G0G54G90X0Y0')).toEqual(['G0', 'G54', 'G90', 'X0', 'Y0']);
+    expect(wordsOf('N10 G0 X 5')).toEqual(['N10', 'G0', 'X5']);
+  });
+
+  it('should collect parenthesised and semicolon comments', () => {
+    const result = tokenizeLine('G0 X1 (first) Y2 ; second (not nested)');
+
+    expect(result.words.map(({ letter }) => letter)).toEqual(['G', 'X', 'Y']);
+    expect(result.comments).toEqual(['first', 'second (not nested)']);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should record word text and columns', () => {
+    expect(tokenizeLine('  g01 X-5').words).toEqual([
+      { letter: 'G', value: 1, text: 'g01', column: 2 },
+      { letter: 'X', value: -5, text: 'X-5', column: 6 }
+    ]);
+  });
+
+  it('should flag block delete and ignore tape delimiters', () => {
+    expect(tokenizeLine('/G0 X1').blockDelete).toBe(true);
+    expect(tokenizeLine('%')).toEqual({ words: [], comments: [], blockDelete: false, errors: [] });
+    expect(tokenizeLine('% (Program start)').comments).toEqual(['Program start']);
+  });
+
+  it('should read O-word labels and statements', () => {
+    expect(tokenizeLine('o100 call [-10] [100] (Probe)')).toMatchObject({
+      words: [],
+      oWord: { label: '100', statement: 'call [-10] [100]' },
+      comments: ['Probe']
+    });
+    expect(tokenizeLine('O1000').oWord).toEqual({ label: '1000', statement: '' });
+  });
+
+  it('should report malformed words and keep going', () => {
+    const result = tokenizeLine('G38.2 XYZ-5 F10');
+
+    expect(result.words.map(({ letter }) => letter)).toEqual(['G', 'Z', 'F']);
+    expect(result.errors).toEqual([
+      { code: 'missing-value', message: 'Missing value for X', column: 6, endColumn: 7 },
+      { code: 'missing-value', message: 'Missing value for Y', column: 7, endColumn: 8 }
+    ]);
+  });
+
+  it('should report unsupported parameters, stray characters and unclosed comments', () => {
+    expect(tokenizeLine('G38.2 X#1 F[#2 * 2]').errors.map(({ message }) => message)).toEqual([
+      'Parameter expressions are not supported for X',
+      'Parameter expressions are not supported for F'
+    ]);
+    expect(tokenizeLine('#1001=#5061 (Store result)').errors[0].message).toBe('Parameter assignments are not supported');
+    expect(tokenizeLine('G0 X1 _').errors).toEqual([
+      { code: 'unexpected-character', message: 'Unexpected character "_"', column: 6, endColumn: 7 }
+    ]);
+    expect(tokenizeLine('G0 X1 (open').errors).toEqual([
+      { code: 'unclosed-comment', message: 'Unclosed comment', column: 6, endColumn: 11 }
+    ]);
+    expect(tokenizeLine('G38.2 X#1 F10').errors[0]).toMatchObject({ code: 'parameter-expression', column: 6, endColumn: 9 });
+  });
+});
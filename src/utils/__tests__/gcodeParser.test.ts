@@ -2,6 +2,8 @@
 
 import { describe, it, expect } from 'vitest';
 import { parseGCode } from '../gcodeParser';
+import { generateGCode } from '../gcodeGenerator';
+import type { ProbeOperation, ProbeSequenceSettings } from '@/types/machine';
 
 describe('gcodeParser', () => {
   describe('parseGCode', () => {
@@ -143,7 +145,7 @@ S0                                      (Stop spindle)`;
       expect(probe2.postMoves[0]).toMatchObject({
         type: 'rapid',
         axesValues: { Z: -24 },
-        positionMode: 'none',
+        positionMode: 'absolute',
         coordinateSystem: 'machine'
       });
       expect(probe2.postMoves[1]).toMatchObject({
@@ -160,15 +162,8 @@ S0                                      (Stop spindle)`;
       expect(probe3.wcsOffset).toBe(0);
       expect(probe3.backoffDistance).toBe(2); // Parsed from automatic backoff move
       expect(probe3.preMoves).toHaveLength(0); // Previous post-moves are assigned to previous probe
-      expect(probe3.postMoves).toHaveLength(1); // One post-move (automatic backoff excluded)
-
-      // Check post-move for probe 3
-      expect(probe3.postMoves[0]).toMatchObject({
-        type: 'rapid',
-        axesValues: { X: 0, Y: 0 },
-        positionMode: 'absolute',
-        coordinateSystem: 'wcs'
-      });
+      // The return to work origin before S0 is the one the footer writes, so it is not imported
+      expect(probe3.postMoves).toHaveLength(0);
     });
 
     it('should detect buffer clear blocks with minimum 2 consecutive G4 P0.01 lines', () => {
@@ -289,18 +284,19 @@ G10 L20 P1 Y1`;
       
       expect(moves[0]).toMatchObject({
         positionMode: 'absolute',
-        coordinateSystem: 'none',
+        coordinateSystem: 'wcs',
         axesValues: { X: 10 }
       });
       
+      // G90 stays in effect until the G91
       expect(moves[1]).toMatchObject({
-        positionMode: 'none',
+        positionMode: 'absolute',
         coordinateSystem: 'machine',
         axesValues: { Y: 20 }
       });
       
       expect(moves[2]).toMatchObject({
-        positionMode: 'none',
+        positionMode: 'absolute',
         coordinateSystem: 'wcs',
         axesValues: { Z: 5 }
       });
@@ -312,6 +308,96 @@ G10 L20 P1 Y1`;
       });
     });
 
+    it('should keep the modal distance mode and work offset on moves without their own words', () => {
+      const gcode = `G21
+G4 P0.01
+G4 P0.01
+G90 G55
+G0 X10 Y10
+G0 Z20
+G38.2 Z-10 F10
+G10 L20 P2 Z0`;
+
+      const [probe] = parseGCode(gcode).probeSequence;
+
+      const rapids = probe.preMoves.filter(move => move.type === 'rapid');
+      expect(rapids.map(({ positionMode, coordinateSystem, wcsIndex }) => ({ positionMode, coordinateSystem, wcsIndex }))).toEqual([
+        { positionMode: 'absolute', coordinateSystem: 'wcs', wcsIndex: 2 },
+        { positionMode: 'absolute', coordinateSystem: 'wcs', wcsIndex: 2 }
+      ]);
+
+      const regenerated = generateGCode([probe], {
+        initialPosition: { X: 0, Y: 0, Z: -10 },
+        dwellsBeforeProbe: 2,
+        spindleSpeed: 5000,
+        units: 'mm',
+        endmillSize: { input: '1/8', unit: 'fraction', sizeInMM: 3.175 },
+        operations: [probe]
+      });
+      expect(regenerated).toContain('G0 G90 G55 X10 Y10');
+      expect(regenerated).toContain('G0 G90 G55 Z20');
+      // The probe after them is incremental again
+      expect(regenerated.indexOf('G91')).toBeLessThan(regenerated.indexOf('G38.2 Z-10'));
+      expect(regenerated.lastIndexOf('G91', regenerated.indexOf('G38.2 Z-10'))).toBeGreaterThan(regenerated.indexOf('G0 G90 G55 Z20'));
+    });
+
+    it('should parse the work offset index of each probe and WCS move', () => {
+      const gcode = `G21
+G4 P0.01
+G4 P0.01
+G0 G90 G56 X10
+G38.2 Y-10 F10
+G10 L20 P3 Y1.5
+G0 G91 Y1
+G0 G59.1 Z5
+
+G4 P0.01
+G4 P0.01
+G38.2 X-10 F10
+G10 L20 P1 X0`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.probeSequence).toHaveLength(2);
+      const [probe1, probe2] = result.probeSequence;
+      expect(probe1.wcsIndex).toBe(3);
+      expect(probe1.wcsOffset).toBe(1.5);
+      expect(probe1.preMoves[0]).toMatchObject({ coordinateSystem: 'wcs', wcsIndex: 3 });
+      expect(probe1.postMoves[0]).toMatchObject({ coordinateSystem: 'wcs', wcsIndex: 7 });
+      expect(probe2.wcsIndex).toBe(1);
+    });
+
+    it('should parse non-alarming and probe-away cycles', () => {
+      const gcode = `G21
+G4 P0.01
+G4 P0.01
+G38.3 Z-10 F25
+G10 L20 P1 Z0
+G0 G91 Z1
+
+G4 P0.01
+G4 P0.01
+G38.4 X5 F10
+G10 L20 P1 X0`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.errors).toEqual([]);
+      expect(result.probeSequence.map(probe => probe.probeMode)).toEqual(['G38.3', 'G38.4']);
+      expect(result.probeSequence[1]).toMatchObject({ axis: 'X', direction: 1, distance: 5 });
+    });
+
+    it('should keep the sign of radius-compensated WCS values', () => {
+      const gcode = `G21
+G4 P0.01
+G38.2 X10 F25
+G10 L20 P1 X-1.5875`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.probeSequence[0]).toMatchObject({ axis: 'X', direction: 1, wcsOffset: -1.5875 });
+    });
+
     it('should handle dwell commands with different durations', () => {
       const gcode = `G21
 G91
@@ -462,8 +548,8 @@ G0 X-5`;
       expect(result.probeSequence[0].preMoves[0].axesValues).toEqual({ X: 5 });
       expect(result.probeSequence[0].preMoves[1].axesValues).toEqual({ Y: 10 });
       
-      // Post-moves should not include the buffer clear dwells
-      expect(result.probeSequence[0].postMoves).toHaveLength(0);
+      // Post-moves should not include the buffer clear dwells; the move after them still runs last
+      expect(result.probeSequence[0].postMoves.map(move => move.axesValues)).toEqual([{ X: -5 }]);
     });
 
     it('should return errors for malformed lines', () => {
@@ -717,21 +803,24 @@ S0                                      (Stop spindle)`;
       expect(probe.distance).toBe(10);
       expect(probe.feedRate).toBe(100);
       expect(probe.wcsOffset).toBe(1.5875);
-      expect(probe.backoffDistance).toBe(1);      // Based on debug output: pre-moves are not captured (they're processed before buffer clear)
-      expect(probe.preMoves).toHaveLength(0);
+      expect(probe.backoffDistance).toBe(1);
+      // The header ends at the operation heading, so the spindle dwell is dropped and the pre-move kept
+      expect(probe.preMoves).toHaveLength(1);
+      expect(probe.preMoves[0]).toMatchObject({
+        type: 'rapid',
+        description: 'Position for probe',
+        axesValues: { X: 10, Y: -5 },
+        positionMode: 'relative',
+        coordinateSystem: 'none'
+      });
 
-      // Test post-moves with comment extraction
-      expect(probe.postMoves).toHaveLength(2);
+      // The footer writes the return to origin again, so it is not imported
+      expect(probe.postMoves).toHaveLength(1);
       expect(probe.postMoves[0]).toMatchObject({
         type: 'dwell',
         description: 'Wait after probe',
         dwellTime: 0.5
       });
-      expect(probe.postMoves[1]).toMatchObject({
-        type: 'rapid',
-        description: 'Return to origin',
-        axesValues: { X: 0, Y: 0 }
-      });
     });
 
     it('should parse multi-probe G-code with comment extraction', () => {
@@ -880,15 +969,20 @@ G38.2 XYZ-5 F10 (Invalid multi-axis probe)`;
 
       const result = parseGCode(gcode);      // Should still parse valid parts (may create multiple probe operations due to invalid commands)
       expect(result.units).toBe('mm');
-      expect(result.probeSequence).toHaveLength(2); // Valid Y probe + attempted invalid probe
+      expect(result.probeSequence).toHaveLength(1); // Invalid probes are kept as raw lines
       expect(result.probeSequence[0].axis).toBe('Y');
       
       // Should report errors for invalid parts
       expect(result.errors.length).toBeGreaterThan(0);
       
-      // Should still include valid pre-moves
-      expect(result.probeSequence[0].preMoves).toHaveLength(1);
-      expect(result.probeSequence[0].preMoves[0].axesValues).toEqual({ X: 10 });
+      // Should still include valid pre-moves, with the invalid lines kept around them
+      expect(result.probeSequence[0].preMoves.map(move => move.type)).toEqual(['raw', 'rapid', 'raw']);
+      expect(result.probeSequence[0].preMoves[1].axesValues).toEqual({ X: 10 });
+      expect(result.probeSequence[0].preMoves[2]).toMatchObject({
+        rawText: 'G38.2 (Incomplete probe command)',
+        diagnostic: 'Invalid probe command, expected exactly one axis'
+      });
+      expect(result.probeSequence[0].postMoves.map(move => move.rawText)).toEqual(['G38.2 XYZ-5 F10 (Invalid multi-axis probe)']);
     });
 
     it('should demonstrate comment extraction functionality comprehensively', () => {
@@ -925,4 +1019,407 @@ G10 L20 P1 Z0`;
                                            move.description.includes('Return to origin'))).toBe(true);
     });
   });
+  describe('lexing and modal state', () => {
+    it('should read leading zeros, packed words, N-words and semicolon comments', () => {
+      const gcode = `N10 G21 G91
+N20 G4 P0.01
+N30 G4 P0.01
+N40 G00X5Y-2 ; Position for probe
+N50 G38.2Y-10F100
+N60 G10L20P1Y1.5875
+N70 G00 Y1`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.errors).toEqual([]);
+      expect(result.probeSequence).toHaveLength(1);
+      expect(result.probeSequence[0]).toMatchObject({
+        axis: 'Y',
+        direction: -1,
+        distance: 10,
+        feedRate: 100,
+        wcsOffset: 1.5875,
+        backoffDistance: 1
+      });
+      expect(result.probeSequence[0].preMoves).toHaveLength(1);
+      expect(result.probeSequence[0].preMoves[0]).toMatchObject({
+        axesValues: { X: 5, Y: -2 },
+        description: 'Position for probe'
+      });
+    });
+
+    it('should keep rotary words in rapid moves instead of reading them as the initial position', () => {
+      const gcode = `G21
+G0 G90 G53 X10 Y20 Z30
+G0 G90 G53 A90 (Index rotary A90)
+G91
+G4 P0.01
+G4 P0.01
+G38.2 Y-10 F100`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.initialPosition).toEqual({ X: 10, Y: 20, Z: 30 });
+      expect(result.probeSequence[0].preMoves).toHaveLength(1);
+      expect(result.probeSequence[0].preMoves[0]).toMatchObject({
+        type: 'rapid',
+        axesValues: { A: 90 },
+        positionMode: 'absolute',
+        coordinateSystem: 'machine'
+      });
+    });
+
+    it('should not read G01 feeds as rapid moves', () => {
+      const gcode = `G21 G91
+G4 P0.01
+G4 P0.01
+G01 X5 F200
+G38.2 Z-10`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.probeSequence[0].preMoves).toHaveLength(1);
+      expect(result.probeSequence[0].preMoves[0]).toMatchObject({ type: 'raw', rawText: 'G01 X5 F200' });
+      // The modal feed rate carries into the probe
+      expect(result.probeSequence[0].feedRate).toBe(200);
+    });
+
+    it('should carry motion, distance mode and spindle speed from earlier lines', () => {
+      const gcode = `G21
+S8000
+M3
+G90 G53 G0 Z-10
+G91
+G4 P0.01
+G4 P0.01
+G38.2 X-10 F50
+G10 L20 P1 X0
+G0 X2
+Y5 (Carried rapid)`;
+
+      const result = parseGCode(gcode);
+
+      expect(result.spindleSpeed).toBe(8000);
+      expect(result.initialPosition).toEqual({ X: 0, Y: 0, Z: -10 });
+      expect(result.probeSequence[0].backoffDistance).toBe(2);
+      expect(result.probeSequence[0].postMoves).toHaveLength(1);
+      expect(result.probeSequence[0].postMoves[0]).toMatchObject({
+        axesValues: { Y: 5 },
+        positionMode: 'relative',
+        description: 'Carried rapid'
+      });
+    });
+
+    it('should report the line of each lexer error', () => {
+      const result = parseGCode('G21\nG0 X1 (unclosed');
+
+      expect(result.errors).toEqual(['Error parsing line 2: "G0 X1 (unclosed" - Unclosed comment']);
+    });
+  });
+  describe('raw steps', () => {
+    const program = `%
+O0001 (PROBE SEQUENCE)
+G21
+G17 G40 G49 (Setup the controller needs)
+G90 G53 G0 Z-10
+S5000 M4
+G91
+G4 P0.01
+G4 P0.01
+T1 M6
+G01 X5 F200
+G38.2 Y-10 F100
+G10 L20 P1 Y0
+G0 G91 Y1
+M8 (Coolant on)
+o100 call [1] [2]
+G4 P0.01
+G4 P0.01
+G38.2 X-10 F100
+G10 L20 P1 X0
+G0 G91 X1
+M0 (Check probe)
+S0
+M5
+M30
+%`;
+
+    const rawTextsOf = (operations: ProbeOperation[]) => operations.flatMap(operation =>
+      [...operation.preMoves, ...operation.postMoves].filter(move => move.type === 'raw').map(move => move.rawText));
+
+    it('should keep unrecognized lines in order as raw steps', () => {
+      const result = parseGCode(program);
+
+      expect(result.errors).toEqual([]);
+      expect(result.probeSequence).toHaveLength(2);
+      expect(result.probeSequence[0].preMoves.map(move => move.rawText)).toEqual([
+        'G17 G40 G49 (Setup the controller needs)',
+        'T1 M6',
+        'G01 X5 F200'
+      ]);
+      expect(result.probeSequence[0].postMoves).toMatchObject([
+        { type: 'raw', rawText: 'M8 (Coolant on)', description: 'Coolant on' },
+        { type: 'raw', rawText: 'o100 call [1] [2]', description: 'o100 call [1] [2]' }
+      ]);
+      // The footer's own spindle stop and program end are regenerated, not kept
+      expect(result.probeSequence[1].postMoves.map(move => move.rawText)).toEqual(['M0 (Check probe)']);
+    });
+
+    it('should write raw steps back verbatim on export', () => {
+      const { probeSequence } = parseGCode(program);
+      const exported = generateGCode(probeSequence, {
+        initialPosition: { X: 0, Y: 0, Z: -10 },
+        dwellsBeforeProbe: 2,
+        spindleSpeed: 5000,
+        units: 'mm',
+        endmillSize: { input: '1/8', unit: 'fraction', sizeInMM: 3.175 },
+        operations: probeSequence
+      });
+      const lines = exported.split('\n');
+      const rawTexts = rawTextsOf(probeSequence);
+
+      expect(rawTexts.every(text => lines.includes(text!))).toBe(true);
+      expect(rawTexts.map(text => lines.indexOf(text!))).toEqual([...rawTexts.map(text => lines.indexOf(text!))].sort((a, b) => a - b));
+      expect(rawTextsOf(parseGCode(exported).probeSequence)).toEqual(rawTexts);
+    });
+    it('should keep lines that do not parse, and everything from the program end on', () => {
+      const source = `G21
+G4 P0.01
+G4 P0.01
+#100=5
+G0 X[#100]
+G0
+G4
+G38.2 Z-10 F10
+G10 L20 P1 Z0
+M30
+(Subprogram)
+O1000
+G0 X1
+M99
+%`;
+      const { probeSequence, programEnd } = parseGCode(source);
+
+      expect(probeSequence[0].preMoves.map(move => [move.rawText, move.diagnostic])).toEqual([
+        ['#100=5', 'Parameter assignments are not supported'],
+        ['G0 X[#100]', 'Parameter expressions are not supported for X'],
+        ['G0', undefined],
+        ['G4', undefined]
+      ]);
+      expect(programEnd).toBe('M30\n(Subprogram)\nO1000\nG0 X1\nM99');
+
+      const exported = generateGCode(probeSequence, {
+        initialPosition: { X: 0, Y: 0, Z: -10 },
+        dwellsBeforeProbe: 2,
+        spindleSpeed: 5000,
+        units: 'mm',
+        endmillSize: { input: '1/8', unit: 'fraction', sizeInMM: 3.175 },
+        dialect: 'linuxcnc',
+        programEnd,
+        operations: probeSequence
+      });
+      expect(exported.trimEnd().endsWith('M30\n(Subprogram)\nO1000\nG0 X1\nM99')).toBe(true);
+      expect(exported).not.toContain('M2 ');
+      expect(rawTextsOf(parseGCode(exported).probeSequence)).toEqual(rawTextsOf(probeSequence));
+    });
+  });
+
+  describe('probing macros', () => {
+    const program = `G21
+G54
+G0 X-10 Y5
+G65 P9832
+G65 P9810 Z5 F1000 (Down beside the part)
+G65 P9811 X0 Q5 S1
+G65 P9810 Z15 F1000
+G65 P9810 X10 Y-10
+G65 P9810 Z-2
+G65 P9811 Y-4 S2 F50
+G65 P9810 Z15
+G65 P9833
+M30`;
+
+    it('should turn protected moves and single surface measurements into operations', () => {
+      const result = parseGCode(program);
+
+      expect(result.errors).toEqual([]);
+      expect(result.probeSequence).toHaveLength(2);
+      expect(result.probeSequence[0]).toMatchObject({
+        axis: 'X',
+        direction: 1,
+        distance: 15, // 10 to the target plus Q5 overtravel
+        feedRate: 10,
+        probeMode: 'G38.2',
+        wcsOffset: 0,
+        wcsIndex: 1,
+        compensateToolRadius: true
+      });
+      expect(result.probeSequence[0].preMoves.map(move => move.description)).toEqual([
+        'G54',
+        'Rapid move to X-10 Y5',
+        'Down beside the part'
+      ]);
+      expect(result.probeSequence[0].preMoves[2]).toMatchObject({
+        type: 'rapid',
+        axesValues: { Z: 5 },
+        positionMode: 'absolute'
+      });
+      expect(result.probeSequence[1]).toMatchObject({
+        axis: 'Y',
+        direction: 1,
+        distance: 10, // 6 to the target plus the default 4mm overtravel
+        feedRate: 50,
+        wcsOffset: -4,
+        wcsIndex: 2
+      });
+      expect(result.probeSequence[1].compensateToolRadius).toBeUndefined();
+      expect(result.probeSequence[1].preMoves.map(move => move.description)).toEqual([
+        'Protected move to Z15',
+        'Protected move to X10 Y-10',
+        'Protected move to Z-2'
+      ]);
+      expect(result.probeSequence[1].postMoves.map(move => move.description)).toEqual(['Protected move to Z15']);
+    });
+
+    it('should keep macro F and S words out of the modal feed and spindle speed', () => {
+      const result = parseGCode('G65 P9810 Z5 F1000\nG65 P9811 Z0 S1\nG38.2 X-5');
+
+      expect(result.probeSequence[0].feedRate).toBe(10);
+      expect(result.spindleSpeed).toBeUndefined();
+    });
+
+    it('should explain what the conversion changes', () => {
+      const codes = parseGCode(program).diagnostics.map(({ code, severity }) => `${severity} ${code}`);
+
+      expect(codes).toEqual([
+        'info macro-probe-power',
+        'info macro-protected-move',
+        'info macro-stylus-radius',
+        'info macro-probe-power'
+      ]);
+    });
+
+    it('should report measurements that cannot be converted', () => {
+      const result = parseGCode('G65 P9811 Z0 S1\nG65 P9810 Z5\nG65 P9811 X1 Y1\nG65 P9811 Z0 S110');
+      const diagnostics = result.diagnostics.filter(({ severity }) => severity !== 'info');
+
+      expect(diagnostics.map(({ code, lineIndex }) => `${lineIndex + 1} ${code}`)).toEqual([
+        '1 macro-unknown-start',
+        '3 macro-arguments',
+        '4 macro-work-offset'
+      ]);
+      expect(diagnostics[2].message).toBe('Work offset S110 has no G10 L20 equivalent; G54 is set instead');
+      expect(result.probeSequence).toHaveLength(1);
+    });
+
+    it('should keep unknown macros as raw lines', () => {
+      const result = parseGCode('G65 P9810 Z5\nG65 P9811 Z0 S1\nG65 P9814 D20 Z-5');
+
+      expect(result.probeSequence[0].postMoves).toMatchObject([{ type: 'raw', rawText: 'G65 P9814 D20 Z-5' }]);
+      expect(result.diagnostics.find(({ code }) => code === 'macro-unsupported')?.message)
+        .toBe('Macro P9814 is not recognized; kept as a raw line');
+    });
+
+    it('should re-post converted macros as plain probing G-code', () => {
+      const { probeSequence } = parseGCode(program);
+      const exported = generateGCode(probeSequence, {
+        initialPosition: { X: 0, Y: 0, Z: 0 },
+        dwellsBeforeProbe: 2,
+        spindleSpeed: 0,
+        units: 'mm',
+        endmillSize: { input: '6', unit: 'mm', sizeInMM: 6 },
+        operations: probeSequence
+      });
+
+      expect(exported).not.toContain('G65');
+      expect(exported).toContain('G38.2 X15 F10');
+      expect(exported).toContain('G38.2 Y10 F50');
+      expect(exported).toContain('G10 L20 P2 Y-4');
+    });
+  });
+
+  describe('controller dialects', () => {
+    const operations: ProbeOperation[] = [
+      {
+        id: 'y', axis: 'Y', direction: -1, distance: 10, feedRate: 100, backoffDistance: 1, wcsOffset: 1.5,
+        preMoves: [], postMoves: []
+      },
+      {
+        id: 'z', axis: 'Z', direction: -1, distance: 5, feedRate: 50, backoffDistance: 2, wcsOffset: 0, wcsIndex: 7,
+        preMoves: [], postMoves: []
+      }
+    ];
+    const generate = (dialect: 'fanuc' | 'haas') => generateGCode(operations, {
+      initialPosition: { X: 0, Y: 0, Z: 0 },
+      dwellsBeforeProbe: 3,
+      spindleSpeed: 0,
+      units: 'mm',
+      endmillSize: { input: '6', unit: 'mm', sizeInMM: 6 },
+      operations,
+      dialect
+    });
+
+    it.each(['fanuc', 'haas'] as const)('should import %s probes and skip-position offsets', dialect => {
+      const result = parseGCode(generate(dialect), dialect);
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.dwellsBeforeProbe).toBe(3);
+      expect(result.probeSequence).toMatchObject([
+        { axis: 'Y', direction: -1, distance: 10, feedRate: 100, wcsOffset: 1.5, wcsIndex: 1, probeMode: 'G38.2' },
+        { axis: 'Z', direction: -1, distance: 5, feedRate: 50, wcsOffset: 0, wcsIndex: 7, probeMode: 'G38.2' }
+      ]);
+    });
+
+    it('should parse G31 as a probe move', () => {
+      const { probeSequence, diagnostics } = parseGCode('G91\nG31 X-8 F25\nG10 L20 P1 X0');
+
+      expect(diagnostics).toEqual([]);
+      expect(probeSequence).toMatchObject([{ axis: 'X', direction: -1, distance: 8, feedRate: 25, probeMode: 'G38.2' }]);
+    });
+
+    it('should keep a G10 L2 line with unknown variables raw', () => {
+      const { diagnostics } = parseGCode('G91\nG31 X-8 F25\nG90 G10 L2 P1 X[#100-#5041+#5061-1]', 'fanuc');
+
+      expect(diagnostics).not.toEqual([]);
+    });
+  });
+
+  describe('round trip', () => {
+    const settings: ProbeSequenceSettings = {
+      initialPosition: { X: -78, Y: -100, Z: -41 },
+      dwellsBeforeProbe: 2,
+      spindleSpeed: 5000,
+      units: 'mm',
+      endmillSize: { input: '1/8', unit: 'fraction', sizeInMM: 3.175 },
+      operations: []
+    };
+    const operations: ProbeOperation[] = [
+      {
+        id: 'y', axis: 'Y', direction: -1, distance: 10, feedRate: 100, backoffDistance: 1, wcsOffset: 1.5,
+        preMoves: [{ id: 'over', type: 'rapid', description: 'Move over the edge', axesValues: { X: 5 }, positionMode: 'relative', coordinateSystem: 'none' }],
+        postMoves: [{ id: 'up', type: 'rapid', description: 'Clear the edge', axesValues: { Z: 5 }, positionMode: 'relative', coordinateSystem: 'none' }]
+      },
+      {
+        id: 'z', axis: 'Z', direction: -1, distance: 10, feedRate: 50, backoffDistance: 2, wcsOffset: 0, wcsIndex: 2,
+        preMoves: [{ id: 'settle', type: 'dwell', description: 'Let the probe settle', dwellTime: 1 }],
+        postMoves: []
+      }
+    ];
+
+    it.each(['grbl', 'linuxcnc', 'mach', 'fanuc', 'haas'] as const)('should generate the same %s program from its own import', dialect => {
+      const program = generateGCode(operations, { ...settings, dialect });
+      const imported = parseGCode(program, dialect);
+
+      const regenerated = generateGCode(imported.probeSequence, {
+        ...settings,
+        dialect,
+        initialPosition: imported.initialPosition!,
+        dwellsBeforeProbe: imported.dwellsBeforeProbe!,
+        programEnd: imported.programEnd
+      });
+
+      expect(imported.diagnostics).toEqual([]);
+      expect(regenerated).toBe(program);
+    });
+  });
 });
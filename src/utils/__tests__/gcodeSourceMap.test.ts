@@ -0,0 +1,51 @@
+// src/utils/__tests__/gcodeSourceMap.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { findSourceLine, getOperationLines, joinSourcedText, sourced, type GCodeSourceMap } from '../gcodeSourceMap';
+
+describe('gcodeSourceMap', () => {
+  const sourceMap: GCodeSourceMap = [
+    null,
+    { operationId: 'probe-1', movementId: 'pre-1' },
+    { operationId: 'probe-1', probeStage: 0 },
+    { operationId: 'probe-1', probeStage: 0 },
+    { operationId: 'probe-2', probeStage: 0 },
+    null
+  ];
+
+  describe('joinSourcedText', () => {
+    it('should attribute every line of a chunk to its source', () => {
+      const { gcode, sourceMap: joined } = joinSourcedText([
+        sourced('G21\n'),
+        sourced('G38.2 X-10 F100\nG10 L20 P1 X0\n', { operationId: 'probe-1', probeStage: 0 }),
+        sourced('M30\n')
+      ]);
+
+      expect(gcode).toBe('G21\nG38.2 X-10 F100\nG10 L20 P1 X0\nM30\n');
+      expect(joined).toEqual([null, { operationId: 'probe-1', probeStage: 0 }, { operationId: 'probe-1', probeStage: 0 }, null]);
+    });
+  });
+
+  describe('findSourceLine', () => {
+    it('should find the first line of an exact source', () => {
+      expect(findSourceLine(sourceMap, { operationId: 'probe-1', movementId: 'pre-1' })).toBe(1);
+      expect(findSourceLine(sourceMap, { operationId: 'probe-1', probeStage: 0 })).toBe(2);
+    });
+
+    it('should fall back to the probe block of the operation', () => {
+      expect(findSourceLine(sourceMap, { operationId: 'probe-1', probeStage: 2 })).toBe(2);
+      expect(findSourceLine(sourceMap, { operationId: 'probe-2', movementId: 'post-1' })).toBe(4);
+    });
+
+    it('should return -1 for unknown operations', () => {
+      expect(findSourceLine(sourceMap, { operationId: 'probe-3' })).toBe(-1);
+    });
+  });
+
+  describe('getOperationLines', () => {
+    it('should list every line of an operation', () => {
+      expect(getOperationLines(sourceMap, 'probe-1')).toEqual([1, 2, 3]);
+      expect(getOperationLines(sourceMap, 'missing')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+// src/utils/__tests__/machineProfiles.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMachineProfile,
+  createMachineProfile,
+  mergeMachineProfiles,
+  parseMachineProfiles,
+  serializeMachineProfiles,
+  uniqueProfileName
+} from '../machineProfiles';
+import type { MachineSettings, ProbeSequenceSettings } from '@/types/machine';
+
+const machineSettings: MachineSettings = {
+  units: 'mm',
+  axes: {
+    X: { positiveDirection: 'Right', negativeDirection: 'Left', polarity: 1, min: 0, max: 300 },
+    Y: { positiveDirection: 'Back', negativeDirection: 'Front', polarity: 1, min: 0, max: 200 },
+    Z: { positiveDirection: 'Up', negativeDirection: 'Down', polarity: 1, min: -100, max: 0 }
+  },
+  machineOrientation: 'vertical',
+  stageDimensions: [10, 300, 200]
+};
+
+const sequenceSettings: ProbeSequenceSettings = {
+  initialPosition: { X: 10, Y: 20, Z: -5 },
+  dwellsBeforeProbe: 5,
+  spindleSpeed: 0,
+  units: 'mm',
+  endmillSize: { input: '2', unit: 'mm', sizeInMM: 2 },
+  dialect: 'grbl',
+  operations: []
+};
+
+const profile = createMachineProfile('Router', machineSettings, sequenceSettings, 'router');
+
+describe('machineProfiles', () => {
+  describe('createMachineProfile', () => {
+    it('should capture the probing defaults and dialect of the sequence', () => {
+      expect(profile.probingDefaults).toEqual({
+        initialPosition: { X: 10, Y: 20, Z: -5 },
+        dwellsBeforeProbe: 5,
+        spindleSpeed: 0,
+        endmillSize: { input: '2', unit: 'mm', sizeInMM: 2 }
+      });
+      expect(profile.dialect).toBe('grbl');
+    });
+
+    it('should fall back to the default dialect', () => {
+      expect(createMachineProfile('Mill', machineSettings, { ...sequenceSettings, dialect: undefined }).dialect).toBe('linuxcnc');
+    });
+  });
+
+  describe('applyMachineProfile', () => {
+    it('should start a sequence from the profile and record it', () => {
+      const applied = applyMachineProfile({ ...sequenceSettings, dialect: 'haas', spindleSpeed: 5000, units: 'inch' }, profile);
+      expect(applied).toMatchObject({ spindleSpeed: 0, dialect: 'grbl', units: 'mm', profileId: 'router' });
+    });
+  });
+
+  describe('uniqueProfileName', () => {
+    it('should number names already in use', () => {
+      expect(uniqueProfileName('Lathe', [profile])).toBe('Lathe');
+      expect(uniqueProfileName('Router', [profile, { ...profile, id: 'b', name: 'Router (2)' }])).toBe('Router (3)');
+    });
+  });
+
+  describe('mergeMachineProfiles', () => {
+    it('should replace profiles with the same id and append new ones', () => {
+      const renamed = { ...profile, name: 'Router v2' };
+      const other = { ...profile, id: 'mill', name: 'Mill' };
+      expect(mergeMachineProfiles([profile], [renamed, other]).map(p => p.name)).toEqual(['Router v2', 'Mill']);
+    });
+  });
+
+  describe('parseMachineProfiles', () => {
+    it('should read back an exported file', () => {
+      expect(parseMachineProfiles(serializeMachineProfiles([profile]))).toEqual({ profiles: [profile] });
+    });
+
+    it('should reject files that are not profile exports', () => {
+      expect(parseMachineProfiles('not json')).toEqual({ error: 'The file is not valid JSON' });
+      expect(parseMachineProfiles('{"profiles": []}')).toEqual({ error: 'The file is not a machine profile export' });
+      expect(parseMachineProfiles('{"format": "mill-probe-studio-profiles", "version": 9, "profiles": []}'))
+        .toEqual({ error: 'Profile file version 9 is not supported' });
+    });
+
+    it('should name the first invalid profile', () => {
+      const broken = JSON.parse(serializeMachineProfiles([profile, { ...profile, id: 'b', name: 'Broken', dialect: 'marlin' as never }]));
+      expect(parseMachineProfiles(JSON.stringify(broken))).toEqual({ error: 'Profile 2 (Broken) has an unknown dialect' });
+
+      broken.profiles[0].machineSettings.axes.Y.polarity = 0;
+      expect(parseMachineProfiles(JSON.stringify(broken))).toEqual({ error: 'Profile 1 (Router) has invalid machine settings' });
+
+      broken.profiles[0].machineSettings.axes.Y.polarity = 1;
+      broken.profiles[0].machineSettings.rotaryAxes = { B: { min: -30, max: 30 } };
+      expect(parseMachineProfiles(JSON.stringify(broken))).toEqual({ error: 'Profile 1 (Router) has invalid machine settings' });
+
+      delete broken.profiles[0].machineSettings.rotaryAxes;
+      broken.profiles[0].probingDefaults.endmillSize = { sizeInMM: 2 };
+      expect(parseMachineProfiles(JSON.stringify(broken))).toEqual({ error: 'Profile 1 (Router) has invalid probing defaults' });
+    });
+  });
+});
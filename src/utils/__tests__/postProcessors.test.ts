@@ -0,0 +1,76 @@
+// src/utils/__tests__/postProcessors.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  postProcessors,
+  getPostProcessor,
+  getWorkOffsetIndices,
+  isWorkOffsetSupported,
+  formatComment,
+  formatDwell,
+  DEFAULT_DIALECT
+} from '../postProcessors';
+
+describe('postProcessors', () => {
+  it('should fall back to the default dialect', () => {
+    expect(getPostProcessor(undefined).id).toBe(DEFAULT_DIALECT);
+  });
+
+  it('should format comments per dialect', () => {
+    expect(formatComment(postProcessors.grbl, 'Probe')).toBe('; Probe');
+    expect(formatComment(postProcessors.linuxcnc, 'Probe')).toBe('(Probe)');
+  });
+
+  it('should convert dwell seconds to controller units', () => {
+    expect(formatDwell(postProcessors.linuxcnc, 0.5)).toBe('G4 P0.5');
+    expect(formatDwell(postProcessors.fanuc, 0.5)).toBe('G4 P500');
+  });
+
+  it('should add decimal points to integers for Fanuc-style controls', () => {
+    expect(postProcessors.fanuc.formatNumber(10)).toBe('10.');
+    expect(postProcessors.fanuc.formatNumber(1.5)).toBe('1.5');
+    expect(postProcessors.grbl.formatNumber(10)).toBe('10');
+  });
+
+  it('should compute G10 L2 offsets from the skip position', () => {
+    expect(postProcessors.haas.setWorkOffset('Z', 0, 1)).toBe('G90 G10 L2 P1 Z[#5023-#5043+#5063-0.]');
+    expect(postProcessors.fanuc.setWorkOffset('X', 2, 6)).toBe('G90 G10 L2 P6 X[#5021-#5041+#5061-2.]');
+  });
+
+  it('should address the requested work offset', () => {
+    expect(postProcessors.linuxcnc.setWorkOffset('Y', 1.5, 9)).toBe('G10 L20 P9 Y1.5');
+    expect(postProcessors.linuxcnc.selectWorkOffset(9)).toBe('G59.3');
+    expect(postProcessors.fanuc.selectWorkOffset(8)).toBe('G54.1 P2');
+    expect(postProcessors.haas.selectWorkOffset(2)).toBe('G55');
+  });
+
+  it('should only select the work offsets each controller has', () => {
+    expect(getWorkOffsetIndices(postProcessors.grbl)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(isWorkOffsetSupported(postProcessors.grbl, 7)).toBe(false);
+    expect(isWorkOffsetSupported(postProcessors.mach, 9)).toBe(true);
+    expect(isWorkOffsetSupported(postProcessors.linuxcnc, 10)).toBe(false);
+    expect(isWorkOffsetSupported(postProcessors.fanuc, 54)).toBe(true);
+    expect(isWorkOffsetSupported(postProcessors.fanuc, 55)).toBe(false);
+    expect(postProcessors.haas.selectWorkOffset(postProcessors.haas.workOffsetCount)).toBe('G154 P99');
+  });
+
+  it('should spell probe cycles per dialect', () => {
+    expect(postProcessors.grbl.probe('Z', -5, 50, 'G38.5')).toBe('G38.5 Z-5 F50');
+    expect(postProcessors.haas.probe('Z', -5, 50, 'G38.3')).toBe('G31 Z-5. F50.');
+    expect(postProcessors.fanuc.probeModes).not.toContain('G38.4');
+  });
+
+  it('should spell subroutines and variables for parametric controllers', () => {
+    const linuxcnc = postProcessors.linuxcnc.parametric!;
+    const haas = postProcessors.haas.parametric!;
+
+    expect(linuxcnc.callSubroutine(100, [-10, '#1001'])).toEqual(['o100 call [-10] [#1001]']);
+    expect(linuxcnc.setWorkOffsetFromProbe('Y', '#3', 2)).toBe('G10 L20 P2 Y[#3 + #<_y> - #5062]');
+    expect(haas.callSubroutine(1000, [-10])).toEqual(['#101=-10.', 'M97 P1000']);
+    expect(postProcessors.fanuc.parametric!.callSubroutine(1000, [])).toEqual(['M98 P1000']);
+    expect(haas.setWorkOffsetFromProbe('X', haas.parameter(3), 7)).toBe('G90 G10 L20 P1 X[#5021-#5041+#5061-#103]');
+    expect(linuxcnc.setWorkOffsetAt('X', '[#1001 + #1002] / 2', '0', 1)).toBe('G10 L20 P1 X[0 + #<_x> - [#1001 + #1002] / 2]');
+    expect(haas.setWorkOffsetAt('Y', '[#501 + #502] / 2', '0', 2)).toBe('G90 G10 L2 P2 Y[#5022-#5042+[#501 + #502] / 2-0]');
+    expect(postProcessors.grbl.parametric).toBeUndefined();
+  });
+});
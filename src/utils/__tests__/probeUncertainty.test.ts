@@ -0,0 +1,129 @@
+// src/utils/__tests__/probeUncertainty.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  meetsTolerance,
+  runProbeUncertainty,
+  runProbeUncertaintyInChunks,
+  summarizeSamples,
+  type UncertaintyInput
+} from '../probeUncertainty';
+import { createRandom } from '../probeErrorModel';
+import type { MachineSettings, ProbeErrorModel } from '@/types/machine';
+
+const machineSettings: MachineSettings = {
+  units: 'mm',
+  axes: {
+    X: { positiveDirection: 'Right', negativeDirection: 'Left', polarity: 1, min: -100, max: 100 },
+    Y: { positiveDirection: 'Back', negativeDirection: 'Front', polarity: 1, min: -100, max: 100 },
+    Z: { positiveDirection: 'Up', negativeDirection: 'Down', polarity: 1, min: -100, max: 100 }
+  },
+  machineOrientation: 'vertical',
+  stageDimensions: [10, 300, 200]
+};
+
+// One +Y touch on the -12.5 face of the default stock with a 2 mm tool, radius compensated
+const input: UncertaintyInput = {
+  machineSettings,
+  sequence: {
+    operations: [{
+      id: 'probe-1',
+      axis: 'Y',
+      direction: 1,
+      distance: 30,
+      feedRate: 100,
+      backoffDistance: 1,
+      wcsOffset: -1,
+      preMoves: [],
+      postMoves: []
+    }],
+    initialPosition: { X: 0, Y: -30, Z: 0 },
+    endmillSize: { input: '2', unit: 'mm', sizeInMM: 2 },
+    units: 'mm'
+  },
+  stockSize: [25, 25, 10],
+  stockPosition: [0, 0, 0],
+  stockRotation: [0, 0, 0],
+  customModel: null
+};
+
+const exact: ProbeErrorModel = { repeatability: 0, preTravel: 0, triggerDelay: 0, stockPlacement: 0, backlash: 0 };
+
+describe('probeUncertainty', () => {
+  describe('summarizeSamples', () => {
+    it('should give the mean, sample deviation, 3σ bounds and histogram', () => {
+      const summary = summarizeSamples([1, 2, 3, 4], 3);
+      expect(summary.mean).toBe(2.5);
+      expect(summary.stdDev).toBeCloseTo(1.291, 3);
+      expect(summary.upper).toBeCloseTo(2.5 + 3 * 1.291, 2);
+      expect(summary.histogram).toEqual([1, 1, 2]);
+      expect(summarizeSamples([5, 5], 4).histogram).toEqual([2, 0, 0, 0]);
+    });
+  });
+
+  describe('runProbeUncertainty', () => {
+    it('should repeat the exact origin without errors', () => {
+      const [result] = runProbeUncertainty(input, exact, 5, createRandom(1));
+      expect(result).toMatchObject({ wcsIndex: 1, axis: 'Y' });
+      expect(result.origins.mean).toBeCloseTo(-12.5);
+      expect(result.origins.stdDev).toBeCloseTo(0);
+      expect(result.errors?.mean).toBeCloseTo(0);
+    });
+
+    it('should shift the origin by the pre-travel at the feed and spread it by the repeatability', () => {
+      const model = { ...exact, repeatability: 0.002, preTravel: 0.003, triggerDelay: 6 };
+      const [result] = runProbeUncertainty(input, model, 400, createRandom(2));
+      // 0.003 + 100 mm/min × 6 ms
+      expect(result.errors!.mean).toBeCloseTo(0.013, 3);
+      expect(result.errors!.stdDev).toBeGreaterThan(0.0017);
+      expect(result.errors!.stdDev).toBeLessThan(0.0023);
+      expect(meetsTolerance(result, 0.01)).toBe(false);
+      expect(meetsTolerance(result, 0.03)).toBe(true);
+    });
+
+    it('should take up backlash only when the axis last moved the other way', () => {
+      // The header comes down to Y-30 from home at Y0, so the +Y probe reverses the axis
+      const [fromHome] = runProbeUncertainty(input, { ...exact, backlash: 0.01 }, 20, createRandom(3));
+      expect(fromHome.errors!.stdDev).toBeCloseTo(0);
+      expect(fromHome.errors!.mean).toBeCloseTo(0.01);
+
+      const approachFromBelow = {
+        ...input,
+        sequence: {
+          ...input.sequence,
+          operations: [{ ...input.sequence.operations[0], preMoves: [{ id: 'move-1', type: 'rapid' as const, description: 'Approach', axesValues: { Y: 1 }, positionMode: 'relative' as const }] }]
+        }
+      };
+      const [reversed] = runProbeUncertainty(approachFromBelow, { ...exact, backlash: 0.01 }, 20, createRandom(3));
+      expect(reversed.errors!.stdDev).toBeCloseTo(0);
+      expect(reversed.errors!.mean).toBeCloseTo(0);
+    });
+
+    it('should move the origin with the stock but not away from it', () => {
+      const [result] = runProbeUncertainty(input, { ...exact, stockPlacement: 0.05 }, 200, createRandom(4));
+      expect(result.origins.max - result.origins.min).toBeGreaterThan(0.05);
+      expect(result.errors!.stdDev).toBeCloseTo(0);
+    });
+  });
+
+  describe('runProbeUncertaintyInChunks', () => {
+    it('should give the same spread as one pass and report progress per chunk', async () => {
+      const model = { ...exact, repeatability: 0.002 };
+      const progress: number[] = [];
+      const chunked = await runProbeUncertaintyInChunks(input, model, 50, {
+        onProgress: fraction => progress.push(fraction),
+        random: createRandom(5),
+        chunkRuns: 20
+      });
+
+      expect(chunked).toEqual(runProbeUncertainty(input, model, 50, createRandom(5)));
+      expect(progress).toEqual([0.4, 0.8, 1]);
+    });
+
+    it('should stop once aborted', async () => {
+      const controller = new AbortController();
+      const result = runProbeUncertaintyInChunks(input, exact, 100, { chunkRuns: 10, signal: controller.signal, onProgress: () => controller.abort() });
+      await expect(result).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+// src/utils/__tests__/probingMacros.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { parseGCodeBlocks } from '../gcodeBlocks';
+import { getMacroWorkOffsetIndex, readProbingMacro } from '../probingMacros';
+
+const readLine = (line: string) => readProbingMacro(parseGCodeBlocks(line)[0]);
+
+describe('probingMacros', () => {
+  it('should read protected moves and single surface measurements', () => {
+    expect(readLine('G65 P9810 X10 Y-5 F2000')).toEqual({ kind: 'protected-move', axes: { X: 10, Y: -5 }, feedRate: 2000 });
+    expect(readLine('G65 P9811 Z-2.5 Q-6 S3 F40')).toEqual({
+      kind: 'single-surface',
+      axis: 'Z',
+      target: -2.5,
+      overtravel: 6,
+      feedRate: 40,
+      workOffset: 3
+    });
+    expect(readLine('G65 P9832')).toEqual({ kind: 'probe-power', on: true });
+  });
+
+  it('should treat macro arguments as data, not motion or modal words', () => {
+    const [block] = parseGCodeBlocks('G65 P9810 Z5 F1000 S2', { ...parseGCodeBlocks('G0 X1')[0].modal });
+
+    expect(block).toMatchObject({ nonModal: 'G65', axes: { Z: 5 }, errors: [] });
+    expect(block.motion).toBeUndefined();
+    expect(block.modal.feedRate).toBeUndefined();
+    expect(block.modal.spindleSpeed).toBeUndefined();
+  });
+
+  it('should describe bad arguments and ignore unknown programs', () => {
+    expect(readLine('G65 P9810 F100')).toBe('Protected move needs at least one of X, Y or Z');
+    expect(readLine('G65 P9811 X1 Z1')).toBe('Single surface measurement needs exactly one of X, Y or Z');
+    expect(readLine('G65 P9814 D20')).toBeUndefined();
+    expect(readLine('G65 X1')).toBeUndefined();
+  });
+
+  it('should map S1-S6 to work offsets', () => {
+    expect(getMacroWorkOffsetIndex(1)).toBe(1);
+    expect(getMacroWorkOffsetIndex(6)).toBe(6);
+    expect([0, 7, 101, 1.5].map(getMacroWorkOffsetIndex)).toEqual([undefined, undefined, undefined, undefined]);
+  });
+});
@@ -0,0 +1,54 @@
+// src/utils/__tests__/programTemplates.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PROGRAM_TEMPLATES,
+  getTemplateValues,
+  renderProgramTemplate,
+  validateProgramTemplate
+} from '../programTemplates';
+import { postProcessors } from '../postProcessors';
+
+describe('programTemplates', () => {
+  const settings = {
+    units: 'mm' as const,
+    spindleSpeed: 5000,
+    initialPosition: { X: -78, Y: -100, Z: -41 }
+  };
+
+  it('should format placeholder values for the controller', () => {
+    expect(getTemplateValues(postProcessors.fanuc, settings, 8)).toEqual({
+      units: 'G21',
+      spindleSpeed: '5000',
+      'initialPosition.X': '-78.',
+      'initialPosition.Y': '-100.',
+      'initialPosition.Z': '-41.',
+      wcs: 'G54.1 P2'
+    });
+  });
+
+  it('should substitute known placeholders and leave unknown ones', () => {
+    const values = getTemplateValues(postProcessors.linuxcnc, { ...settings, units: 'inch' }, 1);
+
+    expect(renderProgramTemplate('{units}\nG0 Z{initialPosition.Z} {spindle}', values))
+      .toBe('G20\nG0 Z-41 {spindle}');
+  });
+
+  it('should accept the default templates', () => {
+    expect(validateProgramTemplate(DEFAULT_PROGRAM_TEMPLATES.header)).toEqual([]);
+    expect(validateProgramTemplate(DEFAULT_PROGRAM_TEMPLATES.footer)).toEqual([]);
+  });
+
+  it('should reject unknown placeholders', () => {
+    expect(validateProgramTemplate('S{spindleRPM} M3\nG0 Z{safeZ}')).toEqual([
+      'Unknown placeholder {spindleRPM}',
+      'Unknown placeholder {safeZ}'
+    ]);
+  });
+
+  it('should reject templates that parse into probe operations or errors', () => {
+    expect(validateProgramTemplate('G38.2 Z-10 F50\nG10 L20 P1 Z0'))
+      .toContain('Templates cannot contain probe moves');
+    expect(validateProgramTemplate('G38.2 X-1 Y-1 F50').some(error => error.includes('Invalid probe command'))).toBe(true);
+  });
+});
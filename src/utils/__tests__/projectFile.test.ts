@@ -0,0 +1,184 @@
+// src/utils/__tests__/projectFile.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { migrateProjectState, parseProjectFile, serializeProject, type ProjectState } from '../projectFile';
+import { createMachineProfile } from '../machineProfiles';
+import type { MachineSettings, ProbeSequenceSettings } from '@/types/machine';
+
+const machineSettings: MachineSettings = {
+  units: 'mm',
+  axes: {
+    X: { positiveDirection: 'Right', negativeDirection: 'Left', polarity: 1, min: 0, max: 300 },
+    Y: { positiveDirection: 'Back', negativeDirection: 'Front', polarity: 1, min: 0, max: 200 },
+    Z: { positiveDirection: 'Up', negativeDirection: 'Down', polarity: 1, min: -100, max: 0 }
+  },
+  machineOrientation: 'vertical',
+  stageDimensions: [10, 300, 200]
+};
+
+const probeSequenceSettings: ProbeSequenceSettings = {
+  initialPosition: { X: 10, Y: 20, Z: -5 },
+  dwellsBeforeProbe: 5,
+  spindleSpeed: 0,
+  units: 'mm',
+  endmillSize: { input: '2', unit: 'mm', sizeInMM: 2 },
+  dialect: 'grbl',
+  profileId: 'router',
+  operations: []
+};
+
+const project: ProjectState = {
+  machineSettings,
+  machineProfiles: [
+    createMachineProfile('Router', machineSettings, probeSequenceSettings, 'router'),
+    createMachineProfile('Lathe', machineSettings, probeSequenceSettings, 'lathe')
+  ],
+  activeProfileId: 'router',
+  probeSequence: [{
+    id: 'probe-1',
+    axis: 'X',
+    direction: -1,
+    distance: 10,
+    feedRate: 50,
+    backoffDistance: 1,
+    wcsOffset: 1,
+    preMoves: [{ id: 'move-1', type: 'rapid', description: 'Approach', axesValues: { X: 5 }, positionMode: 'relative' }],
+    postMoves: []
+  }],
+  probeSequenceSettings,
+  visualizationSettings: {
+    stockSize: [50, 40, 10],
+    stockPosition: [0, 0, 0],
+    stockRotation: [0, 0, 0],
+    showAxisLabels: true,
+    showCoordinateHover: false,
+    serializedModelFile: { name: 'vise.stl', type: 'model/stl', size: 3, lastModified: 1, data: 'AAEC' }
+  },
+  cameraSettings: {
+    position: { x: 1, y: 2, z: 3 },
+    preset: 'iso1',
+    pivotMode: 'origin',
+    isManuallyMoved: false
+  }
+};
+
+// The store's version 1 layout: one machine and no profiles
+const storeVersion1 = {
+  machineSettings,
+  probeSequence: [],
+  probeSequenceSettings: { ...probeSequenceSettings, profileId: undefined, dialect: 'haas' },
+  visualizationSettings: { ...project.visualizationSettings, modelFile: null, isLoadingModelFile: false },
+  cameraSettings: project.cameraSettings
+};
+
+describe('projectFile', () => {
+  describe('serializeProject', () => {
+    it('should round-trip a project with only its active profile', () => {
+      const result = parseProjectFile(serializeProject(project));
+      expect(result).toEqual({ project: { ...project, machineProfiles: [project.machineProfiles[0]] } });
+    });
+  });
+
+  describe('migrateProjectState', () => {
+    it('should turn the single machine of version 1 into the default profile', () => {
+      const migrated = migrateProjectState(storeVersion1, 1);
+      expect(migrated.activeProfileId).toBe('default');
+      expect(migrated.machineProfiles).toEqual([
+        expect.objectContaining({ id: 'default', name: 'Horizontal mill', machineSettings, dialect: 'haas' })
+      ]);
+    });
+
+    it('should leave current state alone', () => {
+      expect(migrateProjectState(storeVersion1, 2)).toBe(storeVersion1);
+    });
+  });
+
+  describe('parseProjectFile', () => {
+    it('should open a version 1 browser storage backup', () => {
+      const result = parseProjectFile(JSON.stringify({ state: storeVersion1, version: 1 }));
+      expect('project' in result && result.project.machineProfiles[0].id).toBe('default');
+      expect('project' in result && result.project.visualizationSettings).not.toHaveProperty('modelFile');
+    });
+
+    it('should reject files that are not projects or are too new', () => {
+      expect(parseProjectFile('{')).toEqual({ error: 'The file is not valid JSON' });
+      expect(parseProjectFile('{"format": "mill-probe-studio-profiles", "version": 1, "state": {}}'))
+        .toEqual({ error: 'The file is not a Mill Probe Studio project' });
+      expect(parseProjectFile(JSON.stringify({ format: 'mill-probe-studio-project', version: 3, state: project })))
+        .toEqual({ error: 'Project version 3 is newer than this app supports' });
+    });
+
+    it('should name the first invalid field', () => {
+      const withState = (state: object) => JSON.stringify({ format: 'mill-probe-studio-project', version: 2, state });
+      const badMove = { ...project.probeSequence[0], preMoves: [{ ...project.probeSequence[0].preMoves[0], type: 'arc' }] };
+
+      expect(parseProjectFile(withState({ ...project, probeSequence: [badMove] })))
+        .toEqual({ error: 'probeSequence[0].preMoves[0].type is invalid' });
+      expect(parseProjectFile(withState({ ...project, cameraSettings: { ...project.cameraSettings, preset: 'side' } })))
+        .toEqual({ error: 'cameraSettings.preset is invalid' });
+      expect(parseProjectFile(withState({ ...project, activeProfileId: 'mill' })))
+        .toEqual({ error: 'activeProfileId does not match a machine profile' });
+      expect(parseProjectFile(withState({ ...project, visualizationSettings: { ...project.visualizationSettings, stockSize: [1, 2] } })))
+        .toEqual({ error: 'visualizationSettings.stockSize is invalid' });
+    });
+
+    it('should reject work offsets the sequence dialect cannot select', () => {
+      const withState = (state: object) => JSON.stringify({ format: 'mill-probe-studio-project', version: 2, state });
+      const operation = project.probeSequence[0];
+      const grbl = { ...probeSequenceSettings, dialect: 'grbl' };
+
+      expect(parseProjectFile(withState({ ...project, probeSequence: [{ ...operation, wcsIndex: 7 }], probeSequenceSettings: grbl })))
+        .toEqual({ error: 'probeSequence[0].wcsIndex is not a GRBL work offset' });
+      const badMove = { ...operation, preMoves: [{ ...operation.preMoves[0], wcsIndex: 10 }] };
+      expect(parseProjectFile(withState({ ...project, probeSequence: [badMove], probeSequenceSettings: { ...grbl, dialect: 'linuxcnc' } })))
+        .toEqual({ error: 'probeSequence[0].preMoves[0].wcsIndex is not a LinuxCNC work offset' });
+      expect(parseProjectFile(withState({ ...project, probeSequence: [badMove], probeSequenceSettings: { ...grbl, dialect: 'fanuc' } })))
+        .toHaveProperty('project');
+    });
+
+    it('should check nested settings and operations field by field', () => {
+      const withState = (state: object) => JSON.stringify({ format: 'mill-probe-studio-project', version: 2, state });
+      const operation = project.probeSequence[0];
+      const fullMachine: MachineSettings = {
+        ...machineSettings,
+        rotaryAxes: { A: { min: -90, max: 90, center: { X: 0, Y: 0, Z: 0 } } },
+        programTemplates: { header: 'G21' },
+        toolLibrary: [{
+          id: 'probe', name: 'Probe', type: 'touchProbe', tipDiameter: 2, length: 50,
+          assembly: { cutter: { length: 20, diameter: 2 }, shank: { length: 15, diameter: 20 }, holder: { length: 15, diameter: 32 } }
+        }],
+        probeErrorModel: { repeatability: 0.001, preTravel: 0.002, triggerDelay: 1, stockPlacement: 0, backlash: 0 },
+        spindleNose: { diameter: 60, length: 80 },
+        motionLimits: {
+          axes: { X: { maxRate: 5000, acceleration: 500 }, Y: { maxRate: 5000, acceleration: 500 }, Z: { maxRate: 3000, acceleration: 300 } },
+          junctionDeviation: 0.01
+        }
+      };
+      const full = {
+        ...project,
+        machineSettings: fullMachine,
+        probeSequence: [{
+          ...operation,
+          seekLatch: { seekFeedRate: 200, latchFeedRate: 20, retractDistance: 1, repeatCount: 2 },
+          composite: { kind: 'outsideCorner', size: 0, clearance: 5, depth: 3, cornerDirection: { X: 1, Y: -1 } }
+        }],
+        probeSequenceSettings: { ...probeSequenceSettings, programEnd: 'M30' }
+      };
+      expect(parseProjectFile(withState(full))).toHaveProperty('project');
+
+      const toolWithoutHolder = { ...fullMachine.toolLibrary![0], assembly: { ...fullMachine.toolLibrary![0].assembly, holder: { diameter: 32 } } };
+      expect(parseProjectFile(withState({ ...full, machineSettings: { ...fullMachine, toolLibrary: [toolWithoutHolder] } })))
+        .toEqual({ error: 'machineSettings.toolLibrary is invalid' });
+      expect(parseProjectFile(withState({ ...full, machineSettings: { ...fullMachine, motionLimits: { ...fullMachine.motionLimits, junctionDeviation: Infinity } } })))
+        .toEqual({ error: 'machineSettings.motionLimits is invalid' });
+      expect(parseProjectFile(withState({ ...full, machineSettings: { ...fullMachine, spindleNose: { diameter: 60 } } })))
+        .toEqual({ error: 'machineSettings.spindleNose is invalid' });
+      expect(parseProjectFile(withState({ ...full, probeSequence: [{ ...operation, seekLatch: {} }] })))
+        .toEqual({ error: 'probeSequence[0].seekLatch is invalid' });
+      expect(parseProjectFile(withState({ ...full, probeSequence: [{ ...operation, composite: { kind: 'bossCenter', size: 20 } }] })))
+        .toEqual({ error: 'probeSequence[0].composite is invalid' });
+      expect(parseProjectFile(withState({ ...full, probeSequenceSettings: { ...probeSequenceSettings, programEnd: 30 } })))
+        .toEqual({ error: 'probeSequenceSettings.programEnd is invalid' });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// src/utils/__tests__/rotaryAxes.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { clampToRotaryLimits, getConfiguredRotaryAxes, getIndexMoves, getRotaryWords } from '../rotaryAxes';
+import { createMockMachineSettings } from '@/test/mockMachineSettings';
+import type { ProbeOperation } from '@/types/machine';
+
+const operation: ProbeOperation = {
+  id: 'op',
+  axis: 'X',
+  direction: -1,
+  distance: 25,
+  feedRate: 100,
+  backoffDistance: 1,
+  wcsOffset: 0,
+  preMoves: [],
+  postMoves: []
+};
+
+describe('rotaryAxes', () => {
+  describe('getConfiguredRotaryAxes', () => {
+    it('should list configured axes in A, B order', () => {
+      const config = { min: 0, max: 360, center: { X: 0, Y: 0, Z: 0 } };
+
+      expect(getConfiguredRotaryAxes(createMockMachineSettings())).toEqual([]);
+      expect(getConfiguredRotaryAxes(createMockMachineSettings({ rotaryAxes: { B: config, A: config } }))).toEqual(['A', 'B']);
+    });
+  });
+
+  describe('getRotaryWords', () => {
+    it('should keep only A and B words', () => {
+      expect(getRotaryWords({ A: 90, F: 100, X: 5 } as Record<string, number>)).toEqual({ A: 90 });
+    });
+  });
+
+  describe('clampToRotaryLimits', () => {
+    it('should clamp an angle into the axis range', () => {
+      const config = { min: -30, max: 120, center: { X: 0, Y: 0, Z: 0 } };
+
+      expect(clampToRotaryLimits(config, 200)).toBe(120);
+      expect(clampToRotaryLimits(config, -45)).toBe(-30);
+      expect(clampToRotaryLimits(config, 90)).toBe(90);
+    });
+  });
+
+  describe('getIndexMoves', () => {
+    it('should return no moves when the operation is not indexed', () => {
+      expect(getIndexMoves(operation)).toEqual([]);
+    });
+
+    it('should index every axis in one absolute machine coordinate move', () => {
+      expect(getIndexMoves({ ...operation, rotaryIndex: { A: 90, B: -15 } })).toEqual([{
+        id: 'op-index',
+        type: 'rapid',
+        description: 'Index rotary A90 B-15',
+        axesValues: { A: 90, B: -15 },
+        positionMode: 'absolute',
+        coordinateSystem: 'machine'
+      }]);
+    });
+  });
+});
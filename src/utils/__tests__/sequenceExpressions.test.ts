@@ -0,0 +1,129 @@
+// src/utils/__tests__/sequenceExpressions.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { createExpressionScope, resolveProbeSequence, setFieldExpression, type ExpressionSettings } from '../sequenceExpressions';
+import type { ProbeOperation } from '@/types/machine';
+
+const settings: ExpressionSettings = {
+  units: 'mm',
+  endmillSize: { input: '6', unit: 'mm', sizeInMM: 6 },
+  variables: [
+    { name: 'clearance', expression: '5' },
+    { name: 'reach', expression: 'stock.width/2 + clearance' }
+  ]
+};
+
+const stockSize: [number, number, number] = [40, 30, 10];
+
+const createOperation = (overrides: Partial<ProbeOperation> = {}): ProbeOperation => ({
+  id: 'op',
+  axis: 'X',
+  direction: -1,
+  distance: 10,
+  feedRate: 100,
+  backoffDistance: 1,
+  wcsOffset: 0,
+  preMoves: [],
+  postMoves: [],
+  ...overrides
+});
+
+describe('sequenceExpressions', () => {
+  describe('createExpressionScope', () => {
+    it('should provide the stock, the tool and the variables in order', () => {
+      const { scope, errors } = createExpressionScope(settings, stockSize);
+
+      expect(scope).toMatchObject({
+        'stock.width': 40,
+        'stock.depth': 30,
+        'stock.height': 10,
+        'tool.radius': 3,
+        'tool.diameter': 6,
+        clearance: 5,
+        reach: 25
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it('should leave out variables that fail or shadow another name', () => {
+      const { scope, errors } = createExpressionScope({
+        ...settings,
+        variables: [
+          { name: 'gap', expression: 'later + 1' },
+          { name: 'later', expression: '2' },
+          { name: 'later', expression: '3' },
+          { name: '2x', expression: '1' }
+        ]
+      }, stockSize);
+
+      expect(scope.later).toBe(2);
+      expect(scope).not.toHaveProperty('gap');
+      expect(errors.map(({ field, message }) => ({ field, message }))).toEqual([
+        { field: 'gap', message: "Unknown name 'later'" },
+        { field: 'later', message: "'later' is already defined" },
+        { field: '2x', message: 'Names start with a letter and use only letters, digits and underscores' }
+      ]);
+    });
+  });
+
+  describe('setFieldExpression', () => {
+    it('should set and clear single fields', () => {
+      const expressions = setFieldExpression(undefined, 'distance', 'reach');
+      expect(expressions).toEqual({ distance: 'reach' });
+      expect(setFieldExpression(expressions, 'composite.size', 'stock.width')).toEqual({ distance: 'reach', 'composite.size': 'stock.width' });
+      expect(setFieldExpression(expressions, 'distance', undefined)).toBeUndefined();
+    });
+  });
+
+  describe('resolveProbeSequence', () => {
+    it('should return the operations untouched when nothing has expressions', () => {
+      const operations = [createOperation()];
+      expect(resolveProbeSequence(operations, settings, stockSize)).toEqual({ operations, errors: [] });
+      expect(resolveProbeSequence(operations, settings, stockSize).operations).toBe(operations);
+    });
+
+    it('should resolve operation, composite and movement fields', () => {
+      const [resolved] = resolveProbeSequence([
+        createOperation({
+          composite: { kind: 'webWidth', size: 20, clearance: 5, depth: 5 },
+          expressions: { distance: 'reach', 'composite.size': 'stock.depth - 2 * tool.diameter' },
+          preMoves: [{
+            id: 'move',
+            type: 'rapid',
+            description: 'Approach',
+            axesValues: { Y: 1 },
+            positionMode: 'relative',
+            coordinateSystem: 'none',
+            expressions: { 'axesValues.X': '-reach', 'axesValues.Z': '-stock.height' }
+          }]
+        })
+      ], settings, stockSize).operations;
+
+      expect(resolved.distance).toBe(25);
+      expect(resolved.composite?.size).toBe(18);
+      expect(resolved.preMoves[0].axesValues).toEqual({ X: -25, Y: 1, Z: -10 });
+    });
+
+    it('should keep the last value of fields that fail and report them', () => {
+      const { operations, errors } = resolveProbeSequence([
+        createOperation({
+          distance: 12,
+          expressions: { distance: 'missing * 2', 'composite.size': 'reach' }
+        })
+      ], settings, stockSize);
+
+      expect(operations[0].distance).toBe(12);
+      // No composite to set the size on
+      expect(operations[0].composite).toBeUndefined();
+      expect(errors).toEqual([{ operationId: 'op', field: 'distance', expression: 'missing * 2', message: "Unknown name 'missing'" }]);
+    });
+
+    it('should keep deriving a radius-compensated WCS offset from the tool', () => {
+      const [resolved] = resolveProbeSequence([
+        createOperation({ compensateToolRadius: true, expressions: { wcsOffset: 'reach', distance: 'reach' } })
+      ], settings, stockSize).operations;
+
+      expect(resolved.wcsOffset).toBe(3);
+    });
+  });
+});
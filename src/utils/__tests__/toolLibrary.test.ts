@@ -0,0 +1,70 @@
+// src/utils/__tests__/toolLibrary.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { createTool, createToolAssembly, getAssemblyLength, getOperationSettings, getOperationTool, toMachineUnits } from '../toolLibrary';
+import type { Tool } from '@/types/machine';
+
+const tools: Tool[] = [
+  { id: 'probe', name: 'Touch probe', type: 'touchProbe', tipDiameter: 1.98, length: 50 },
+  { id: 'endmill', name: '1/4" endmill', type: 'endmill', tipDiameter: 6.35, length: 30 }
+];
+
+const settings = {
+  units: 'mm' as const,
+  endmillSize: { input: '1/8', unit: 'fraction' as const, sizeInMM: 3.175 },
+  toolId: 'probe'
+};
+
+describe('toolLibrary', () => {
+  describe('createTool', () => {
+    it('should give touch probes enable codes and other tools none', () => {
+      expect(createTool('touchProbe', 'a')).toEqual({ id: 'a', name: '3D touch probe', type: 'touchProbe', tipDiameter: 2, length: 50, probeOnCode: 'M64 P0', probeOffCode: 'M65 P0' });
+      expect(createTool('endmill', 'b')).not.toHaveProperty('probeOnCode');
+    });
+  });
+
+  describe('createToolAssembly', () => {
+    it('should fill the gauge length with a tip-sized cutter, a shank and a holder', () => {
+      const assembly = createToolAssembly(tools[1]);
+      expect(assembly.cutter).toEqual({ length: 12, diameter: 6.35 });
+      expect(assembly.shank.diameter).toBe(6.35);
+      expect(getAssemblyLength(assembly)).toBeCloseTo(30);
+    });
+  });
+
+  describe('toMachineUnits', () => {
+    it('should scale an assembly to inches and keep cylinders without a top diameter', () => {
+      const assembly = toMachineUnits({
+        cutter: { length: 25.4, diameter: 2.54 },
+        shank: { length: 50.8, diameter: 12.7 },
+        holder: { length: 25.4, diameter: 25.4, topDiameter: 50.8 }
+      }, 'inch');
+      expect(assembly.cutter).toEqual({ length: 1, diameter: 0.1 });
+      expect(assembly.holder).toEqual({ length: 1, diameter: 1, topDiameter: 2 });
+    });
+  });
+
+  describe('getOperationTool', () => {
+    it('should prefer the operation tool over the sequence tool', () => {
+      expect(getOperationTool({ toolId: 'endmill' }, settings, tools)?.id).toBe('endmill');
+      expect(getOperationTool({}, settings, tools)?.id).toBe('probe');
+    });
+
+    it('should return undefined without a library or a matching tool', () => {
+      expect(getOperationTool({}, settings, undefined)).toBeUndefined();
+      expect(getOperationTool({}, {}, tools)).toBeUndefined();
+      expect(getOperationTool({ toolId: 'removed' }, settings, tools)).toBeUndefined();
+    });
+  });
+
+  describe('getOperationSettings', () => {
+    it('should swap in the tip diameter of the operation tool', () => {
+      expect(getOperationSettings({ toolId: 'endmill' }, settings, tools).endmillSize).toEqual({ input: '6.35', unit: 'mm', sizeInMM: 6.35 });
+    });
+
+    it('should return the settings themselves when no tool applies', () => {
+      const custom = { ...settings, toolId: undefined };
+      expect(getOperationSettings({}, custom, tools)).toBe(custom);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+// src/utils/__tests__/wcsVerification.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { assessWcsAxis, getProbedFace, getTargetCoordinate, type WcsAxisMeasurement } from '../wcsVerification';
+
+const bounds = { min: { X: -10, Y: -20, Z: -5 }, max: { X: 10, Y: 20, Z: 5 } };
+
+// A probe moving +X onto the min X face (-10) with a 3 mm tool
+const measure = (originCoordinate: number, overrides: Partial<WcsAxisMeasurement> = {}): WcsAxisMeasurement => ({
+  wcsIndex: 1,
+  axis: 'X',
+  operationId: 'probe-1',
+  target: 'min',
+  originCoordinate,
+  targetCoordinate: -10,
+  error: originCoordinate + 10,
+  approach: 1,
+  toolRadius: 1.5,
+  ...overrides
+});
+
+describe('wcsVerification', () => {
+  describe('getTargetCoordinate', () => {
+    it('should pick the probed face or the middle of the stock', () => {
+      expect(getTargetCoordinate(bounds, 'X', getProbedFace(1))).toBe(-10);
+      expect(getTargetCoordinate(bounds, 'Y', getProbedFace(-1))).toBe(20);
+      expect(getTargetCoordinate(bounds, 'Z', 'center')).toBe(0);
+    });
+  });
+
+  describe('assessWcsAxis', () => {
+    it('should accept an origin within tolerance of the face', () => {
+      expect(assessWcsAxis(measure(-10.005), 0.01)).toEqual({ withinTolerance: true });
+    });
+
+    it('should recognise radius allowance mistakes from the size of the error', () => {
+      expect(assessWcsAxis(measure(-13), 0.01)).toEqual({ withinTolerance: false, diagnosis: 'wrongSign' });
+      expect(assessWcsAxis(measure(-11.5), 0.01)).toEqual({ withinTolerance: false, diagnosis: 'missingRadius' });
+      expect(assessWcsAxis(measure(-8.5), 0.01)).toEqual({ withinTolerance: false, diagnosis: 'doubleRadius' });
+      // Approaching from the other side flips the sign of each error
+      expect(assessWcsAxis(measure(13, { target: 'max', targetCoordinate: 10, error: 3, approach: -1 }), 0.01))
+        .toEqual({ withinTolerance: false, diagnosis: 'wrongSign' });
+    });
+
+    it('should report other misses, and any center miss, as a plain offset', () => {
+      expect(assessWcsAxis(measure(-12), 0.01)).toEqual({ withinTolerance: false, diagnosis: 'offset' });
+      expect(assessWcsAxis(measure(-11.5, { target: 'center' }), 0.01)).toEqual({ withinTolerance: false, diagnosis: 'offset' });
+    });
+  });
+});
@@ -0,0 +1,273 @@
+// src/utils/compositeProbes.ts
+// Expands composite probe operations (corners, widths, centers and edge angles) into single-axis touches
+
+import type { CompositeProbe, CompositeProbeKind, MovementStep, ProbeOperation } from '@/types/machine';
+import { getToolRadius, type CompensationSettings } from './toolRadiusCompensation';
+import { DEFAULT_WCS_INDEX } from './workCoordinateSystems';
+
+type PlaneAxis = 'X' | 'Y';
+type Point = Record<PlaneAxis, number>;
+
+export interface CompositeProbeKindInfo {
+  kind: CompositeProbeKind;
+  name: string;
+  start: string; // Where the tool must be when the operation starts
+  touches: number;
+  inside: boolean; // Touches are made from within the feature, so the tool stays down between them
+  // 'corner' sets the WCS on each face, 'center' on the midpoint between opposite
+  // faces, 'angle' leaves it alone and measures how far a face is turned
+  measures: 'corner' | 'center' | 'angle';
+}
+
+export const compositeProbeKinds: Record<CompositeProbeKind, CompositeProbeKindInfo> = {
+  outsideCorner: { kind: 'outsideCorner', name: 'Outside corner', start: 'Above the corner', touches: 2, inside: false, measures: 'corner' },
+  insideCorner: { kind: 'insideCorner', name: 'Inside corner', start: 'Over the pocket, clearance away from both walls', touches: 2, inside: true, measures: 'corner' },
+  webWidth: { kind: 'webWidth', name: 'Web width', start: 'Above the middle of the web', touches: 2, inside: false, measures: 'center' },
+  pocketWidth: { kind: 'pocketWidth', name: 'Pocket width', start: 'Over the middle of the pocket', touches: 2, inside: true, measures: 'center' },
+  bossCenter: { kind: 'bossCenter', name: 'Boss center', start: 'Above the middle of the boss', touches: 4, inside: false, measures: 'center' },
+  boreCenter: { kind: 'boreCenter', name: 'Bore center', start: 'Over the middle of the bore', touches: 4, inside: true, measures: 'center' },
+  edgeAngle: { kind: 'edgeAngle', name: 'Edge angle', start: 'Above the first touch point, clearance away from the face', touches: 2, inside: false, measures: 'angle' }
+};
+
+export const DEFAULT_CORNER_DIRECTION: NonNullable<CompositeProbe['cornerDirection']> = { X: 1, Y: 1 };
+
+/**
+ * Parameters given to an operation when it is switched to a composite kind
+ */
+export const createCompositeProbe = (kind: CompositeProbeKind): CompositeProbe => ({
+  kind,
+  size: 20,
+  clearance: 5,
+  depth: 5,
+  ...(compositeProbeKinds[kind].measures === 'corner' && { cornerDirection: DEFAULT_CORNER_DIRECTION })
+});
+
+export type CompositeProbeStep =
+  // A single-axis probe with its own approach, backoff and retract moves
+  | { type: 'touch'; touch: number; probe: ProbeOperation; setsWorkOffset: boolean }
+  // Zero the WCS axis between two touches (`measured`) or keep the value set by the
+  // second touch, then move to it with `moves`
+  | { type: 'center'; axis: PlaneAxis; touches: [number, number]; measured: boolean; moves: MovementStep[] }
+  // Angle of the face touched along `axis`, as getEdgeAngle(touches[0], touches[1], spacing),
+  // optionally rotating the XY plane by it
+  | { type: 'angle'; axis: PlaneAxis; touches: [number, number]; spacing: number; rotate: boolean };
+
+interface TouchPlan {
+  axis: PlaneAxis;
+  direction: 1 | -1;
+  approach: Point; // Tool position the touch starts from, relative to the feature
+  face: number; // Expected face position along `axis`
+}
+
+type PlanItem = TouchPlan | { center: PlaneAxis } | { angle: PlaneAxis };
+
+const ORIGIN: Point = { X: 0, Y: 0 };
+
+// Round away float noise from the radius and size arithmetic
+const round = (value: number): number => Math.round(value * 1e6) / 1e6 || 0;
+
+const getWidthAxis = (probe: ProbeOperation): PlaneAxis => probe.axis === 'Y' ? 'Y' : 'X';
+
+const otherAxis = (axis: PlaneAxis): PlaneAxis => axis === 'X' ? 'Y' : 'X';
+
+// Outside features are touched from beyond each face; inside features from the middle
+const planWidth = (axis: PlaneAxis, half: number, standOff: number, inside: boolean): PlanItem[] => {
+  const at = (value: number): Point => ({ ...ORIGIN, [axis]: value });
+  return inside
+    ? [
+        { axis, direction: -1, approach: at(0), face: -half },
+        { axis, direction: 1, approach: at(0), face: half },
+        { center: axis }
+      ]
+    : [
+        { axis, direction: 1, approach: at(-(half + standOff)), face: -half },
+        { axis, direction: -1, approach: at(half + standOff), face: half },
+        { center: axis }
+      ];
+};
+
+/**
+ * Touches and centers relative to the feature: the corner itself, or the
+ * expected middle of a width or diameter
+ */
+const planComposite = (probe: ProbeOperation, composite: CompositeProbe, radius: number): { start: Point; items: PlanItem[] } => {
+  const { kind, size, clearance } = composite;
+  const { X: dx, Y: dy } = composite.cornerDirection ?? DEFAULT_CORNER_DIRECTION;
+  const { inside } = compositeProbeKinds[kind];
+  const standOff = radius + clearance;
+  const half = size / 2;
+
+  switch (kind) {
+    case 'outsideCorner':
+      return {
+        start: ORIGIN,
+        items: [
+          { axis: 'X', direction: dx, approach: { X: -dx * standOff, Y: dy * standOff }, face: 0 },
+          { axis: 'Y', direction: dy, approach: { X: dx * standOff, Y: -dy * standOff }, face: 0 }
+        ]
+      };
+    case 'insideCorner': {
+      const start = { X: -dx * standOff, Y: -dy * standOff };
+      return {
+        start,
+        items: [
+          { axis: 'X', direction: dx, approach: start, face: 0 },
+          { axis: 'Y', direction: dy, approach: start, face: 0 }
+        ]
+      };
+    }
+    case 'webWidth':
+    case 'pocketWidth':
+      return { start: ORIGIN, items: planWidth(getWidthAxis(probe), half, standOff, inside) };
+    case 'bossCenter':
+    case 'boreCenter':
+      return {
+        start: ORIGIN,
+        items: [...planWidth('X', half, standOff, inside), ...planWidth('Y', half, standOff, inside)]
+      };
+    case 'edgeAngle': {
+      // Two touches in the operation's direction, `size` apart along the face
+      const axis = getWidthAxis(probe);
+      const start = { ...ORIGIN, [axis]: -probe.direction * standOff };
+      return {
+        start,
+        items: [
+          { axis, direction: probe.direction, approach: start, face: 0 },
+          { axis, direction: probe.direction, approach: { ...start, [otherAxis(axis)]: size }, face: 0 },
+          { angle: axis }
+        ]
+      };
+    }
+  }
+};
+
+const relativeMove = (id: string, description: string, axesValues: Record<string, number>): MovementStep[] => {
+  const nonZero = Object.fromEntries(Object.entries(axesValues).map(([axis, value]) => [axis, round(value)]).filter(([, value]) => value !== 0));
+  return Object.keys(nonZero).length === 0
+    ? []
+    : [{ id, type: 'rapid', description, axesValues: nonZero, positionMode: 'relative', coordinateSystem: 'none' }];
+};
+
+/**
+ * Expand a composite operation into touches and center steps. Every move is
+ * relative and planned from the expected feature geometry, so the tool must
+ * start where `compositeProbeKinds[kind].start` says.
+ *
+ * With `measuredCenters` the second touch of a pair only records its result and
+ * the center step sets the WCS on the measured midpoint (parametric output and
+ * the simulator). Without it the second touch sets the WCS assuming the
+ * expected size, since literal programs cannot do arithmetic. Edge angle
+ * touches never set the WCS; they are only recorded for the angle step.
+ */
+export const expandCompositeProbe = (
+  probe: ProbeOperation,
+  settings: CompensationSettings,
+  measuredCenters: boolean
+): CompositeProbeStep[] => {
+  const composite = probe.composite;
+  if (!composite) return [];
+
+  const radius = getToolRadius(settings);
+  const { inside, measures } = compositeProbeKinds[composite.kind];
+  const { start, items } = planComposite(probe, composite, radius);
+  const position = { ...start, Z: 0 };
+  const steps: CompositeProbeStep[] = [];
+  let touch = 0;
+
+  // Relative move to `target`, tracking where the tool is expected to be
+  const moveTo = (id: string, description: string, target: Partial<typeof position>): MovementStep[] => {
+    const delta = Object.fromEntries(Object.entries(target).map(([axis, value]) => [axis, value - position[axis as keyof typeof position]]));
+    Object.assign(position, target);
+    return relativeMove(id, description, delta);
+  };
+
+  items.forEach((item, itemIndex) => {
+    // Angles are computed after the tool has returned, so they never move it
+    const isLast = items.slice(itemIndex + 1).every(next => 'angle' in next);
+
+    if ('angle' in item) {
+      // Order the touches so a face turned counterclockwise gives a positive angle
+      const touches: [number, number] = item.angle === 'X' ? [touch - 1, touch - 2] : [touch - 2, touch - 1];
+      steps.push({ type: 'angle', axis: item.angle, touches, spacing: composite.size, rotate: Boolean(composite.rotateCoordinates) });
+      return;
+    }
+
+    if ('center' in item) {
+      steps.push({
+        type: 'center',
+        axis: item.center,
+        touches: [touch - 2, touch - 1],
+        measured: measuredCenters,
+        moves: [
+          {
+            id: `${probe.id}-center-${item.center.toLowerCase()}`,
+            type: 'rapid',
+            description: `Move to ${item.center} center`,
+            axesValues: { [item.center]: 0 },
+            positionMode: 'absolute',
+            coordinateSystem: 'wcs',
+            wcsIndex: probe.wcsIndex ?? DEFAULT_WCS_INDEX
+          },
+          ...(isLast && inside ? moveTo(`${probe.id}-raise`, 'Raise clear of the part', { Z: 0 }) : [])
+        ]
+      });
+      position[item.center] = 0;
+      return;
+    }
+
+    const id = `${probe.id}-touch${touch + 1}`;
+    const { axis, direction, approach, face } = item;
+    const preMoves = [
+      ...moveTo(`${id}-approach`, `Move to touch ${touch + 1} start`, approach),
+      ...moveTo(`${id}-lower`, 'Lower to probing depth', { Z: -composite.depth })
+    ];
+
+    // The tool center trips one radius short of the face
+    const trip = face - direction * radius;
+    position[axis] = trip;
+    const postMoves = [
+      ...moveTo(`${id}-backoff`, 'Back off from surface', { [axis]: trip - direction * probe.backoffDistance }),
+      ...(inside ? [] : moveTo(`${id}-raise`, 'Raise clear of the part', { Z: 0 })),
+      ...(isLast ? moveTo(`${id}-return`, 'Return to start', start) : []),
+      ...(isLast && inside ? moveTo(`${id}-raise`, 'Raise clear of the part', { Z: 0 }) : [])
+    ];
+
+    const closesPair = 'center' in (items[itemIndex + 1] ?? {});
+    steps.push({
+      type: 'touch',
+      touch,
+      setsWorkOffset: measures === 'corner' || (measures === 'center' && closesPair && !measuredCenters),
+      probe: {
+        ...probe,
+        axis,
+        direction,
+        distance: round(Math.abs(trip - approach[axis]) + composite.clearance),
+        wcsOffset: round(trip),
+        compensateToolRadius: false,
+        composite: undefined,
+        preMoves,
+        postMoves
+      }
+    });
+    touch += 1;
+  });
+
+  return steps;
+};
+
+/**
+ * Angle in degrees, counterclockwise positive, of a face whose touches tripped at
+ * `first` and `second` along the probe axis, `spacing` apart along the face
+ */
+export const getEdgeAngle = (first: number, second: number, spacing: number): number =>
+  Math.atan2(second - first, spacing) * 180 / Math.PI;
+
+/**
+ * Number of probe results an operation stores in parametric output: one per
+ * touch, plus the measured angle of an edge angle operation
+ */
+export const getProbeResultCount = (probe: ProbeOperation): number => {
+  if (!probe.composite) return 1;
+  const { touches, measures } = compositeProbeKinds[probe.composite.kind];
+  return measures === 'angle' ? touches + 1 : touches;
+};
@@ -0,0 +1,47 @@
+// src/utils/cycleTime.ts
+// How long a simulated sequence takes, in total and per operation
+
+import type { VirtualMillSimulationStep } from './machine/sequenceSimulation';
+
+/**
+ * Milliseconds an operation spends on each kind of step
+ */
+export interface OperationCycleTime {
+  operationId: string;
+  moves: number; // Rapids, linear moves and latch retracts
+  probing: number;
+  dwells: number; // Buffer clears and G4 moves
+  total: number;
+}
+
+export interface CycleTimeBreakdown {
+  operations: OperationCycleTime[]; // In sequence order
+  total: number;
+}
+
+export const summarizeCycleTime = (
+  steps: Pick<VirtualMillSimulationStep, 'type' | 'duration' | 'source'>[]
+): CycleTimeBreakdown => {
+  const operations = new Map<string, OperationCycleTime>();
+  steps.forEach(({ type, duration, source }) => {
+    const entry = operations.get(source.operationId) ??
+      { operationId: source.operationId, moves: 0, probing: 0, dwells: 0, total: 0 };
+    if (type === 'probe') entry.probing += duration;
+    else if (type === 'dwell') entry.dwells += duration;
+    else entry.moves += duration;
+    entry.total += duration;
+    operations.set(source.operationId, entry);
+  });
+
+  const list = Array.from(operations.values());
+  return { operations: list, total: list.reduce((sum, operation) => sum + operation.total, 0) };
+};
+
+/**
+ * A duration to the tenth of a second, with minutes once it reaches one
+ */
+export const formatDuration = (milliseconds: number): string => {
+  const tenths = Math.round(milliseconds / 100);
+  const seconds = ((tenths % 600) / 10).toFixed(1);
+  return tenths < 600 ? `${seconds} s` : `${Math.floor(tenths / 600)} min ${seconds} s`;
+};
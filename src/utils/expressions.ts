@@ -0,0 +1,184 @@
+// src/utils/expressions.ts
+// Safe arithmetic expressions for numeric fields, e.g. `stock.width/2 + clearance`
+
+// Names an expression can reference, e.g. { 'stock.width': 25, clearance: 5 }
+export type ExpressionScope = Record<string, number>;
+
+export type ExpressionResult = { value: number } | { error: string };
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; name: string; position: number }
+  | { type: 'symbol'; symbol: string; position: number }
+  | { type: 'end'; position: number };
+
+// Functions an expression can call, by name and argument count
+const FUNCTIONS: Record<string, { args: number | 'any'; apply: (...args: number[]) => number }> = {
+  abs: { args: 1, apply: Math.abs },
+  sqrt: { args: 1, apply: Math.sqrt },
+  round: { args: 1, apply: Math.round },
+  floor: { args: 1, apply: Math.floor },
+  ceil: { args: 1, apply: Math.ceil },
+  min: { args: 'any', apply: Math.min },
+  max: { args: 'any', apply: Math.max }
+};
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/;
+const SYMBOLS = '+-*/^(),';
+
+// A plain number needs no evaluation and is stored as the field's literal value
+const LITERAL_PATTERN = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+export const isLiteralNumber = (text: string): boolean => LITERAL_PATTERN.test(text);
+
+class ExpressionError extends Error {}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const whitespace = rest.match(/^\s+/);
+    const number = rest.match(NUMBER_PATTERN);
+    const name = rest.match(NAME_PATTERN);
+    if (whitespace) {
+      position += whitespace[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), position });
+      position += number[0].length;
+    } else if (name) {
+      tokens.push({ type: 'name', name: name[0], position });
+      position += name[0].length;
+    } else if (SYMBOLS.includes(rest[0])) {
+      tokens.push({ type: 'symbol', symbol: rest[0], position });
+      position += 1;
+    } else {
+      throw new ExpressionError(`Unexpected '${rest[0]}' at position ${position + 1}`);
+    }
+  }
+  tokens.push({ type: 'end', position });
+  return tokens;
+};
+
+/**
+ * Recursive descent over the usual precedence: + - below * / below unary minus
+ * below ^ (right associative)
+ */
+const evaluateTokens = (tokens: Token[], scope: ExpressionScope): number => {
+  let index = 0;
+  const peek = (): Token => tokens[index];
+  const isSymbol = (symbol: string): boolean => {
+    const token = peek();
+    return token.type === 'symbol' && token.symbol === symbol;
+  };
+  const unexpected = (): ExpressionError => {
+    const token = peek();
+    return token.type === 'end'
+      ? new ExpressionError('Expression ends too early')
+      : new ExpressionError(`Unexpected '${token.type === 'number' ? token.value : token.type === 'name' ? token.name : token.symbol}' at position ${token.position + 1}`);
+  };
+  const expect = (symbol: string): void => {
+    if (!isSymbol(symbol)) throw unexpected();
+    index += 1;
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (isSymbol('+') || isSymbol('-')) {
+      const subtract = isSymbol('-');
+      index += 1;
+      value = subtract ? value - product() : value + product();
+    }
+    return value;
+  };
+
+  const product = (): number => {
+    let value = unary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const divide = isSymbol('/');
+      index += 1;
+      const operand = unary();
+      if (divide && operand === 0) throw new ExpressionError('Division by zero');
+      value = divide ? value / operand : value * operand;
+    }
+    return value;
+  };
+
+  const unary = (): number => {
+    if (isSymbol('-')) {
+      index += 1;
+      return -unary();
+    }
+    if (isSymbol('+')) {
+      index += 1;
+      return unary();
+    }
+    return power();
+  };
+
+  const power = (): number => {
+    const base = primary();
+    if (!isSymbol('^')) return base;
+    index += 1;
+    return Math.pow(base, unary());
+  };
+
+  const call = (name: string): number => {
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) throw new ExpressionError(`Unknown function '${name}'`);
+    const fn = FUNCTIONS[name];
+    expect('(');
+    const args = isSymbol(')') ? [] : [sum()];
+    while (isSymbol(',')) {
+      index += 1;
+      args.push(sum());
+    }
+    expect(')');
+    if (fn.args === 'any' ? args.length === 0 : args.length !== fn.args) {
+      throw new ExpressionError(`${name}() takes ${fn.args === 'any' ? 'at least 1 argument' : `${fn.args} argument${fn.args === 1 ? '' : 's'}`}`);
+    }
+    return fn.apply(...args);
+  };
+
+  const primary = (): number => {
+    const token = peek();
+    if (token.type === 'number') {
+      index += 1;
+      return token.value;
+    }
+    if (token.type === 'name') {
+      index += 1;
+      if (isSymbol('(')) return call(token.name);
+      // Own names only, so 'constructor' and the like stay unknown
+      if (!Object.prototype.hasOwnProperty.call(scope, token.name)) throw new ExpressionError(`Unknown name '${token.name}'`);
+      return scope[token.name];
+    }
+    if (isSymbol('(')) {
+      index += 1;
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    throw unexpected();
+  };
+
+  const value = sum();
+  if (peek().type !== 'end') throw unexpected();
+  return value;
+};
+
+/**
+ * Evaluate an arithmetic expression against named values. Only numbers, names
+ * from `scope`, + - * / ^, parentheses and the functions abs, sqrt, round,
+ * floor, ceil, min and max are understood; nothing is run as code.
+ */
+export const evaluateExpression = (expression: string, scope: ExpressionScope): ExpressionResult => {
+  try {
+    if (expression.trim() === '') return { error: 'Expression is empty' };
+    const value = evaluateTokens(tokenize(expression), scope);
+    return Number.isFinite(value) ? { value } : { error: 'Result is not a finite number' };
+  } catch (error) {
+    if (error instanceof ExpressionError) return { error: error.message };
+    throw error;
+  }
+};
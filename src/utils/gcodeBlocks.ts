@@ -0,0 +1,192 @@
+// src/utils/gcodeBlocks.ts
+// Word parser that turns lexed G-code lines into typed blocks with modal state
+
+import type { ProbeMode } from '@/types/machine';
+import { tokenizeLine, type GCodeError, type GCodeOWord, type GCodeWord } from './gcodeLexer';
+import { DEFAULT_WCS_INDEX, getWcsIndex } from './workCoordinateSystems';
+
+export type GCodeAxis = 'X' | 'Y' | 'Z';
+// G31 is the skip (probe) move of Mach, Fanuc and Haas controls
+export type ProbeMotion = ProbeMode | 'G31';
+export type MotionMode = 'G0' | 'G1' | 'G2' | 'G3' | ProbeMotion | 'G80';
+export type NonModalCode = 'G4' | 'G10' | 'G28' | 'G30' | 'G65' | 'G92';
+
+export interface GCodeModalState {
+  motion?: MotionMode; // Group 1; undefined until the program selects one
+  distance: 'absolute' | 'relative'; // Group 3: G90/G91
+  wcsIndex: number; // Group 12: G54-G59.3 as a G10 P index
+  units: 'mm' | 'inch'; // Group 6: G21/G20
+  feedRate?: number;
+  spindleSpeed?: number;
+}
+
+export interface GCodeBlock {
+  lineIndex: number; // Zero-based line in the source text
+  text: string; // Original line, trimmed
+  column: number; // Where the trimmed text starts in the source line
+  lineNumber?: number; // N word
+  blockDelete: boolean;
+  words: GCodeWord[];
+  comment?: string;
+  oWord?: GCodeOWord;
+  gCodes: string[]; // Normalized, e.g. "G0" for "G00"
+  mCodes: string[];
+  axes: Partial<Record<GCodeAxis, number>>;
+  values: Partial<Record<string, number>>; // Every other word by letter (F, P, L, S...)
+  motion?: MotionMode; // Motion this block performs, explicit or carried over
+  nonModal?: NonModalCode;
+  machineCoordinates: boolean; // G53 applies to this block only
+  modal: GCodeModalState; // State in effect after this block
+  errors: GCodeError[];
+}
+
+export const DEFAULT_MODAL_STATE: GCodeModalState = {
+  distance: 'absolute',
+  wcsIndex: DEFAULT_WCS_INDEX,
+  units: 'mm'
+};
+
+const AXIS_LETTERS: readonly string[] = ['X', 'Y', 'Z'];
+
+const MOTION_CODES: readonly string[] = ['G0', 'G1', 'G2', 'G3', 'G31', 'G38.2', 'G38.3', 'G38.4', 'G38.5', 'G80'];
+const NON_MODAL_CODES: readonly string[] = ['G4', 'G10', 'G28', 'G30', 'G65', 'G92'];
+
+// Non-modal codes that take axis words as data rather than as a motion target
+const AXIS_DATA_CODES: readonly string[] = ['G10', 'G28', 'G30', 'G65', 'G92'];
+
+export const isProbeMotion = (motion: MotionMode | undefined): motion is ProbeMotion =>
+  motion !== undefined && (motion.startsWith('G38') || motion === 'G31');
+
+// A skip move probes toward the workpiece; the generator writes G31 for G38.2
+export const toProbeMode = (motion: ProbeMotion): ProbeMode =>
+  motion === 'G31' ? 'G38.2' : motion;
+
+const formatCode = (letter: string, value: number): string => `${letter}${value}`;
+
+const findConflict = (codes: string[], group: readonly string[]): string[] =>
+  codes.filter(code => group.includes(code));
+
+const wordEnd = (word: GCodeWord): number => word.column + word.text.length;
+
+// Column range covering every word that matches, for errors that span several words
+const spanWords = (words: GCodeWord[], matches: (word: GCodeWord) => boolean) => {
+  const matching = words.filter(matches);
+  return {
+    column: Math.min(...matching.map(word => word.column)),
+    endColumn: Math.max(...matching.map(wordEnd))
+  };
+};
+
+const parseBlock = (line: string, lineIndex: number, previous: GCodeModalState): GCodeBlock => {
+  const lexed = tokenizeLine(line);
+  const errors = [...lexed.errors];
+  const block: GCodeBlock = {
+    lineIndex,
+    text: line.trim(),
+    column: line.search(/\S/),
+    blockDelete: lexed.blockDelete,
+    words: lexed.words,
+    ...(lexed.comments.length > 0 && { comment: lexed.comments.join(' ') }),
+    ...(lexed.oWord && { oWord: lexed.oWord }),
+    gCodes: [],
+    mCodes: [],
+    axes: {},
+    values: {},
+    machineCoordinates: false,
+    modal: previous,
+    errors
+  };
+
+  lexed.words.forEach(word => {
+    if (word.letter === 'G') {
+      block.gCodes.push(formatCode('G', word.value));
+    } else if (word.letter === 'M') {
+      block.mCodes.push(formatCode('M', word.value));
+    } else if (word.letter === 'N') {
+      block.lineNumber = word.value;
+    } else {
+      const target = AXIS_LETTERS.includes(word.letter) ? block.axes : block.values;
+      if (target[word.letter as GCodeAxis] !== undefined) {
+        errors.push({
+          code: 'duplicate-word',
+          message: `${word.letter} appears more than once`,
+          column: word.column,
+          endColumn: wordEnd(word)
+        });
+      }
+      target[word.letter as GCodeAxis] = word.value;
+    }
+  });
+
+  const motionCodes = findConflict(block.gCodes, MOTION_CODES);
+  const nonModalCodes = findConflict(block.gCodes, NON_MODAL_CODES);
+  const distanceCodes = findConflict(block.gCodes, ['G90', 'G91']);
+  const unitCodes = findConflict(block.gCodes, ['G20', 'G21']);
+  const wcsCodes = block.gCodes.filter(code => getWcsIndex(code) !== undefined);
+
+  [motionCodes, nonModalCodes, distanceCodes, unitCodes, wcsCodes]
+    .filter(group => group.length > 1)
+    .forEach(group => errors.push({
+      code: 'conflicting-codes',
+      message: `Conflicting codes in one block: ${group.join(' ')}`,
+      ...spanWords(lexed.words, word => word.letter === 'G' && group.includes(formatCode('G', word.value)))
+    }));
+
+  // G65 words are macro arguments, so its F and S do not change the modal feed or speed
+  const isMacroCall = nonModalCodes.includes('G65');
+  const modal: GCodeModalState = {
+    ...previous,
+    ...(motionCodes.length > 0 && { motion: motionCodes[0] as MotionMode }),
+    ...(distanceCodes.length > 0 && { distance: distanceCodes[0] === 'G91' ? 'relative' : 'absolute' }),
+    ...(unitCodes.length > 0 && { units: unitCodes[0] === 'G20' ? 'inch' : 'mm' }),
+    ...(wcsCodes.length > 0 && { wcsIndex: getWcsIndex(wcsCodes[0]) }),
+    ...(block.values.F !== undefined && !isMacroCall && { feedRate: block.values.F }),
+    ...(block.values.S !== undefined && !isMacroCall && { spindleSpeed: block.values.S })
+  };
+
+  block.modal = modal;
+  block.machineCoordinates = block.gCodes.includes('G53');
+  if (nonModalCodes.length > 0) block.nonModal = nonModalCodes[0] as NonModalCode;
+
+  const hasAxes = Object.keys(block.axes).length > 0;
+  const axesAreData = block.nonModal !== undefined && AXIS_DATA_CODES.includes(block.nonModal);
+  if (hasAxes && !axesAreData) {
+    if (modal.motion === undefined || modal.motion === 'G80') {
+      errors.push({
+        code: 'axes-without-motion',
+        message: 'Axis words without an active motion mode',
+        ...spanWords(lexed.words, word => AXIS_LETTERS.includes(word.letter))
+      });
+    } else {
+      block.motion = modal.motion;
+    }
+  } else if (motionCodes.length > 0 && !axesAreData) {
+    // An explicit motion code without axes still reaches the consumer, which reports it
+    block.motion = modal.motion;
+  }
+
+  return block;
+};
+
+/**
+ * Parse a program into one block per non-empty line, tracking modal groups
+ * (motion, distance, units, work offset, feed and spindle speed) across lines.
+ * Lines that hold only comments produce blocks with no words.
+ */
+export const parseGCodeBlocks = (
+  gcode: string,
+  initialState: GCodeModalState = DEFAULT_MODAL_STATE
+): GCodeBlock[] =>
+  gcode.split('\n').reduce<{ blocks: GCodeBlock[]; modal: GCodeModalState }>(
+    ({ blocks, modal }, line, lineIndex) => {
+      if (!line.trim()) return { blocks, modal };
+      const block = parseBlock(line, lineIndex, modal);
+      blocks.push(block);
+      return { blocks, modal: block.modal };
+    },
+    { blocks: [], modal: initialState }
+  ).blocks;
+
+export const hasGCode = (block: GCodeBlock, code: string): boolean => block.gCodes.includes(code);
+
+export const hasMCode = (block: GCodeBlock, code: string): boolean => block.mCodes.includes(code);
@@ -0,0 +1,137 @@
+// src/utils/gcodeDiagnostics.ts
+// Structured import diagnostics with source ranges and one-click fixes
+
+import type { GCodeBlock } from './gcodeBlocks';
+import type { GCodeError, GCodeErrorCode, GCodeWord } from './gcodeLexer';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | GCodeErrorCode
+  | 'probe-axis-count'
+  | 'probe-missing-feed'
+  | 'wcs-without-probe'
+  | 'wcs-axis-mismatch'
+  | 'units-changed'
+  | 'macro-unsupported'
+  | 'macro-arguments'
+  | 'macro-unknown-start'
+  | 'macro-work-offset'
+  | 'macro-stylus-radius'
+  | 'macro-protected-move'
+  | 'macro-probe-power';
+
+// Replaces [column, endColumn) on the diagnostic's line; a line left blank is removed
+export interface DiagnosticFix {
+  label: string;
+  column: number;
+  endColumn: number;
+  text: string;
+}
+
+export interface GCodeDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  lineIndex: number; // Zero-based line in the source text
+  lineText: string; // Trimmed, for messages
+  column: number;
+  endColumn: number; // Exclusive
+  fix?: DiagnosticFix;
+}
+
+const wordEnd = (word: GCodeWord): number => word.column + word.text.length;
+
+const lineEnd = (block: GCodeBlock): number => block.column + block.text.length;
+
+// Rewrite the block's text without the given words, collapsing the gaps they leave
+export const removeWordsFix = (block: GCodeBlock, words: GCodeWord[], label: string): DiagnosticFix => {
+  const kept = [...words]
+    .sort((a, b) => b.column - a.column)
+    .reduce(
+      (text, word) => text.slice(0, word.column - block.column) + text.slice(wordEnd(word) - block.column),
+      block.text
+    );
+  return {
+    label,
+    column: block.column,
+    endColumn: lineEnd(block),
+    text: kept.replace(/\s{2,}/g, ' ').trim()
+  };
+};
+
+export const removeLineFix = (block: GCodeBlock, label = 'Remove line'): DiagnosticFix => ({
+  label,
+  column: block.column,
+  endColumn: lineEnd(block),
+  text: ''
+});
+
+// Insert text right after the last word, ahead of any trailing comment
+export const appendWordFix = (block: GCodeBlock, text: string, label = `Add ${text}`): DiagnosticFix => {
+  const end = block.words.length > 0 ? wordEnd(block.words[block.words.length - 1]) : lineEnd(block);
+  return { label, column: end, endColumn: end, text: ` ${text}` };
+};
+
+// Fixes for lexer and block errors that have a single obvious repair
+const errorFixes: Partial<Record<GCodeErrorCode, (block: GCodeBlock, error: GCodeError) => DiagnosticFix>> = {
+  'unclosed-comment': (_block, error) => ({
+    label: 'Close comment',
+    column: error.endColumn,
+    endColumn: error.endColumn,
+    text: ')'
+  }),
+  'unexpected-character': (_block, error) => ({
+    label: 'Remove character',
+    column: error.column,
+    endColumn: error.endColumn,
+    text: ''
+  }),
+  'duplicate-word': (block, error) => {
+    const word = block.words.find(candidate => candidate.column === error.column)!;
+    return removeWordsFix(block, [word], `Remove ${word.text}`);
+  }
+};
+
+export const createDiagnostic = (
+  block: GCodeBlock,
+  code: DiagnosticCode,
+  severity: DiagnosticSeverity,
+  message: string,
+  range: { column: number; endColumn: number } = { column: block.column, endColumn: lineEnd(block) },
+  fix?: DiagnosticFix
+): GCodeDiagnostic => ({
+  code,
+  severity,
+  message,
+  lineIndex: block.lineIndex,
+  lineText: block.text,
+  column: range.column,
+  endColumn: range.endColumn,
+  ...(fix && { fix })
+});
+
+export const fromBlockError = (block: GCodeBlock, error: GCodeError): GCodeDiagnostic =>
+  createDiagnostic(block, error.code, 'error', error.message, error, errorFixes[error.code]?.(block, error));
+
+export const formatDiagnostic = (diagnostic: GCodeDiagnostic): string =>
+  `Error parsing line ${diagnostic.lineIndex + 1}: "${diagnostic.lineText}" - ${diagnostic.message}`;
+
+/**
+ * Apply a diagnostic's suggested fix to the program it was reported against.
+ * Returns the program unchanged when the diagnostic has no fix.
+ */
+export const applyDiagnosticFix = (gcode: string, diagnostic: GCodeDiagnostic): string => {
+  const { fix, lineIndex } = diagnostic;
+  const lines = gcode.split('\n');
+  if (!fix || lineIndex >= lines.length) return gcode;
+
+  const line = lines[lineIndex];
+  const edited = line.slice(0, fix.column) + fix.text + line.slice(fix.endColumn);
+  if (edited.trim()) {
+    lines[lineIndex] = edited;
+  } else {
+    lines.splice(lineIndex, 1);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,65 @@
+// src/utils/gcodeFiles.ts
+// Reading G-code program files (.nc, .gcode, .tap, .ngc) into importable text
+
+export const GCODE_FILE_EXTENSIONS = ['.nc', '.gcode', '.tap', '.ngc'];
+
+// Read size per FileReader call, so large programs do not need one huge buffer
+export const GCODE_READ_CHUNK_SIZE = 1024 * 1024; // 1MB
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+/**
+ * Check a file name against the supported G-code extensions (case-insensitive)
+ */
+export const isGCodeFile = (fileName: string): boolean => {
+  const name = fileName.toLowerCase();
+  return GCODE_FILE_EXTENSIONS.some(extension => name.endsWith(extension));
+};
+
+/**
+ * Normalize program text from another controller or editor: strip a byte order
+ * mark, convert CRLF/CR line endings to LF and drop `%` tape delimiter lines.
+ * A comment written after a delimiter is kept on its own line.
+ */
+export const normalizeGCodeText = (text: string): string =>
+  (text.startsWith(BYTE_ORDER_MARK) ? text.slice(1) : text)
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .flatMap(line => {
+      const match = line.match(/^\s*%(.*)$/);
+      if (!match) return [line];
+      const rest = match[1].trim();
+      return rest ? [rest] : [];
+    })
+    .join('\n');
+
+const readChunk = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error('Failed to read G-code file'));
+    reader.readAsArrayBuffer(blob);
+  });
+
+/**
+ * Read a G-code file chunk by chunk and return its normalized text.
+ * The streaming decoder keeps multi-byte characters that straddle a chunk
+ * boundary intact; `onProgress` receives the fraction read so far.
+ */
+export const readGCodeFile = async (
+  file: File,
+  onProgress?: (fraction: number) => void,
+  chunkSize: number = GCODE_READ_CHUNK_SIZE
+): Promise<string> => {
+  const decoder = new TextDecoder('utf-8');
+  let text = '';
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const chunk = await readChunk(file.slice(offset, offset + chunkSize));
+    text += decoder.decode(chunk, { stream: true });
+    onProgress?.(Math.min(offset + chunkSize, file.size) / file.size);
+  }
+  text += decoder.decode();
+
+  return normalizeGCodeText(text);
+};
@@ -1,22 +1,36 @@
 // src/utils/gcodeGenerator.ts
 
-import type { ProbeOperation, ProbeSequenceSettings, MovementStep } from '@/types/machine';
+import type { ProbeOperation, ProbeSequenceSettings, MovementStep, ProbeMode, ProgramTemplates, Tool } from '@/types/machine';
+import { getPostProcessor, formatComment, formatDwell, type PostProcessor, type ParametricSyntax, type Word } from './postProcessors';
+import { DEFAULT_WCS_INDEX } from './workCoordinateSystems';
+import { DEFAULT_PROBE_MODE, getProbeMode } from './probeModes';
+import { getProbeStages, type ProbeStage } from './probeStages';
+import { applyToolRadiusCompensation, type CompensationSettings } from './toolRadiusCompensation';
+import { compositeProbeKinds, expandCompositeProbe, getProbeResultCount, type CompositeProbeStep } from './compositeProbes';
+import { getTemplateValues, renderProgramTemplate, type TemplateValues } from './programTemplates';
+import { joinSourcedText, sourced, type GeneratedGCode, type SourcedText } from './gcodeSourceMap';
+import { getIndexMoves } from './rotaryAxes';
+import { getOperationSettings, getOperationTool } from './toolLibrary';
 
 // Pure utility functions
-const padLine = (code: string, comment: string, padTo = 40): string => {
+const padLine = (pp: PostProcessor, code: string, comment: string, padTo = 40): string => {
   const codeStr = code.trimEnd();
+  if (!comment) return codeStr;
   const padLength = Math.max(padTo - codeStr.length, 2);
-  return codeStr + ' '.repeat(padLength) + (comment ? `(${comment})` : '');
+  return codeStr + ' '.repeat(padLength) + formatComment(pp, comment);
 };
 
-const formatLine = (code: string, comment: string): string => 
-  padLine(code, comment) + '\n';
+const formatLine = (pp: PostProcessor, code: string, comment: string): string => 
+  padLine(pp, code, comment) + '\n';
+
+const formatCommentLine = (pp: PostProcessor, text: string): string =>
+  formatComment(pp, text) + '\n';
 
 // Movement generation functions
-const buildAxesString = (axesValues: Record<string, number>): string => 
+const buildAxesString = (pp: PostProcessor, axesValues: Record<string, number>): string => 
   Object.entries(axesValues)
     .filter(([, value]) => typeof value === 'number')
-    .map(([axis, value]) => `${axis}${value}`)
+    .map(([axis, value]) => `${axis}${pp.formatNumber(value)}`)
     .join(' ');
 
 const buildPositionMode = (positionMode: string | undefined): string => {
@@ -27,127 +41,511 @@ const buildPositionMode = (positionMode: string | undefined): string => {
   }
 };
 
-const buildCoordinateSystem = (coordinateSystem: string | undefined): string => {
+const buildCoordinateSystem = (pp: PostProcessor, coordinateSystem: string | undefined, wcsIndex = DEFAULT_WCS_INDEX): string => {
   switch (coordinateSystem) {
     case 'machine': return 'G53';
-    case 'wcs': return 'G54';
+    case 'wcs': return pp.selectWorkOffset(wcsIndex);
     default: return '';
   }
 };
 
-const generateRapidMove = (move: MovementStep): string => {
-  const axesStr = buildAxesString(move.axesValues || {});
+const generateRapidMove = (pp: PostProcessor, move: MovementStep): string => {
+  const axesStr = buildAxesString(pp, move.axesValues || {});
   if (!axesStr) return '';
   
   const command = [
     'G0',
     buildPositionMode(move.positionMode),
-    buildCoordinateSystem(move.coordinateSystem),
+    buildCoordinateSystem(pp, move.coordinateSystem, move.wcsIndex),
     axesStr
   ].filter(Boolean).join(' ');
   
-  return formatLine(command, move.description);
+  return formatLine(pp, command, move.description);
 };
 
-const generateDwellMove = (move: MovementStep): string => 
-  formatLine(`G4 P${move.dwellTime}`, move.description);
+const generateDwellMove = (pp: PostProcessor, move: MovementStep): string => 
+  formatLine(pp, formatDwell(pp, move.dwellTime!), move.description);
 
-const generateMovementGCode = (move: MovementStep): string => {
+const generateMovementGCode = (pp: PostProcessor, move: MovementStep): string => {
   switch (move.type) {
     case 'rapid':
-      return move.axesValues ? generateRapidMove(move) : '';
+      return move.axesValues ? generateRapidMove(pp, move) : '';
     case 'dwell':
-      return move.dwellTime ? generateDwellMove(move) : '';
+      return move.dwellTime ? generateDwellMove(pp, move) : '';
+    case 'raw':
+      return move.rawText ? `${move.rawText}\n` : '';
     default:
       return '';
   }
 };
 
 // Header generation functions
-const generateUnitsHeader = (isMM: boolean): string => 
-  formatLine(`G2${isMM ? 1 : 0}`, `Set units to ${isMM ? 'millimeters' : 'inches'}`);
+const generateProgramStart = (pp: PostProcessor): string => {
+  const lines = pp.programStart();
+  if (lines.length === 0) return '';
+  return lines.map(({ code, comment }) => formatLine(pp, code, comment)).join('');
+};
+
+const generateUnitsHeader = (pp: PostProcessor, isMM: boolean): string => 
+  formatLine(pp, `G2${isMM ? 1 : 0}`, `Set units to ${isMM ? 'millimeters' : 'inches'}`);
 
-const generateInitialPositioning = (initialPosition: { X: number; Y: number; Z: number }): string => [
-  formatLine(`G90 G53 G0 Z${initialPosition.Z}`, 'Absolute move in machine coordinates to Z'),
-  formatLine(`G90 G53 G0 Y${initialPosition.Y}`, 'Absolute move in machine coordinates to Y'),
-  formatLine(`G90 G53 G0 X${initialPosition.X}`, 'Absolute move in machine coordinates to X')
+const generateInitialPositioning = (pp: PostProcessor, initialPosition: { X: number; Y: number; Z: number }): string => [
+  formatLine(pp, `G90 G53 G0 Z${pp.formatNumber(initialPosition.Z)}`, 'Absolute move in machine coordinates to Z'),
+  formatLine(pp, `G90 G53 G0 Y${pp.formatNumber(initialPosition.Y)}`, 'Absolute move in machine coordinates to Y'),
+  formatLine(pp, `G90 G53 G0 X${pp.formatNumber(initialPosition.X)}`, 'Absolute move in machine coordinates to X')
 ].join('') + '\n';
 
-const generateSpindleStart = (spindleSpeed: number): string => [
-  formatLine(`S${spindleSpeed} M4`, `Start spindle in reverse at ${spindleSpeed} RPM`),
-  formatLine('G4 P3', 'Dwell for 3 seconds to let spindle stabilize')
+// Seconds the header waits for the spindle to come up to speed
+export const SPINDLE_START_DWELL = 3;
+
+const generateSpindleStart = (pp: PostProcessor, spindleSpeed: number): string => [
+  formatLine(pp, `S${spindleSpeed} M4`, `Start spindle in reverse at ${spindleSpeed} RPM`),
+  formatLine(pp, formatDwell(pp, SPINDLE_START_DWELL), `Dwell for ${SPINDLE_START_DWELL} seconds to let spindle stabilize`)
 ].join('') + '\n';
 
-const generatePositioningMode = (): string => 
-  formatLine('G91', 'Set to incremental positioning mode') + '\n';
+// User templates are written verbatim apart from placeholder substitution
+const generateTemplateBlock = (template: string, values: TemplateValues): string => {
+  const lines = renderProgramTemplate(template, values).split('\n').map(line => line.trimEnd());
+  const block = lines.join('\n').trim();
+  return block ? block + '\n\n' : '';
+};
+
+const generateHeader = (pp: PostProcessor, settings: ProbeSequenceSettings, values: TemplateValues, template?: string): string =>
+  template !== undefined
+    ? generateTemplateBlock(template, values)
+    : [
+      generateUnitsHeader(pp, settings.units === 'mm'),
+      generateInitialPositioning(pp, settings.initialPosition),
+      generateSpindleStart(pp, settings.spindleSpeed)
+    ].join('');
+
+const generatePositioningMode = (pp: PostProcessor): string => 
+  formatLine(pp, 'G91', 'Set to incremental positioning mode') + '\n';
 
 // Probe operation generation functions
-const generateBufferClearing = (dwellsBeforeProbe: number): string => 
+// Probe enable codes may span several lines; the comment goes on the first
+const generateToolCode = (pp: PostProcessor, code: string | undefined, comment: string): string =>
+  (code ?? '').split('\n').map(line => line.trim()).filter(Boolean)
+    .map((line, index) => formatLine(pp, line, index === 0 ? comment : '')).join('');
+
+// Seconds each buffer-clearing dwell waits
+export const BUFFER_CLEAR_DWELL = 0.01;
+
+const generateBufferClearing = (pp: PostProcessor, dwellsBeforeProbe: number): string => 
   Array.from({ length: dwellsBeforeProbe }, () => 
-    formatLine('G4 P0.01', 'Empty Buffer')
+    formatLine(pp, formatDwell(pp, BUFFER_CLEAR_DWELL), 'Empty Buffer')
   ).join('') + '\n';
 
-const generateProbeOperation = (probe: ProbeOperation): string => {
+const generateUnsupportedProbeModeWarning = (pp: PostProcessor, mode: ProbeMode): string =>
+  pp.probeModes.includes(mode)
+    ? ''
+    : formatCommentLine(pp, `WARNING: ${pp.name} cannot run ${mode} (${getProbeMode(mode).name.toLowerCase()})`);
+
+const probeStageVerbs = {
+  single: 'Probe',
+  seek: 'Seek',
+  latch: 'Latch'
+};
+
+const generateProbeStage = (pp: PostProcessor, probe: ProbeOperation, mode: ProbeMode, stage: ProbeStage): string => {
+  if (stage.type === 'retract') {
+    return formatLine(pp, `G0 G91 ${probe.axis}${pp.formatNumber(stage.distance)}`, 'Retract for latch probe');
+  }
+
   const probeDir = probe.direction > 0 ? '' : '-';
+  const away = getProbeMode(mode).awayFromWorkpiece ? ' away' : '';
+  return formatLine(
+    pp,
+    pp.probe(probe.axis, probe.direction * stage.distance, stage.feedRate, mode),
+    `${probeStageVerbs[stage.stage]}${away} along ${probe.axis}${probeDir} axis`
+  );
+};
+
+const generateProbeOperation = (pp: PostProcessor, probe: ProbeOperation): SourcedText[] => {
+  const wcsIndex = probe.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const mode = probe.probeMode ?? DEFAULT_PROBE_MODE;
+  const source = { operationId: probe.id };
+  return [
+    sourced(generateUnsupportedProbeModeWarning(pp, mode), source),
+    ...getProbeStages(probe).map((stage, probeStage) =>
+      sourced(generateProbeStage(pp, probe, mode, stage), { ...source, probeStage })
+    ),
+    sourced(formatLine(pp, pp.setWorkOffset(probe.axis, probe.wcsOffset, wcsIndex), `Set WCS ${pp.selectWorkOffset(wcsIndex)} ${probe.axis} origin`), source),
+    sourced(formatLine(pp, `G0 G91 ${probe.axis}${pp.formatNumber(probe.backoffDistance)}`, 'Back off from surface'), source),
+    sourced('\n')
+  ];
+};
+
+// Composite probe generation functions
+// Parametric programs store every touch so centers are computed on the controller
+interface CompositeResults {
+  syntax: ParametricSyntax;
+  firstResult: number; // Result variable number of the first touch
+}
+
+// Moves written without a heading of their own (composite touches and rotary indexing)
+const generateInlineMoves = (pp: PostProcessor, probe: ProbeOperation, moves: MovementStep[]): SourcedText[] =>
+  moves.flatMap(move => [
+    sourced(generateMovementGCode(pp, move), { operationId: probe.id, movementId: move.id }),
+    // Later moves and touches are incremental
+    sourced(move.positionMode === 'absolute' ? formatLine(pp, 'G91', 'Set to incremental positioning mode') : '', { operationId: probe.id })
+  ]);
+
+const generateCompositeTouch = (
+  pp: PostProcessor,
+  probe: ProbeOperation,
+  step: Extract<CompositeProbeStep, { type: 'touch' }>,
+  results?: CompositeResults
+): SourcedText[] => {
+  const { probe: touch } = step;
+  const wcsIndex = touch.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const mode = touch.probeMode ?? DEFAULT_PROBE_MODE;
+  const source = { operationId: probe.id };
+  const setWorkOffset = results
+    ? results.syntax.setWorkOffsetFromProbe(touch.axis, `[${pp.formatNumber(touch.wcsOffset)}]`, wcsIndex)
+    : pp.setWorkOffset(touch.axis, touch.wcsOffset, wcsIndex);
+  return [
+    ...generateInlineMoves(pp, probe, touch.preMoves),
+    ...getProbeStages(touch).map((stage, probeStage) =>
+      sourced(generateProbeStage(pp, touch, mode, stage), { ...source, probeStage, touch: step.touch })
+    ),
+    sourced(step.setsWorkOffset ? formatLine(pp, setWorkOffset, `Set WCS ${pp.selectWorkOffset(wcsIndex)} ${touch.axis} origin`) : '', source),
+    sourced(results
+      ? formatLine(pp, `${results.syntax.resultVariable(results.firstResult + step.touch)}=${results.syntax.probeResult(touch.axis)}`, `Store touch ${step.touch + 1} ${touch.axis} probe result`)
+      : '', source),
+    ...generateInlineMoves(pp, probe, touch.postMoves)
+  ];
+};
+
+const generateCompositeCenter = (
+  pp: PostProcessor,
+  probe: ProbeOperation,
+  step: Extract<CompositeProbeStep, { type: 'center' }>,
+  results?: CompositeResults
+): SourcedText[] => {
+  const wcsIndex = probe.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const midpoint = results && `[${step.touches.map(touch => results.syntax.resultVariable(results.firstResult + touch)).join(' + ')}] / 2`;
+  return [
+    sourced(step.measured && results && midpoint
+      ? formatLine(pp, results.syntax.setWorkOffsetAt(step.axis, midpoint, '0', wcsIndex), `Set WCS ${pp.selectWorkOffset(wcsIndex)} ${step.axis} origin midway between touches`)
+      : '', { operationId: probe.id }),
+    ...generateInlineMoves(pp, probe, step.moves)
+  ];
+};
+
+// Literal output cannot compute the angle, so it says what it left undone
+const generateLiteralAngleReport = (pp: PostProcessor, step: Extract<CompositeProbeStep, { type: 'angle' }>, wcsIndex: number): string => {
+  const [first, second] = step.touches.map(touch => touch + 1).sort();
+  const rotation = !step.rotate
+    ? 'rotation is off'
+    : pp.rotateCoordinates
+      ? `parametric output applies ${pp.rotateCoordinates('[angle]', wcsIndex)}`
+      : `${pp.name} cannot rotate coordinates`;
+  return formatCommentLine(pp, `${step.axis} edge angle from touches ${first} and ${second}, ${pp.formatNumber(step.spacing)} apart: not measured, no rotation applied; ${rotation}`);
+};
+
+// The angle is computed in the next free result variable after the touches
+const generateCompositeAngle = (
+  pp: PostProcessor,
+  probe: ProbeOperation,
+  step: Extract<CompositeProbeStep, { type: 'angle' }>,
+  results?: CompositeResults
+): SourcedText[] => {
+  const wcsIndex = probe.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const source = { operationId: probe.id };
+  if (!results) return [sourced(generateLiteralAngleReport(pp, step, wcsIndex), source)];
+  const [first, second] = step.touches.map(touch => results.syntax.resultVariable(results.firstResult + touch));
+  const angle = results.syntax.resultVariable(results.firstResult + step.touches.length);
+  return [
+    sourced(formatLine(pp, `${angle}=ATAN[${second} - ${first}]/[${pp.formatNumber(step.spacing)}]`, `Store ${step.axis} edge angle in degrees`), source),
+    sourced(step.rotate && pp.rotateCoordinates
+      ? formatLine(pp, pp.rotateCoordinates(angle, wcsIndex), 'Rotate coordinates by the edge angle')
+      : '', source)
+  ];
+};
+
+// Literal programs cannot do arithmetic, so centers assume the expected size
+// and edge angles are left to the simulator
+const generateCompositeOperation = (
+  pp: PostProcessor,
+  probe: ProbeOperation,
+  settings: CompensationSettings,
+  results?: CompositeResults
+): SourcedText[] => {
+  const { kind, size } = probe.composite!;
+  const { name, measures } = compositeProbeKinds[kind];
+  const source = { operationId: probe.id };
+  const literalWarnings: Record<typeof measures, string> = {
+    corner: '',
+    center: `WARNING: ${name} assumes the expected size of ${pp.formatNumber(size)}, parametric output measures it`,
+    angle: `WARNING: ${name} is only computed by parametric output, the simulator reports it`
+  };
+  return [
+    sourced(generateUnsupportedProbeModeWarning(pp, probe.probeMode ?? DEFAULT_PROBE_MODE), source),
+    sourced(!results && literalWarnings[measures] ? formatCommentLine(pp, literalWarnings[measures]) : '', source),
+    ...expandCompositeProbe(probe, settings, Boolean(results)).flatMap(step => {
+      switch (step.type) {
+        case 'touch': return generateCompositeTouch(pp, probe, step, results);
+        case 'center': return generateCompositeCenter(pp, probe, step, results);
+        case 'angle': return generateCompositeAngle(pp, probe, step, results);
+      }
+    }),
+    sourced('\n')
+  ];
+};
+
+// Parametric generation functions
+// Operations that only differ in numbers share a subroutine; axis words, probe
+// cycles and work offsets cannot be variables, so they are part of the key.
+interface ProbeSubroutine {
+  number: number;
+  probe: ProbeOperation;
+}
+
+const getSubroutineKey = (probe: ProbeOperation): string => [
+  probe.axis,
+  probe.probeMode ?? DEFAULT_PROBE_MODE,
+  probe.wcsIndex ?? DEFAULT_WCS_INDEX,
+  probe.seekLatch?.repeatCount ?? 0
+].join('|');
+
+const collectSubroutines = (syntax: ParametricSyntax, operations: ProbeOperation[]): Map<string, ProbeSubroutine> =>
+  operations.filter(probe => !probe.composite).reduce((subroutines, probe) => {
+    const key = getSubroutineKey(probe);
+    if (!subroutines.has(key)) {
+      subroutines.set(key, { number: syntax.firstSubroutine + subroutines.size, probe });
+    }
+    return subroutines;
+  }, new Map<string, ProbeSubroutine>());
+
+/**
+ * Subroutine arguments: 1 probe target, 2 feed, 3 WCS value, 4 backoff and,
+ * for seek/latch probes, 5 retract, 6 latch target, 7 latch feed
+ */
+const getSubroutineArguments = (probe: ProbeOperation): number[] => {
+  const [first, retract, latch] = getProbeStages(probe);
+  const args = [
+    probe.direction * first.distance,
+    first.type === 'probe' ? first.feedRate : probe.feedRate,
+    probe.wcsOffset,
+    probe.backoffDistance
+  ];
+  if (retract?.type === 'retract' && latch?.type === 'probe') {
+    args.push(retract.distance, probe.direction * latch.distance, latch.feedRate);
+  }
+  return args;
+};
+
+const generateParametricProbeStage = (pp: PostProcessor, syntax: ParametricSyntax, probe: ProbeOperation, mode: ProbeMode, stage: ProbeStage): string => {
+  const param = syntax.parameter;
+  if (stage.type === 'retract') {
+    return formatLine(pp, `G0 G91 ${probe.axis}${param(5)}`, 'Retract for latch probe');
+  }
+
+  const [target, feedRate]: Word[] = stage.stage === 'latch' ? [param(6), param(7)] : [param(1), param(2)];
+  const away = getProbeMode(mode).awayFromWorkpiece ? ' away' : '';
+  return formatLine(
+    pp,
+    pp.probe(probe.axis, target, feedRate, mode),
+    `${probeStageVerbs[stage.stage]}${away} along ${probe.axis} axis`
+  );
+};
+
+const generateSubroutine = (pp: PostProcessor, syntax: ParametricSyntax, { number, probe }: ProbeSubroutine): string => {
+  const wcsIndex = probe.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const mode = probe.probeMode ?? DEFAULT_PROBE_MODE;
+  const wcsCode = pp.selectWorkOffset(wcsIndex);
   return [
-    formatLine(`G38.2 ${probe.axis}${probeDir}${probe.distance} F${probe.feedRate}`, `Probe along ${probe.axis}${probeDir} axis`),
-    formatLine(`G10 L20 P1 ${probe.axis}${probe.wcsOffset}`, `Set WCS G54 ${probe.axis} origin`),
-    formatLine(`G0 G91 ${probe.axis}${probe.backoffDistance}`, 'Back off from surface')
+    formatLine(pp, syntax.subroutineStart(number), `Probe ${probe.axis} and set WCS ${wcsCode}`),
+    generateUnsupportedProbeModeWarning(pp, mode),
+    ...getProbeStages(probe).map(stage => generateParametricProbeStage(pp, syntax, probe, mode, stage)),
+    formatLine(pp, syntax.setWorkOffsetFromProbe(probe.axis, syntax.parameter(3), wcsIndex), `Set WCS ${wcsCode} ${probe.axis} origin from probe result`),
+    formatLine(pp, `G0 G91 ${probe.axis}${syntax.parameter(4)}`, 'Back off from surface'),
+    formatLine(pp, syntax.subroutineEnd(number), '')
   ].join('') + '\n';
 };
 
-const generateMovements = (moves: MovementStep[], label: string): string => {
-  if (moves.length === 0) return '';
+const generateSubroutineCall = (
+  pp: PostProcessor,
+  syntax: ParametricSyntax,
+  subroutines: Map<string, ProbeSubroutine>,
+  probe: ProbeOperation,
+  index: number,
+  result: number
+): SourcedText[] => {
+  const { number } = subroutines.get(getSubroutineKey(probe))!;
+  const probeDir = probe.direction > 0 ? '' : '-';
+  const callLines = syntax.callSubroutine(number, getSubroutineArguments(probe));
+  const source = { operationId: probe.id };
+  return [
+    // The whole probe runs inside the call, so it stands in for every stage
+    ...callLines.map((code, lineIndex) => sourced(
+      formatLine(pp, code, lineIndex === callLines.length - 1 ? `Probe along ${probe.axis}${probeDir} axis` : ''),
+      { ...source, probeStage: 0 }
+    )),
+    // Keep each trip position for expressions later in the program (e.g. midpoints)
+    sourced(formatLine(pp, `${syntax.resultVariable(result)}=${syntax.probeResult(probe.axis)}`, `Store operation ${index + 1} ${probe.axis} probe result`), source),
+    sourced('\n')
+  ];
+};
+
+const generateMovements = (pp: PostProcessor, probe: ProbeOperation, moves: MovementStep[], label: string): SourcedText[] => {
+  if (moves.length === 0) return [];
   
+  // Probes and backoffs that follow are incremental
+  const leavesAbsolute = moves.some(move => move.type === 'rapid' && move.positionMode === 'absolute');
   return [
-    `(${label})\n`,
-    ...moves.map(generateMovementGCode),
-    '\n'
-  ].join('');
+    sourced(formatCommentLine(pp, label), { operationId: probe.id }),
+    ...moves.map(move => sourced(generateMovementGCode(pp, move), { operationId: probe.id, movementId: move.id })),
+    sourced(leavesAbsolute ? formatLine(pp, 'G91', 'Set to incremental positioning mode') : '', { operationId: probe.id }),
+    sourced('\n')
+  ];
 };
 
-const generateProbeSequenceOperation = (probe: ProbeOperation, index: number, dwellsBeforeProbe: number): string => [
-  `(=== Probe Operation ${index + 1}: ${probe.axis} Axis ===)\n`,
-  generateMovements(probe.preMoves, `Pre-moves for Probe Operation ${index + 1}`),
-  generateBufferClearing(dwellsBeforeProbe),
-  generateProbeOperation(probe),
-  generateMovements(probe.postMoves, `Post-moves for Probe Operation ${index + 1}`),
-  '\n'
-].join('');
+const generateProbeSequenceOperation = (
+  pp: PostProcessor,
+  probe: ProbeOperation,
+  index: number,
+  dwellsBeforeProbe: number,
+  tool: Tool | undefined,
+  generateProbe: (probe: ProbeOperation, index: number) => SourcedText[]
+): SourcedText[] => [
+  sourced(formatCommentLine(pp, `=== Probe Operation ${index + 1}: ${probe.composite ? compositeProbeKinds[probe.composite.kind].name : `${probe.axis} Axis`} ===`), { operationId: probe.id }),
+  ...generateInlineMoves(pp, probe, getIndexMoves(probe)),
+  ...generateMovements(pp, probe, probe.preMoves, `Pre-moves for Probe Operation ${index + 1}`),
+  sourced(generateToolCode(pp, tool?.probeOnCode, `Enable ${tool?.name}`), { operationId: probe.id }),
+  sourced(generateBufferClearing(pp, dwellsBeforeProbe), { operationId: probe.id }),
+  ...generateProbe(probe, index),
+  sourced(generateToolCode(pp, tool?.probeOffCode, `Disable ${tool?.name}`), { operationId: probe.id }),
+  ...generateMovements(pp, probe, probe.postMoves, `Post-moves for Probe Operation ${index + 1}`),
+  sourced('\n')
+];
 
 // Footer generation functions
-const generateFooter = (): string => [
-  formatLine('G0 G54 G90 X0Y0', 'Return to origin'),
-  formatLine('S0', 'Stop spindle')
-].join('');
+// Subroutines placed after the program still belong inside the % tape delimiters,
+// which a footer template never replaces. An imported program end (and whatever
+// followed it) takes the place of the dialect's own.
+const generateFooter = (
+  pp: PostProcessor,
+  wcsIndex: number,
+  values: TemplateValues,
+  importedEnd: string | undefined,
+  template?: string,
+  trailingSubroutines = ''
+): string => {
+  const programEnd = pp.programEnd();
+  const tapeEnd = programEnd.findIndex(({ code }) => code === '%');
+  const endLines = importedEnd !== undefined
+    ? importedEnd + '\n'
+    : (tapeEnd === -1 ? programEnd : programEnd.slice(0, tapeEnd)).map(({ code, comment }) => formatLine(pp, code, comment)).join('');
+  const tapeLines = tapeEnd === -1 ? [] : programEnd.slice(tapeEnd);
+  const endBlock = template !== undefined
+    ? generateTemplateBlock(template, values).trimEnd() + '\n' + (importedEnd !== undefined ? endLines : '')
+    : [
+      formatLine(pp, `G0 ${pp.selectWorkOffset(wcsIndex)} G90 X0Y0`, 'Return to origin'),
+      formatLine(pp, 'S0', 'Stop spindle'),
+      endLines
+    ].join('');
+  return [
+    endBlock,
+    trailingSubroutines && '\n' + trailingSubroutines,
+    ...tapeLines.map(({ code, comment }) => formatLine(pp, code, comment))
+  ].join('');
+};
 
-// Main generation function
-export const generateGCode = (
+const generateParametricUnsupportedWarning = (pp: PostProcessor): string =>
+  formatCommentLine(pp, `WARNING: ${pp.name} has no parametric programming, writing literal values`);
+
+const generateWorkOffsetWarning = (pp: PostProcessor): string =>
+  pp.workOffsetWarning ? formatCommentLine(pp, `WARNING: ${pp.workOffsetWarning}`) : '';
+
+const generateParametricGCode = (
+  pp: PostProcessor,
+  syntax: ParametricSyntax,
+  operations: ProbeOperation[],
+  probeSequenceSettings: ProbeSequenceSettings,
+  templates: ProgramTemplates,
+  tools: Tool[]
+): GeneratedGCode => {
+  const subroutines = collectSubroutines(syntax, operations);
+  // Result variables are numbered per touch; composite operations take one for each of theirs
+  const firstResults = operations.map((_, index) =>
+    1 + operations.slice(0, index).reduce((count, probe) => count + getProbeResultCount(probe), 0));
+  const subroutineBlocks = [...subroutines.values()].map(subroutine => generateSubroutine(pp, syntax, subroutine)).join('');
+  const wcsIndex = operations[operations.length - 1]?.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const values = getTemplateValues(pp, probeSequenceSettings, wcsIndex);
+
+  return joinSourcedText([
+    sourced(generateProgramStart(pp)),
+    sourced(syntax.placement === 'beforeProgram' ? subroutineBlocks : ''),
+    sourced(generateHeader(pp, probeSequenceSettings, values, templates.header)),
+    sourced(generatePositioningMode(pp)),
+    ...operations.flatMap((probe, index) =>
+      generateProbeSequenceOperation(pp, probe, index, probeSequenceSettings.dwellsBeforeProbe, getOperationTool(probe, probeSequenceSettings, tools),
+        (probe, index) => probe.composite
+          ? generateCompositeOperation(pp, probe, getOperationSettings(probe, probeSequenceSettings, tools), { syntax, firstResult: firstResults[index] })
+          : generateSubroutineCall(pp, syntax, subroutines, probe, index, firstResults[index]))
+    ),
+    sourced(generateFooter(pp, wcsIndex, values, probeSequenceSettings.programEnd, templates.footer, syntax.placement === 'afterProgram' ? subroutineBlocks : ''))
+  ]);
+};
+
+/**
+ * Generate the program along with a map from each line to the probe operation
+ * and movement that produced it. Operations probe with the library tool they or
+ * the sequence select, falling back to the sequence's endmill size.
+ */
+export const generateGCodeWithSourceMap = (
   probeSequence: ProbeOperation[], 
-  probeSequenceSettings: ProbeSequenceSettings
-): string => {
-  const isMM = probeSequenceSettings.units === 'mm';
+  probeSequenceSettings: ProbeSequenceSettings,
+  templates: ProgramTemplates = {},
+  tools: Tool[] = []
+): GeneratedGCode => {
+  const pp = getPostProcessor(probeSequenceSettings.dialect);
+  const operations = applyToolRadiusCompensation(probeSequence, probeSequenceSettings, tools);
+  const parametric = probeSequenceSettings.outputMode === 'parametric';
+
+  if (parametric && pp.parametric) {
+    return generateParametricGCode(pp, pp.parametric, operations, probeSequenceSettings, templates, tools);
+  }
+
+  // Return to the origin of the last work offset that was set
+  const wcsIndex = operations[operations.length - 1]?.wcsIndex ?? DEFAULT_WCS_INDEX;
+  const values = getTemplateValues(pp, probeSequenceSettings, wcsIndex);
   
   const sections = [
-    generateUnitsHeader(isMM),
-    generateInitialPositioning(probeSequenceSettings.initialPosition),
-    generateSpindleStart(probeSequenceSettings.spindleSpeed),
-    generatePositioningMode(),
-    ...probeSequence.map((probe, index) => 
-      generateProbeSequenceOperation(probe, index, probeSequenceSettings.dwellsBeforeProbe)
+    sourced(generateProgramStart(pp)),
+    sourced(parametric ? generateParametricUnsupportedWarning(pp) : ''),
+    sourced(generateWorkOffsetWarning(pp)),
+    sourced(generateHeader(pp, probeSequenceSettings, values, templates.header)),
+    sourced(generatePositioningMode(pp)),
+    ...operations.flatMap((probe, index) => 
+      generateProbeSequenceOperation(pp, probe, index, probeSequenceSettings.dwellsBeforeProbe, getOperationTool(probe, probeSequenceSettings, tools), probe => probe.composite
+        ? generateCompositeOperation(pp, probe, getOperationSettings(probe, probeSequenceSettings, tools))
+        : generateProbeOperation(pp, probe))
     ),
-    generateFooter()
+    sourced(generateFooter(pp, wcsIndex, values, probeSequenceSettings.programEnd, templates.footer))
   ];
   
-  return sections.join('');
+  return joinSourcedText(sections);
 };
 
+// Main generation function
+export const generateGCode = (
+  probeSequence: ProbeOperation[], 
+  probeSequenceSettings: ProbeSequenceSettings,
+  templates: ProgramTemplates = {},
+  tools: Tool[] = []
+): string => generateGCodeWithSourceMap(probeSequence, probeSequenceSettings, templates, tools).gcode;
+
 // Legacy class-based API for backward compatibility
 export class GCodeGenerator {
   static generate(
     probeSequence: ProbeOperation[], 
-    probeSequenceSettings: ProbeSequenceSettings
+    probeSequenceSettings: ProbeSequenceSettings,
+    templates?: ProgramTemplates,
+    tools?: Tool[]
   ): string {
-    return generateGCode(probeSequence, probeSequenceSettings);
+    return generateGCode(probeSequence, probeSequenceSettings, templates, tools);
   }
 }
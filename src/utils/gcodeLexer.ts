@@ -0,0 +1,155 @@
+// src/utils/gcodeLexer.ts
+// Splits one line of G-code into words and comments (RS274/NGC lexical rules)
+
+export type GCodeErrorCode =
+  | 'unclosed-comment'
+  | 'parameter-assignment'
+  | 'parameter-expression'
+  | 'missing-value'
+  | 'unexpected-character'
+  | 'duplicate-word'
+  | 'conflicting-codes'
+  | 'axes-without-motion';
+
+export interface GCodeError {
+  code: GCodeErrorCode;
+  message: string;
+  column: number; // Zero-based offset into the line
+  endColumn: number; // Exclusive
+}
+
+export interface GCodeWord {
+  letter: string; // Upper case
+  value: number;
+  text: string; // As written, e.g. "G01" or "x-.5"
+  column: number;
+}
+
+// O-word lines name or call programs and subroutines ("O1000", "o100 sub", "o100 call [..]")
+export interface GCodeOWord {
+  label: string;
+  statement: string;
+}
+
+export interface LexedLine {
+  words: GCodeWord[];
+  comments: string[];
+  oWord?: GCodeOWord;
+  blockDelete: boolean;
+  errors: GCodeError[];
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)/;
+const WHITESPACE_PATTERN = /\s/;
+const LETTER_PATTERN = /[A-Za-z]/;
+
+// Offset of the first character at or after `index` that is not whitespace
+const skipWhitespace = (line: string, index: number): number => {
+  let i = index;
+  while (i < line.length && WHITESPACE_PATTERN.test(line[i])) i++;
+  return i;
+};
+
+// Offset just past a parenthesised comment or bracketed expression, or -1 if unclosed
+const findClosing = (line: string, index: number, open: string, close: string): number => {
+  let depth = 0;
+  for (let i = index; i < line.length; i++) {
+    if (line[i] === open) depth++;
+    if (line[i] === close && --depth === 0) return i + 1;
+  }
+  return -1;
+};
+
+// Offset where a trailing comment starts, so O-word statements and assignments stop before it
+const findCommentStart = (line: string, index: number): number => {
+  const match = line.slice(index).search(/[(;]/);
+  return match === -1 ? line.length : index + match;
+};
+
+// Skip a parameter reference (#5061, #<_x>) or bracketed expression after a word letter
+const skipExpression = (line: string, index: number): number => {
+  if (line[index] === '[') {
+    const end = findClosing(line, index, '[', ']');
+    return end === -1 ? line.length : end;
+  }
+  const match = line.slice(index).match(/^#(<[^>]*>|#*\d+)/);
+  return index + (match ? match[0].length : 1);
+};
+
+export const tokenizeLine = (line: string): LexedLine => {
+  const result: LexedLine = { words: [], comments: [], blockDelete: false, errors: [] };
+  const addError = (code: GCodeErrorCode, message: string, column: number, endColumn: number) =>
+    result.errors.push({ code, message, column, endColumn });
+
+  let i = skipWhitespace(line, 0);
+  if (line[i] === '/') {
+    result.blockDelete = true;
+    i++;
+  }
+  // Tape delimiters wrap Fanuc-style programs and carry no words
+  if (line[i] === '%') i++;
+
+  while ((i = skipWhitespace(line, i)) < line.length) {
+    const char = line[i];
+
+    if (char === '(') {
+      const end = findClosing(line, i, '(', ')');
+      if (end === -1) {
+        addError('unclosed-comment', 'Unclosed comment', i, line.length);
+        result.comments.push(line.slice(i + 1).trim());
+        break;
+      }
+      result.comments.push(line.slice(i + 1, end - 1).trim());
+      i = end;
+      continue;
+    }
+
+    if (char === ';') {
+      result.comments.push(line.slice(i + 1).trim());
+      break;
+    }
+
+    if (char === '#') {
+      const end = findCommentStart(line, i);
+      addError('parameter-assignment', 'Parameter assignments are not supported', i, end);
+      i = end;
+      continue;
+    }
+
+    if (!LETTER_PATTERN.test(char)) {
+      addError('unexpected-character', `Unexpected character "${char}"`, i, i + 1);
+      i++;
+      continue;
+    }
+
+    const letter = char.toUpperCase();
+    const valueStart = skipWhitespace(line, i + 1);
+    const number = line.slice(valueStart).match(NUMBER_PATTERN);
+
+    if (letter === 'O') {
+      const end = findCommentStart(line, i);
+      const [label, ...statement] = line.slice(i + 1, end).trim().split(/\s+/);
+      result.oWord = { label, statement: statement.join(' ') };
+      i = end;
+      continue;
+    }
+
+    if (!number) {
+      if (line[valueStart] === '#' || line[valueStart] === '[') {
+        const end = skipExpression(line, valueStart);
+        addError('parameter-expression', `Parameter expressions are not supported for ${letter}`, i, end);
+        i = end;
+      } else {
+        addError('missing-value', `Missing value for ${letter}`, i, i + 1);
+        i++;
+      }
+      continue;
+    }
+
+    const end = valueStart + number[0].length;
+    result.words.push({ letter, value: parseFloat(number[0]), text: line.slice(i, end), column: i });
+    i = end;
+  }
+
+  return result;
+};
@@ -1,8 +1,28 @@
 // src/utils/gcodeParser.ts
-// Functional GCode parser with declarative patterns
+// Recovers probe operations from the typed block list produced by gcodeBlocks
 
-import type { ProbeOperation, MovementStep } from '@/types/machine';
+import type { GCodeDialect, ProbeOperation, MovementStep, ProbeMode, SeekLatchConfig } from '@/types/machine';
 import { conditionally } from './functional';
+import { hasGCode, hasMCode, isProbeMotion, parseGCodeBlocks, toProbeMode, type GCodeAxis, type GCodeBlock, type ProbeMotion } from './gcodeBlocks';
+import { getPostProcessor, readSkipWorkOffset, type PostProcessor } from './postProcessors';
+import { DEFAULT_WCS_INDEX, getWcsCode, getWcsIndex } from './workCoordinateSystems';
+import {
+  DEFAULT_OVERTRAVEL,
+  getMacroProgram,
+  getMacroWorkOffsetIndex,
+  readProbingMacro,
+  type ProbingMacroCall
+} from './probingMacros';
+import {
+  appendWordFix,
+  createDiagnostic,
+  formatDiagnostic,
+  fromBlockError,
+  removeLineFix,
+  removeWordsFix,
+  type GCodeDiagnostic
+} from './gcodeDiagnostics';
+import { getRotaryWords } from './rotaryAxes';
 
 export interface ParsedGCodeResult {
   probeSequence: ProbeOperation[];
@@ -14,7 +34,9 @@ export interface ParsedGCodeResult {
   dwellsBeforeProbe?: number;
   spindleSpeed?: number;
   units?: 'mm' | 'inch';
-  errors: string[];
+  programEnd?: string; // M2/M30 line onwards, verbatim apart from tape delimiters
+  errors: string[]; // Error-severity diagnostics, formatted
+  diagnostics: GCodeDiagnostic[];
 }
 
 interface ParsedProbe {
@@ -22,8 +44,12 @@ interface ParsedProbe {
   direction: 1 | -1;
   distance: number;
   feedRate: number;
+  probeMode: ProbeMode;
+  seekLatch?: SeekLatchConfig;
   backoffDistance: number;
   wcsOffset?: number;
+  wcsIndex?: number;
+  compensateToolRadius?: boolean;
   preMoves: MovementStep[];
   postMoves: MovementStep[];
 }
@@ -32,113 +58,121 @@ interface ParserState {
   probeSequence: ProbeOperation[];
   currentProbe: ParsedProbe | null;
   pendingMoves: MovementStep[];
+  footerSteps: Map<MovementStep, GCodeBlock>; // Return to origin and S0/M5 steps the generated footer may cover
+  headerMoveCount?: number; // Moves read before the first operation heading
   hasSeenFirstBufferBlock: boolean;
   expectingBackoffMove: boolean;
+  programEndLine?: number; // Source line of the M2/M30 that ends the program
+  position: Partial<Record<GCodeAxis, number>>; // Work coordinates known from explicit moves
   initialPosition?: Record<'X' | 'Y' | 'Z', number>;
   dwellsBeforeProbe?: number;
   spindleSpeed?: number;
   units?: 'mm' | 'inch';
-  errors: string[];
+  dwellUnits: PostProcessor['dwellUnits'];
+  diagnostics: GCodeDiagnostic[];
 }
 
-// Line processing utilities
-const lineParsers = {
-  extractAxes: (line: string): Record<string, number> => {
-    const axisPattern = /([XYZ])(-?\d*\.?\d+)/gi;
-    const axes: Record<string, number> = {};
-    let match;
-    while ((match = axisPattern.exec(line)) !== null) {
-      axes[match[1].toUpperCase()] = parseFloat(match[2]);
-    }
-    return axes;
-  },
+// Feed used when a probe line runs before any F word
+const DEFAULT_PROBE_FEED = 10;
 
-  extractValue: (line: string, pattern: RegExp): number | null => {
-    const match = line.match(pattern);
-    return match ? parseFloat(match[1]) : null;
-  },
+// A run of at least this many G4 P0.01 dwells separates probe operations
+const MIN_BUFFER_CLEAR_RUN = 2;
+const BUFFER_CLEAR_DWELL = 0.01;
 
-  extractComment: (line: string): string | null => {
-    const commentMatch = line.match(/\((.+)\)/);
-    return commentMatch ? commentMatch[1].trim() : null;
-  }
+// The comment the generator writes above each operation
+const OPERATION_HEADING = /^=== Probe Operation \d+:/;
+
+// Words the generator writes itself in the program header
+const HEADER_G_CODES = ['G20', 'G21', 'G90', 'G91'];
+const HEADER_M_CODES = ['M3', 'M4'];
+const HEADER_VALUE_LETTERS = ['S'];
+
+// Fanuc-style controls dwell for P milliseconds
+const readDwellSeconds = (block: GCodeBlock, dwellUnits: PostProcessor['dwellUnits']): number | undefined =>
+  block.values.P === undefined || dwellUnits === 'seconds' ? block.values.P : block.values.P / 1000;
+
+// G10 L20 with a literal value, or the skip-position G10 L2 the Fanuc and Haas dialects write
+const readWorkOffset = (block: GCodeBlock): { axes: Partial<Record<GCodeAxis, number>>; wcsIndex: number } | undefined => {
+  if (block.nonModal !== 'G10') return undefined;
+  const skip = readSkipWorkOffset(block.text);
+  if (skip) return { axes: { [skip.axis]: skip.value }, wcsIndex: skip.wcsIndex };
+  return block.values.L === 20 ? { axes: block.axes, wcsIndex: block.values.P ?? DEFAULT_WCS_INDEX } : undefined;
 };
 
-// Pattern matchers for functional command detection
-const patterns = {
-  units: /G20|G21/,
-  spindle: /(S\d+.*(M3|M4))|(M3.*S\d+)|(M4.*S\d+)/,
-  probe: /G38\.2/,
-  wcs: /G10.*L20.*P1/,
-  rapid: /G0(?!.*G10)/,
-  dwell: /G4/,
-  bufferClear: /G4\s+P0\.01/,
-  absoluteMode: /G90/,
-  relativeMode: /G91/,
-  machineCoords: /G53/,
-  wcsCoords: /G54/
+const blockFilters = {
+  // Comment-only lines and tape delimiters carry no commands
+  isEmptyOrComment: (block: GCodeBlock): boolean =>
+    block.words.length === 0 && !block.oWord,
+
+  isOperationHeading: (block: GCodeBlock): boolean =>
+    block.words.length === 0 && OPERATION_HEADING.test(block.comment ?? ''),
+
+  isBufferClear: (block: GCodeBlock, dwellUnits: PostProcessor['dwellUnits']): boolean =>
+    block.nonModal === 'G4' && readDwellSeconds(block, dwellUnits) === BUFFER_CLEAR_DWELL,
+
+  isProgramEnd: (block: GCodeBlock): boolean =>
+    hasMCode(block, 'M2') || hasMCode(block, 'M30'),
+
+  // Units, distance mode, spindle start and program numbers are rebuilt from settings
+  isHeaderBlock: (block: GCodeBlock): boolean =>
+    Object.keys(block.axes).length === 0 &&
+    block.gCodes.every(code => HEADER_G_CODES.includes(code)) &&
+    block.mCodes.every(code => HEADER_M_CODES.includes(code)) &&
+    Object.keys(block.values).every(letter => HEADER_VALUE_LETTERS.includes(letter)) &&
+    (!block.oWord || !block.oWord.statement),
+
+  // Every move carries its own distance mode, and the generator restores G91 itself
+  isDistanceModeOnly: (block: GCodeBlock): boolean =>
+    block.words.length > 0 &&
+    block.words.every(word => word.letter === 'G' && (word.value === 90 || word.value === 91)),
+
+  isSpindleStop: (block: GCodeBlock): boolean =>
+    block.gCodes.length === 0 &&
+    Object.keys(block.axes).length === 0 &&
+    block.mCodes.every(code => code === 'M5') &&
+    Object.keys(block.values).every(letter => letter === 'S') &&
+    (hasMCode(block, 'M5') || block.values.S === 0),
+
+  // The footer's G0 G90 X0Y0 in the current work offset
+  isReturnToOrigin: (block: GCodeBlock): boolean =>
+    block.motion === 'G0' &&
+    !block.machineCoordinates &&
+    block.modal.distance === 'absolute' &&
+    Object.keys(block.values).length === 0 &&
+    Object.keys(block.axes).sort().join('') === 'XY' &&
+    block.axes.X === 0 && block.axes.Y === 0
 };
 
-// Functional extractors
+// Modal state, not just the block's own words: a move under an earlier G90 or
+// G55 has to come back out with them, since the generator runs moves in G91
 const extractors = {
-  feedRate: (line: string) => lineParsers.extractValue(line, /F(\d*\.?\d+)/),
-  dwellTime: (line: string) => lineParsers.extractValue(line, /P(\d*\.?\d+)/),
-  spindleSpeed: (line: string) => 
-    (patterns.spindle.test(line)) ? lineParsers.extractValue(line, /S(\d+)/) : null,
-  
-  positionMode: (line: string): 'relative' | 'absolute' | 'none' =>
-    conditionally.ifElse(
-      patterns.relativeMode.test(line), 
-      'relative' as const,
-      conditionally.ifElse(
-        patterns.absoluteMode.test(line),
-        'absolute' as const,
-        'none' as const
-      )
-    ),
-
-  coordinateSystem: (line: string): 'machine' | 'wcs' | 'none' =>
-    conditionally.ifElse(
-      patterns.machineCoords.test(line),
-      'machine' as const,
-      conditionally.ifElse(
-        patterns.wcsCoords.test(line),
-        'wcs' as const,
-        'none' as const
-      )
-    )
+  // G53 targets are machine positions whatever the distance mode
+  positionMode: (block: GCodeBlock): 'relative' | 'absolute' =>
+    block.machineCoordinates ? 'absolute' : block.modal.distance,
+
+  // Relative moves travel the same in every work offset, so only a select code on the line is kept
+  coordinateSystem: (block: GCodeBlock): 'machine' | 'wcs' | 'none' => {
+    if (block.machineCoordinates) return 'machine';
+    const selectsWcs = block.gCodes.some(code => getWcsIndex(code) !== undefined);
+    return conditionally.ifElse(block.modal.distance === 'absolute' || selectsWcs, 'wcs' as const, 'none' as const);
+  }
 };
 
-// Line filtering and processing
-const lineFilters = {
-  isEmptyOrComment: (line: string): boolean => 
-    !line.trim() || line.trim().startsWith('('),
-    
-  isBufferClear: (line: string): boolean => 
-    patterns.bufferClear.test(line.split('(')[0].trim().toUpperCase()),
-    
-  cleanLine: (line: string): string => 
-    line.split('(')[0].trim().toUpperCase()
-};
+type CommandType = 'probe' | 'wcs' | 'rapid' | 'dwell' | 'macro';
 
-// Command type detector using functional approach
-const detectCommandType = (line: string): string => {
-  const commandMappings = [
-    { pattern: patterns.units, type: 'units' },
-    { pattern: patterns.spindle, type: 'spindle' },
-    { pattern: patterns.probe, type: 'probe' },
-    { pattern: patterns.wcs, type: 'wcs' },
-    { pattern: patterns.rapid, type: 'rapid' },
-    { pattern: patterns.dwell, type: 'dwell' }
-  ];
-
-  const matchedCommand = commandMappings.find(({ pattern }) => pattern.test(line));
-  return matchedCommand?.type || 'other';
+// A block holds at most one of these; units and spindle words are read alongside
+const detectCommandType = (block: GCodeBlock): CommandType | null => {
+  if (isProbeMotion(block.motion)) return 'probe';
+  if (readWorkOffset(block)) return 'wcs';
+  if (block.motion === 'G0') return 'rapid';
+  if (block.nonModal === 'G4') return 'dwell';
+  if (block.nonModal === 'G65') return 'macro';
+  return null;
 };
 
 // Movement step factory
 const createMovementStep = (
-  type: 'rapid' | 'dwell',
+  type: MovementStep['type'],
   description: string,
   additionalProps: Partial<MovementStep> = {}
 ): MovementStep => ({
@@ -155,34 +189,125 @@ const createProbeOperation = (probe: ParsedProbe, postMoves: MovementStep[]): Pr
   direction: probe.direction,
   distance: probe.distance,
   feedRate: probe.feedRate,
+  probeMode: probe.probeMode,
   backoffDistance: probe.backoffDistance,
   wcsOffset: probe.wcsOffset || 0,
+  wcsIndex: probe.wcsIndex ?? DEFAULT_WCS_INDEX,
+  ...(probe.compensateToolRadius && { compensateToolRadius: true }),
+  ...(probe.seekLatch && { seekLatch: { ...probe.seekLatch } }),
   preMoves: [...probe.preMoves],
   postMoves: [...postMoves]
 });
 
 // State mutation utilities (using functional patterns)
 const stateUpdaters = {
-  setUnits: (state: ParserState, line: string) => {
-    state.units = patterns.units.test(line) && line.includes('G20') ? 'inch' : 'mm';
+  setUnits: (state: ParserState, block: GCodeBlock) => {
+    if (state.units && state.units !== block.modal.units) {
+      const unitWords = block.words.filter(word => word.letter === 'G' && (word.value === 20 || word.value === 21));
+      const [word] = unitWords;
+      state.diagnostics.push(createDiagnostic(
+        block,
+        'units-changed',
+        'warning',
+        `Units change from ${state.units} to ${block.modal.units} mid-file; the sequence is imported in ${block.modal.units}`,
+        { column: word.column, endColumn: word.column + word.text.length },
+        removeWordsFix(block, unitWords, `Remove ${word.text}`)
+      ));
+    }
+    state.units = block.modal.units;
   },
 
   setSpindleSpeed: (state: ParserState, speed: number) => {
     state.spindleSpeed = speed;
   },
 
-  addError: (state: ParserState, lineIndex: number, originalLine: string, message: string) => {
-    state.errors.push(`Error parsing line ${lineIndex + 1}: "${originalLine}" - ${message}`);
+  addDiagnostic: (state: ParserState, diagnostic: GCodeDiagnostic) => {
+    state.diagnostics.push(diagnostic);
   },
 
   addPendingMove: (state: ParserState, move: MovementStep) => {
     state.pendingMoves.push(move);
   },
 
+  // Keep a line the editor does not model so re-exporting writes it back unchanged
+  addRawStep: (state: ParserState, block: GCodeBlock, diagnostic?: GCodeDiagnostic) => {
+    const move = createMovementStep('raw', block.comment || block.text, {
+      rawText: block.text,
+      ...(diagnostic && { diagnostic: diagnostic.message })
+    });
+    if (blockFilters.isSpindleStop(block)) state.footerSteps.set(move, block);
+    stateUpdaters.addPendingMove(state, move);
+    state.expectingBackoffMove = false;
+  },
+
+  // The footer writes the return to origin and S0 again, so trailing copies are not kept.
+  // An M5 right before the program end stays with it, since an imported end replaces
+  // the dialect's own M5.
+  dropFooterSteps: (state: ParserState) => {
+    const lastProbe = state.currentProbe ?? state.probeSequence[state.probeSequence.length - 1];
+    const wcsIndex = lastProbe?.wcsIndex ?? DEFAULT_WCS_INDEX;
+    let keepsSpindleOff = state.programEndLine !== undefined;
+    let stopsSpindle = false;
+
+    while (state.pendingMoves.length > 0) {
+      const move = state.pendingMoves[state.pendingMoves.length - 1];
+      const block = state.footerSteps.get(move);
+      if (!block) return;
+
+      if (move.type === 'rapid') {
+        // The footer returns to origin right before stopping the spindle, and nothing before it is footer
+        if (stopsSpindle && move.wcsIndex === wcsIndex) state.pendingMoves.pop();
+        return;
+      }
+      stopsSpindle = true;
+      if (keepsSpindleOff && hasMCode(block, 'M5')) {
+        state.programEndLine = block.lineIndex;
+      } else {
+        keepsSpindleOff = false;
+      }
+      state.pendingMoves.pop();
+    }
+  },
+
+  // Follow explicit linear moves so macro measurements know where they start
+  trackPosition: (state: ParserState, block: GCodeBlock) => {
+    const probing = isProbeMotion(block.motion);
+    if (!probing && block.motion !== 'G0' && block.motion !== 'G1') return;
+
+    (Object.entries(block.axes) as Array<[GCodeAxis, number]>).forEach(([axis, value]) => {
+      if (probing || block.machineCoordinates) {
+        delete state.position[axis];
+      } else if (block.modal.distance === 'absolute') {
+        state.position[axis] = value;
+      } else if (state.position[axis] !== undefined) {
+        state.position[axis]! += value;
+      }
+    });
+  },
+
+  // Lines after the last probe has been finalized still run after it
+  attachTrailingMoves: (state: ParserState) => {
+    const lastProbe = state.probeSequence[state.probeSequence.length - 1];
+    if (!state.currentProbe && lastProbe) {
+      lastProbe.postMoves.push(...state.pendingMoves);
+      stateUpdaters.clearPendingMoves(state);
+    }
+  },
+
   clearPendingMoves: (state: ParserState) => {
     state.pendingMoves = [];
   },
 
+  // Generated programs head each operation with a comment, so moves after it lead
+  // into the next probe rather than following the last one
+  startOperation: (state: ParserState) => {
+    if (!state.hasSeenFirstBufferBlock) {
+      state.headerMoveCount ??= state.pendingMoves.length;
+      return;
+    }
+    stateUpdaters.finalizeCurrentProbe(state);
+  },
+
   finalizeCurrentProbe: (state: ParserState) => {
     if (state.currentProbe) {
       const probeOperation = createProbeOperation(state.currentProbe, state.pendingMoves);
@@ -194,34 +319,190 @@ const stateUpdaters = {
   }
 };
 
+// A retract followed by another probe on the same axis, before the WCS is set,
+// is the latch half of a seek/latch probe
+const isLatchProbe = (state: ParserState, axis: 'X' | 'Y' | 'Z'): boolean => {
+  const probe = state.currentProbe;
+  if (!probe || probe.wcsOffset !== undefined || probe.axis !== axis) return false;
+  if (state.pendingMoves.length !== 1) return false;
+
+  const [retract] = state.pendingMoves;
+  const retractValue = retract.axesValues?.[axis];
+  return retract.type === 'rapid' &&
+    retract.positionMode === 'relative' &&
+    Object.keys(retract.axesValues ?? {}).length === 1 &&
+    retractValue !== undefined &&
+    Math.sign(retractValue) === -probe.direction;
+};
+
+const formatAxes = (axes: Record<string, number>): string =>
+  Object.entries(axes).map(([axis, value]) => `${axis}${value}`).join(' ');
+
+// Inspection Plus corrects X/Y results for the stylus radius itself; a G38 probe
+// trips at the stylus centre, so only a zero target maps onto tool radius compensation
+const measureSurface = (
+  block: GCodeBlock,
+  call: Extract<ProbingMacroCall, { kind: 'single-surface' }>,
+  state: ParserState
+) => {
+  const { axis, target } = call;
+  const start = state.position[axis];
+  if (start === undefined || start === target) {
+    const diagnostic = createDiagnostic(
+      block,
+      'macro-unknown-start',
+      'error',
+      start === undefined
+        ? `Start position along ${axis} is unknown; position the probe first (e.g. G65 P9810 ${axis}...)`
+        : `Measurement starts on its ${axis} target`
+    );
+    stateUpdaters.addDiagnostic(state, diagnostic);
+    stateUpdaters.addRawStep(state, block, diagnostic);
+    return;
+  }
+
+  const validIndex = call.workOffset === undefined ? undefined : getMacroWorkOffsetIndex(call.workOffset);
+  const wcsIndex = validIndex ?? block.modal.wcsIndex;
+  if (validIndex === undefined) {
+    stateUpdaters.addDiagnostic(state, createDiagnostic(
+      block,
+      'macro-work-offset',
+      'warning',
+      call.workOffset === undefined
+        ? `Measurement without S only measures; the imported operation sets ${getWcsCode(wcsIndex)} ${axis}`
+        : `Work offset S${call.workOffset} has no G10 L20 equivalent; ${getWcsCode(wcsIndex)} is set instead`
+    ));
+  }
+
+  const compensateToolRadius = axis !== 'Z' && target === 0;
+  if (axis !== 'Z' && !compensateToolRadius) {
+    stateUpdaters.addDiagnostic(state, createDiagnostic(
+      block,
+      'macro-stylus-radius',
+      'info',
+      `The ${axis} result is not corrected for the stylus radius; adjust the WCS value`
+    ));
+  }
+
+  // Moves since the previous measurement position the probe for this one
+  const preMoves = state.pendingMoves;
+  stateUpdaters.clearPendingMoves(state);
+  stateUpdaters.finalizeCurrentProbe(state);
+
+  const travel = target - start;
+  state.currentProbe = {
+    axis,
+    direction: travel < 0 ? -1 : 1,
+    distance: Math.abs(travel) + (call.overtravel ?? DEFAULT_OVERTRAVEL[block.modal.units]),
+    feedRate: call.feedRate ?? block.modal.feedRate ?? DEFAULT_PROBE_FEED,
+    probeMode: 'G38.2',
+    backoffDistance: 1,
+    wcsOffset: target,
+    wcsIndex,
+    ...(compensateToolRadius && { compensateToolRadius }),
+    preMoves,
+    postMoves: []
+  };
+};
+
+// The macro returns to its start point, so the tracked position is unchanged
+const processMacroCall = (block: GCodeBlock, call: ProbingMacroCall, state: ParserState) => {
+  switch (call.kind) {
+    case 'protected-move': {
+      const axes = call.axes as Record<string, number>;
+      stateUpdaters.addPendingMove(state, createMovementStep('rapid', block.comment || `Protected move to ${formatAxes(axes)}`, {
+        axesValues: axes,
+        positionMode: 'absolute',
+        coordinateSystem: 'none'
+      }));
+      Object.assign(state.position, axes);
+      state.expectingBackoffMove = false;
+      // Said once: every CAM positioning move is protected
+      if (!state.diagnostics.some(({ code }) => code === 'macro-protected-move')) {
+        stateUpdaters.addDiagnostic(state, createDiagnostic(
+          block,
+          'macro-protected-move',
+          'info',
+          'Protected moves are imported as rapids; the probe does not guard them'
+        ));
+      }
+      return;
+    }
+    case 'single-surface':
+      measureSurface(block, call, state);
+      return;
+    case 'probe-power':
+      stateUpdaters.addDiagnostic(state, createDiagnostic(
+        block,
+        'macro-probe-power',
+        'info',
+        `Spindle probe ${call.on ? 'on' : 'off'} macro dropped; G38 probing does not switch the probe`
+      ));
+      return;
+  }
+};
+
 // Command processors with functional approach
-const commandProcessors = {
-  units: (line: string, state: ParserState) => 
-    stateUpdaters.setUnits(state, line),
-  
-  spindle: (line: string, state: ParserState) => 
-    conditionally.maybe(
-      extractors.spindleSpeed(line),
-      speed => stateUpdaters.setSpindleSpeed(state, speed)
-    ),
-  
-  probe: (line: string, state: ParserState, lineIndex: number, originalLine: string) => {
-    const axes = lineParsers.extractAxes(line);
-    const feedRate = extractors.feedRate(line);
-    
-    const axisKeys = Object.keys(axes);
+const commandProcessors: Record<CommandType, (block: GCodeBlock, state: ParserState) => void> = {
+  probe: (block, state) => {
+    const axes = block.axes;
+    const feedRate = block.modal.feedRate;
+
+    const axisKeys = Object.keys(axes) as Array<'X' | 'Y' | 'Z'>;
     if (axisKeys.length !== 1) {
-      stateUpdaters.addError(state, lineIndex, originalLine, 'Invalid probe command, expected exactly one axis');
+      const axisWords = block.words.filter(word => word.letter in axes);
+      const [kept, ...extra] = axisWords;
+      const diagnostic = createDiagnostic(
+        block,
+        'probe-axis-count',
+        'error',
+        'Invalid probe command, expected exactly one axis',
+        undefined,
+        kept ? removeWordsFix(block, extra, `Keep only ${kept.text}`) : undefined
+      );
+      stateUpdaters.addDiagnostic(state, diagnostic);
+      stateUpdaters.addRawStep(state, block, diagnostic);
       return;
     }
 
-    const axis = axisKeys[0] as 'X' | 'Y' | 'Z';
-    const value = axes[axis];
+    const axis = axisKeys[0];
+    const value = axes[axis]!;
+
+    if (isLatchProbe(state, axis)) {
+      const probe = state.currentProbe!;
+      const retractDistance = Math.abs(state.pendingMoves[0].axesValues![axis]);
+      const seekLatch = probe.seekLatch ?? {
+        seekFeedRate: probe.feedRate,
+        latchFeedRate: probe.feedRate,
+        retractDistance,
+        repeatCount: 0
+      };
+      probe.seekLatch = {
+        ...seekLatch,
+        latchFeedRate: feedRate || seekLatch.latchFeedRate,
+        repeatCount: seekLatch.repeatCount + 1
+      };
+      stateUpdaters.clearPendingMoves(state);
+      return;
+    }
+
+    if (!feedRate) {
+      stateUpdaters.addDiagnostic(state, createDiagnostic(
+        block,
+        'probe-missing-feed',
+        'warning',
+        `Probe has no feed rate; ${DEFAULT_PROBE_FEED} is used`,
+        undefined,
+        appendWordFix(block, `F${DEFAULT_PROBE_FEED}`)
+      ));
+    }
+
     state.currentProbe = {
       axis,
       direction: value < 0 ? -1 : 1,
       distance: Math.abs(value),
-      feedRate: feedRate || 10,
+      feedRate: feedRate || DEFAULT_PROBE_FEED,
+      probeMode: toProbeMode(block.motion as ProbeMotion),
       backoffDistance: 1,
       preMoves: [...state.pendingMoves],
       postMoves: []
@@ -230,31 +511,54 @@ const commandProcessors = {
     stateUpdaters.clearPendingMoves(state);
   },
   
-  wcs: (line: string, state: ParserState) => {
-    if (!state.currentProbe) return;
-    
-    const axes = lineParsers.extractAxes(line);
-    const axisValue = axes[state.currentProbe.axis];
+  wcs: (block, state) => {
+    const { axes, wcsIndex } = readWorkOffset(block)!;
+    const axisValue = state.currentProbe ? axes[state.currentProbe.axis] : undefined;
     
-    if (axisValue !== undefined) {
-      state.currentProbe.wcsOffset = Math.abs(axisValue);
+    if (state.currentProbe && axisValue !== undefined) {
+      state.currentProbe.wcsOffset = axisValue;
+      state.currentProbe.wcsIndex = wcsIndex;
       state.expectingBackoffMove = true;
+      return;
     }
+
+    // Kept verbatim, but a work offset set from no probe result is usually a mistake
+    const diagnostic = state.currentProbe
+      ? createDiagnostic(
+          block,
+          'wcs-axis-mismatch',
+          'warning',
+          `G10 L20 does not set the probed ${state.currentProbe.axis} axis; kept as a raw line`
+        )
+      : createDiagnostic(
+          block,
+          'wcs-without-probe',
+          'warning',
+          'G10 L20 without a preceding probe; kept as a raw line',
+          undefined,
+          removeLineFix(block)
+        );
+    stateUpdaters.addDiagnostic(state, diagnostic);
+    stateUpdaters.addRawStep(state, block, diagnostic);
   },
 
-  rapid: (line: string, state: ParserState, _lineIndex: number, originalLine: string) => {
-    const axes = lineParsers.extractAxes(line);
-    if (Object.keys(axes).length === 0) return;
+  rapid: (block, state) => {
+    const rotaryWords = getRotaryWords(block.values);
+    const axes = { ...block.axes, ...rotaryWords } as Record<string, number>;
+    // A G0 with no axes only sets the motion mode
+    if (Object.keys(axes).length === 0) {
+      stateUpdaters.addRawStep(state, block);
+      return;
+    }
 
-    // Handle initial positioning
-    if (!state.hasSeenFirstBufferBlock && line.includes('G90') && line.includes('G53')) {
+    // Handle initial positioning (rotary indexing is kept as a move)
+    const isRotaryMove = Object.keys(rotaryWords).length > 0;
+    if (!state.hasSeenFirstBufferBlock && !isRotaryMove && block.machineCoordinates && block.modal.distance === 'absolute') {
       if (!state.initialPosition) {
         state.initialPosition = {} as Record<'X' | 'Y' | 'Z', number>;
       }
       Object.entries(axes).forEach(([axis, value]) => {
-        if (['X', 'Y', 'Z'].includes(axis)) {
-          state.initialPosition![axis as 'X' | 'Y' | 'Z'] = value;
-        }
+        state.initialPosition![axis as 'X' | 'Y' | 'Z'] = value;
       });
       return;
     }
@@ -262,7 +566,7 @@ const commandProcessors = {
     // Handle automatic backoff move
     const isBackoff = state.expectingBackoffMove && 
                      state.currentProbe !== null &&
-                     line.includes('G91') && 
+                     block.modal.distance === 'relative' && 
                      Object.keys(axes).length === 1 && 
                      axes[state.currentProbe.axis] !== undefined;
 
@@ -273,95 +577,94 @@ const commandProcessors = {
     }
 
     // Create rapid move
-    const comment = lineParsers.extractComment(originalLine);
     const defaultDescription = `Rapid move to ${Object.entries(axes).map(([axis, value]) => `${axis}${value}`).join(' ')}`;
-    const description = comment || defaultDescription;
+    const description = block.comment || defaultDescription;
 
+    const coordinateSystem = extractors.coordinateSystem(block);
     const move = createMovementStep('rapid', description, {
       axesValues: axes,
-      positionMode: extractors.positionMode(line),
-      coordinateSystem: extractors.coordinateSystem(line)
+      positionMode: extractors.positionMode(block),
+      coordinateSystem,
+      ...(coordinateSystem === 'wcs' && { wcsIndex: block.modal.wcsIndex })
     });
 
     stateUpdaters.addPendingMove(state, move);
+    if (blockFilters.isReturnToOrigin(block)) state.footerSteps.set(move, block);
     state.expectingBackoffMove = false;
   },
 
-  dwell: (line: string, state: ParserState, _lineIndex: number, originalLine: string) => {
-    const dwellTime = extractors.dwellTime(line);
-    if (dwellTime === null) return;
+  macro: (block, state) => {
+    const call = readProbingMacro(block);
+    if (call && typeof call !== 'string') {
+      processMacroCall(block, call, state);
+      return;
+    }
+    const diagnostic = typeof call === 'string'
+      ? createDiagnostic(block, 'macro-arguments', 'error', call)
+      : createDiagnostic(
+          block,
+          'macro-unsupported',
+          'warning',
+          `Macro P${getMacroProgram(block) ?? '?'} is not recognized; kept as a raw line`
+        );
+    stateUpdaters.addDiagnostic(state, diagnostic);
+    stateUpdaters.addRawStep(state, block, diagnostic);
+  },
+
+  dwell: (block, state) => {
+    const dwellTime = readDwellSeconds(block, state.dwellUnits);
+    if (dwellTime === undefined) {
+      stateUpdaters.addRawStep(state, block);
+      return;
+    }
 
-    const comment = lineParsers.extractComment(originalLine);
     const defaultDescription = `Dwell for ${dwellTime} seconds`;
-    const description = comment || defaultDescription;
+    const description = block.comment || defaultDescription;
 
     const move = createMovementStep('dwell', description, { dwellTime });
     stateUpdaters.addPendingMove(state, move);
   }
 };
 
-// Buffer clear analysis with functional approach
-const analyzeBufferClear = (lines: string[]) => {
-  const validLines = lines
-    .map((line, index) => ({ line: line.trim(), index }))
-    .filter(({ line }) => !lineFilters.isEmptyOrComment(line));
-
-  const ranges: Array<{ start: number; end: number }> = [];
-  
-  const finalRange = validLines.reduce<{ start: number; count: number } | null>(
-    (currentRange, { line, index }) => {
-      if (lineFilters.isBufferClear(line)) {
-        return currentRange ? 
-          { ...currentRange, count: currentRange.count + 1 } :
-          { start: index, count: 1 };
-      } else {
-        if (currentRange && currentRange.count >= 2) {
-          ranges.push({ start: currentRange.start, end: currentRange.start + currentRange.count });
-        }
-        return null;
-      }
-    },
-    null
-  );
-
-  if (finalRange && finalRange.count >= 2) {
-    ranges.push({ start: finalRange.start, end: finalRange.start + finalRange.count });
-  }
+// Start indices of buffer clear runs, plus every block that belongs to one
+const analyzeBufferClear = (blocks: GCodeBlock[], dwellUnits: PostProcessor['dwellUnits']) => {
+  const runs = blocks.reduce<Array<{ start: number; count: number }>>((found, block, index) => {
+    if (!blockFilters.isBufferClear(block, dwellUnits)) return found;
+    const last = found[found.length - 1];
+    if (last && last.start + last.count === index) {
+      last.count++;
+    } else {
+      found.push({ start: index, count: 1 });
+    }
+    return found;
+  }, []).filter(({ count }) => count >= MIN_BUFFER_CLEAR_RUN);
 
   return {
-    lines: new Set(
-      ranges.flatMap(({ start, end }) => 
-        Array.from({ length: end - start }, (_, i) => start + i)
-          .filter(i => lineFilters.isBufferClear(lines[i]?.trim()))
-      )
-    ),
-    blocks: ranges.map(({ start }) => start)
+    blocks: new Set(runs.flatMap(({ start, count }) => Array.from({ length: count }, (_, i) => start + i))),
+    runs: new Map(runs.map(({ start, count }) => [start, count]))
   };
 };
 
 // Buffer clear block handler
-const handleBufferClearBlock = (lines: string[], currentIndex: number, state: ParserState) => {
+const handleBufferClearBlock = (blocks: GCodeBlock[], currentIndex: number, dwellCount: number, state: ParserState) => {
   if (!state.hasSeenFirstBufferBlock) {
     state.hasSeenFirstBufferBlock = true;
-    
-    // Count dwells functionally
-    const dwellCount = lines
-      .slice(currentIndex)
-      .takeWhile(line => lineFilters.isBufferClear(line?.trim()))
-      .length;
-    
     state.dwellsBeforeProbe = dwellCount;
     
-    // Check if we should clear pre-moves
-    const shouldClear = lines
+    // Moves after machine positioning or spindle start belong to the program header, up to
+    // the first operation heading when there is one; raw lines and rotary indexing are kept
+    // since the header will not write them back
+    const shouldClear = blocks
       .slice(0, currentIndex)
-      .some(line => {
-        const upperLine = line.trim().toUpperCase();
-        return upperLine.includes('G53') || upperLine.includes('M4');
-      });
+      .some(block => block.machineCoordinates || hasMCode(block, 'M4'));
 
     if (shouldClear) {
-      stateUpdaters.clearPendingMoves(state);
+      const headerMoves = state.pendingMoves.slice(0, state.headerMoveCount);
+      state.pendingMoves = [
+        ...headerMoves.filter(move =>
+          move.type === 'raw' || Object.keys(getRotaryWords(move.axesValues ?? {})).length > 0),
+        ...state.pendingMoves.slice(headerMoves.length)
+      ];
     }
     return;
   }
@@ -370,53 +673,84 @@ const handleBufferClearBlock = (lines: string[], currentIndex: number, state: Pa
   stateUpdaters.finalizeCurrentProbe(state);
 };
 
-// Main parsing function with functional flow
-export function parseGCode(gcode: string): ParsedGCodeResult {
-  const lines = gcode.split('\n');
-  const bufferClearInfo = analyzeBufferClear(lines);
+// Tape delimiters are written by the dialect, so they are left out
+const readProgramEnd = (gcode: string, lineIndex: number): string =>
+  gcode.split(/\r?\n/).slice(lineIndex)
+    .filter(line => line.trim() !== '%')
+    .join('\n')
+    .trimEnd();
+
+/**
+ * Recover the probe sequence from a program. Dwells are read in the units of
+ * the dialect the program was written for (LinuxCNC when not given).
+ */
+export function parseGCode(gcode: string, dialect?: GCodeDialect): ParsedGCodeResult {
+  const { dwellUnits } = getPostProcessor(dialect);
+  const blocks = parseGCodeBlocks(gcode)
+    .filter(block => !blockFilters.isEmptyOrComment(block) || block.errors.length > 0 || blockFilters.isOperationHeading(block));
+  const bufferClearInfo = analyzeBufferClear(blocks, dwellUnits);
   
   const state: ParserState = {
     probeSequence: [],
     currentProbe: null,
     pendingMoves: [],
+    footerSteps: new Map(),
     hasSeenFirstBufferBlock: false,
     expectingBackoffMove: false,
-    errors: []
+    position: {},
+    dwellUnits,
+    diagnostics: []
   };
 
-  // Process lines with functional pipeline
-  lines
-    .map((line, index) => ({
-      content: line.trim().toUpperCase(),
-      original: line.trim(),
-      index
-    }))
-    .filter(({ content }) => !lineFilters.isEmptyOrComment(content))
-    .forEach(({ content, original, index }) => {
-      // Handle buffer clear blocks
-      if (bufferClearInfo.blocks.includes(index)) {
-        handleBufferClearBlock(lines, index, state);
-      }
+  blocks.forEach((block, index) => {
+    // Anything after M2/M30 (e.g. Fanuc subprograms) is not part of the sequence; it is kept as the program end
+    if (state.programEndLine !== undefined) return;
+    // The skip-position expression is the one the dialect writes, so it is read rather than reported
+    const blockErrors = readSkipWorkOffset(block.text) ? [] : block.errors;
+    const blockDiagnostics = blockErrors.map(error => fromBlockError(block, error));
+    blockDiagnostics.forEach(diagnostic => stateUpdaters.addDiagnostic(state, diagnostic));
 
-      // Skip buffer clearing commands
-      if (bufferClearInfo.lines.has(index)) return;
+    if (blockFilters.isOperationHeading(block)) {
+      stateUpdaters.startOperation(state);
+      return;
+    }
 
-      const cleaned = lineFilters.cleanLine(content);
-      if (!cleaned) return;
+    // Handle buffer clear blocks
+    const dwellCount = bufferClearInfo.runs.get(index);
+    if (dwellCount !== undefined) {
+      handleBufferClearBlock(blocks, index, dwellCount, state);
+    }
 
-      try {
-        const commandType = detectCommandType(cleaned);
-        const processor = commandProcessors[commandType as keyof typeof commandProcessors];
-        
-        if (processor) {
-          processor(cleaned, state, index, original);
-        }
-      } catch (error) {
-        stateUpdaters.addError(state, index, original, String(error));
-      }
-    });
+    // Skip buffer clearing commands
+    if (bufferClearInfo.blocks.has(index)) return;
+
+    if (hasGCode(block, 'G20') || hasGCode(block, 'G21')) {
+      stateUpdaters.setUnits(state, block);
+    }
+
+    const spindleStart = hasMCode(block, 'M3') || hasMCode(block, 'M4');
+    if (spindleStart && block.modal.spindleSpeed !== undefined) {
+      stateUpdaters.setSpindleSpeed(state, block.modal.spindleSpeed);
+    }
+
+    // Lines that cannot be read are kept as they are, with what is wrong with them
+    const commandType = detectCommandType(block);
+    if (blockDiagnostics.length > 0) {
+      stateUpdaters.addRawStep(state, block, blockDiagnostics[0]);
+    } else if (commandType) {
+      commandProcessors[commandType](block, state);
+    } else if (blockFilters.isProgramEnd(block)) {
+      state.programEndLine = block.lineIndex;
+    } else if (!blockFilters.isDistanceModeOnly(block) &&
+      !(blockFilters.isHeaderBlock(block) && !state.hasSeenFirstBufferBlock)) {
+      stateUpdaters.addRawStep(state, block);
+    }
+    stateUpdaters.trackPosition(state, block);
+  });
 
   // Finalize the last probe
+  stateUpdaters.dropFooterSteps(state);
+  stateUpdaters.attachTrailingMoves(state);
   stateUpdaters.finalizeCurrentProbe(state);
 
   return {
@@ -431,27 +765,10 @@ export function parseGCode(gcode: string): ParsedGCodeResult {
     dwellsBeforeProbe: state.dwellsBeforeProbe,
     spindleSpeed: state.spindleSpeed,
     units: state.units,
-    errors: state.errors
-  };
-}
-
-// Add takeWhile to Array prototype for functional chaining
-declare global {
-  interface Array<T> {
-    takeWhile(predicate: (item: T) => boolean): T[];
-  }
-}
-
-if (!Array.prototype.takeWhile) {
-  Array.prototype.takeWhile = function<T>(this: T[], predicate: (item: T) => boolean): T[] {
-    const result: T[] = [];
-    for (const item of this) {
-      if (predicate(item)) {
-        result.push(item);
-      } else {
-        break;
-      }
-    }
-    return result;
+    programEnd: state.programEndLine === undefined ? undefined : readProgramEnd(gcode, state.programEndLine),
+    errors: state.diagnostics
+      .filter(diagnostic => diagnostic.severity === 'error')
+      .map(formatDiagnostic),
+    diagnostics: state.diagnostics
   };
 }
@@ -0,0 +1,59 @@
+// src/utils/gcodeSourceMap.ts
+// Links generated G-code lines back to the probe operations and movements that produced them
+
+export interface GCodeLineSource {
+  operationId: string;
+  movementId?: string;
+  probeStage?: number; // Index into getProbeStages(operation)
+  touch?: number; // Composite operations: which touch the probe stage belongs to
+}
+
+// Indexed by zero-based line number; null for header, footer and blank lines
+export type GCodeSourceMap = Array<GCodeLineSource | null>;
+
+export interface GeneratedGCode {
+  gcode: string;
+  sourceMap: GCodeSourceMap;
+}
+
+// Generator output fragment; every line in `text` is attributed to `source`
+export interface SourcedText {
+  text: string;
+  source?: GCodeLineSource;
+}
+
+export const sourced = (text: string, source?: GCodeLineSource): SourcedText => ({ text, source });
+
+export const joinSourcedText = (chunks: SourcedText[]): GeneratedGCode =>
+  chunks.reduce<GeneratedGCode>(({ gcode, sourceMap }, { text, source }) => {
+    const lineCount = text.split('\n').length - 1;
+    return {
+      gcode: gcode + text,
+      sourceMap: sourceMap.concat(Array.from({ length: lineCount }, () => source ?? null))
+    };
+  }, { gcode: '', sourceMap: [] });
+
+const matchesSource = (candidate: GCodeLineSource | null, source: GCodeLineSource): boolean =>
+  candidate !== null &&
+  candidate.operationId === source.operationId &&
+  candidate.movementId === source.movementId &&
+  candidate.probeStage === source.probeStage &&
+  candidate.touch === source.touch;
+
+/**
+ * First line produced by `source`. Falls back to the operation's probe block,
+ * then to any of its lines, when the exact item has no line of its own (e.g.
+ * latch stages inside a parametric subroutine). Returns -1 when the operation
+ * is not in the map.
+ */
+export const findSourceLine = (sourceMap: GCodeSourceMap, source: GCodeLineSource): number => {
+  const exact = sourceMap.findIndex(candidate => matchesSource(candidate, source));
+  if (exact !== -1) return exact;
+  const probeLine = sourceMap.findIndex(candidate =>
+    candidate?.operationId === source.operationId && candidate.probeStage !== undefined);
+  if (probeLine !== -1) return probeLine;
+  return sourceMap.findIndex(candidate => candidate?.operationId === source.operationId);
+};
+
+export const getOperationLines = (sourceMap: GCodeSourceMap, operationId: string): number[] =>
+  sourceMap.flatMap((source, line) => source?.operationId === operationId ? [line] : []);
@@ -2,6 +2,7 @@
 
 import * as THREE from 'three';
 import type { Position3D, BoundingBox, CollisionResult } from './VirtualMill';
+import { CONTACT_TOLERANCE } from './sweptCollision';
 
 /**
  * Custom model geometry information for collision detection
@@ -105,6 +106,48 @@ export class CustomModelCollision {
     }
   }
   
+  /**
+   * First contact of points all moving by `travel` with the model: how far along
+   * the move, which point and where on the model. Rays only hit outward faces,
+   * so points that start inside or on the surface never report it.
+   */
+  static checkSweptCollision(
+    origins: Position3D[],
+    travel: Position3D,
+    modelInfo: CustomModelInfo
+  ): { fraction: number; index: number; contactPoint: Position3D } | null {
+    const distance = Math.hypot(travel.X, travel.Y, travel.Z);
+    if (distance === 0 || origins.length === 0) return null;
+
+    // Skip the ray casts when the points never come near the model's box
+    const bounds = this.getModelBoundingBox(modelInfo);
+    const missesBounds = (['X', 'Y', 'Z'] as const).some(axis => {
+      const ends = origins.flatMap(origin => [origin[axis], origin[axis] + travel[axis]]);
+      return Math.max(...ends) < bounds.min[axis] || Math.min(...ends) > bounds.max[axis];
+    });
+    if (missesBounds) return null;
+
+    try {
+      const mesh = this.createMeshForIntersection(modelInfo);
+      const direction = new THREE.Vector3(travel.X, travel.Y, travel.Z).normalize();
+      let first: { fraction: number; index: number; contactPoint: Position3D } | null = null;
+
+      origins.forEach((origin, index) => {
+        const raycaster = new THREE.Raycaster(new THREE.Vector3(origin.X, origin.Y, origin.Z), direction, 0, distance);
+        const hit = raycaster.intersectObject(mesh).find(intersection => intersection.distance > CONTACT_TOLERANCE);
+        if (hit && (!first || hit.distance / distance < first.fraction)) {
+          first = { fraction: hit.distance / distance, index, contactPoint: { X: hit.point.x, Y: hit.point.y, Z: hit.point.z } };
+        }
+      });
+
+      mesh.geometry.dispose();
+      return first;
+    } catch (error) {
+      console.error('Error in custom model swept collision detection:', error);
+      return null;
+    }
+  }
+
   /**
    * Check multiple rays to account for tool radius
    */
@@ -1,7 +1,14 @@
 // src/utils/machine/VirtualMill.ts
 
-import type { MachineSettings } from '@/types/machine';
+import type { MachineSettings, MotionLimits, ProbeErrorModel, ProbeMode, RotaryPosition, SpindleNose, ToolAssembly } from '@/types/machine';
 import { CustomModelCollision, type CustomModelInfo } from './CustomModelCollision';
+import { estimateMoveDuration, getMotionLimits } from './motionPlanner';
+import { getToolSamples, sweepToolThroughBox, type SweptContact, type ToolPart, type ToolSegment } from './sweptCollision';
+import { DEFAULT_WCS_INDEX } from '../workCoordinateSystems';
+import { getProbeMode } from '../probeModes';
+import { sampleTripOvertravel } from '../probeErrorModel';
+import { isProbeMotion, toProbeMode, type GCodeAxis, type GCodeBlock } from '../gcodeBlocks';
+import { ROTARY_AXES, ROTARY_PIVOT_AXIS, clampToRotaryLimits, getRotaryWords } from '../rotaryAxes';
 
 /**
  * Represents a 3D position in machine coordinates
@@ -39,11 +46,26 @@ export interface CollisionResult {
   penetrationDepth?: number;
 }
 
+// Gauge length in mm crash checks use until a library tool sets one, as the tool is drawn
+export const DEFAULT_TOOL_LENGTH = 30;
+
+/**
+ * A rapid or linear move that ran the tool or spindle nose into something
+ */
+export interface MoveCollision {
+  obstacle: 'stock' | 'model' | 'stage';
+  part: ToolPart;
+  startPosition: Position3D;
+  endPosition: Position3D;
+  toolPosition: Position3D; // Machine position at the first contact
+  contactPoint: Position3D; // Where the obstacle was hit
+}
+
 /**
  * Movement execution result for real-time simulation
  */
 export interface MovementResult {
-  success: boolean;
+  success: boolean; // False when an alarming probe cycle (G38.2/G38.4) never tripped
   finalPosition: Position3D;
   contactPoint?: Position3D;
   duration: number;
@@ -107,16 +129,20 @@ export interface GCodeCommand {
   X?: number;
   Y?: number;
   Z?: number;
+  A?: number; // Rotary axes, degrees
+  B?: number;
   
   // Probe commands
   axis?: 'X' | 'Y' | 'Z';
   direction?: 1 | -1;
   distance?: number;
   feedRate?: number;
+  probeMode?: ProbeMode; // G38.2 when omitted
   
   // WCS commands
   wcsAxis?: 'X' | 'Y' | 'Z';
   wcsValue?: number;
+  wcsIndex?: number; // G10 P index written by 'wcs' commands, selected by 'mode' commands
   
   // Mode commands
   positionMode?: PositionMode;
@@ -149,6 +175,24 @@ const GeometryUtils = {
     Z: start.Z + (end.Z - start.Z) * progress
   }),
 
+  /**
+   * Rotate a position about a line parallel to `axis` through `center`,
+   * counterclockwise looking down the axis for a positive angle in radians
+   */
+  rotateAboutAxis: (point: Position3D, center: Position3D, axis: 'X' | 'Y' | 'Z', angle: number): Position3D => {
+    // The two coordinates that turn, in right-hand order
+    const [u, v] = ({ X: ['Y', 'Z'], Y: ['Z', 'X'], Z: ['X', 'Y'] } as const)[axis];
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const du = point[u] - center[u];
+    const dv = point[v] - center[v];
+    return {
+      ...point,
+      [u]: center[u] + du * cos - dv * sin,
+      [v]: center[v] + du * sin + dv * cos
+    };
+  },
+
   /**
    * Create a ray from position and direction
    */
@@ -161,6 +205,14 @@ const GeometryUtils = {
     }
   }),
 
+  /**
+   * Check whether a position lies inside (or on) a bounding box
+   */
+  containsPoint: (bounds: BoundingBox, point: Position3D, tolerance = 1e-6): boolean =>
+    (['X', 'Y', 'Z'] as const).every(axis =>
+      point[axis] >= bounds.min[axis] - tolerance && point[axis] <= bounds.max[axis] + tolerance
+    ),
+
   /**
    * Expand bounding box by radius
    */
@@ -357,6 +409,69 @@ const RayBoxIntersection = {
   }
 };
 
+/**
+ * Translate a parsed G-code block into simulator commands. `position` is the
+ * machine position before the block and `wcsOffset` the offset of the block's
+ * work coordinate system, used to turn absolute probe targets into distances.
+ */
+export const getBlockCommands = (
+  block: GCodeBlock,
+  position: Position3D,
+  wcsOffset: Position3D
+): GCodeCommand[] => {
+  const modeWords: Partial<GCodeCommand> = {
+    positionMode: block.modal.distance,
+    coordinateSystem: block.machineCoordinates ? 'machine' : 'wcs',
+    wcsIndex: block.modal.wcsIndex
+  };
+  const axes = Object.keys(block.axes) as GCodeAxis[];
+
+  if (isProbeMotion(block.motion)) {
+    if (axes.length !== 1) return [];
+    const [axis] = axes;
+    const value = block.axes[axis]!;
+    const travel = block.modal.distance === 'relative'
+      ? value
+      : value + (block.machineCoordinates ? 0 : wcsOffset[axis]) - position[axis];
+    return [
+      { type: 'mode', ...modeWords },
+      {
+        type: 'probe',
+        axis,
+        direction: travel < 0 ? -1 : 1,
+        distance: Math.abs(travel),
+        feedRate: block.modal.feedRate,
+        probeMode: toProbeMode(block.motion)
+      }
+    ];
+  }
+
+  if (block.motion === 'G0' || block.motion === 'G1') {
+    return [{
+      type: block.motion === 'G0' ? 'rapid' : 'linear',
+      ...block.axes,
+      ...getRotaryWords(block.values),
+      ...modeWords,
+      ...(block.motion === 'G1' && { feedRate: block.modal.feedRate })
+    }];
+  }
+
+  if (block.nonModal === 'G10' && block.values.L === 20) {
+    return axes.map(axis => ({
+      type: 'wcs',
+      wcsAxis: axis,
+      wcsValue: block.axes[axis],
+      wcsIndex: block.values.P ?? DEFAULT_WCS_INDEX
+    }));
+  }
+
+  if (block.nonModal === 'G4') {
+    return [{ type: 'dwell', dwellTime: block.values.P ?? 0 }];
+  }
+
+  return [{ type: 'mode', ...modeWords }];
+};
+
 // =============================================================================
 // VIRTUAL MILL CLASS
 // =============================================================================
@@ -368,20 +483,36 @@ export class VirtualMill {
   private machineSettings: MachineSettings;
   private stockSize: [number, number, number];
   private stockPosition: [number, number, number];
+  private stockRotation: [number, number, number]; // Radians; only Z is modelled for contact
+  private rotaryPosition: RotaryPosition = {}; // A/B angles in degrees
   
   // Machine state
   private currentPosition: Position3D;
-  private wcsOffset: Position3D;
+  private wcsOffsets: Record<number, Position3D>;
+  private activeWcsIndex: number;
   private positionMode: PositionMode;
   private coordinateSystem: CoordinateSystem;
   
   // Real-time movement state
   private currentMovement: MovementState | null = null;
   private toolRadius: number = 3; // Default tool radius - should be configurable
+  private toolLength: number = DEFAULT_TOOL_LENGTH;
+  private toolAssembly: ToolAssembly | null = null; // In machine units; replaces the plain tool cylinder when set
+  private spindleNose: SpindleNose | null; // Swept along with the tool when set
+  private motionLimits: MotionLimits; // For move durations
+  private crashes: MoveCollision[] = []; // Moves that hit something since the last reset
+  // A side probe leaves the position on the face it touched while the tool center
+  // stops a radius short; crash checks add this back per axis until an absolute move
+  private probeStandoff: Partial<Record<'X' | 'Y' | 'Z', number>> = {};
+  private wcsStandoff: Record<number, Partial<Record<'X' | 'Y' | 'Z', number>>> = {}; // Carried into offsets set meanwhile
   
   // Custom model for enhanced collision detection
   private customModel: CustomModelInfo | null = null;
   private contactPoints: Position3D[] = [];
+
+  // Randomized trip errors for uncertainty runs; probes read the exact contact when unset
+  private probeError: { model: ProbeErrorModel; random: () => number } | null = null;
+  private travelDirection: Partial<Record<'X' | 'Y' | 'Z', number>> = {}; // Sign of each axis's last move, for backlash
   
   // Animation and timing
   private animationId: number | null = null;
@@ -410,21 +541,33 @@ export class VirtualMill {
    * Synchronous command handlers for backward compatibility
    */
   private handleModeCommandSync(command: GCodeCommand): void {
+    this.applyModalWords(command);
+  }
+
+  /**
+   * Modal words (G90/G91, G53/G54...) take effect for the block they appear in
+   */
+  private applyModalWords(command: GCodeCommand): void {
     if (command.positionMode) {
       this.positionMode = command.positionMode;
     }
     if (command.coordinateSystem) {
       this.coordinateSystem = command.coordinateSystem;
     }
+    if (command.coordinateSystem === 'wcs' && command.wcsIndex !== undefined) {
+      this.activeWcsIndex = command.wcsIndex;
+    }
   }
 
   private handleMovementCommandSync(command: GCodeCommand): void {
+    this.applyModalWords(command);
+    this.applyRotaryWords(command);
     const targetPosition = CoordinateUtils.calculateTarget(
       this.currentPosition,
       command,
       this.positionMode,
       this.coordinateSystem,
-      this.wcsOffset
+      this.getWCSOffset()
     );
     
     if (!ValidationUtils.isWithinLimits(targetPosition, this.getAxisLimits())) {
@@ -439,23 +582,57 @@ export class VirtualMill {
                    `Clamping to ${JSON.stringify(clampedPosition)}`);
       
       // Use clamped position instead of throwing error
+      this.recordTravel(this.currentPosition, clampedPosition);
+      this.recordCrash(this.currentPosition, clampedPosition, command);
       this.currentPosition = clampedPosition;
       return;
     }
     
+    this.recordTravel(this.currentPosition, targetPosition);
+    this.recordCrash(this.currentPosition, targetPosition, command);
     this.currentPosition = targetPosition;
   }
 
+  /**
+   * Remember which way each axis last moved
+   */
+  private recordTravel(from: Position3D, to: Position3D): void {
+    (['X', 'Y', 'Z'] as const).forEach(axis => {
+      if (to[axis] !== from[axis]) {
+        this.travelDirection[axis] = Math.sign(to[axis] - from[axis]);
+      }
+    });
+  }
+
+  /**
+   * A/B words index the rotary axes: absolute angles under G90, increments under
+   * G91, clamped to the configured limits. The stock turns with them at once.
+   */
+  private applyRotaryWords(command: GCodeCommand): void {
+    ROTARY_AXES.forEach(axis => {
+      const value = command[axis];
+      if (value === undefined) return;
+
+      const config = this.machineSettings.rotaryAxes?.[axis];
+      if (!config) {
+        console.warn(`Ignoring ${axis}${value}: the machine has no ${axis} axis`);
+        return;
+      }
+
+      const target = this.positionMode === 'relative' ? (this.rotaryPosition[axis] ?? 0) + value : value;
+      const angle = clampToRotaryLimits(config, target);
+      if (angle !== target) {
+        console.warn(`${axis}${target} exceeds rotary limits. Clamping to ${axis}${angle}`);
+      }
+      this.rotaryPosition[axis] = angle;
+    });
+  }
+
   private handleProbeCommandSync(command: GCodeCommand): Position3D | null {
     ValidationUtils.validateProbeCommand(command);
     
     const startPosition = { ...this.currentPosition };
-    const contactPrediction = this.predictProbeContactFunctional(
-      startPosition,
-      command.axis!,
-      command.direction!,
-      command.distance!
-    );
+    const contactPrediction = this.predictProbeTrigger(startPosition, command);
     
     if (contactPrediction.hasContact && contactPrediction.contactPoint) {
       this.currentPosition = contactPrediction.contactPoint;
@@ -467,9 +644,21 @@ export class VirtualMill {
   }
 
   private handleWCSCommandSync(command: GCodeCommand): void {
-    if (command.wcsAxis && command.wcsValue !== undefined) {
-      this.wcsOffset[command.wcsAxis] = this.currentPosition[command.wcsAxis] - command.wcsValue;
-    }
+    this.applyWorkOffset(command);
+  }
+
+  /**
+   * G10 L20: make the current position read wcsValue in the targeted work offset
+   */
+  private applyWorkOffset(command: GCodeCommand): void {
+    if (!command.wcsAxis || command.wcsValue === undefined) return;
+
+    const index = command.wcsIndex ?? DEFAULT_WCS_INDEX;
+    this.wcsOffsets[index] = {
+      ...(this.wcsOffsets[index] ?? { X: 0, Y: 0, Z: 0 }),
+      [command.wcsAxis]: this.currentPosition[command.wcsAxis] - command.wcsValue
+    };
+    this.wcsStandoff[index] = { ...this.wcsStandoff[index], [command.wcsAxis]: this.probeStandoff[command.wcsAxis] };
   }
   
   constructor(
@@ -477,22 +666,48 @@ export class VirtualMill {
     initialPosition: Position3D = { X: 0, Y: 0, Z: 0 }
   ) {
     this.machineSettings = { ...machineSettings };
+    this.spindleNose = machineSettings.spindleNose ?? null;
+    this.motionLimits = getMotionLimits(machineSettings);
     this.currentPosition = { ...initialPosition };
-    this.wcsOffset = { X: 0, Y: 0, Z: 0 };
+    this.wcsOffsets = {};
+    this.activeWcsIndex = DEFAULT_WCS_INDEX;
     this.positionMode = 'absolute';
     this.coordinateSystem = 'machine';
     
     // Default stock setup
     this.stockSize = [25, 25, 10]; // Default 25x25x10mm stock
     this.stockPosition = [0, 0, 0]; // Default centered at origin
+    this.stockRotation = [0, 0, 0]; // Default square to the axes
   }
   
   /**
-   * Configure the stock dimensions and position
+   * Configure the stock dimensions, position and rotation (radians, as
+   * `stockRotation` in the visualization settings). Probe contact follows the
+   * rotation about Z, the skew an edge angle operation measures; X and Y
+   * rotations are not modelled.
    */
-  setStock(size: [number, number, number], position: [number, number, number]): void {
+  setStock(
+    size: [number, number, number],
+    position: [number, number, number],
+    rotation: [number, number, number] = [0, 0, 0]
+  ): void {
     this.stockSize = [...size];
     this.stockPosition = [...position];
+    this.stockRotation = [...rotation];
+  }
+  
+  /**
+   * Get the rotary axis angles in degrees. Axes never moved are left out.
+   */
+  getRotaryPosition(): RotaryPosition {
+    return { ...this.rotaryPosition };
+  }
+
+  /**
+   * Get the stock rotation in radians, as given to setStock()
+   */
+  getStockRotation(): [number, number, number] {
+    return [...this.stockRotation];
   }
   
   /**
@@ -547,10 +762,54 @@ export class VirtualMill {
   }
   
   /**
-   * Get current WCS offset
+   * Get a WCS offset (the active one by default)
+   */
+  getWCSOffset(index: number = this.activeWcsIndex): Position3D {
+    return { ...(this.wcsOffsets[index] ?? { X: 0, Y: 0, Z: 0 }) };
+  }
+
+  /**
+   * Get every work offset that has been written, keyed by P index
+   */
+  getWCSOffsets(): Record<number, Position3D> {
+    return Object.fromEntries(
+      Object.entries(this.wcsOffsets).map(([index, offset]) => [index, { ...offset }])
+    );
+  }
+
+  /**
+   * Compare where a work offset put the origin with the stock face a probe
+   * tripped on. Contact points are recorded on the face itself, while the tool
+   * centre really stops one radius off it (side probes; Z probes touch with the tip).
+   */
+  measureWorkOffsetAgainstFace(
+    contactPoint: Position3D,
+    axis: 'X' | 'Y' | 'Z',
+    direction: number,
+    probeMode?: ProbeMode,
+    wcsIndex: number = this.activeWcsIndex
+  ): { faceCoordinate: number; originCoordinate: number; error: number } {
+    const faceCoordinate = contactPoint[axis];
+    const radius = axis === 'Z' ? 0 : this.toolRadius;
+    const approach = getProbeMode(probeMode).awayFromWorkpiece ? -direction : direction;
+    const toolCentre = faceCoordinate - approach * radius;
+    
+    // The G10 value is what the contact position was told to read
+    const wcsValue = faceCoordinate - this.getWCSOffset(wcsIndex)[axis];
+    const originCoordinate = toolCentre - wcsValue;
+    
+    return {
+      faceCoordinate,
+      originCoordinate,
+      error: originCoordinate - faceCoordinate
+    };
+  }
+
+  /**
+   * Get the P index of the active work offset (1 = G54)
    */
-  getWCSOffset(): Position3D {
-    return { ...this.wcsOffset };
+  getActiveWCSIndex(): number {
+    return this.activeWcsIndex;
   }
   
   /**
@@ -706,6 +965,32 @@ export class VirtualMill {
     };
   }
 
+  /**
+   * Get the stage or table bounds in the same world coordinates as
+   * getStockBoundsForCollision(). A horizontal stage carries the stock, so it is
+   * placed as the scene places it: X+ face and top where the stock sits at
+   * position zero. A vertical machine's table top is at the Z minimum.
+   */
+  getStageBoundsForCollision(): BoundingBox {
+    const [height, width, depth] = this.machineSettings.stageDimensions;
+
+    if (this.isHorizontal()) {
+      const [sizeX, , sizeZ] = this.stockSize;
+      return {
+        min: { X: -sizeX / 2 - height, Y: -width / 2, Z: -sizeZ / 2 - depth },
+        max: { X: -sizeX / 2, Y: width / 2, Z: -sizeZ / 2 }
+      };
+    }
+
+    const { X, Y, Z } = this.machineSettings.axes;
+    const halfWidth = Math.abs(X.max - X.min) * 0.6;
+    const halfDepth = Math.abs(Y.max - Y.min) * 0.6;
+    return {
+      min: { X: (X.min + X.max) / 2 - halfWidth, Y: (Y.min + Y.max) / 2 - halfDepth, Z: Z.min - 2 },
+      max: { X: (X.min + X.max) / 2 + halfWidth, Y: (Y.min + Y.max) / 2 + halfDepth, Z: Z.min }
+    };
+  }
+
   /**
    * Transform coordinates between different coordinate systems (functional wrapper)
    */
@@ -714,7 +999,7 @@ export class VirtualMill {
     from: CoordinateSystem,
     to: CoordinateSystem
   ): Position3D {
-    return CoordinateUtils.transform(position, from, to, this.wcsOffset);
+    return CoordinateUtils.transform(position, from, to, this.getWCSOffset());
   }
   
   /**
@@ -756,6 +1041,11 @@ export class VirtualMill {
       }
     }
     
+    // Stock turned about Z or by the rotary axes is no longer an axis-aligned box
+    if (this.stockRotation[2] !== 0 || ROTARY_AXES.some(axis => (this.rotaryPosition[axis] ?? 0) !== 0)) {
+      return this.predictRotatedStockContact(startPos, axis, direction, distance);
+    }
+
     // Fall back to standard box collision detection
     const stockBounds = this.getStockBoundsForCollision();
     
@@ -789,6 +1079,307 @@ export class VirtualMill {
     };
   }
 
+  /**
+   * Undo the rotations that place the stock: the rotary axes (B carries A, which
+   * carries the stock), then the stock's own Z rotation about its center.
+   * Directions are turned about the origin so they stay unit vectors.
+   */
+  private toStockFrame(point: Position3D, isDirection: boolean = false): Position3D {
+    const origin = { X: 0, Y: 0, Z: 0 };
+    return this.getStockTurns().reduce(
+      (frame, turn) => GeometryUtils.rotateAboutAxis(frame, isDirection ? origin : turn.center, turn.axis, -turn.angle),
+      point
+    );
+  }
+
+  /**
+   * Redo the rotations toStockFrame() undoes, taking a stock frame point back to the world
+   */
+  private fromStockFrame(point: Position3D): Position3D {
+    return this.getStockTurns().reduceRight(
+      (world, turn) => GeometryUtils.rotateAboutAxis(world, turn.center, turn.axis, turn.angle),
+      point
+    );
+  }
+
+  private getStockTurns(): { axis: 'X' | 'Y' | 'Z'; center: Position3D; angle: number }[] {
+    const [centerX, centerY, centerZ] = this.stockPosition;
+    const rotaryTurns = (['B', 'A'] as const).flatMap(axis => {
+      const config = this.machineSettings.rotaryAxes?.[axis];
+      const angle = this.rotaryPosition[axis] ?? 0;
+      return config && angle !== 0
+        ? [{ axis: ROTARY_PIVOT_AXIS[axis], center: config.center, angle: angle * Math.PI / 180 }]
+        : [];
+    });
+    return [
+      ...rotaryTurns,
+      { axis: 'Z' as const, center: { X: centerX, Y: centerY, Z: centerZ }, angle: this.stockRotation[2] }
+    ];
+  }
+
+  /**
+   * Box contact with the stock turned about Z or by the rotary axes. The probe ray
+   * is turned into the stock's own frame, where the stock is axis-aligned again.
+   * The contact point keeps the face-coordinate convention: the point on the face
+   * along the probe axis, so a skewed face reads differently at each touch.
+   */
+  private predictRotatedStockContact(
+    startPos: Position3D,
+    axis: 'X' | 'Y' | 'Z',
+    direction: number,
+    distance: number
+  ): { hasContact: boolean; contactPoint?: Position3D; contactDistance?: number } {
+    const stockBounds = this.getStockBoundsForCollision();
+    const worldRay = GeometryUtils.createRay(startPos, axis, direction);
+    const ray: Ray = {
+      origin: this.toStockFrame(startPos),
+      direction: this.toStockFrame(worldRay.direction, true)
+    };
+
+    const expandedBounds = GeometryUtils.expandBounds(stockBounds, this.toolRadius);
+    const intersection = RayBoxIntersection.calculateIntersection(ray, expandedBounds, distance);
+    if (!intersection.hit || intersection.distance === undefined) {
+      return { hasContact: false };
+    }
+
+    // A ray that only grazes a corner within the tool radius never crosses a face
+    const faceIntersection = RayBoxIntersection.calculateIntersection(ray, stockBounds, Infinity);
+    const faceDistance = faceIntersection.hit && faceIntersection.distance !== undefined
+      ? faceIntersection.distance
+      : intersection.distance + this.toolRadius;
+    const contactPoint = { ...startPos, [axis]: startPos[axis] + direction * faceDistance };
+
+    this.addContactPoint(contactPoint);
+
+    return {
+      hasContact: true,
+      contactPoint,
+      contactDistance: intersection.distance
+    };
+  }
+
+  /**
+   * Probe-away (G38.4/G38.5) prediction: the probe starts touching the stock and
+   * trips where it leaves the surface. Uses the same face-coordinate convention as
+   * contact prediction, against the custom model's bounds when one is loaded.
+   */
+  private predictContactLossFunctional(
+    startPos: Position3D,
+    axis: 'X' | 'Y' | 'Z',
+    direction: number,
+    distance: number
+  ): { hasContact: boolean; contactPoint?: Position3D; contactDistance?: number } {
+    const stockBounds = this.customModel
+      ? CustomModelCollision.getModelBoundingBox(this.customModel)
+      : this.getStockBoundsForCollision();
+    const expandedBounds = GeometryUtils.expandBounds(stockBounds, this.toolRadius);
+    
+    // Nothing to lose if the probe isn't touching the stock when the cycle starts
+    if (!GeometryUtils.containsPoint(expandedBounds, startPos)) {
+      return { hasContact: false };
+    }
+    
+    const releaseCoordinate = direction > 0
+      ? Math.max(startPos[axis], stockBounds.max[axis])
+      : Math.min(startPos[axis], stockBounds.min[axis]);
+    const releaseDistance = Math.abs(releaseCoordinate - startPos[axis]);
+    
+    if (releaseDistance > distance) {
+      return { hasContact: false };
+    }
+    
+    const contactPoint = { ...startPos, [axis]: releaseCoordinate };
+    this.addContactPoint(contactPoint);
+    
+    return {
+      hasContact: true,
+      contactPoint,
+      contactDistance: releaseDistance
+    };
+  }
+
+  /**
+   * Predict where a probe cycle trips: gain of contact for G38.2/G38.3,
+   * loss of contact for G38.4/G38.5
+   */
+  private predictProbeTrigger(
+    startPos: Position3D,
+    command: GCodeCommand
+  ): { hasContact: boolean; contactPoint?: Position3D; contactDistance?: number } {
+    const predict = getProbeMode(command.probeMode).awayFromWorkpiece
+      ? this.predictContactLossFunctional.bind(this)
+      : this.predictProbeContactFunctional.bind(this);
+    const axis = command.axis!;
+    const direction = command.direction!;
+    
+    const prediction = predict(startPos, axis, direction, command.distance!);
+    const lastDirection = this.travelDirection[axis];
+    this.travelDirection[axis] = direction;
+    const toolStart = this.toToolCenter(startPos);
+    if (prediction.contactPoint) {
+      const touchesFace = axis !== 'Z' && !getProbeMode(command.probeMode).awayFromWorkpiece;
+      this.probeStandoff[axis] = touchesFace ? -direction * this.toolRadius : undefined;
+    }
+    // The tip is meant to touch, so only the assembly above it can crash, up to the exact trip
+    const stop = prediction.contactPoint ?? this.calculateProbeEndPosition(startPos, command);
+    this.recordSweep(startPos, stop, toolStart, this.toToolCenter(stop), true);
+    if (!this.probeError || !prediction.contactPoint) {
+      return prediction;
+    }
+
+    // The latched position overshoots the contact; which way an axis last moved
+    // before the first probe is unknown, so either is equally likely
+    const { model, random } = this.probeError;
+    const reverses = (lastDirection ?? (random() < 0.5 ? 1 : -1)) !== direction;
+    const overtravel = sampleTripOvertravel(model, command.feedRate ?? 0, reverses, random);
+    return {
+      ...prediction,
+      contactPoint: { ...prediction.contactPoint, [axis]: prediction.contactPoint[axis] + direction * overtravel }
+    };
+  }
+
+  /**
+   * Make probe trips read like a real probe's, with errors drawn from `random`.
+   * Pass null to go back to exact contacts.
+   */
+  setProbeErrorModel(model: ProbeErrorModel | null, random: () => number = Math.random): void {
+    this.probeError = model ? { model, random } : null;
+  }
+
+  /**
+   * The tool from the tip up: its assembly's cutter, shank and holder, or one
+   * tip-sized cylinder without an assembly, then the spindle nose when the
+   * machine has one set
+   */
+  private getToolSegments(): ToolSegment[] {
+    const assembly = this.toolAssembly;
+    const sections: [ToolPart, { length: number; diameter: number; topDiameter?: number }][] = assembly
+      ? [['cutter', assembly.cutter], ['shank', assembly.shank], ['holder', assembly.holder]]
+      : [['tool', { length: this.toolLength, diameter: this.toolRadius * 2 }]];
+    if (this.spindleNose) {
+      sections.push(['spindleNose', this.spindleNose]);
+    }
+
+    let base = 0;
+    return sections.map(([part, { length, diameter, topDiameter }]) => {
+      const segment = { part, radius: diameter / 2, topRadius: (topDiameter ?? diameter) / 2, base, length };
+      base += length;
+      return segment;
+    });
+  }
+
+  /**
+   * Sweep the tool assembly (and spindle nose) from `start` to `end` and return the first
+   * thing it hits: the custom model in place of the stock when one is loaded,
+   * and the stage. The tool stands on its tip along +Z, as it is drawn.
+   * Surfaces the tool starts on only count when the move goes further in.
+   */
+  checkMoveCollision(start: Position3D, end: Position3D): MoveCollision | null {
+    const hit = this.sweepTool(start, end);
+    return hit && {
+      obstacle: hit.obstacle,
+      part: hit.part,
+      startPosition: { ...start },
+      endPosition: { ...end },
+      toolPosition: GeometryUtils.interpolate(start, end, hit.fraction),
+      contactPoint: hit.contactPoint
+    };
+  }
+
+  private sweepTool(
+    start: Position3D,
+    end: Position3D,
+    aboveTip = false
+  ): (SweptContact & { obstacle: MoveCollision['obstacle'] }) | null {
+    const segments = this.getToolSegments().filter(segment =>
+      !aboveTip || (segment.part !== 'tool' && segment.part !== 'cutter'));
+    if (segments.length === 0) return null;
+    const spindleAxis = { X: 0, Y: 0, Z: 1 };
+    const hits: (SweptContact & { obstacle: MoveCollision['obstacle'] })[] = [];
+
+    if (this.customModel) {
+      const samples = getToolSamples(segments, spindleAxis, false, 8);
+      const hit = CustomModelCollision.checkSweptCollision(
+        samples.map(sample => ({ X: start.X + sample.offset.X, Y: start.Y + sample.offset.Y, Z: start.Z + sample.offset.Z })),
+        { X: end.X - start.X, Y: end.Y - start.Y, Z: end.Z - start.Z },
+        this.customModel
+      );
+      if (hit) {
+        hits.push({ obstacle: 'model', fraction: hit.fraction, part: samples[hit.index].part, contactPoint: hit.contactPoint });
+      }
+    } else {
+      // Rotated stock is swept in its own frame, where it is a box again
+      const stockAxis = this.toStockFrame(spindleAxis, true);
+      const hit = sweepToolThroughBox(
+        this.toStockFrame(start),
+        this.toStockFrame(end),
+        this.getStockBoundsForCollision(),
+        getToolSamples(segments, stockAxis),
+        stockAxis
+      );
+      if (hit) {
+        hits.push({ ...hit, obstacle: 'stock', contactPoint: this.fromStockFrame(hit.contactPoint) });
+      }
+    }
+
+    const stageHit = sweepToolThroughBox(start, end, this.getStageBoundsForCollision(), getToolSamples(segments, spindleAxis), spindleAxis);
+    if (stageHit) {
+      hits.push({ ...stageHit, obstacle: 'stage' });
+    }
+
+    return hits.length === 0 ? null : hits.reduce((first, hit) => hit.fraction < first.fraction ? hit : first);
+  }
+
+  /**
+   * Check a move the mill just made, from where the tool center really was to
+   * where it really ends up. Absolute moves end the standoff a side probe left
+   * on an axis, or take up the one the work offset was set with.
+   */
+  private recordCrash(start: Position3D, end: Position3D, command: GCodeCommand): void {
+    const toolStart = this.toToolCenter(start);
+
+    if (this.positionMode === 'absolute') {
+      (['X', 'Y', 'Z'] as const).forEach(axis => {
+        if (command[axis] === undefined) return;
+        this.probeStandoff[axis] = this.coordinateSystem === 'wcs'
+          ? this.wcsStandoff[this.activeWcsIndex]?.[axis]
+          : undefined;
+      });
+    }
+
+    this.recordSweep(start, end, toolStart, this.toToolCenter(end));
+  }
+
+  private toToolCenter(position: Position3D): Position3D {
+    return {
+      X: position.X + (this.probeStandoff.X ?? 0),
+      Y: position.Y + (this.probeStandoff.Y ?? 0),
+      Z: position.Z + (this.probeStandoff.Z ?? 0)
+    };
+  }
+
+  // Sweep the tool center between the physical positions, reporting the crash in mill positions
+  private recordSweep(start: Position3D, end: Position3D, toolStart: Position3D, toolEnd: Position3D, aboveTip = false): void {
+    const hit = this.sweepTool(toolStart, toolEnd, aboveTip);
+    if (hit) {
+      this.crashes.push({
+        obstacle: hit.obstacle,
+        part: hit.part,
+        startPosition: { ...start },
+        endPosition: { ...end },
+        toolPosition: GeometryUtils.interpolate(start, end, hit.fraction),
+        contactPoint: hit.contactPoint
+      });
+    }
+  }
+
+  /**
+   * Get the moves that crashed since the last reset, in order
+   */
+  getCrashes(): MoveCollision[] {
+    return [...this.crashes];
+  }
+
   /**
    * Legacy predict probe contact (uses functional implementation)
    */
@@ -820,24 +1411,21 @@ export class VirtualMill {
    * Command handlers for declarative execution
    */
   private async handleModeCommand(command: GCodeCommand): Promise<MovementResult> {
-    if (command.positionMode) {
-      this.positionMode = command.positionMode;
-    }
-    if (command.coordinateSystem) {
-      this.coordinateSystem = command.coordinateSystem;
-    }
+    this.applyModalWords(command);
     
     return this.createSuccessResult(this.currentPosition, 0, 0, 0);
   }
 
   private async handleMovementCommand(command: GCodeCommand): Promise<MovementResult> {
+    this.applyModalWords(command);
+    this.applyRotaryWords(command);
     const startPosition = { ...this.currentPosition };
     const targetPosition = CoordinateUtils.calculateTarget(
       this.currentPosition,
       command,
       this.positionMode,
       this.coordinateSystem,
-      this.wcsOffset
+      this.getWCSOffset()
     );
     
     // Validate position using functional approach
@@ -858,10 +1446,16 @@ export class VirtualMill {
       targetPosition.Z = clampedPosition.Z;
     }
     
+    this.recordTravel(startPosition, targetPosition);
+    this.recordCrash(startPosition, targetPosition, command);
+
     // Calculate movement parameters using pure functions
     const distance = GeometryUtils.distance(startPosition, targetPosition);
-    const feedrate = command.type === 'rapid' ? 6000 : 1000;
-    const duration = (distance / feedrate) * 60;
+    const duration = estimateMoveDuration(
+      { type: command.type, startPosition, endPosition: targetPosition, feedRate: command.feedRate },
+      this.getMotionLimits()
+    ) / 1000;
+    const feedrate = duration > 0 ? (distance / duration) * 60 : 0; // Average over the move
     
     // Create movement state declaratively
     const movement: MovementState = {
@@ -886,12 +1480,7 @@ export class VirtualMill {
     const startPosition = { ...this.currentPosition };
     
     // Use functional collision prediction
-    const contactPrediction = this.predictProbeContactFunctional(
-      startPosition,
-      command.axis!,
-      command.direction!,
-      command.distance!
-    );
+    const contactPrediction = this.predictProbeTrigger(startPosition, command);
     
     const { endPosition, contactExpected, contactPoint } = contactPrediction.hasContact
       ? {
@@ -908,7 +1497,7 @@ export class VirtualMill {
     // Calculate movement parameters
     const distance = GeometryUtils.distance(startPosition, endPosition);
     const feedrate = command.feedRate || 100;
-    const duration = (distance / feedrate) * 60;
+    const duration = estimateMoveDuration({ type: 'probe', startPosition, endPosition, feedRate: feedrate }, this.getMotionLimits()) / 1000;
     
     // Create movement state
     const movement: MovementState = {
@@ -927,13 +1516,16 @@ export class VirtualMill {
     };
     
     this.currentMovement = movement;
-    return this.animateMovement(movement);
+    const result = await this.animateMovement(movement);
+    
+    // G38.2/G38.4 alarm when the probe reaches the end of travel without tripping
+    return !contactExpected && getProbeMode(command.probeMode).alarmOnMiss
+      ? { ...result, success: false }
+      : result;
   }
 
   private async handleWCSCommand(command: GCodeCommand): Promise<MovementResult> {
-    if (command.wcsAxis && command.wcsValue !== undefined) {
-      this.wcsOffset[command.wcsAxis] = this.currentPosition[command.wcsAxis] - command.wcsValue;
-    }
+    this.applyWorkOffset(command);
     
     return this.createSuccessResult(this.currentPosition, 0, 0, 0);
   }
@@ -1040,9 +1632,15 @@ export class VirtualMill {
    */
   reset(initialPosition: Position3D = { X: 0, Y: 0, Z: 0 }): void {
     this.currentPosition = { ...initialPosition };
-    this.wcsOffset = { X: 0, Y: 0, Z: 0 };
+    this.wcsOffsets = {};
+    this.activeWcsIndex = DEFAULT_WCS_INDEX;
     this.positionMode = 'absolute';
     this.coordinateSystem = 'machine';
+    this.rotaryPosition = {};
+    this.travelDirection = {};
+    this.crashes = [];
+    this.probeStandoff = {};
+    this.wcsStandoff = {};
   }
   
   /**
@@ -1053,6 +1651,7 @@ export class VirtualMill {
     physicalProbePosition: Position3D;
     stagePosition: Position3D;
     wcsOffset: Position3D;
+    activeWcsIndex: number;
     positionMode: PositionMode;
     coordinateSystem: CoordinateSystem;
     stockBounds: BoundingBox;
@@ -1064,6 +1663,7 @@ export class VirtualMill {
       physicalProbePosition: this.getPhysicalProbePosition(),
       stagePosition: this.getStagePosition(),
       wcsOffset: this.getWCSOffset(),
+      activeWcsIndex: this.getActiveWCSIndex(),
       positionMode: this.getPositionMode(),
       coordinateSystem: this.getCoordinateSystem(),
       stockBounds: this.getStockBounds(),
@@ -1156,6 +1756,25 @@ export class VirtualMill {
     return { collision: false };
   }
   
+  /**
+   * Execute a parsed G-code block instantly
+   */
+  executeBlockSync(block: GCodeBlock): void {
+    getBlockCommands(block, this.currentPosition, this.getWCSOffset(block.modal.wcsIndex))
+      .forEach(command => this.executeGCodeSync(command));
+  }
+
+  /**
+   * Execute a parsed G-code block with real-time simulation, one command at a time
+   */
+  async executeBlock(block: GCodeBlock): Promise<MovementResult[]> {
+    const results: MovementResult[] = [];
+    for (const command of getBlockCommands(block, this.currentPosition, this.getWCSOffset(block.modal.wcsIndex))) {
+      results.push(await this.executeGCode(command));
+    }
+    return results;
+  }
+
   /**
    * Get current movement state for real-time animation
    */
@@ -1213,4 +1832,41 @@ export class VirtualMill {
   getToolRadius(): number {
     return this.toolRadius;
   }
+
+  /**
+   * Set the tool's gauge length (spindle nose to tip) for crash checks
+   */
+  setToolLength(length: number): void {
+    this.toolLength = length;
+  }
+
+  getToolLength(): number {
+    return this.toolLength;
+  }
+
+  /**
+   * Check the tool's cutter, shank and holder for crashes, in machine units,
+   * or go back to a plain cylinder of the tip diameter and gauge length with null
+   */
+  setToolAssembly(assembly: ToolAssembly | null): void {
+    this.toolAssembly = assembly;
+  }
+
+  /**
+   * Rates and accelerations the machine's motion planner works within
+   */
+  getMotionLimits(): MotionLimits {
+    return this.motionLimits;
+  }
+
+  setMotionLimits(limits: MotionLimits): void {
+    this.motionLimits = limits;
+  }
+
+  /**
+   * Check the spindle nose for crashes too, or stop checking it with null
+   */
+  setSpindleNose(nose: SpindleNose | null): void {
+    this.spindleNose = nose;
+  }
 }
@@ -26,6 +26,32 @@ describe('CustomModelCollision', () => {
     cubeGeometry.dispose();
   });
 
+  describe('checkSweptCollision', () => {
+    it('should find where moving points first reach the model', () => {
+      const result = CustomModelCollision.checkSweptCollision(
+        [{ X: -5, Y: 3, Z: 0 }, { X: -5, Y: 0, Z: 0 }],
+        { X: 10, Y: 0, Z: 0 },
+        customModelInfo
+      );
+
+      expect(result).toMatchObject({ index: 1 });
+      expect(result!.fraction).toBeCloseTo(0.4);
+      expect(result!.contactPoint.X).toBeCloseTo(-1);
+    });
+
+    it('should ignore points that start inside the model', () => {
+      const result = CustomModelCollision.checkSweptCollision([{ X: 0, Y: 0, Z: 0 }], { X: 10, Y: 0, Z: 0 }, customModelInfo);
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null when the points pass the model', () => {
+      const result = CustomModelCollision.checkSweptCollision([{ X: -5, Y: 5, Z: 0 }], { X: 10, Y: 0, Z: 0 }, customModelInfo);
+
+      expect(result).toBeNull();
+    });
+  });
+
   describe('checkProbeCollision', () => {
     it('should detect collision when probe ray intersects model', () => {
       const startPos = { X: -5, Y: 0, Z: 0 };
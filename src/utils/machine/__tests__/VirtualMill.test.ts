@@ -1,7 +1,9 @@
 // src/utils/machine/__tests__/VirtualMill.test.ts
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { VirtualMill } from '../VirtualMill';
+import * as THREE from 'three';
+import { VirtualMill, getBlockCommands } from '../VirtualMill';
+import { parseGCodeBlocks } from '@/utils/gcodeBlocks';
 import { createMockMachineSettings, createMockMachineSettingsVertical } from '@/test/mockMachineSettings';
 import type { MachineSettings } from '@/types/machine';
 
@@ -157,6 +159,28 @@ describe('VirtualMill', () => {
       expect(virtualMill.transformCoordinates(pos, 'machine', 'machine')).toEqual(pos);
       expect(virtualMill.transformCoordinates(pos, 'wcs', 'wcs')).toEqual(pos);
     });
+
+    it('should keep a separate offset per work coordinate system', () => {
+      virtualMill.executeGCodeSync({ type: 'wcs', wcsAxis: 'X', wcsValue: 0, wcsIndex: 2 });
+
+      // G54 is untouched, G55 only has the probed axis set
+      expect(virtualMill.getWCSOffset(1)).toEqual({ X: 40, Y: 40, Z: 30 });
+      expect(virtualMill.getWCSOffset(2)).toEqual({ X: 50, Y: 0, Z: 0 });
+      expect(Object.keys(virtualMill.getWCSOffsets())).toEqual(['1', '2']);
+    });
+
+    it('should resolve WCS moves against the selected work offset', () => {
+      virtualMill.executeGCodeSync({ type: 'wcs', wcsAxis: 'X', wcsValue: 0, wcsIndex: 2 });
+      virtualMill.executeGCodeSync({ type: 'mode', coordinateSystem: 'wcs', wcsIndex: 2 });
+      virtualMill.executeGCodeSync({ type: 'rapid', X: 5 });
+
+      expect(virtualMill.getActiveWCSIndex()).toBe(2);
+      expect(virtualMill.getCurrentPosition().X).toBeCloseTo(55);
+
+      virtualMill.reset();
+      expect(virtualMill.getActiveWCSIndex()).toBe(1);
+      expect(virtualMill.getWCSOffsets()).toEqual({});
+    });
   });
   
   describe('axis limits validation', () => {
@@ -253,6 +277,16 @@ describe('VirtualMill', () => {
       
       expect(virtualMill.getCurrentPosition()).toEqual({ X: 15, Y: 10, Z: 45 });
     });
+
+    it('should apply modal words carried by a movement block', () => {
+      virtualMill.executeGCodeSync({ type: 'rapid', X: 10, Y: 20, Z: 30 });
+
+      // G0 G91 X5 moves relative and leaves G91 active
+      virtualMill.executeGCodeSync({ type: 'rapid', X: 5, positionMode: 'relative' });
+
+      expect(virtualMill.getCurrentPosition().X).toBe(15);
+      expect(virtualMill.getPositionMode()).toBe('relative');
+    });
     
     it('should execute movement in WCS coordinates', () => {
       // Move to position and set WCS offset
@@ -367,6 +401,54 @@ describe('VirtualMill', () => {
     });
   });
   
+  describe('G-code block execution', () => {
+    it('should execute parsed blocks with their modal state', () => {
+      parseGCodeBlocks('G21\nG90 G0 X30 Y40 Z45\nG10 L20 P2 X5 Z0\nG55\nG91\nX-5')
+        .forEach(block => virtualMill.executeBlockSync(block));
+
+      expect(virtualMill.getWCSOffset(2)).toEqual({ X: 25, Y: 0, Z: 45 });
+      expect(virtualMill.getActiveWCSIndex()).toBe(2);
+      expect(virtualMill.getPositionMode()).toBe('relative');
+      expect(virtualMill.getCurrentPosition()).toEqual({ X: 25, Y: 40, Z: 45 });
+    });
+
+    it('should resolve absolute probe targets against the work offset', () => {
+      const blocks = parseGCodeBlocks('G0 G90 X30 Y40 Z45\nG10 L20 P1 X10\nG38.3 X0 F50');
+      blocks.slice(0, 2).forEach(block => virtualMill.executeBlockSync(block));
+
+      expect(getBlockCommands(blocks[2], virtualMill.getCurrentPosition(), virtualMill.getWCSOffset())).toContainEqual(
+        expect.objectContaining({ type: 'probe', axis: 'X', direction: -1, distance: 10, feedRate: 50, probeMode: 'G38.3' })
+      );
+    });
+  });
+
+  describe('work offset face check', () => {
+    beforeEach(() => {
+      virtualMill.setStock([20, 20, 10], [0, 0, 0]);
+      virtualMill.setToolRadius(1.5);
+      virtualMill.executeGCodeSync({ type: 'rapid', X: -20, Y: 0, Z: 0 });
+      virtualMill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 15, feedRate: 100 });
+    });
+
+    it('should land on the face when the WCS value is the tool radius', () => {
+      virtualMill.executeGCodeSync({ type: 'wcs', wcsAxis: 'X', wcsValue: -1.5 });
+
+      const check = virtualMill.measureWorkOffsetAgainstFace(virtualMill.getContactPoints()[0], 'X', 1);
+
+      expect(check.faceCoordinate).toBeCloseTo(-10);
+      expect(check.originCoordinate).toBeCloseTo(-10);
+      expect(check.error).toBeCloseTo(0);
+    });
+
+    it('should report how far an uncompensated origin is from the face', () => {
+      virtualMill.executeGCodeSync({ type: 'wcs', wcsAxis: 'X', wcsValue: 0 });
+
+      const check = virtualMill.measureWorkOffsetAgainstFace(virtualMill.getContactPoints()[0], 'X', 1);
+
+      expect(check.error).toBeCloseTo(-1.5);
+    });
+  });
+
   describe('collision detection', () => {
     beforeEach(() => {
       // Set up stock: 20x20x10 centered at origin
@@ -443,6 +525,84 @@ describe('VirtualMill', () => {
     });
   });
   
+  describe('rotated stock', () => {
+    const angle = Math.PI / 18; // 10 degrees counterclockwise
+
+    beforeEach(() => {
+      virtualMill.setStock([20, 20, 10], [0, 0, 0], [0, 0, angle]);
+      virtualMill.setToolRadius(1);
+    });
+
+    it('should keep the rotation it was given', () => {
+      expect(virtualMill.getStockRotation()).toEqual([0, 0, angle]);
+    });
+
+    it('should find the skewed face along the probe axis', () => {
+      const first = virtualMill.predictProbeContact({ X: -20, Y: 0, Z: 0 }, 'X', 1, 20);
+      const second = virtualMill.predictProbeContact({ X: -20, Y: 5, Z: 0 }, 'X', 1, 20);
+
+      expect(first.hasContact).toBe(true);
+      expect(first.contactPoint!.X).toBeCloseTo(-10 / Math.cos(angle));
+      expect(first.contactPoint!.Y).toBe(0);
+      // The face leans back toward -X as Y increases
+      expect(second.contactPoint!.X - first.contactPoint!.X).toBeCloseTo(-5 * Math.tan(angle));
+    });
+
+    it('should reach past the square outline at a turned corner', () => {
+      // The +X/+Y corner turns to about (8.1, 11.6), beyond square stock's Y=10
+      expect(virtualMill.predictProbeContact({ X: -20, Y: 11.5, Z: 0 }, 'X', 1, 40).hasContact).toBe(true);
+      expect(virtualMill.predictProbeContact({ X: -20, Y: 13, Z: 0 }, 'X', 1, 40).hasContact).toBe(false);
+    });
+
+    it('should ignore the rotation for a vertical probe onto the top face', () => {
+      const result = virtualMill.predictProbeContact({ X: 0, Y: 0, Z: 10 }, 'Z', -1, 20);
+
+      expect(result.contactPoint).toEqual({ X: 0, Y: 0, Z: 5 });
+    });
+  });
+
+  describe('rotary axes', () => {
+    beforeEach(() => {
+      virtualMill = new VirtualMill({
+        ...horizontalMachineSettings,
+        rotaryAxes: { A: { min: -90, max: 90, center: { X: 0, Y: 0, Z: 0 } } }
+      });
+      virtualMill.setStock([20, 20, 10], [0, 0, 0]);
+      virtualMill.setToolRadius(1);
+    });
+
+    it('should index absolute and incremental angles without moving the tool', () => {
+      virtualMill.executeGCodeSync({ type: 'rapid', A: 30 });
+      virtualMill.executeGCodeSync({ type: 'rapid', A: 15, positionMode: 'relative' });
+
+      expect(virtualMill.getRotaryPosition()).toEqual({ A: 45 });
+      expect(virtualMill.getCurrentPosition()).toEqual({ X: 0, Y: 0, Z: 0 });
+    });
+
+    it('should clamp to the rotary limits and ignore axes the machine lacks', () => {
+      virtualMill.executeGCodeSync({ type: 'rapid', A: 120, B: 10 });
+
+      expect(virtualMill.getRotaryPosition()).toEqual({ A: 90 });
+    });
+
+    it('should probe the stock as tipped by the rotary axis', () => {
+      virtualMill.executeGCodeSync({ type: 'rapid', A: 90 });
+
+      // Turned a quarter about X, the 20 x 10 Y-Z section stands 10 wide and 20 tall
+      expect(virtualMill.predictProbeContact({ X: 0, Y: -20, Z: 0 }, 'Y', 1, 20).contactPoint!.Y).toBeCloseTo(-5);
+      expect(virtualMill.predictProbeContact({ X: 0, Y: 0, Z: 20 }, 'Z', -1, 20).contactPoint!.Z).toBeCloseTo(10);
+    });
+
+    it('should read A and B words from parsed blocks and clear them on reset', () => {
+      const [block] = parseGCodeBlocks('G0 G90 G53 A-45');
+      virtualMill.executeBlockSync(block);
+
+      expect(virtualMill.getRotaryPosition()).toEqual({ A: -45 });
+      virtualMill.reset();
+      expect(virtualMill.getRotaryPosition()).toEqual({});
+    });
+  });
+
   describe('probe execution', () => {
     beforeEach(() => {
       virtualMill.setStock([20, 20, 10], [0, 0, 0]);
@@ -479,6 +639,31 @@ describe('VirtualMill', () => {
       expect(virtualMill.getCurrentPosition().Y).toBeCloseTo(5);
     });
     
+    it('should trip probe-away cycles where contact is lost', () => {
+      virtualMill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 15, feedRate: 100 });
+      virtualMill.clearContactPoints();
+
+      // Backing off a touched face releases the probe immediately
+      virtualMill.executeGCodeSync({ type: 'probe', axis: 'X', direction: -1, distance: 5, feedRate: 100, probeMode: 'G38.4' });
+
+      expect(virtualMill.getCurrentPosition().X).toBeCloseTo(-10);
+      expect(virtualMill.getContactPoints()).toHaveLength(1);
+    });
+
+    it('should release at the far face when probing away from inside the stock', () => {
+      virtualMill.executeGCodeSync({ type: 'rapid', X: -5 });
+      virtualMill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 20, feedRate: 100, probeMode: 'G38.5' });
+
+      expect(virtualMill.getCurrentPosition().X).toBeCloseTo(10);
+    });
+
+    it('should not trip probe-away cycles that start out of contact', () => {
+      virtualMill.executeGCodeSync({ type: 'probe', axis: 'X', direction: -1, distance: 5, feedRate: 100, probeMode: 'G38.4' });
+
+      expect(virtualMill.getCurrentPosition().X).toBeCloseTo(-25);
+      expect(virtualMill.getContactPoints()).toHaveLength(0);
+    });
+
     it('should throw error for invalid probe commands', () => {
       expect(() => {
         virtualMill.executeGCodeSync({
@@ -489,6 +674,141 @@ describe('VirtualMill', () => {
     });
   });
   
+  describe('move crash detection', () => {
+    let mill: VirtualMill;
+
+    beforeEach(() => {
+      // Stock bounds: X: [-10, 10], Y: [-10, 10], Z: [-5, 5]; tool radius 3, 30 long
+      mill = new VirtualMill(verticalMachineSettings, { X: 0, Y: 0, Z: 20 });
+      mill.setStock([20, 20, 10], [0, 0, 0]);
+    });
+
+    it('should report a rapid plunging through the stock where the tip meets the top face', () => {
+      mill.executeGCodeSync({ type: 'rapid', Z: 0 });
+
+      const [crash] = mill.getCrashes();
+      expect(mill.getCrashes()).toHaveLength(1);
+      expect(crash).toMatchObject({ obstacle: 'stock', part: 'tool', endPosition: { X: 0, Y: 0, Z: 0 } });
+      expect(crash.toolPosition.Z).toBeCloseTo(5, 2);
+      expect(crash.contactPoint.Z).toBeCloseTo(5, 2);
+    });
+
+    it('should report a sideways move where the tool rim reaches the face', () => {
+      mill.executeGCodeSync({ type: 'rapid', X: -20, Z: 0 });
+      mill.clearContactPoints();
+      const before = mill.getCrashes().length;
+      mill.executeGCodeSync({ type: 'linear', X: 20 });
+
+      const crash = mill.getCrashes()[before];
+      expect(crash.toolPosition.X).toBeCloseTo(-13, 2);
+      expect(crash.contactPoint.X).toBeCloseTo(-10, 2);
+    });
+
+    it('should not report moves that clear the stock', () => {
+      mill.executeGCodeSync({ type: 'rapid', X: -30, Z: 10 });
+      mill.executeGCodeSync({ type: 'rapid', X: 30 });
+
+      expect(mill.getCrashes()).toEqual([]);
+    });
+
+    it('should let the tool leave a face it probed, but not push further in', () => {
+      mill.executeGCodeSync({ type: 'rapid', X: -20 });
+      mill.executeGCodeSync({ type: 'rapid', Z: 0 });
+      mill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 20, feedRate: 100 });
+      mill.executeGCodeSync({ type: 'rapid', Z: 20 });
+      expect(mill.getCrashes()).toEqual([]);
+
+      mill.executeGCodeSync({ type: 'rapid', Z: 0 });
+      mill.executeGCodeSync({ type: 'rapid', X: 0 });
+      expect(mill.getCrashes()).toHaveLength(1);
+    });
+
+    it('should check the spindle nose when the machine has one', () => {
+      mill.setToolLength(5);
+      mill.setSpindleNose({ diameter: 40, length: 20 });
+      mill.executeGCodeSync({ type: 'rapid', X: -14 });
+      mill.executeGCodeSync({ type: 'rapid', Z: -3 });
+
+      const [crash] = mill.getCrashes();
+      expect(crash).toMatchObject({ obstacle: 'stock', part: 'spindleNose' });
+      expect(crash.toolPosition.Z).toBeCloseTo(0, 2);
+    });
+
+    it('should catch the shank on a deep side probe before the tip touches', () => {
+      mill.executeGCodeSync({ type: 'rapid', X: -30 });
+      mill.executeGCodeSync({ type: 'rapid', Z: -3 });
+      mill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 30, feedRate: 100 });
+      expect(mill.getCrashes()).toEqual([]); // A plain tool only touches with its tip
+
+      mill.reset({ X: -30, Y: 0, Z: -3 });
+      mill.setToolAssembly({
+        cutter: { length: 6, diameter: 6 },
+        shank: { length: 10, diameter: 20 },
+        holder: { length: 12, diameter: 32 }
+      });
+      mill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 30, feedRate: 100 });
+
+      const [crash] = mill.getCrashes();
+      expect(mill.getCrashes()).toHaveLength(1);
+      expect(crash).toMatchObject({ obstacle: 'stock', part: 'shank' });
+      expect(crash.contactPoint.X).toBeCloseTo(-10, 2);
+    });
+
+    it('should sweep the assembly against a custom model', () => {
+      const geometry = new THREE.BoxGeometry(20, 20, 10);
+      geometry.computeBoundingBox();
+      mill.setCustomModel({ geometry, position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], boundingBox: geometry.boundingBox! });
+      mill.setToolAssembly({
+        cutter: { length: 6, diameter: 6 },
+        shank: { length: 10, diameter: 20 },
+        holder: { length: 12, diameter: 32 }
+      });
+      mill.executeGCodeSync({ type: 'rapid', X: -30 });
+      mill.executeGCodeSync({ type: 'rapid', Z: -3 });
+      mill.executeGCodeSync({ type: 'probe', axis: 'X', direction: 1, distance: 30, feedRate: 100 });
+
+      const [crash] = mill.getCrashes();
+      expect(crash).toMatchObject({ obstacle: 'model', part: 'shank' });
+      expect(crash.contactPoint.X).toBeCloseTo(-10, 2);
+      geometry.dispose();
+    });
+
+    it('should sweep a cone as wide as it gets where it meets the stock', () => {
+      // The holder is 10 across at its base, Z 3, and widens to 40 at its top
+      mill.setToolAssembly({
+        cutter: { length: 20, diameter: 6 },
+        shank: { length: 5, diameter: 6 },
+        holder: { length: 10, diameter: 10, topDiameter: 40 }
+      });
+      mill.executeGCodeSync({ type: 'rapid', X: -40 });
+      mill.executeGCodeSync({ type: 'rapid', Z: -22 });
+      mill.executeGCodeSync({ type: 'rapid', X: 0 });
+
+      const [crash] = mill.getCrashes();
+      expect(crash).toMatchObject({ obstacle: 'stock', part: 'holder' });
+      // 16 across at the top face, so it reaches the stock 3 mm before a plain 10 would
+      expect(crash.toolPosition.X).toBeGreaterThan(-19);
+      expect(crash.toolPosition.X).toBeLessThan(-17.9);
+    });
+
+    it('should report the stage under a horizontal machine\'s stock', () => {
+      const horizontal = new VirtualMill(horizontalMachineSettings, { X: -15, Y: 0, Z: 20 });
+      horizontal.setStock([20, 20, 10], [0, 0, 0]);
+      horizontal.executeGCodeSync({ type: 'rapid', Z: -20 });
+
+      const [crash] = horizontal.getCrashes();
+      expect(crash).toMatchObject({ obstacle: 'stage', part: 'tool' });
+      expect(crash.toolPosition.Z).toBeCloseTo(-5, 2);
+    });
+
+    it('should clear crashes on reset', () => {
+      mill.executeGCodeSync({ type: 'rapid', Z: 0 });
+      mill.reset({ X: 0, Y: 0, Z: 20 });
+
+      expect(mill.getCrashes()).toEqual([]);
+    });
+  });
+
   describe('reset functionality', () => {
     it('should reset all state to defaults', () => {
       // Change state to valid positions within machine limits
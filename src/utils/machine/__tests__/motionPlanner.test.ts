@@ -0,0 +1,104 @@
+// src/utils/machine/__tests__/motionPlanner.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MOTION_LIMITS,
+  estimateBlockDurations,
+  estimateMoveDuration,
+  getMotionLimits,
+  getTrapezoidTime,
+  type MotionBlock
+} from '../motionPlanner';
+import type { MotionLimits } from '@/types/machine';
+
+const limits: MotionLimits = {
+  axes: {
+    X: { maxRate: 6000, acceleration: 100 },
+    Y: { maxRate: 6000, acceleration: 100 },
+    Z: { maxRate: 600, acceleration: 50 }
+  },
+  junctionDeviation: 0.01
+};
+
+const at = (X: number, Y: number, Z: number) => ({ X, Y, Z });
+const move = (type: string, start: [number, number, number], end: [number, number, number], extra: Partial<MotionBlock> = {}): MotionBlock =>
+  ({ type, startPosition: at(...start), endPosition: at(...end), ...extra });
+
+describe('motionPlanner', () => {
+  describe('getTrapezoidTime', () => {
+    it('should accelerate, cruise and decelerate on long moves', () => {
+      // 1 s up to 100 mm/s over 50 mm, 100 mm cruise, 1 s down over 50 mm
+      expect(getTrapezoidTime(200, 100, 100, 0, 0)).toBeCloseTo(3);
+    });
+
+    it('should peak below the cruise speed on short moves', () => {
+      // Half the distance up and half down: 2 × √(2 × 12.5 / 100)
+      expect(getTrapezoidTime(25, 100, 100, 0, 0)).toBeCloseTo(1);
+    });
+
+    it('should fall back to constant speed without an acceleration', () => {
+      expect(getTrapezoidTime(100, 50, 0, 0, 0)).toBeCloseTo(2);
+    });
+  });
+
+  describe('estimateBlockDurations', () => {
+    it('should cap rapids by the slowest moving axis', () => {
+      // Z alone: 10 mm/s, 50 mm/s²: 0.2 s up over 1 mm, 8 mm cruise, 0.2 s down
+      expect(estimateMoveDuration(move('rapid', [0, 0, 0], [0, 0, 10]), limits)).toBeCloseTo(1200);
+    });
+
+    it('should use the feed rate for linear moves, and a default without one', () => {
+      const fed = estimateMoveDuration(move('linear', [0, 0, 0], [200, 0, 0], { feedRate: 6000 }), limits);
+      const unfed = estimateMoveDuration(move('linear', [0, 0, 0], [200, 0, 0]), limits);
+      expect(fed).toBeCloseTo(3000);
+      expect(unfed).toBeGreaterThan(fed);
+    });
+
+    it('should carry speed straight through collinear moves', () => {
+      const [first, second] = estimateBlockDurations([
+        move('rapid', [0, 0, 0], [100, 0, 0]),
+        move('rapid', [100, 0, 0], [200, 0, 0])
+      ], limits);
+      expect(first + second).toBeCloseTo(3000);
+    });
+
+    it('should take longer through a sharp corner than straight on, and less than stopping', () => {
+      const corner = estimateBlockDurations([
+        move('rapid', [0, 0, 0], [100, 0, 0]),
+        move('rapid', [100, 0, 0], [100, 100, 0])
+      ], limits);
+      const stopped = estimateMoveDuration(move('rapid', [0, 0, 0], [100, 0, 0]), limits) * 2;
+      const total = corner[0] + corner[1];
+      expect(total).toBeGreaterThan(3000);
+      expect(total).toBeLessThan(stopped);
+    });
+
+    it('should run probes from rest to rest and stop blending before them', () => {
+      const durations = estimateBlockDurations([
+        move('rapid', [0, 0, 0], [100, 0, 0]),
+        move('probe', [100, 0, 0], [110, 0, 0], { feedRate: 60 }),
+        move('rapid', [110, 0, 0], [210, 0, 0])
+      ], limits);
+      // 1 mm/s probe: 0.01 s up and down, the rest at speed
+      expect(durations[1]).toBeCloseTo(10010);
+      expect(durations[0]).toBeCloseTo(durations[2]);
+      expect(durations[0]).toBeCloseTo(estimateMoveDuration(move('rapid', [0, 0, 0], [100, 0, 0]), limits));
+    });
+
+    it('should wait out dwells and give other blocks no time', () => {
+      const durations = estimateBlockDurations([
+        move('dwell', [0, 0, 0], [0, 0, 0], { dwellTime: 0.5 }),
+        move('wcs', [0, 0, 0], [0, 0, 0]),
+        move('rapid', [0, 0, 0], [0, 0, 0])
+      ], limits);
+      expect(durations).toEqual([500, 0, 0]);
+    });
+  });
+
+  describe('getMotionLimits', () => {
+    it('should default to the limits for the units', () => {
+      expect(getMotionLimits({ units: 'inch' })).toBe(DEFAULT_MOTION_LIMITS.inch);
+      expect(getMotionLimits({ units: 'mm', motionLimits: limits })).toBe(limits);
+    });
+  });
+});
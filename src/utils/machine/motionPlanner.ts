@@ -0,0 +1,153 @@
+// src/utils/machine/motionPlanner.ts
+// Cycle time estimates from a trapezoidal motion planner: per-axis rates and accelerations, corners blended by junction deviation
+
+import type { MotionLimits } from '@/types/machine';
+import type { Position3D } from './VirtualMill';
+
+export const DEFAULT_MOTION_LIMITS: Record<'mm' | 'inch', MotionLimits> = {
+  mm: {
+    axes: {
+      X: { maxRate: 5000, acceleration: 300 },
+      Y: { maxRate: 5000, acceleration: 300 },
+      Z: { maxRate: 2500, acceleration: 150 }
+    },
+    junctionDeviation: 0.01
+  },
+  inch: {
+    axes: {
+      X: { maxRate: 200, acceleration: 12 },
+      Y: { maxRate: 200, acceleration: 12 },
+      Z: { maxRate: 100, acceleration: 6 }
+    },
+    junctionDeviation: 0.0004
+  }
+};
+
+// Linear moves without a feed word, per minute
+export const DEFAULT_LINEAR_FEED_RATE = 1000;
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+/**
+ * A block as the planner sees it. Rapid and linear moves blend into each other;
+ * probes start and stop at rest, dwells wait for motion to stop and G10 work
+ * offsets ('wcs') sync the planner. Other types take no time.
+ */
+export interface MotionBlock {
+  type: string;
+  startPosition: Position3D;
+  endPosition: Position3D;
+  feedRate?: number; // Linear and probe moves, units per minute
+  dwellTime?: number; // Seconds
+}
+
+interface PlannedMove {
+  index: number;
+  length: number;
+  direction: Position3D; // Unit vector
+  speed: number; // Cruise speed, units per second
+  acceleration: number;
+}
+
+const planMove = (block: MotionBlock, index: number, limits: MotionLimits): PlannedMove | null => {
+  const delta = {
+    X: block.endPosition.X - block.startPosition.X,
+    Y: block.endPosition.Y - block.startPosition.Y,
+    Z: block.endPosition.Z - block.startPosition.Z
+  };
+  const length = Math.hypot(delta.X, delta.Y, delta.Z);
+  if (length === 0) return null;
+
+  const direction = { X: delta.X / length, Y: delta.Y / length, Z: delta.Z / length };
+  // Each axis moving part of the way caps the path speed and acceleration at its own limit over that part
+  const moving = AXES.filter(axis => direction[axis] !== 0);
+  const maxRate = Math.min(...moving.map(axis => limits.axes[axis].maxRate / Math.abs(direction[axis])));
+  const acceleration = Math.min(...moving.map(axis => limits.axes[axis].acceleration / Math.abs(direction[axis])));
+  const feedRate = block.type === 'rapid' ? maxRate : Math.min(block.feedRate || DEFAULT_LINEAR_FEED_RATE, maxRate);
+
+  return { index, length, direction, speed: feedRate / 60, acceleration };
+};
+
+/**
+ * Fastest speed through the corner between two moves that keeps the path
+ * within the junction deviation of the corner at the slower acceleration
+ */
+const getJunctionSpeed = (from: PlannedMove, to: PlannedMove, junctionDeviation: number): number => {
+  const cosTheta = -AXES.reduce((sum, axis) => sum + from.direction[axis] * to.direction[axis], 0);
+  const limit = Math.min(from.speed, to.speed);
+  if (cosTheta > 0.999999) return 0; // Reversal
+  if (cosTheta < -0.999999) return limit; // Straight on
+
+  const sinHalfTheta = Math.sqrt(0.5 * (1 - cosTheta));
+  const acceleration = Math.min(from.acceleration, to.acceleration);
+  return Math.min(Math.sqrt(acceleration * junctionDeviation * sinHalfTheta / (1 - sinHalfTheta)), limit);
+};
+
+/**
+ * Seconds to cover `length` starting at `entry` and ending at `exit`: accelerate to
+ * the cruise speed, cruise and decelerate, or just accelerate and decelerate when
+ * the move is too short to reach it
+ */
+export const getTrapezoidTime = (length: number, speed: number, acceleration: number, entry: number, exit: number): number => {
+  if (!(acceleration > 0) || !Number.isFinite(acceleration)) return length / speed;
+
+  const accelerating = (speed * speed - entry * entry) / (2 * acceleration);
+  const decelerating = (speed * speed - exit * exit) / (2 * acceleration);
+  if (accelerating + decelerating <= length) {
+    return (speed - entry) / acceleration + (speed - exit) / acceleration + (length - accelerating - decelerating) / speed;
+  }
+  const peak = Math.sqrt((2 * acceleration * length + entry * entry + exit * exit) / 2);
+  return (peak - entry) / acceleration + (peak - exit) / acceleration;
+};
+
+/**
+ * Milliseconds each block takes. Consecutive rapid and linear moves are planned
+ * together, each junction as fast as the corner and the distance to stop allow.
+ */
+export const estimateBlockDurations = (blocks: MotionBlock[], limits: MotionLimits): number[] => {
+  const durations = new Array<number>(blocks.length).fill(0);
+  let chain: PlannedMove[] = [];
+
+  // Start and end the chain at rest; plan the junctions back from the stop, then forward from the start
+  const flush = () => {
+    const entry = chain.map((move, i) => i === 0 ? 0 : getJunctionSpeed(chain[i - 1], move, limits.junctionDeviation));
+    entry.push(0);
+    for (let i = chain.length - 1; i >= 0; i--) {
+      entry[i] = Math.min(entry[i], Math.sqrt(entry[i + 1] ** 2 + 2 * chain[i].acceleration * chain[i].length));
+    }
+    chain.forEach((move, i) => {
+      entry[i + 1] = Math.min(entry[i + 1], Math.sqrt(entry[i] ** 2 + 2 * move.acceleration * move.length));
+      durations[move.index] = getTrapezoidTime(move.length, move.speed, move.acceleration, entry[i], entry[i + 1]) * 1000;
+    });
+    chain = [];
+  };
+
+  blocks.forEach((block, index) => {
+    if (block.type === 'rapid' || block.type === 'linear') {
+      const move = planMove(block, index, limits);
+      if (move) chain.push(move);
+      return;
+    }
+    if (block.type === 'probe' || block.type === 'dwell' || block.type === 'wcs') {
+      flush();
+    }
+    if (block.type === 'probe') {
+      const move = planMove(block, index, limits);
+      if (move) durations[index] = getTrapezoidTime(move.length, move.speed, move.acceleration, 0, 0) * 1000;
+    } else if (block.type === 'dwell') {
+      durations[index] = (block.dwellTime ?? 0) * 1000;
+    }
+  });
+  flush();
+
+  return durations;
+};
+
+/**
+ * Milliseconds for a single move from rest to rest
+ */
+export const estimateMoveDuration = (block: MotionBlock, limits: MotionLimits): number =>
+  estimateBlockDurations([block], limits)[0];
+
+export const getMotionLimits = (settings: { units: 'mm' | 'inch'; motionLimits?: MotionLimits }): MotionLimits =>
+  settings.motionLimits ?? DEFAULT_MOTION_LIMITS[settings.units];
@@ -0,0 +1,553 @@
+// src/utils/machine/sequenceSimulation.ts
+// Runs a probe sequence on a VirtualMill and records the steps, work offsets and measurements it produces
+
+import { DEFAULT_TOOL_LENGTH, type GCodeCommand, type MoveCollision, type Position3D, type VirtualMill } from './VirtualMill';
+import { estimateBlockDurations } from './motionPlanner';
+import { CustomModelCollision } from './CustomModelCollision';
+import { getProbeMode } from '../probeModes';
+import { getProbeStages } from '../probeStages';
+import { getToolRadius, type CompensationSettings } from '../toolRadiusCompensation';
+import { getOperationSettings, getOperationTool, toMachineUnits } from '../toolLibrary';
+import { compositeProbeKinds, expandCompositeProbe, getEdgeAngle } from '../compositeProbes';
+import { DEFAULT_WCS_INDEX } from '../workCoordinateSystems';
+import type { GCodeLineSource } from '../gcodeSourceMap';
+import { getIndexMoves, getRotaryWords } from '../rotaryAxes';
+import { resolveProbeSequence } from '../sequenceExpressions';
+import { getProbedFace, getTargetCoordinate, type WcsAxisMeasurement, type WcsTarget } from '../wcsVerification';
+import { BUFFER_CLEAR_DWELL, SPINDLE_START_DWELL } from '../gcodeGenerator';
+import type { MovementStep, ProbeOperation, ProbeSequenceSettings, RotaryPosition, Tool } from '@/types/machine';
+
+export interface VirtualMillSimulationStep {
+  id: string;
+  type: 'rapid' | 'linear' | 'probe' | 'dwell' | 'wcs';
+  gCodeCommand: GCodeCommand;
+  operation?: ProbeOperation;
+  startPosition: { X: number; Y: number; Z: number };
+  endPosition: { X: number; Y: number; Z: number };
+  duration: number; // Milliseconds, as the motion planner estimates it
+  source: GCodeLineSource; // Looked up in the generated G-code source map
+  workOffsetCommand?: GCodeCommand; // G10 L20 applied once the step completes (final probe of an operation)
+  rotaryPosition?: RotaryPosition; // Rotary angles once a move with A/B words completes
+}
+
+/**
+ * Where an operation's work offset put the origin, relative to the face it probed
+ */
+export interface WorkOffsetFaceCheck {
+  operationId: string;
+  axis: 'X' | 'Y' | 'Z';
+  wcsIndex: number;
+  faceCoordinate: number;
+  originCoordinate: number;
+  error: number;
+  onFace: boolean;
+}
+
+// Allowed distance between the WCS origin and the probed face
+const WCS_FACE_TOLERANCE = 0.001;
+
+/**
+ * Angle an edge angle operation measured, next to the stock rotation it should match
+ */
+export interface EdgeAngleMeasurement {
+  operationId: string;
+  axis: 'X' | 'Y';
+  angle: number; // Degrees, counterclockwise positive
+  stockAngle: number; // Stock rotation about Z (`stockRotation[2]`) in degrees
+  error: number;
+}
+
+/**
+ * A rapid or linear step that ran the tool into the stock, model or stage
+ */
+export interface SimulatedCrash extends MoveCollision {
+  stepId: string;
+  stepIndex: number; // Into the simulation's steps
+  source: GCodeLineSource;
+}
+
+/**
+ * The parts of a probe sequence the simulation runs
+ */
+export interface SimulatedSequence {
+  operations: ProbeOperation[];
+  initialPosition: { X: number; Y: number; Z: number };
+  endmillSize?: ProbeSequenceSettings['endmillSize'];
+  units?: ProbeSequenceSettings['units'];
+  variables?: ProbeSequenceSettings['variables'];
+  toolId?: ProbeSequenceSettings['toolId'];
+  dwellsBeforeProbe?: ProbeSequenceSettings['dwellsBeforeProbe'];
+}
+
+export interface SequenceSimulation {
+  operations: ProbeOperation[]; // With field expressions resolved
+  steps: VirtualMillSimulationStep[];
+  faceChecks: WorkOffsetFaceCheck[];
+  edgeAngles: EdgeAngleMeasurement[];
+  wcsVerification: WcsAxisMeasurement[];
+  crashes: SimulatedCrash[];
+  hasErrors: boolean; // Some moves were clamped or failed
+}
+
+export interface SimulationNotifier {
+  onWarning?: (title: string, message: string) => void;
+  onError?: (title: string, message: string) => void;
+}
+
+/**
+ * Reset the mill to machine zero, run the program header's moves to the
+ * sequence's initial position, then every operation, leaving the work offsets
+ * the sequence sets in the mill. The header is timed with the first operation.
+ */
+export function simulateProbeSequence(
+  mill: VirtualMill,
+  sequence: SimulatedSequence,
+  stockSize: [number, number, number],
+  toolLibrary: Tool[] | undefined,
+  notify: SimulationNotifier = {}
+): SequenceSimulation {
+  // Controls start from home, which is machine zero or the nearest point to it in travel
+  const homeLimits = mill.getAxisLimits();
+  mill.reset({
+    X: Math.max(homeLimits.X[0], Math.min(homeLimits.X[1], 0)),
+    Y: Math.max(homeLimits.Y[0], Math.min(homeLimits.Y[1], 0)),
+    Z: Math.max(homeLimits.Z[0], Math.min(homeLimits.Z[1], 0))
+  });
+
+  // Probe with the configured endmill, or each operation's library tool, so
+  // contact and WCS checks use its radius
+  const compensationSettings: CompensationSettings = {
+    endmillSize: sequence.endmillSize ?? { input: '0', unit: 'mm', sizeInMM: 0 },
+    units: sequence.units ?? 'mm',
+    toolId: sequence.toolId
+  };
+  const applyOperationTool = (operation: ProbeOperation): CompensationSettings => {
+    const settings = getOperationSettings(operation, compensationSettings, toolLibrary);
+    if (sequence.endmillSize || settings !== compensationSettings) {
+      mill.setToolRadius(getToolRadius(settings));
+    }
+    // Gauge lengths and assemblies are in mm, like tip diameters
+    const tool = getOperationTool(operation, compensationSettings, toolLibrary);
+    const lengthInMM = tool?.length ?? DEFAULT_TOOL_LENGTH;
+    mill.setToolLength(compensationSettings.units === 'inch' ? lengthInMM / 25.4 : lengthInMM);
+    mill.setToolAssembly(tool?.assembly ? toMachineUnits(tool.assembly, compensationSettings.units) : null);
+    return settings;
+  };
+
+  // Field expressions follow the current stock size
+  const { operations } = resolveProbeSequence(
+    sequence.operations,
+    { ...compensationSettings, variables: sequence.variables },
+    stockSize,
+    toolLibrary
+  );
+
+  const simulationSteps: VirtualMillSimulationStep[] = [];
+  const faceChecks: WorkOffsetFaceCheck[] = [];
+  const angleMeasurements: EdgeAngleMeasurement[] = [];
+  const crashes: SimulatedCrash[] = [];
+  const probeStops = new Map<VirtualMillSimulationStep, Position3D>(); // Where each probe tripped, if it did
+  const stockAngle = mill.getStockRotation()[2] * 180 / Math.PI;
+  let stepId = 0;
+
+  // Final origin per work offset axis; the last operation to set an axis wins
+  const originMeasurements = new Map<string, WcsAxisMeasurement>();
+  const customModel = mill.getCustomModel();
+  const stockBounds = customModel ? CustomModelCollision.getModelBoundingBox(customModel) : mill.getStockBounds();
+  const recordOrigin = (
+    operation: ProbeOperation,
+    axis: 'X' | 'Y' | 'Z',
+    target: WcsTarget,
+    originCoordinate: number,
+    approach: number
+  ) => {
+    const wcsIndex = operation.wcsIndex ?? DEFAULT_WCS_INDEX;
+    const key = `${wcsIndex}:${axis}`;
+    // Stock faces only line up with the machine axes when nothing is turned
+    const isSquare = mill.getStockRotation().every(angle => angle === 0) &&
+      Object.values(mill.getRotaryPosition()).every(angle => !angle);
+    if (!isSquare) {
+      originMeasurements.delete(key);
+      return;
+    }
+    const targetCoordinate = getTargetCoordinate(stockBounds, axis, target);
+    originMeasurements.set(key, {
+      wcsIndex,
+      axis,
+      operationId: operation.id,
+      target,
+      originCoordinate,
+      targetCoordinate,
+      error: originCoordinate - targetCoordinate,
+      approach,
+      toolRadius: axis === 'Z' ? 0 : mill.getToolRadius()
+    });
+  };
+  let hasErrors = false;
+
+  // Helper function to clamp position to machine limits
+  const clampToMachineLimits = (position: { X: number; Y: number; Z: number }) => {
+    const limits = mill.getAxisLimits();
+    return {
+      X: Math.max(limits.X[0], Math.min(limits.X[1], position.X)),
+      Y: Math.max(limits.Y[0], Math.min(limits.Y[1], position.Y)),
+      Z: Math.max(limits.Z[0], Math.min(limits.Z[1], position.Z))
+    };
+  };
+
+  // Helper function to safely execute G-code with error handling
+  const safeExecuteGCode = (command: GCodeCommand, operation?: string): boolean => {
+    try {
+      mill.executeGCodeSync(command);
+      return true;
+    } catch (error) {
+      console.warn(`VirtualMill execution error during ${operation || 'command'}:`, error);
+      hasErrors = true;
+      
+      // Try to recover by clamping to machine limits if it's a position error
+      if (error instanceof Error && error.message.includes('exceeds machine limits')) {
+        notify.onWarning?.(
+          'Position Clamped to Machine Limits',
+          `Some probe movements exceeded machine limits and were automatically adjusted to safe positions.`
+        );
+        
+        try {
+          // Get the current intended position and clamp it
+          const currentPos = mill.getCurrentPosition();
+          const targetPos = calculateEndPosition(currentPos, command, mill.getWCSOffset(command.wcsIndex));
+          const clampedPos = clampToMachineLimits(targetPos);
+          
+          // Create a safe movement command to the clamped position
+          const safeCommand: GCodeCommand = {
+            ...command,
+            X: clampedPos.X,
+            Y: clampedPos.Y,
+            Z: clampedPos.Z,
+            positionMode: 'absolute',
+            coordinateSystem: 'machine'
+          };
+          
+          mill.executeGCodeSync(safeCommand);
+          return true;
+        } catch (recoveryError) {
+          console.error('Failed to recover from machine limits error:', recoveryError);
+          notify.onError?.(
+            'Simulation Recovery Failed',
+            'Could not recover from machine limits error. Simulation may be incomplete.'
+          );
+          // Reset to a safe position as last resort
+          try {
+            mill.reset({ X: 0, Y: 0, Z: 0 });
+          } catch (resetError) {
+            console.error('Emergency reset failed:', resetError);
+          }
+          return false;
+        }
+      }
+      return false;
+    }
+  };
+
+  // Run a step, keeping any crash the mill's swept check found on it
+  const executeStep = (step: VirtualMillSimulationStep, label: string) => {
+    const crashCount = mill.getCrashes().length;
+    safeExecuteGCode(step.gCodeCommand, label);
+    mill.getCrashes().slice(crashCount).forEach(crash => {
+      crashes.push({ ...crash, stepId: step.id, stepIndex: simulationSteps.indexOf(step), source: step.source });
+    });
+  };
+
+  // Run a move or dwell, ending the step where the mill actually stopped (work
+  // offsets, clamping and all)
+  const simulateCommand = (
+    command: GCodeCommand,
+    source: GCodeLineSource,
+    label: string,
+    operation?: ProbeOperation
+  ): VirtualMillSimulationStep => {
+    const startPos = mill.getCurrentPosition();
+    const step: VirtualMillSimulationStep = {
+      id: `step-${stepId++}`,
+      type: command.type as VirtualMillSimulationStep['type'],
+      gCodeCommand: command,
+      ...(operation && { operation }),
+      startPosition: { ...startPos },
+      endPosition: { ...startPos },
+      duration: 0, // Planned once the whole sequence is known
+      source
+    };
+    simulationSteps.push(step);
+
+    executeStep(step, label);
+    step.endPosition = mill.getCurrentPosition();
+    return step;
+  };
+
+  // Pre- and post-moves; raw lines are written back verbatim but have no modelled motion
+  const simulateMoves = (operation: ProbeOperation, moves: MovementStep[] | undefined, label: string) => {
+    moves?.forEach((move) => {
+      if (move.type === 'raw') return;
+      const command: GCodeCommand = {
+        type: move.type as 'rapid' | 'linear',
+        ...move.axesValues,
+        positionMode: move.positionMode === 'none' ? 'absolute' : move.positionMode,
+        coordinateSystem: move.coordinateSystem === 'none' ? 'machine' : move.coordinateSystem || 'machine',
+        wcsIndex: move.wcsIndex,
+        dwellTime: move.dwellTime
+      };
+
+      const step = simulateCommand(command, { operationId: operation.id, movementId: move.id }, `${label} for operation ${operation.id}`);
+      if (Object.keys(getRotaryWords(command)).length > 0) {
+        step.rotaryPosition = mill.getRotaryPosition();
+      }
+    });
+  };
+
+  // Probe moves: a single probe, or seek then retract/latch pairs.
+  // Returns where the final probe stopped along the probe axis. Origins set on
+  // inside features are not checked against the stock's outer faces.
+  const simulateProbe = (operation: ProbeOperation, setsWorkOffset = true, touch?: number, onStockFace = true): number => {
+    const probeStages = getProbeStages(operation);
+    const touchSource = touch === undefined ? {} : { touch };
+    probeStages.forEach((stage, stageIndex) => {
+      if (stage.type === 'retract') {
+        simulateCommand(
+          { type: 'rapid', [operation.axis]: stage.distance, positionMode: 'relative', coordinateSystem: 'machine' },
+          { operationId: operation.id, probeStage: stageIndex, ...touchSource },
+          `latch retract for operation ${operation.id}`,
+          operation
+        );
+        return;
+      }
+
+      const startPos = mill.getCurrentPosition();
+
+      const probeCommand: GCodeCommand = {
+        type: 'probe',
+        axis: operation.axis,
+        direction: operation.direction,
+        distance: stage.distance,
+        feedRate: stage.feedRate,
+        probeMode: operation.probeMode
+      };
+
+      // G10 L20 runs with the final probe, so it doesn't get a step of its own
+      const workOffsetCommand = setsWorkOffset && stageIndex === probeStages.length - 1
+        ? createWorkOffsetCommand(operation)
+        : undefined;
+
+      const probeStep: VirtualMillSimulationStep = {
+        id: `step-${stepId++}`,
+        type: 'probe',
+        gCodeCommand: probeCommand,
+        operation,
+        startPosition: startPos,
+        endPosition: calculateProbeEndPosition(startPos, probeCommand),
+        duration: 0,
+        source: { operationId: operation.id, probeStage: stageIndex, ...touchSource },
+        workOffsetCommand
+      };
+      simulationSteps.push(probeStep);
+
+      // Execute probe command to update mill state
+      const contactCount = mill.getContactPoints().length;
+      executeStep(probeStep, `probe operation ${operation.id}`);
+      probeStops.set(probeStep, mill.getCurrentPosition());
+      if (workOffsetCommand) {
+        safeExecuteGCode(workOffsetCommand, `work offset for operation ${operation.id}`);
+
+        // Check the resulting origin against the face the final probe tripped on
+        const contacts = mill.getContactPoints();
+        if (contacts.length > contactCount) {
+          const wcsIndex = operation.wcsIndex ?? DEFAULT_WCS_INDEX;
+          const measurement = mill.measureWorkOffsetAgainstFace(
+            contacts[contacts.length - 1],
+            operation.axis,
+            operation.direction,
+            operation.probeMode,
+            wcsIndex
+          );
+          faceChecks.push({
+            operationId: operation.id,
+            axis: operation.axis,
+            wcsIndex,
+            ...measurement,
+            onFace: Math.abs(measurement.error) <= WCS_FACE_TOLERANCE
+          });
+
+          if (onStockFace) {
+            const approach = getProbeMode(operation.probeMode).awayFromWorkpiece ? -operation.direction : operation.direction;
+            recordOrigin(operation, operation.axis, getProbedFace(approach), measurement.originCoordinate, approach);
+          }
+        }
+      }
+    });
+    return mill.getCurrentPosition()[operation.axis];
+  };
+
+  // Composite operations run their touches, then zero each center on the
+  // midpoint of the positions the touches actually tripped at. Edge angles are
+  // reported rather than applied, since the mill has no coordinate rotation.
+  const simulateComposite = (operation: ProbeOperation, settings: CompensationSettings) => {
+    const trips: number[] = [];
+    const inside = Boolean(operation.composite && compositeProbeKinds[operation.composite.kind].inside);
+    expandCompositeProbe(operation, settings, true).forEach(step => {
+      if (step.type === 'touch') {
+        simulateMoves(step.probe, step.probe.preMoves, 'pre-move');
+        trips[step.touch] = simulateProbe(step.probe, step.setsWorkOffset, step.touch, !inside);
+        simulateMoves(step.probe, step.probe.postMoves, 'post-move');
+        return;
+      }
+
+      if (step.type === 'angle') {
+        const [first, second] = step.touches.map(touch => trips[touch]);
+        const angle = getEdgeAngle(first, second, step.spacing);
+        angleMeasurements.push({ operationId: operation.id, axis: step.axis, angle, stockAngle, error: angle - stockAngle });
+        return;
+      }
+
+      const position = mill.getCurrentPosition();
+      const [first, second] = step.touches.map(touch => trips[touch]);
+      const workOffsetCommand: GCodeCommand = {
+        type: 'wcs',
+        wcsAxis: step.axis,
+        wcsValue: position[step.axis] - (first + second) / 2,
+        wcsIndex: operation.wcsIndex
+      };
+      simulationSteps.push({
+        id: `step-${stepId++}`,
+        type: 'wcs',
+        gCodeCommand: workOffsetCommand,
+        operation,
+        startPosition: { ...position },
+        endPosition: { ...position },
+        duration: 0,
+        source: { operationId: operation.id }
+      });
+      safeExecuteGCode(workOffsetCommand, `center for operation ${operation.id}`);
+      if (!inside) {
+        const wcsIndex = operation.wcsIndex ?? DEFAULT_WCS_INDEX;
+        recordOrigin(operation, step.axis, 'center', mill.getWCSOffset(wcsIndex)[step.axis], 1);
+      }
+      simulateMoves(operation, step.moves, 'center move');
+    });
+  };
+
+  // The G4 buffer clears written before each operation probes, as one step
+  const simulateBufferClear = (operation: ProbeOperation) => {
+    const dwells = sequence.dwellsBeforeProbe ?? 0;
+    if (dwells <= 0) return;
+    const position = mill.getCurrentPosition();
+    simulationSteps.push({
+      id: `step-${stepId++}`,
+      type: 'dwell',
+      gCodeCommand: { type: 'dwell', dwellTime: dwells * BUFFER_CLEAR_DWELL },
+      operation,
+      startPosition: position,
+      endPosition: position,
+      duration: 0,
+      source: { operationId: operation.id }
+    });
+  };
+
+  // The header's G53 moves to the initial position, Z first, then the wait for the spindle
+  const simulateHeader = (operation: ProbeOperation) => {
+    (['Z', 'Y', 'X'] as const).forEach(axis => {
+      simulateCommand(
+        { type: 'rapid', [axis]: sequence.initialPosition[axis], positionMode: 'absolute', coordinateSystem: 'machine' },
+        { operationId: operation.id },
+        'initial positioning'
+      );
+    });
+    simulateCommand({ type: 'dwell', dwellTime: SPINDLE_START_DWELL }, { operationId: operation.id }, 'spindle start');
+  };
+
+  // The G0 G91 move written after each operation's work offset
+  const simulateBackoff = (operation: ProbeOperation) => {
+    simulateCommand(
+      { type: 'rapid', [operation.axis]: operation.backoffDistance, positionMode: 'relative', coordinateSystem: 'machine' },
+      { operationId: operation.id },
+      `backoff for operation ${operation.id}`,
+      operation
+    );
+  };
+
+  // Convert probe operations to G-code commands
+  operations.forEach((operation, index) => {
+    if (hasErrors) return; // Skip remaining operations if we've encountered critical errors
+
+    const settings = applyOperationTool(operation);
+    if (index === 0) simulateHeader(operation);
+    simulateMoves(operation, getIndexMoves(operation), 'rotary index');
+    simulateMoves(operation, operation.preMoves, 'pre-move');
+    simulateBufferClear(operation);
+    if (operation.composite) {
+      simulateComposite(operation, settings);
+    } else {
+      simulateProbe(operation);
+      simulateBackoff(operation);
+    }
+    simulateMoves(operation, operation.postMoves, 'post-move');
+  });
+
+  // Probes only travel as far as they tripped
+  const durations = estimateBlockDurations(simulationSteps.map(step => ({
+    type: step.type,
+    startPosition: step.startPosition,
+    endPosition: probeStops.get(step) ?? step.endPosition,
+    feedRate: step.gCodeCommand.feedRate,
+    dwellTime: step.gCodeCommand.dwellTime
+  })), mill.getMotionLimits());
+  simulationSteps.forEach((step, index) => {
+    step.duration = durations[index];
+  });
+
+  return {
+    operations,
+    steps: simulationSteps,
+    faceChecks,
+    edgeAngles: angleMeasurements,
+    wcsVerification: Array.from(originMeasurements.values()),
+    crashes,
+    hasErrors
+  };
+}
+
+// Helper functions
+function createWorkOffsetCommand(operation: ProbeOperation): GCodeCommand {
+  return {
+    type: 'wcs',
+    wcsAxis: operation.axis,
+    wcsValue: operation.wcsOffset,
+    wcsIndex: operation.wcsIndex
+  };
+}
+
+// Machine position a move aims for; absolute work coordinates are shifted by the work offset
+function calculateEndPosition(
+  currentPos: { X: number; Y: number; Z: number },
+  command: GCodeCommand,
+  wcsOffset: Position3D
+): { X: number; Y: number; Z: number } {
+  const targetPos = { ...currentPos };
+  const offset = command.coordinateSystem === 'wcs' ? wcsOffset : { X: 0, Y: 0, Z: 0 };
+
+  (['X', 'Y', 'Z'] as const).forEach(axis => {
+    const value = command[axis];
+    if (value === undefined) return;
+    targetPos[axis] = command.positionMode === 'relative' ? targetPos[axis] + value : value + offset[axis];
+  });
+
+  return targetPos;
+}
+
+function calculateProbeEndPosition(
+  currentPos: { X: number; Y: number; Z: number },
+  command: GCodeCommand
+): { X: number; Y: number; Z: number } {
+  const endPos = { ...currentPos };
+  if (command.axis && command.direction && command.distance) {
+    endPos[command.axis] += command.direction * command.distance;
+  }
+  return endPos;
+}
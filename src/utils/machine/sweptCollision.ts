@@ -0,0 +1,191 @@
+// src/utils/machine/sweptCollision.ts
+// Where a tool assembly moving in a straight line first runs into a box-shaped obstacle
+
+import type { BoundingBox, Position3D } from './VirtualMill';
+
+// Surfaces within this distance count as touching rather than crashed into
+export const CONTACT_TOLERANCE = 0.001;
+
+// Points around each cylinder's rim, as CustomModelCollision probes with
+const RIM_POINTS = 8;
+
+// Sample heights along a cylinder that is not square to the obstacle
+const MAX_HEIGHT_SAMPLES = 32;
+
+const AXES = ['X', 'Y', 'Z'] as const;
+
+// 'tool' is a plain tool without an assembly
+export type ToolPart = 'tool' | 'cutter' | 'shank' | 'holder' | 'spindleNose';
+
+/**
+ * A cylinder or cone carried by the spindle: `base` to `base + length` from the
+ * tool tip along the spindle axis, away from the work
+ */
+export interface ToolSegment {
+  part: ToolPart;
+  radius: number; // At the base
+  topRadius?: number; // At the top, for a cone; the base radius when unset
+  base: number;
+  length: number;
+}
+
+/**
+ * A point on a tool segment, relative to the tool tip. Points on a segment
+ * square to the obstacle stand for the whole line `reach` long above them.
+ */
+export interface ToolSample {
+  part: ToolPart;
+  offset: Position3D;
+  reach: number;
+}
+
+export interface SweptContact {
+  fraction: number; // How far along the move the tool first touches, 0 to 1
+  part: ToolPart;
+  contactPoint: Position3D; // On the obstacle
+}
+
+const add = (a: Position3D, b: Position3D, scale = 1): Position3D => ({
+  X: a.X + b.X * scale,
+  Y: a.Y + b.Y * scale,
+  Z: a.Z + b.Z * scale
+});
+
+const cross = (a: Position3D, b: Position3D): Position3D => ({
+  X: a.Y * b.Z - a.Z * b.Y,
+  Y: a.Z * b.X - a.X * b.Z,
+  Z: a.X * b.Y - a.Y * b.X
+});
+
+const normalize = (v: Position3D): Position3D => {
+  const length = Math.hypot(v.X, v.Y, v.Z);
+  return { X: v.X / length, Y: v.Y / length, Z: v.Z / length };
+};
+
+/**
+ * The machine axis a direction runs along, when it runs along one
+ */
+export const getAlignedAxis = (direction: Position3D): 'X' | 'Y' | 'Z' | undefined =>
+  AXES.find(axis => Math.abs(Math.abs(direction[axis]) - 1) < 1e-9);
+
+/**
+ * Points standing in for the segments: the axis and the rim at the base of
+ * each cylinder when `square` (the spindle axis runs along a box obstacle's
+ * edges), otherwise at heights no further apart than the radius, up to
+ * `maxHeights`. Square cones are cut into slices that each reach as wide as
+ * their wider end.
+ */
+export const getToolSamples = (
+  segments: ToolSegment[],
+  spindleAxis: Position3D,
+  square: boolean = getAlignedAxis(spindleAxis) !== undefined,
+  maxHeights: number = MAX_HEIGHT_SAMPLES
+): ToolSample[] => {
+  // Two directions across the spindle axis
+  const helper = Math.abs(spindleAxis.X) < 0.9 ? { X: 1, Y: 0, Z: 0 } : { X: 0, Y: 1, Z: 0 };
+  const across = normalize(cross(spindleAxis, helper));
+  const across2 = cross(spindleAxis, across);
+
+  const section = (radius: number): Position3D[] => [
+    { X: 0, Y: 0, Z: 0 },
+    ...(radius > 0
+      ? Array.from({ length: RIM_POINTS }, (_, i) => {
+        const angle = (2 * Math.PI * i) / RIM_POINTS;
+        return add(add({ X: 0, Y: 0, Z: 0 }, across, radius * Math.cos(angle)), across2, radius * Math.sin(angle));
+      })
+      : [])
+  ];
+
+  return segments.flatMap(({ part, radius, topRadius = radius, base, length }) => {
+    const radiusAt = (height: number) => radius + (topRadius - radius) * (length > 0 ? height / length : 0);
+    const spacing = Math.max(Math.min(radius, topRadius), CONTACT_TOLERANCE);
+    const atHeight = (height: number, sectionRadius: number, reach: number) =>
+      section(sectionRadius).map(point => ({ part, offset: add(point, spindleAxis, base + height), reach }));
+
+    if (square && topRadius === radius) {
+      return atHeight(0, radius, length);
+    }
+    if (square) {
+      // Thin enough that the radius changes by no more than a quarter of the spacing per slice
+      const slices = Math.max(Math.min(Math.ceil(Math.max(length, 4 * Math.abs(topRadius - radius)) / spacing), maxHeights), 1);
+      return Array.from({ length: slices }, (_, i) => {
+        const height = (length * i) / slices;
+        return atHeight(height, Math.max(radiusAt(height), radiusAt(height + length / slices)), length / slices);
+      }).flat();
+    }
+
+    const heightCount = length <= 0 ? 1 : Math.min(Math.ceil(length / spacing) + 1, maxHeights);
+    return Array.from({ length: heightCount }, (_, i) => {
+      const height = heightCount === 1 ? 0 : (length * i) / (heightCount - 1);
+      return atHeight(height, radiusAt(height), 0);
+    }).flat();
+  });
+};
+
+/**
+ * Fraction of the way from `start` to `end` where a point first enters the
+ * inside of `bounds`, or null when it never does. A point that starts inside
+ * was already in contact (a probe leaves the tool on the face it touched), so
+ * only moves that start clear can crash.
+ */
+export const getBoxEntry = (start: Position3D, end: Position3D, bounds: BoundingBox): number | null => {
+  const startsInside = AXES.every(axis => start[axis] > bounds.min[axis] && start[axis] < bounds.max[axis]);
+  if (startsInside) return null;
+
+  let enter = 0;
+  let exit = 1;
+  for (const axis of AXES) {
+    const delta = end[axis] - start[axis];
+    if (delta === 0) {
+      if (start[axis] <= bounds.min[axis] || start[axis] >= bounds.max[axis]) return null;
+      continue;
+    }
+    const near = (bounds.min[axis] - start[axis]) / delta;
+    const far = (bounds.max[axis] - start[axis]) / delta;
+    enter = Math.max(enter, Math.min(near, far));
+    exit = Math.min(exit, Math.max(near, far));
+  }
+  return enter < exit ? enter : null;
+};
+
+const clampToBounds = (point: Position3D, bounds: BoundingBox): Position3D => ({
+  X: Math.max(bounds.min.X, Math.min(bounds.max.X, point.X)),
+  Y: Math.max(bounds.min.Y, Math.min(bounds.max.Y, point.Y)),
+  Z: Math.max(bounds.min.Z, Math.min(bounds.max.Z, point.Z))
+});
+
+/**
+ * First contact between tool samples moving from `start` to `end` and a box,
+ * all in the box's frame. `spindleAxis` points from the tip up the tool.
+ */
+export const sweepToolThroughBox = (
+  start: Position3D,
+  end: Position3D,
+  bounds: BoundingBox,
+  samples: ToolSample[],
+  spindleAxis: Position3D
+): SweptContact | null => {
+  // Shrunk so sliding along a face is not a crash
+  const inner: BoundingBox = {
+    min: add(bounds.min, { X: 1, Y: 1, Z: 1 }, CONTACT_TOLERANCE),
+    max: add(bounds.max, { X: 1, Y: 1, Z: 1 }, -CONTACT_TOLERANCE)
+  };
+  const alignedAxis = getAlignedAxis(spindleAxis);
+
+  let first: SweptContact | null = null;
+  for (const { part, offset, reach } of samples) {
+    // A line reaching up the spindle axis meets the box wherever its foot
+    // meets the box stretched that far down the axis
+    const target = { min: { ...inner.min }, max: { ...inner.max } };
+    if (alignedAxis && reach > 0) {
+      if (spindleAxis[alignedAxis] > 0) target.min[alignedAxis] -= reach;
+      else target.max[alignedAxis] += reach;
+    }
+
+    const fraction = getBoxEntry(add(start, offset), add(end, offset), target);
+    if (fraction === null || (first && first.fraction <= fraction)) continue;
+    const point = add(add(start, { X: end.X - start.X, Y: end.Y - start.Y, Z: end.Z - start.Z }, fraction), offset);
+    first = { fraction, part, contactPoint: clampToBounds(point, bounds) };
+  }
+  return first;
+};
@@ -0,0 +1,218 @@
+// src/utils/machineProfiles.ts
+// Named machine profiles and the JSON files they are shared as
+
+import type { MachineProfile, MachineSettings, ProbeSequenceSettings, ProbingDefaults } from '@/types/machine';
+import { DEFAULT_DIALECT, postProcessors } from './postProcessors';
+import { toolTypes } from './toolLibrary';
+import {
+  arrayOf,
+  isNumber,
+  isObject,
+  isPosition,
+  isString,
+  isTriple,
+  matches,
+  oneOf,
+  optional,
+  type Schema
+} from './validation';
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_PROFILE_NAME = 'Horizontal mill';
+
+export const PROFILES_FILE_FORMAT = 'mill-probe-studio-profiles';
+export const PROFILES_FILE_VERSION = 1;
+
+export interface MachineProfilesFile {
+  format: typeof PROFILES_FILE_FORMAT;
+  version: number;
+  profiles: MachineProfile[];
+}
+
+export const getProbingDefaults = (settings: ProbeSequenceSettings): ProbingDefaults => ({
+  initialPosition: settings.initialPosition,
+  dwellsBeforeProbe: settings.dwellsBeforeProbe,
+  spindleSpeed: settings.spindleSpeed,
+  endmillSize: settings.endmillSize
+});
+
+/**
+ * Profile capturing the machine and the probing defaults and dialect of a sequence
+ */
+export const createMachineProfile = (
+  name: string,
+  machineSettings: MachineSettings,
+  sequenceSettings: ProbeSequenceSettings,
+  id = `profile-${crypto.randomUUID()}`
+): MachineProfile => ({
+  id,
+  name,
+  machineSettings,
+  probingDefaults: getProbingDefaults(sequenceSettings),
+  dialect: sequenceSettings.dialect ?? DEFAULT_DIALECT
+});
+
+/**
+ * Settings for a new sequence authored for the profile
+ */
+export const applyMachineProfile = (settings: ProbeSequenceSettings, profile: MachineProfile): ProbeSequenceSettings => ({
+  ...settings,
+  ...profile.probingDefaults,
+  units: profile.machineSettings.units,
+  dialect: profile.dialect,
+  profileId: profile.id
+});
+
+// "Mill", then "Mill (2)", "Mill (3)"... so profiles stay distinguishable in the picker
+export const uniqueProfileName = (name: string, profiles: MachineProfile[]): string => {
+  const taken = new Set(profiles.map(profile => profile.name));
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name} (${n})`;
+  return candidate;
+};
+
+/**
+ * Imported profiles replace those with the same id, so re-importing a shared
+ * file updates it rather than adding copies; new ones are appended
+ */
+export const mergeMachineProfiles = (profiles: MachineProfile[], imported: MachineProfile[]): MachineProfile[] => {
+  const byId = new Map(imported.map(profile => [profile.id, profile]));
+  const replaced = profiles.map(profile => byId.get(profile.id) ?? profile);
+  return [...replaced, ...imported.filter(profile => !profiles.some(existing => existing.id === profile.id))];
+};
+
+export const serializeMachineProfiles = (profiles: MachineProfile[]): string =>
+  JSON.stringify({ format: PROFILES_FILE_FORMAT, version: PROFILES_FILE_VERSION, profiles } satisfies MachineProfilesFile, null, 2);
+
+const axisConfigSchema: Schema = {
+  positiveDirection: isString,
+  negativeDirection: isString,
+  polarity: oneOf(1, -1),
+  min: isNumber,
+  max: isNumber
+};
+
+const rotaryAxisSchema: Schema = {
+  min: isNumber,
+  max: isNumber,
+  center: (value) => isPosition(value)
+};
+
+const toolSectionSchema: Schema = {
+  length: isNumber,
+  diameter: isNumber,
+  topDiameter: optional(isNumber)
+};
+
+const toolSchema: Schema = {
+  id: isString,
+  name: isString,
+  type: oneOf(...Object.keys(toolTypes)),
+  tipDiameter: isNumber,
+  length: isNumber,
+  probeOnCode: optional(isString),
+  probeOffCode: optional(isString),
+  assembly: optional(matches({
+    cutter: matches(toolSectionSchema),
+    shank: matches(toolSectionSchema),
+    holder: matches(toolSectionSchema)
+  }))
+};
+
+const axisMotionSchema: Schema = {
+  maxRate: isNumber,
+  acceleration: isNumber
+};
+
+export const machineSettingsSchema: Schema = {
+  units: oneOf('mm', 'inch'),
+  axes: matches({
+    X: matches(axisConfigSchema),
+    Y: matches(axisConfigSchema),
+    Z: matches(axisConfigSchema)
+  }),
+  rotaryAxes: optional(matches({
+    A: optional(matches(rotaryAxisSchema)),
+    B: optional(matches(rotaryAxisSchema))
+  })),
+  machineOrientation: oneOf('vertical', 'horizontal'),
+  stageDimensions: isTriple,
+  programTemplates: optional(matches({
+    header: optional(isString),
+    footer: optional(isString)
+  })),
+  toolLibrary: optional(arrayOf(matches(toolSchema))),
+  probeErrorModel: optional(matches({
+    repeatability: isNumber,
+    preTravel: isNumber,
+    triggerDelay: isNumber,
+    stockPlacement: isNumber,
+    backlash: isNumber
+  })),
+  spindleNose: optional(matches({
+    diameter: isNumber,
+    length: isNumber
+  })),
+  motionLimits: optional(matches({
+    axes: matches({
+      X: matches(axisMotionSchema),
+      Y: matches(axisMotionSchema),
+      Z: matches(axisMotionSchema)
+    }),
+    junctionDeviation: isNumber
+  }))
+};
+
+export const isMachineSettings = matches(machineSettingsSchema);
+
+export const endmillSizeSchema: Schema = {
+  input: isString,
+  unit: oneOf('fraction', 'inch', 'mm'),
+  sizeInMM: isNumber
+};
+
+const isProbingDefaults = matches({
+  initialPosition: (value) => isPosition(value),
+  dwellsBeforeProbe: isNumber,
+  spindleSpeed: isNumber,
+  endmillSize: matches(endmillSizeSchema)
+});
+
+/**
+ * Why a profile read from a file cannot be used, if it cannot
+ */
+export const validateMachineProfile = (value: unknown, index: number): string | undefined => {
+  const label = `Profile ${index + 1}`;
+  if (!isObject(value)) return `${label} is not an object`;
+  if (typeof value.id !== 'string' || !value.id) return `${label} has no id`;
+  if (typeof value.name !== 'string' || !value.name.trim()) return `${label} has no name`;
+  if (!isMachineSettings(value.machineSettings)) return `${label} (${value.name}) has invalid machine settings`;
+  if (!isProbingDefaults(value.probingDefaults)) return `${label} (${value.name}) has invalid probing defaults`;
+  if (typeof value.dialect !== 'string' || !(value.dialect in postProcessors)) return `${label} (${value.name}) has an unknown dialect`;
+  return undefined;
+};
+
+/**
+ * Profiles read from an exported file, or the first problem that makes it unusable
+ */
+export const parseMachineProfiles = (json: string): { profiles: MachineProfile[] } | { error: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+
+  if (!isObject(data) || data.format !== PROFILES_FILE_FORMAT || !Array.isArray(data.profiles)) {
+    return { error: 'The file is not a machine profile export' };
+  }
+  if (!isNumber(data.version) || data.version > PROFILES_FILE_VERSION) {
+    return { error: `Profile file version ${String(data.version)} is not supported` };
+  }
+
+  for (const [index, profile] of data.profiles.entries()) {
+    const error = validateMachineProfile(profile, index);
+    if (error) return { error };
+  }
+  return { profiles: data.profiles as MachineProfile[] };
+};
@@ -0,0 +1,353 @@
+// src/utils/postProcessors.ts
+// Controller dialect post-processors used by the G-code generator
+
+import type { GCodeDialect, ProbeMode } from '@/types/machine';
+import { getWcsCode } from './workCoordinateSystems';
+
+export type Axis = 'X' | 'Y' | 'Z';
+
+// Numbers are formatted by the dialect; strings are expressions written as-is (e.g. `#1`)
+export type Word = number | string;
+
+/**
+ * Variable and subroutine spelling for controllers that can run parametric programs
+ */
+export interface ParametricSyntax {
+  // System variable holding the last probe trip position in work coordinates
+  probeResult: (axis: Axis) => string;
+
+  // Subroutine argument `n` (1-based) as read inside the subroutine body
+  parameter: (n: number) => string;
+
+  // Variable the main program stores operation `n`'s probe result in (1-based)
+  resultVariable: (n: number) => string;
+
+  // Make the probe trip position read `value` on the given WCS axis
+  setWorkOffsetFromProbe: (axis: Axis, value: string, wcsIndex: number) => string;
+
+  // Make the work position `position` (an expression, e.g. a midpoint) read `value`
+  setWorkOffsetAt: (axis: Axis, position: string, value: string, wcsIndex: number) => string;
+
+  // Subroutine framing; `afterProgram` subroutines follow the program end
+  firstSubroutine: number;
+  placement: 'beforeProgram' | 'afterProgram';
+  subroutineStart: (n: number) => string;
+  subroutineEnd: (n: number) => string;
+  callSubroutine: (n: number, args: Word[]) => string[];
+}
+
+/**
+ * Describes how a controller family spells the commands emitted by the generator.
+ * Every hook is a pure formatter so the generator can stay dialect-agnostic.
+ */
+export interface PostProcessor {
+  id: GCodeDialect;
+  name: string;
+  commentStyle: 'parentheses' | 'semicolon';
+  dwellUnits: 'seconds' | 'milliseconds';
+
+  // Number formatting for axis words and parameters
+  formatNumber: (value: number) => string;
+
+  // Straight probe move, stopping when the probe trips
+  probe: (axis: Axis, target: Word, feedRate: Word, mode: ProbeMode) => string;
+
+  // Probe cycle modes the controller can execute natively
+  probeModes: ProbeMode[];
+
+  // Make the probe trip position read `value` on the given WCS axis
+  setWorkOffset: (axis: Axis, value: number, wcsIndex: number) => string;
+
+  // Why work offsets may not be set as written, when the dialect covers controllers that differ
+  workOffsetWarning?: string;
+
+  // Modal code that makes a work offset active (e.g. G55)
+  selectWorkOffset: (wcsIndex: number) => string;
+
+  // Work offsets P1 to this the controller can select
+  workOffsetCount: number;
+
+  // Rotate the XY plane by `angle` degrees about the work origin, when the controller can
+  rotateCoordinates?: (angle: Word, wcsIndex: number) => string;
+
+  // Lines emitted before the units header and after the footer
+  programStart: () => Array<{ code: string; comment: string }>;
+  programEnd: () => Array<{ code: string; comment: string }>;
+
+  // Present when the controller supports variables and subroutines
+  parametric?: ParametricSyntax;
+}
+
+// Number formatters
+const plainNumber = (value: number): string => `${value}`;
+
+// Fanuc-style controls read integers without a decimal point as least increments
+const decimalPointNumber = (value: number): string =>
+  Number.isInteger(value) ? `${value}.` : `${value}`;
+
+const formatWord = (format: (value: number) => string) =>
+  (value: Word): string => typeof value === 'number' ? format(value) : value;
+
+// Machine-position system variables for Fanuc/Haas macro B
+const machinePositionVariable: Record<Axis, string> = {
+  X: '#5021',
+  Y: '#5022',
+  Z: '#5023'
+};
+
+// Work-coordinate position variables for Fanuc/Haas macro B
+const workPositionVariable: Record<Axis, string> = {
+  X: '#5041',
+  Y: '#5042',
+  Z: '#5043'
+};
+
+// Probe (skip) trip positions share #5061-#5063 on LinuxCNC, Fanuc and Haas
+const probeResultVariable: Record<Axis, string> = {
+  X: '#5061',
+  Y: '#5062',
+  Z: '#5063'
+};
+
+// G38.x controllers share the same probe and G10 L20 spelling
+const g38Probe = (format: (value: number) => string) =>
+  (axis: Axis, target: Word, feedRate: Word, mode: ProbeMode): string =>
+    `${mode} ${axis}${formatWord(format)(target)} F${formatWord(format)(feedRate)}`;
+
+const G38_PROBE_MODES: ProbeMode[] = ['G38.2', 'G38.3', 'G38.4', 'G38.5'];
+
+const g10L20 = (format: (value: number) => string) =>
+  (axis: Axis, value: number, wcsIndex: number): string =>
+    `G10 L20 P${wcsIndex} ${axis}${format(value)}`;
+
+// G31 skip moves only stop on gain of contact, so only the toward cycles map onto them
+const g31Probe = (format: (value: number) => string) =>
+  (axis: Axis, target: Word, feedRate: Word): string =>
+    `G31 ${axis}${formatWord(format)(target)} F${formatWord(format)(feedRate)}`;
+
+const G31_PROBE_MODES: ProbeMode[] = ['G38.2', 'G38.3'];
+
+// Fanuc-style controls rotate the active plane with G68; it stays on until G69
+const g68Rotation = (format: (value: number) => string) =>
+  (angle: Word): string =>
+    `G68 X0 Y0 R${formatWord(format)(angle)}`;
+
+// Fanuc-style controls only number G54-G59 directly; indices past 6 map onto
+// the extended offsets (G54.1 Pn / G154 Pn), which G10 addresses with L20.
+const FANUC_STANDARD_OFFSETS = 6;
+const FANUC_EXTENDED_OFFSETS = 48; // G54.1 P1-P48
+const HAAS_EXTENDED_OFFSETS = 99; // G154 P1-P99
+
+// G10 L2 writes the offset itself, so it is computed from the skip position.
+// G90 is required because Fanuc adds to the existing offset in G91 mode.
+const fanucOffsetGroup = (wcsIndex: number): string =>
+  wcsIndex > FANUC_STANDARD_OFFSETS
+    ? `L20 P${wcsIndex - FANUC_STANDARD_OFFSETS}`
+    : `L2 P${wcsIndex}`;
+
+// The machine position minus the work position is the active offset; adding the
+// skip position gives the trip point in machine coordinates, wherever the
+// axis has coasted or retracted to since.
+const g10L2FromSkipPosition = (format: (value: number) => string) =>
+  (axis: Axis, value: number, wcsIndex: number): string => {
+    const offset = value < 0 ? `+${format(-value)}` : `-${format(value)}`;
+    return `G90 G10 ${fanucOffsetGroup(wcsIndex)} ${axis}[${machinePositionVariable[axis]}-${workPositionVariable[axis]}+${probeResultVariable[axis]}${offset}]`;
+  };
+
+/**
+ * The axis, value and work offset of a line written by g10L2FromSkipPosition,
+ * so Fanuc and Haas programs import their probes' offsets
+ */
+export const readSkipWorkOffset = (line: string): { axis: Axis; value: number; wcsIndex: number } | undefined => {
+  const match = line.match(/^G90\s+G10\s+L(2|20)\s+P(\d+)\s+([XYZ])\[(#\d+)-(#\d+)\+(#\d+)([+-](?:\d+\.?\d*|\.\d+))\](?:\s*\(.*\))?$/i);
+  if (!match) return undefined;
+  const [, group, index, letter, machine, work, probe, offset] = match;
+  const axis = letter.toUpperCase() as Axis;
+  if (machine !== machinePositionVariable[axis] || work !== workPositionVariable[axis] || probe !== probeResultVariable[axis]) {
+    return undefined;
+  }
+  const wcsIndex = Number(index) + (group === '20' ? FANUC_STANDARD_OFFSETS : 0);
+  return { axis, value: -parseFloat(offset) || 0, wcsIndex };
+};
+
+// Parametric syntax. Both spellings correct the offset for overtravel past the
+// trip point by working from the probe result rather than the current position.
+const linuxcncWorkOffsetAt = (axis: Axis, position: string, value: string, wcsIndex: number): string =>
+  `G10 L20 P${wcsIndex} ${axis}[${value} + #<_${axis.toLowerCase()}> - ${position}]`;
+
+const linuxcncParametric: ParametricSyntax = {
+  probeResult: axis => probeResultVariable[axis],
+  parameter: n => `#${n}`,
+  resultVariable: n => `#${1000 + n}`,
+  setWorkOffsetFromProbe: (axis, value, wcsIndex) => linuxcncWorkOffsetAt(axis, probeResultVariable[axis], value, wcsIndex),
+  setWorkOffsetAt: linuxcncWorkOffsetAt,
+  firstSubroutine: 100,
+  placement: 'beforeProgram',
+  subroutineStart: n => `o${n} sub`,
+  subroutineEnd: n => `o${n} endsub`,
+  callSubroutine: (n, args) =>
+    [`o${n} call ${args.map(arg => `[${formatWord(plainNumber)(arg)}]`).join(' ')}`]
+};
+
+// Fanuc-style subroutines read common variables #101.. set by the caller
+const FANUC_ARGUMENT_BASE = 100;
+
+const fanucWorkOffsetAt = (axis: Axis, position: string, value: string, wcsIndex: number): string =>
+  `G90 G10 ${fanucOffsetGroup(wcsIndex)} ${axis}[${machinePositionVariable[axis]}-${workPositionVariable[axis]}+${position}-${value}]`;
+
+const fanucParametric = (subroutine: { start: (n: number) => string; call: (n: number) => string }): ParametricSyntax => ({
+  probeResult: axis => probeResultVariable[axis],
+  parameter: n => `#${FANUC_ARGUMENT_BASE + n}`,
+  resultVariable: n => `#${500 + n}`,
+  setWorkOffsetFromProbe: (axis, value, wcsIndex) => fanucWorkOffsetAt(axis, probeResultVariable[axis], value, wcsIndex),
+  setWorkOffsetAt: fanucWorkOffsetAt,
+  firstSubroutine: 1000,
+  placement: 'afterProgram',
+  subroutineStart: subroutine.start,
+  subroutineEnd: () => 'M99',
+  callSubroutine: (n, args) => [
+    ...args.map((arg, index) => `#${FANUC_ARGUMENT_BASE + index + 1}=${formatWord(decimalPointNumber)(arg)}`),
+    subroutine.call(n)
+  ]
+});
+
+const extendedWorkOffset = (extendedCode: string) =>
+  (wcsIndex: number): string =>
+    wcsIndex > FANUC_STANDARD_OFFSETS
+      ? `${extendedCode} P${wcsIndex - FANUC_STANDARD_OFFSETS}`
+      : getWcsCode(wcsIndex);
+
+export const postProcessors: Record<GCodeDialect, PostProcessor> = {
+  grbl: {
+    id: 'grbl',
+    name: 'GRBL',
+    commentStyle: 'semicolon',
+    dwellUnits: 'seconds',
+    formatNumber: plainNumber,
+    probe: g38Probe(plainNumber),
+    probeModes: G38_PROBE_MODES,
+    setWorkOffset: g10L20(plainNumber),
+    selectWorkOffset: getWcsCode,
+    // G54-G59 only; GRBL has no G59.1-G59.3
+    workOffsetCount: 6,
+    programStart: () => [],
+    programEnd: () => [
+      { code: 'M5', comment: 'Spindle off' },
+      { code: 'M2', comment: 'End program' }
+    ]
+  },
+
+  linuxcnc: {
+    id: 'linuxcnc',
+    name: 'LinuxCNC',
+    commentStyle: 'parentheses',
+    dwellUnits: 'seconds',
+    formatNumber: plainNumber,
+    probe: g38Probe(plainNumber),
+    probeModes: G38_PROBE_MODES,
+    setWorkOffset: g10L20(plainNumber),
+    selectWorkOffset: getWcsCode,
+    workOffsetCount: 9,
+    // LinuxCNC has no G68; the rotation is part of the work offset itself
+    rotateCoordinates: (angle, wcsIndex) => `G10 L2 P${wcsIndex} R${formatWord(plainNumber)(angle)}`,
+    programStart: () => [],
+    programEnd: () => [
+      { code: 'M2', comment: 'End program' }
+    ],
+    parametric: linuxcncParametric
+  },
+
+  mach: {
+    id: 'mach',
+    name: 'Mach3/4',
+    commentStyle: 'parentheses',
+    dwellUnits: 'seconds',
+    formatNumber: plainNumber,
+    probe: g31Probe(plainNumber),
+    probeModes: G31_PROBE_MODES,
+    setWorkOffset: g10L20(plainNumber),
+    // Mach4 added G10 L20; Mach3 only has G10 L2, which needs the offset worked out by hand
+    workOffsetWarning: 'Mach3 has no G10 L20, work offsets are only set on Mach4',
+    selectWorkOffset: getWcsCode,
+    workOffsetCount: 9,
+    programStart: () => [],
+    programEnd: () => [
+      { code: 'M5', comment: 'Spindle off' },
+      { code: 'M30', comment: 'End program and rewind' }
+    ]
+  },
+
+  fanuc: {
+    id: 'fanuc',
+    name: 'Fanuc',
+    commentStyle: 'parentheses',
+    dwellUnits: 'milliseconds',
+    formatNumber: decimalPointNumber,
+    probe: g31Probe(decimalPointNumber),
+    probeModes: G31_PROBE_MODES,
+    setWorkOffset: g10L2FromSkipPosition(decimalPointNumber),
+    selectWorkOffset: extendedWorkOffset('G54.1'),
+    workOffsetCount: FANUC_STANDARD_OFFSETS + FANUC_EXTENDED_OFFSETS,
+    rotateCoordinates: g68Rotation(decimalPointNumber),
+    programStart: () => [
+      { code: '%', comment: '' },
+      { code: 'O0001', comment: 'PROBE SEQUENCE' }
+    ],
+    programEnd: () => [
+      { code: 'M5', comment: 'Spindle off' },
+      { code: 'M30', comment: 'End program and rewind' },
+      { code: '%', comment: '' }
+    ],
+    // Subprograms follow the main program as separate O numbers
+    parametric: fanucParametric({ start: n => `O${n}`, call: n => `M98 P${n}` })
+  },
+
+  haas: {
+    id: 'haas',
+    name: 'Haas',
+    commentStyle: 'parentheses',
+    dwellUnits: 'milliseconds',
+    formatNumber: decimalPointNumber,
+    probe: g31Probe(decimalPointNumber),
+    probeModes: G31_PROBE_MODES,
+    setWorkOffset: g10L2FromSkipPosition(decimalPointNumber),
+    selectWorkOffset: extendedWorkOffset('G154'),
+    workOffsetCount: FANUC_STANDARD_OFFSETS + HAAS_EXTENDED_OFFSETS,
+    rotateCoordinates: g68Rotation(decimalPointNumber),
+    programStart: () => [
+      { code: '%', comment: '' },
+      { code: 'O00001', comment: 'PROBE SEQUENCE' }
+    ],
+    programEnd: () => [
+      { code: 'M5', comment: 'Spindle off' },
+      { code: 'M30', comment: 'End program and rewind' },
+      { code: '%', comment: '' }
+    ],
+    // M97 jumps to an N label local to the program, so one file is enough
+    parametric: fanucParametric({ start: n => `N${n}`, call: n => `M97 P${n}` })
+  }
+};
+
+export const DEFAULT_DIALECT: GCodeDialect = 'linuxcnc';
+
+export const getPostProcessor = (dialect: GCodeDialect | undefined): PostProcessor =>
+  postProcessors[dialect ?? DEFAULT_DIALECT] ?? postProcessors[DEFAULT_DIALECT];
+
+// Work offset P indices the controller can select, in order
+export const getWorkOffsetIndices = (pp: PostProcessor): number[] =>
+  Array.from({ length: pp.workOffsetCount }, (_, index) => index + 1);
+
+export const isWorkOffsetSupported = (pp: PostProcessor, wcsIndex: number): boolean =>
+  Number.isInteger(wcsIndex) && wcsIndex >= 1 && wcsIndex <= pp.workOffsetCount;
+
+// Dialect-aware comment helpers
+export const formatComment = (pp: PostProcessor, text: string): string =>
+  pp.commentStyle === 'semicolon' ? `; ${text}` : `(${text})`;
+
+/**
+ * Convert a dwell in seconds to the P word expected by the controller
+ */
+export const formatDwell = (pp: PostProcessor, seconds: number): string =>
+  pp.dwellUnits === 'milliseconds'
+    ? `G4 P${Math.round(seconds * 1000)}`
+    : `G4 P${seconds}`;
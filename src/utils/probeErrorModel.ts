@@ -0,0 +1,46 @@
+// src/utils/probeErrorModel.ts
+// Randomized probe trip errors: repeatability, feed-dependent pre-travel and backlash
+
+import type { ProbeErrorModel } from '@/types/machine';
+
+export const DEFAULT_PROBE_ERROR_MODEL: Record<'mm' | 'inch', ProbeErrorModel> = {
+  mm: { repeatability: 0.001, preTravel: 0.003, triggerDelay: 1, stockPlacement: 0.02, backlash: 0.005 },
+  inch: { repeatability: 0.00004, preTravel: 0.0001, triggerDelay: 1, stockPlacement: 0.001, backlash: 0.0002 }
+};
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32), so runs can be repeated
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export const sampleNormal = (random: () => number): number => {
+  const u = 1 - random(); // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+/**
+ * How far past the true contact the latched position reads, along the probe
+ * direction. An axis that last moved the other way first takes up its backlash.
+ */
+export const sampleTripOvertravel = (
+  model: ProbeErrorModel,
+  feedRate: number,
+  reverses: boolean,
+  random: () => number
+): number =>
+  model.preTravel +
+  feedRate * model.triggerDelay / 60000 +
+  model.repeatability * sampleNormal(random) +
+  (reverses ? model.backlash : 0);
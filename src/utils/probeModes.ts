@@ -0,0 +1,23 @@
+// src/utils/probeModes.ts
+// Straight probe cycle modes (G38.2-G38.5) shared by the generator, parser and simulator
+
+import type { ProbeMode } from '@/types/machine';
+
+export interface ProbeModeInfo {
+  mode: ProbeMode;
+  name: string;
+  awayFromWorkpiece: boolean; // Trips on loss of contact instead of gain of contact
+  alarmOnMiss: boolean; // Controller raises an error if the probe never trips
+}
+
+export const DEFAULT_PROBE_MODE: ProbeMode = 'G38.2';
+
+export const probeModes: Record<ProbeMode, ProbeModeInfo> = {
+  'G38.2': { mode: 'G38.2', name: 'Toward, alarm on miss', awayFromWorkpiece: false, alarmOnMiss: true },
+  'G38.3': { mode: 'G38.3', name: 'Toward, no alarm', awayFromWorkpiece: false, alarmOnMiss: false },
+  'G38.4': { mode: 'G38.4', name: 'Away, alarm on miss', awayFromWorkpiece: true, alarmOnMiss: true },
+  'G38.5': { mode: 'G38.5', name: 'Away, no alarm', awayFromWorkpiece: true, alarmOnMiss: false }
+};
+
+export const getProbeMode = (mode: ProbeMode | undefined): ProbeModeInfo =>
+  probeModes[mode ?? DEFAULT_PROBE_MODE] ?? probeModes[DEFAULT_PROBE_MODE];
@@ -0,0 +1,38 @@
+// src/utils/probeStages.ts
+// Expands a probe operation into the probe moves it runs (single probe or seek/latch)
+
+import type { ProbeOperation, SeekLatchConfig } from '@/types/machine';
+
+export type ProbeStage =
+  | { type: 'probe'; stage: 'single' | 'seek' | 'latch'; distance: number; feedRate: number }
+  | { type: 'retract'; distance: number }; // Signed, relative to the probe axis
+
+// Latch probes travel back through the retract and the same distance past it
+export const LATCH_TRAVEL_FACTOR = 2;
+
+/**
+ * Default seek/latch settings when two-stage probing is switched on
+ */
+export const createSeekLatchConfig = (feedRate: number): SeekLatchConfig => ({
+  seekFeedRate: feedRate,
+  latchFeedRate: Math.max(1, Math.round(feedRate / 5)),
+  retractDistance: 1,
+  repeatCount: 1
+});
+
+export const getProbeStages = (probe: ProbeOperation): ProbeStage[] => {
+  if (!probe.seekLatch) {
+    return [{ type: 'probe', stage: 'single', distance: probe.distance, feedRate: probe.feedRate }];
+  }
+
+  const { seekFeedRate, latchFeedRate, retractDistance, repeatCount } = probe.seekLatch;
+  const latchStages = Array.from({ length: Math.max(1, repeatCount) }, (): ProbeStage[] => [
+    { type: 'retract', distance: -probe.direction * retractDistance },
+    { type: 'probe', stage: 'latch', distance: retractDistance * LATCH_TRAVEL_FACTOR, feedRate: latchFeedRate }
+  ]).flat();
+
+  return [
+    { type: 'probe', stage: 'seek', distance: probe.distance, feedRate: seekFeedRate },
+    ...latchStages
+  ];
+};
@@ -0,0 +1,167 @@
+// src/utils/probeUncertainty.ts
+// Monte Carlo runs of a probe sequence with randomized trips, summarized per work offset axis
+
+import type { MachineSettings, ProbeErrorModel } from '@/types/machine';
+import { VirtualMill } from './machine/VirtualMill';
+import type { CustomModelInfo } from './machine/CustomModelCollision';
+import { simulateProbeSequence, type SimulatedSequence } from './machine/sequenceSimulation';
+import { DEFAULT_WCS_INDEX } from './workCoordinateSystems';
+
+export const DEFAULT_UNCERTAINTY_RUNS = 200;
+export const MAX_UNCERTAINTY_RUNS = 2000;
+export const UNCERTAINTY_CHUNK_RUNS = 20; // Runs between yields to the browser
+export const HISTOGRAM_BINS = 20;
+
+export interface UncertaintyInput {
+  machineSettings: MachineSettings;
+  sequence: SimulatedSequence;
+  stockSize: [number, number, number];
+  stockPosition: [number, number, number];
+  stockRotation: [number, number, number];
+  customModel: CustomModelInfo | null;
+}
+
+/**
+ * Spread of a set of samples: mean, standard deviation, the mean ± 3σ bounds
+ * and a histogram in equal bins from the smallest to the largest sample
+ */
+export interface SampleSummary {
+  mean: number;
+  stdDev: number;
+  lower: number;
+  upper: number;
+  min: number;
+  max: number;
+  histogram: number[];
+}
+
+export interface AxisUncertainty {
+  wcsIndex: number;
+  axis: 'X' | 'Y' | 'Z';
+  origins: SampleSummary; // Final origin in machine coordinates
+  errors?: SampleSummary; // Origin minus where that run's stock feature was; only for verifiable axes
+}
+
+export const summarizeSamples = (values: number[], bins: number = HISTOGRAM_BINS): SampleSummary => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(values.length - 1, 1);
+  const stdDev = Math.sqrt(variance);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const histogram = new Array<number>(bins).fill(0);
+  const width = (max - min) / bins;
+  values.forEach(value => {
+    const bin = width > 0 ? Math.min(Math.floor((value - min) / width), bins - 1) : 0;
+    histogram[bin]++;
+  });
+
+  return { mean, stdDev, lower: mean - 3 * stdDev, upper: mean + 3 * stdDev, min, max, histogram };
+};
+
+// Uniform in [-range, range]
+const samplePlacement = (range: number, random: () => number) => (2 * random() - 1) * range;
+
+// Origins, and errors from the stock where verifiable, collected per work offset axis
+type OriginSamples = Map<string, { wcsIndex: number; axis: 'X' | 'Y' | 'Z'; values: number[]; errors: number[] }>;
+
+// One run with the stock placed at random within its tolerance and every probe trip randomized
+const sampleRun = (input: UncertaintyInput, model: ProbeErrorModel, random: () => number, origins: OriginSamples) => {
+  const shift = [0, 1, 2].map(() => samplePlacement(model.stockPlacement, random));
+  const mill = new VirtualMill(input.machineSettings, input.sequence.initialPosition);
+  mill.setStock(input.stockSize, input.stockPosition.map((value, i) => value + shift[i]) as [number, number, number], input.stockRotation);
+  if (input.customModel) {
+    mill.setCustomModel({
+      ...input.customModel,
+      position: input.customModel.position.map((value, i) => value + shift[i]) as [number, number, number]
+    });
+  }
+  mill.setProbeErrorModel(model, random);
+
+  const { steps, faceChecks, wcsVerification } =
+    simulateProbeSequence(mill, input.sequence, input.stockSize, input.machineSettings.toolLibrary);
+
+  // Every axis some step zeroed, whether by a probe's G10 or a computed center
+  const setAxes = new Map<string, { wcsIndex: number; axis: 'X' | 'Y' | 'Z'; byProbe: boolean }>();
+  steps.forEach(step => {
+    const command = step.workOffsetCommand ?? (step.type === 'wcs' ? step.gCodeCommand : undefined);
+    if (!command?.wcsAxis) return;
+    const wcsIndex = command.wcsIndex ?? DEFAULT_WCS_INDEX;
+    setAxes.set(`${wcsIndex}:${command.wcsAxis}`, { wcsIndex, axis: command.wcsAxis, byProbe: Boolean(step.workOffsetCommand) });
+  });
+
+  setAxes.forEach(({ wcsIndex, axis, byProbe }, key) => {
+    const entry = origins.get(key) ?? { wcsIndex, axis, values: [], errors: [] };
+    // The mill reads face coordinates, so a probe's origin is the one its face check
+    // worked out from the tool center; centers are already midway between faces
+    const faceCheck = byProbe
+      ? faceChecks.filter(check => check.wcsIndex === wcsIndex && check.axis === axis).pop()
+      : undefined;
+    entry.values.push(faceCheck?.originCoordinate ?? mill.getWCSOffset(wcsIndex)[axis]);
+    const verification = wcsVerification.find(measurement => measurement.wcsIndex === wcsIndex && measurement.axis === axis);
+    if (verification) entry.errors.push(verification.error);
+    origins.set(key, entry);
+  });
+};
+
+const summarizeOrigins = (origins: OriginSamples): AxisUncertainty[] =>
+  Array.from(origins.values())
+    .sort((a, b) => a.wcsIndex - b.wcsIndex || a.axis.localeCompare(b.axis))
+    .map(({ wcsIndex, axis, values, errors }) => ({
+      wcsIndex,
+      axis,
+      origins: summarizeSamples(values),
+      // An axis only some runs could verify would give a misleading spread
+      ...(errors.length === values.length && { errors: summarizeSamples(errors) })
+    }));
+
+/**
+ * Simulate the sequence `runs` times, each with the stock placed at random within
+ * its tolerance and every probe trip randomized by the error model
+ */
+export const runProbeUncertainty = (
+  input: UncertaintyInput,
+  model: ProbeErrorModel,
+  runs: number,
+  random: () => number = Math.random
+): AxisUncertainty[] => {
+  const origins: OriginSamples = new Map();
+  for (let run = 0; run < runs; run++) sampleRun(input, model, random, origins);
+  return summarizeOrigins(origins);
+};
+
+export interface ChunkedRunOptions {
+  onProgress?: (fraction: number) => void; // Fraction of the runs done after each chunk
+  signal?: AbortSignal; // Stops the runs at the next chunk
+  random?: () => number;
+  chunkRuns?: number;
+}
+
+/**
+ * The runs of runProbeUncertainty a chunk at a time, yielding between chunks so
+ * the page stays responsive. Resolves to undefined when aborted.
+ */
+export const runProbeUncertaintyInChunks = async (
+  input: UncertaintyInput,
+  model: ProbeErrorModel,
+  runs: number,
+  { onProgress, signal, random = Math.random, chunkRuns = UNCERTAINTY_CHUNK_RUNS }: ChunkedRunOptions = {}
+): Promise<AxisUncertainty[] | undefined> => {
+  const origins: OriginSamples = new Map();
+  for (let run = 0; run < runs; run++) {
+    if (run > 0 && run % chunkRuns === 0) {
+      onProgress?.(run / runs);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    if (signal?.aborted) return undefined;
+    sampleRun(input, model, random, origins);
+  }
+  onProgress?.(1);
+  return summarizeOrigins(origins);
+};
+
+/**
+ * Whether the 3σ bounds of an axis's error stay within ± tolerance
+ */
+export const meetsTolerance = (uncertainty: AxisUncertainty, tolerance: number): boolean | undefined =>
+  uncertainty.errors && Math.max(Math.abs(uncertainty.errors.lower), Math.abs(uncertainty.errors.upper)) <= tolerance;
@@ -0,0 +1,80 @@
+// src/utils/probingMacros.ts
+// Reads Renishaw Inspection Plus macro calls (G65 P98xx) emitted by CAM probing posts
+
+import type { GCodeAxis, GCodeBlock } from './gcodeBlocks';
+
+export type ProbingMacroCall =
+  | { kind: 'protected-move'; axes: Partial<Record<GCodeAxis, number>>; feedRate?: number }
+  | {
+      kind: 'single-surface';
+      axis: GCodeAxis;
+      target: number; // Expected surface position in the active work offset
+      overtravel?: number; // Q: travel allowed past the target
+      feedRate?: number;
+      workOffset?: number; // S: work offset to update (1 = G54 ... 6 = G59)
+    }
+  | { kind: 'probe-power'; on: boolean };
+
+// Program numbers of the Inspection Plus cycles this reader understands
+export const PROBING_MACROS: Record<number, string> = {
+  9810: 'Protected positioning move',
+  9811: 'Single surface measurement',
+  9832: 'Spindle probe on',
+  9833: 'Spindle probe off'
+};
+
+// Inspection Plus overtravel when a measurement has no Q word
+export const DEFAULT_OVERTRAVEL: Record<'mm' | 'inch', number> = {
+  mm: 4,
+  inch: 0.16
+};
+
+// S1-S6 select G54-G59; extended offsets (S101+) have no G10 L20 P equivalent here
+const MAX_WORK_OFFSET = 6;
+
+const AXES: GCodeAxis[] = ['X', 'Y', 'Z'];
+
+const macroReaders: Record<number, (block: GCodeBlock) => ProbingMacroCall | string> = {
+  9810: block => Object.keys(block.axes).length === 0
+    ? 'Protected move needs at least one of X, Y or Z'
+    : {
+        kind: 'protected-move',
+        axes: block.axes,
+        ...(block.values.F !== undefined && { feedRate: block.values.F })
+      },
+
+  9811: block => {
+    const axes = AXES.filter(axis => block.axes[axis] !== undefined);
+    if (axes.length !== 1) return 'Single surface measurement needs exactly one of X, Y or Z';
+    const [axis] = axes;
+    return {
+      kind: 'single-surface',
+      axis,
+      target: block.axes[axis]!,
+      ...(block.values.Q !== undefined && { overtravel: Math.abs(block.values.Q) }),
+      ...(block.values.F !== undefined && { feedRate: block.values.F }),
+      ...(block.values.S !== undefined && { workOffset: block.values.S })
+    };
+  },
+
+  9832: () => ({ kind: 'probe-power', on: true }),
+  9833: () => ({ kind: 'probe-power', on: false })
+};
+
+export const getMacroProgram = (block: GCodeBlock): number | undefined => block.values.P;
+
+/**
+ * Read a G65 block as a known probing macro call. Returns undefined for macros
+ * this reader does not know, or a message when a known macro has bad arguments.
+ */
+export const readProbingMacro = (block: GCodeBlock): ProbingMacroCall | string | undefined => {
+  const program = getMacroProgram(block);
+  const reader = program === undefined ? undefined : macroReaders[program];
+  return reader?.(block);
+};
+
+/**
+ * Map an Inspection Plus S word to a G10 L20 P index, or undefined if it has none
+ */
+export const getMacroWorkOffsetIndex = (workOffset: number): number | undefined =>
+  Number.isInteger(workOffset) && workOffset >= 1 && workOffset <= MAX_WORK_OFFSET ? workOffset : undefined;
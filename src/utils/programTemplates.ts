@@ -0,0 +1,85 @@
+// src/utils/programTemplates.ts
+// Placeholder substitution and validation for user-editable header/footer templates
+
+import type { ProbeSequenceSettings, ProgramTemplates } from '@/types/machine';
+import type { PostProcessor } from './postProcessors';
+import { parseGCode } from './gcodeParser';
+
+export type TemplateValues = Record<string, string>;
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z][\w.]*)\}/g;
+
+export const TEMPLATE_PLACEHOLDERS = [
+  'units',
+  'spindleSpeed',
+  'initialPosition.X',
+  'initialPosition.Y',
+  'initialPosition.Z',
+  'wcs'
+] as const;
+
+// Mirrors the built-in LinuxCNC blocks so editing starts from known-good output
+export const DEFAULT_PROGRAM_TEMPLATES: Required<ProgramTemplates> = {
+  header: [
+    '{units} (Set units)',
+    'G90 G53 G0 Z{initialPosition.Z} (Absolute move in machine coordinates to Z)',
+    'G90 G53 G0 Y{initialPosition.Y} (Absolute move in machine coordinates to Y)',
+    'G90 G53 G0 X{initialPosition.X} (Absolute move in machine coordinates to X)',
+    'S{spindleSpeed} M4 (Start spindle in reverse)',
+    'G4 P3 (Dwell for 3 seconds to let spindle stabilize)'
+  ].join('\n'),
+  footer: [
+    'G0 {wcs} G90 X0Y0 (Return to origin)',
+    'S0 (Stop spindle)',
+    'M2 (End program)'
+  ].join('\n')
+};
+
+/**
+ * Placeholder values for a program, formatted for the target controller
+ */
+export const getTemplateValues = (
+  pp: PostProcessor,
+  settings: Pick<ProbeSequenceSettings, 'units' | 'spindleSpeed' | 'initialPosition'>,
+  wcsIndex: number
+): TemplateValues => ({
+  units: settings.units === 'inch' ? 'G20' : 'G21',
+  spindleSpeed: `${settings.spindleSpeed}`,
+  'initialPosition.X': pp.formatNumber(settings.initialPosition.X),
+  'initialPosition.Y': pp.formatNumber(settings.initialPosition.Y),
+  'initialPosition.Z': pp.formatNumber(settings.initialPosition.Z),
+  wcs: pp.selectWorkOffset(wcsIndex)
+});
+
+// Unknown placeholders are left untouched so validation can point them out
+export const renderProgramTemplate = (template: string, values: TemplateValues): string =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match);
+
+const SAMPLE_VALUES: TemplateValues = {
+  units: 'G21',
+  spindleSpeed: '5000',
+  'initialPosition.X': '0',
+  'initialPosition.Y': '0',
+  'initialPosition.Z': '0',
+  wcs: 'G54'
+};
+
+/**
+ * Check a template before it is saved: placeholders must be known and the
+ * rendered block must parse cleanly without adding probe operations
+ */
+export const validateProgramTemplate = (template: string): string[] => {
+  const unknown = [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map(([, name]) => name)
+    .filter(name => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+  // Unknown placeholders stay as literal braces, which would only add lexer noise
+  if (unknown.length > 0) {
+    return [...new Set(unknown)].map(name => `Unknown placeholder {${name}}`);
+  }
+  const parsed = parseGCode(renderProgramTemplate(template, SAMPLE_VALUES));
+
+  return [
+    ...parsed.errors,
+    ...(parsed.probeSequence.length > 0 ? ['Templates cannot contain probe moves'] : [])
+  ];
+};
@@ -0,0 +1,310 @@
+// src/utils/projectFile.ts
+// Project files (.mps): a job's machine, probe sequence, stock, model and camera in one versioned document
+
+import type { MachineProfile, MachineSettings, ProbeOperation, ProbeSequenceSettings } from '@/types/machine';
+import type { SerializedFile } from './fileStorage';
+import {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE_NAME,
+  createMachineProfile,
+  endmillSizeSchema,
+  machineSettingsSchema,
+  validateMachineProfile
+} from './machineProfiles';
+import { getPostProcessor, isWorkOffsetSupported, postProcessors } from './postProcessors';
+import { probeModes } from './probeModes';
+import { compositeProbeKinds } from './compositeProbes';
+import {
+  arrayOf,
+  findInvalidField,
+  isBoolean,
+  isNumber,
+  isObject,
+  isPosition,
+  isString,
+  isTriple,
+  matches,
+  oneOf,
+  optional,
+  recordOf,
+  type Schema
+} from './validation';
+
+export const PROJECT_FILE_FORMAT = 'mill-probe-studio-project';
+export const PROJECT_FILE_EXTENSION = '.mps';
+
+// Projects and the browser storage share one schema, so saved state from
+// either is upgraded by the same migrations
+export const PROJECT_FILE_VERSION = 2;
+
+export const CAMERA_PRESETS = ['home', 'front', 'back', 'right', 'left', 'top', 'bottom', 'iso1', 'iso2'] as const;
+
+export interface ProjectVisualizationSettings {
+  stockSize: [number, number, number];
+  stockPosition: [number, number, number];
+  stockRotation: [number, number, number];
+  showAxisLabels: boolean;
+  showCoordinateHover: boolean;
+  serializedModelFile: SerializedFile | null; // The custom stock model, base64 encoded
+}
+
+export interface ProjectCameraSettings {
+  position: { x: number; y: number; z: number };
+  preset: typeof CAMERA_PRESETS[number] | null;
+  pivotMode: 'tool' | 'origin';
+  isManuallyMoved: boolean;
+}
+
+export interface ProjectState {
+  machineSettings: MachineSettings;
+  machineProfiles: MachineProfile[]; // The profile the project was saved with
+  activeProfileId: string;
+  probeSequence: ProbeOperation[];
+  probeSequenceSettings: ProbeSequenceSettings;
+  visualizationSettings: ProjectVisualizationSettings;
+  cameraSettings: ProjectCameraSettings;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  state: ProjectState;
+}
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// Each entry upgrades state saved at that version to the next one
+const migrations: Record<number, Migration> = {
+  // Version 1 kept a single machine; it becomes the default profile
+  1: (state) => isObject(state.machineSettings) && isObject(state.probeSequenceSettings)
+    ? {
+        ...state,
+        machineProfiles: [createMachineProfile(
+          DEFAULT_PROFILE_NAME,
+          state.machineSettings as unknown as MachineSettings,
+          state.probeSequenceSettings as unknown as ProbeSequenceSettings,
+          DEFAULT_PROFILE_ID
+        )],
+        activeProfileId: DEFAULT_PROFILE_ID
+      }
+    : state
+};
+
+export const migrateProjectState = (state: Record<string, unknown>, version: number): Record<string, unknown> => {
+  let migrated = state;
+  for (let from = version; from < PROJECT_FILE_VERSION; from++) {
+    migrated = migrations[from]?.(migrated) ?? migrated;
+  }
+  return migrated;
+};
+
+const moveSchema: Schema = {
+  id: isString,
+  type: oneOf('rapid', 'dwell', 'raw'),
+  description: isString,
+  dwellTime: optional(isNumber),
+  rawText: optional(isString),
+  diagnostic: optional(isString),
+  axesValues: optional(recordOf(isNumber)),
+  positionMode: optional(oneOf('relative', 'absolute', 'none')),
+  coordinateSystem: optional(oneOf('machine', 'wcs', 'none')),
+  wcsIndex: optional(isNumber),
+  expressions: optional(recordOf(isString))
+};
+
+const seekLatchSchema: Schema = {
+  seekFeedRate: isNumber,
+  latchFeedRate: isNumber,
+  retractDistance: isNumber,
+  repeatCount: isNumber
+};
+
+const compositeSchema: Schema = {
+  kind: oneOf(...Object.keys(compositeProbeKinds)),
+  size: isNumber,
+  clearance: isNumber,
+  depth: isNumber,
+  cornerDirection: optional(matches({ X: oneOf(1, -1), Y: oneOf(1, -1) })),
+  rotateCoordinates: optional(isBoolean)
+};
+
+const operationSchema: Schema = {
+  id: isString,
+  axis: oneOf('X', 'Y', 'Z'),
+  direction: oneOf(1, -1),
+  distance: isNumber,
+  feedRate: isNumber,
+  probeMode: optional(oneOf(...Object.keys(probeModes))),
+  seekLatch: optional(matches(seekLatchSchema)),
+  backoffDistance: isNumber,
+  wcsOffset: isNumber,
+  compensateToolRadius: optional(isBoolean),
+  wcsIndex: optional(isNumber),
+  composite: optional(matches(compositeSchema)),
+  rotaryIndex: optional(recordOf(isNumber)),
+  toolId: optional(isString),
+  expressions: optional(recordOf(isString)),
+  preMoves: Array.isArray,
+  postMoves: Array.isArray
+};
+
+const sequenceSettingsSchema: Schema = {
+  initialPosition: (value) => isPosition(value),
+  dwellsBeforeProbe: isNumber,
+  spindleSpeed: isNumber,
+  units: oneOf('mm', 'inch'),
+  endmillSize: matches(endmillSizeSchema),
+  toolId: optional(isString),
+  dialect: optional(oneOf(...Object.keys(postProcessors))),
+  outputMode: optional(oneOf('literal', 'parametric')),
+  variables: optional(arrayOf(matches({ name: isString, expression: isString }))),
+  profileId: optional(isString),
+  programEnd: optional(isString),
+  operations: Array.isArray
+};
+
+const serializedFileSchema: Schema = {
+  name: isString,
+  type: isString,
+  size: isNumber,
+  lastModified: isNumber,
+  data: isString
+};
+
+const visualizationSchema: Schema = {
+  stockSize: isTriple,
+  stockPosition: isTriple,
+  stockRotation: isTriple,
+  showAxisLabels: isBoolean,
+  showCoordinateHover: isBoolean,
+  serializedModelFile: (value) => value === null || findInvalidField(value, serializedFileSchema, '') === undefined
+};
+
+const cameraSchema: Schema = {
+  position: (value) => isPosition(value, ['x', 'y', 'z']),
+  preset: oneOf(null, ...CAMERA_PRESETS),
+  pivotMode: oneOf('tool', 'origin'),
+  isManuallyMoved: isBoolean
+};
+
+const validateOperation = (operation: unknown, path: string): string | undefined => {
+  const invalid = findInvalidField(operation, operationSchema, path);
+  if (invalid || !isObject(operation)) return invalid;
+
+  for (const list of ['preMoves', 'postMoves'] as const) {
+    const moves = operation[list] as unknown[];
+    for (const [index, move] of moves.entries()) {
+      const invalidMove = findInvalidField(move, moveSchema, `${path}.${list}[${index}]`);
+      if (invalidMove) return invalidMove;
+    }
+  }
+  return undefined;
+};
+
+// Work offsets the operations and their moves select must exist on the sequence's controller
+const findUnsupportedWorkOffset = (operations: ProbeOperation[], settings: ProbeSequenceSettings): string | undefined => {
+  const pp = getPostProcessor(settings.dialect);
+  const isInvalid = (wcsIndex: number | undefined) => wcsIndex !== undefined && !isWorkOffsetSupported(pp, wcsIndex);
+
+  for (const [index, operation] of operations.entries()) {
+    const path = `probeSequence[${index}]`;
+    if (isInvalid(operation.wcsIndex)) return `${path}.wcsIndex is not a ${pp.name} work offset`;
+    for (const list of ['preMoves', 'postMoves'] as const) {
+      const moveIndex = operation[list].findIndex(move => isInvalid(move.wcsIndex));
+      if (moveIndex >= 0) return `${path}.${list}[${moveIndex}].wcsIndex is not a ${pp.name} work offset`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Why saved state cannot be loaded, naming the first field at fault
+ */
+export const validateProjectState = (state: Record<string, unknown>): string | undefined => {
+  const invalidMachine = findInvalidField(state.machineSettings, machineSettingsSchema, 'machineSettings');
+  if (invalidMachine) return `${invalidMachine} is invalid`;
+
+  if (!Array.isArray(state.machineProfiles) || state.machineProfiles.length === 0) return 'machineProfiles is missing';
+  for (const [index, profile] of state.machineProfiles.entries()) {
+    const error = validateMachineProfile(profile, index);
+    if (error) return error;
+  }
+  if (!state.machineProfiles.some(profile => profile.id === state.activeProfileId)) {
+    return 'activeProfileId does not match a machine profile';
+  }
+
+  if (!Array.isArray(state.probeSequence)) return 'probeSequence is invalid';
+  for (const [index, operation] of state.probeSequence.entries()) {
+    const invalid = validateOperation(operation, `probeSequence[${index}]`);
+    if (invalid) return `${invalid} is invalid`;
+  }
+
+  const invalid =
+    findInvalidField(state.probeSequenceSettings, sequenceSettingsSchema, 'probeSequenceSettings') ??
+    findInvalidField(state.visualizationSettings, visualizationSchema, 'visualizationSettings') ??
+    findInvalidField(state.cameraSettings, cameraSchema, 'cameraSettings');
+  if (invalid) return `${invalid} is invalid`;
+
+  return findUnsupportedWorkOffset(state.probeSequence as ProbeOperation[], state.probeSequenceSettings as ProbeSequenceSettings);
+};
+
+// Only the fields a project carries, so session state in a storage backup is not loaded
+const pickProjectState = (state: ProjectState): ProjectState => ({
+  machineSettings: state.machineSettings,
+  machineProfiles: state.machineProfiles,
+  activeProfileId: state.activeProfileId,
+  probeSequence: state.probeSequence,
+  probeSequenceSettings: state.probeSequenceSettings,
+  visualizationSettings: {
+    stockSize: state.visualizationSettings.stockSize,
+    stockPosition: state.visualizationSettings.stockPosition,
+    stockRotation: state.visualizationSettings.stockRotation,
+    showAxisLabels: state.visualizationSettings.showAxisLabels,
+    showCoordinateHover: state.visualizationSettings.showCoordinateHover,
+    serializedModelFile: state.visualizationSettings.serializedModelFile
+  },
+  cameraSettings: {
+    position: state.cameraSettings.position,
+    preset: state.cameraSettings.preset,
+    pivotMode: state.cameraSettings.pivotMode,
+    isManuallyMoved: state.cameraSettings.isManuallyMoved
+  }
+});
+
+/**
+ * Project file text; of the machine profiles only the active one is saved
+ */
+export const serializeProject = (state: ProjectState): string =>
+  JSON.stringify({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    state: pickProjectState({
+      ...state,
+      machineProfiles: state.machineProfiles.filter(profile => profile.id === state.activeProfileId)
+    })
+  } satisfies ProjectFile);
+
+/**
+ * Project state read from a .mps file, upgraded to the current version.
+ * A browser storage backup ({ state, version }) opens the same way.
+ */
+export const parseProjectFile = (json: string): { project: ProjectState } | { error: string } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+
+  if (!isObject(data) || !isObject(data.state) || !isNumber(data.version) ||
+      (data.format !== undefined && data.format !== PROJECT_FILE_FORMAT)) {
+    return { error: 'The file is not a Mill Probe Studio project' };
+  }
+  if (data.version > PROJECT_FILE_VERSION) {
+    return { error: `Project version ${data.version} is newer than this app supports` };
+  }
+
+  const state = migrateProjectState(data.state, data.version);
+  const error = validateProjectState(state);
+  return error ? { error } : { project: pickProjectState(state as unknown as ProjectState) };
+};
@@ -0,0 +1,54 @@
+// src/utils/rotaryAxes.ts
+// Optional A/B rotary axes: configuration, index moves and the stock pose they produce
+
+import type { MachineSettings, MovementStep, ProbeOperation, RotaryAxis, RotaryAxisConfig, RotaryPosition } from '@/types/machine';
+
+export const ROTARY_AXES: RotaryAxis[] = ['A', 'B'];
+
+// Linear axis each rotary axis turns about
+export const ROTARY_PIVOT_AXIS: Record<RotaryAxis, 'X' | 'Y'> = {
+  A: 'X',
+  B: 'Y'
+};
+
+// Configuration given to a rotary axis when it is enabled
+export const DEFAULT_ROTARY_AXIS: RotaryAxisConfig = {
+  min: -360,
+  max: 360,
+  center: { X: 0, Y: 0, Z: 0 }
+};
+
+/**
+ * Rotary axes the machine has, in A, B order
+ */
+export const getConfiguredRotaryAxes = (machineSettings: MachineSettings): RotaryAxis[] =>
+  ROTARY_AXES.filter(axis => machineSettings.rotaryAxes?.[axis] !== undefined);
+
+/**
+ * Pick the A/B words out of a block's values or a move's axes
+ */
+export const getRotaryWords = (values: RotaryPosition): RotaryPosition =>
+  Object.fromEntries(ROTARY_AXES.flatMap(axis => values[axis] === undefined ? [] : [[axis, values[axis]]]));
+
+export const clampToRotaryLimits = (config: RotaryAxisConfig, angle: number): number =>
+  Math.max(config.min, Math.min(config.max, angle));
+
+/**
+ * Absolute machine-coordinate move that indexes the rotary axes an operation
+ * runs at. It is made before the pre-moves, from wherever the previous
+ * operation left the tool.
+ */
+export const getIndexMoves = (probe: ProbeOperation): MovementStep[] => {
+  const axesValues = getRotaryWords(probe.rotaryIndex ?? {});
+  const words = Object.entries(axesValues).map(([axis, angle]) => `${axis}${angle}`);
+  return words.length === 0
+    ? []
+    : [{
+        id: `${probe.id}-index`,
+        type: 'rapid',
+        description: `Index rotary ${words.join(' ')}`,
+        axesValues,
+        positionMode: 'absolute',
+        coordinateSystem: 'machine'
+      }];
+};
@@ -0,0 +1,157 @@
+// src/utils/sequenceExpressions.ts
+// Resolves field expressions in a probe sequence against the stock, the tool and sequence variables
+
+import type { FieldExpressions, MovementStep, ProbeOperation, SequenceVariable, Tool } from '@/types/machine';
+import { evaluateExpression, type ExpressionResult, type ExpressionScope } from './expressions';
+import { getToolRadius, resolveWcsOffset, type CompensationSettings } from './toolRadiusCompensation';
+
+export interface ExpressionSettings extends CompensationSettings {
+  variables?: SequenceVariable[];
+}
+
+export interface FieldExpressionError {
+  operationId?: string; // Unset for sequence variables
+  movementId?: string;
+  field: string; // Field path, or the variable name
+  expression: string;
+  message: string;
+}
+
+export interface ResolvedProbeSequence {
+  operations: ProbeOperation[];
+  errors: FieldExpressionError[];
+}
+
+// Names every expression can use, with what they stand for
+export const BUILT_IN_NAMES: Record<string, string> = {
+  'stock.width': 'Stock size along X',
+  'stock.depth': 'Stock size along Y',
+  'stock.height': 'Stock size along Z',
+  'tool.radius': 'Endmill radius',
+  'tool.diameter': 'Endmill diameter'
+};
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check a variable name against the names already in scope. Returns a message,
+ * or undefined when the name can be used.
+ */
+export const validateVariableName = (name: string, scope: ExpressionScope): string | undefined => {
+  if (!VARIABLE_NAME_PATTERN.test(name)) return 'Names start with a letter and use only letters, digits and underscores';
+  if (Object.prototype.hasOwnProperty.call(scope, name)) return `'${name}' is already defined`;
+  return undefined;
+};
+
+/**
+ * Built-in names plus the sequence variables, each evaluated in order so a
+ * variable can use the ones above it. Variables that fail are left out.
+ */
+export const createExpressionScope = (
+  settings: ExpressionSettings,
+  stockSize: [number, number, number]
+): { scope: ExpressionScope; errors: FieldExpressionError[] } => {
+  const radius = getToolRadius(settings);
+  const scope: ExpressionScope = {
+    'stock.width': stockSize[0],
+    'stock.depth': stockSize[1],
+    'stock.height': stockSize[2],
+    'tool.radius': radius,
+    'tool.diameter': radius * 2
+  };
+  const errors: FieldExpressionError[] = [];
+
+  (settings.variables ?? []).forEach(({ name, expression }) => {
+    const nameError = validateVariableName(name, scope);
+    const result: ExpressionResult = nameError ? { error: nameError } : evaluateExpression(expression, scope);
+    if ('error' in result) {
+      errors.push({ field: name, expression, message: result.error });
+    } else {
+      scope[name] = result.value;
+    }
+  });
+
+  return { scope, errors };
+};
+
+/**
+ * Expressions with `field` set to `expression`, or cleared when it is
+ * undefined. Returns undefined once no field has an expression left.
+ */
+export const setFieldExpression = (
+  expressions: FieldExpressions | undefined,
+  field: string,
+  expression: string | undefined
+): FieldExpressions | undefined => {
+  const next = Object.fromEntries(Object.entries(expressions ?? {}).filter(([other]) => other !== field));
+  if (expression !== undefined) next[field] = expression;
+  return Object.keys(next).length > 0 ? next : undefined;
+};
+
+/**
+ * Set a numeric field by dot path, copying each object on the way. Returns
+ * undefined when the path does not lead to a number field (e.g. composite
+ * settings after switching back to a single touch).
+ */
+const setFieldValue = <T extends object>(target: T, path: string[], value: number): T | undefined => {
+  const [head, ...rest] = path;
+  const current = (target as Record<string, unknown>)[head];
+  if (rest.length === 0) {
+    return typeof current === 'number' || current === undefined ? { ...target, [head]: value } : undefined;
+  }
+  if (!current || typeof current !== 'object') return undefined;
+  const child = setFieldValue(current as object, rest, value);
+  return child && { ...target, [head]: child };
+};
+
+const resolveFields = <T extends { expressions?: FieldExpressions }>(
+  target: T,
+  scope: ExpressionScope,
+  report: (field: string, expression: string, message: string) => void
+): T =>
+  Object.entries(target.expressions ?? {}).reduce((resolved, [field, expression]) => {
+    const result = evaluateExpression(expression, scope);
+    if ('error' in result) {
+      report(field, expression, result.error);
+      return resolved;
+    }
+    return setFieldValue(resolved, field.split('.'), result.value) ?? resolved;
+  }, target);
+
+const hasExpressions = (probe: ProbeOperation): boolean =>
+  [probe, ...probe.preMoves, ...probe.postMoves].some(item => Object.keys(item.expressions ?? {}).length > 0);
+
+/**
+ * Replace every field that has an expression with its value. Fields whose
+ * expression fails keep their last resolved value, and the failure is listed
+ * in `errors`, along with failing variables. Operations without expressions
+ * are returned unchanged, and the array itself when no operation has any.
+ * `tool.radius` is the sequence tool's; `tools` only feeds radius compensation.
+ */
+export const resolveProbeSequence = (
+  operations: ProbeOperation[],
+  settings: ExpressionSettings,
+  stockSize: [number, number, number],
+  tools?: Tool[]
+): ResolvedProbeSequence => {
+  if (!operations.some(hasExpressions)) return { operations, errors: [] };
+  const { scope, errors } = createExpressionScope(settings, stockSize);
+
+  const resolved = operations.map(probe => {
+    if (!hasExpressions(probe)) return probe;
+
+    const reporter = (movementId?: string) => (field: string, expression: string, message: string) =>
+      errors.push({ operationId: probe.id, ...(movementId && { movementId }), field, expression, message });
+    const resolveMoves = (moves: MovementStep[]) => moves.map(move => resolveFields(move, scope, reporter(move.id)));
+
+    const next = {
+      ...resolveFields(probe, scope, reporter()),
+      preMoves: resolveMoves(probe.preMoves),
+      postMoves: resolveMoves(probe.postMoves)
+    };
+    // A radius-compensated offset is still derived from the tool
+    return { ...next, wcsOffset: resolveWcsOffset(next, settings, tools) };
+  });
+
+  return { operations: resolved, errors };
+};
@@ -0,0 +1,94 @@
+// src/utils/toolLibrary.ts
+// Tool library: the probe or tool each operation uses and the diameter it probes with
+
+import type { ProbeOperation, ProbeSequenceSettings, Tool, ToolAssembly, ToolSection, ToolType } from '@/types/machine';
+
+export interface ToolTypeInfo {
+  type: ToolType;
+  name: string;
+}
+
+export const toolTypes: Record<ToolType, ToolTypeInfo> = {
+  touchProbe: { type: 'touchProbe', name: '3D touch probe' },
+  endmill: { type: 'endmill', name: 'Edge-finding endmill' },
+  toolSetter: { type: 'toolSetter', name: 'Tool setter' }
+};
+
+/**
+ * Tool added to the library, with dimensions typical of its type
+ */
+export const createTool = (type: ToolType, id = `tool-${Date.now()}`): Tool => ({
+  id,
+  name: toolTypes[type].name,
+  type,
+  tipDiameter: type === 'touchProbe' ? 2 : 3.175,
+  length: type === 'touchProbe' ? 50 : 30,
+  ...(type === 'touchProbe' && { probeOnCode: 'M64 P0', probeOffCode: 'M65 P0' })
+});
+
+/**
+ * Assembly filling a tool's gauge length, to edit from: a tip-sized cutter or
+ * stylus, a shank (a touch probe's body) and a collet holder
+ */
+export const createToolAssembly = ({ type, tipDiameter, length }: Pick<Tool, 'type' | 'tipDiameter' | 'length'>): ToolAssembly => {
+  const cutterLength = Math.round(length * 0.4 * 10) / 10;
+  const shankLength = Math.round(length * 0.3 * 10) / 10;
+  return {
+    cutter: { length: cutterLength, diameter: tipDiameter },
+    shank: { length: shankLength, diameter: type === 'touchProbe' ? 20 : Math.max(tipDiameter, 6) },
+    holder: { length: Math.max(length - cutterLength - shankLength, 0), diameter: 32 }
+  };
+};
+
+export const getAssemblyLength = ({ cutter, shank, holder }: ToolAssembly): number =>
+  cutter.length + shank.length + holder.length;
+
+const convertSection = ({ length, diameter, topDiameter }: ToolSection, convert: (mm: number) => number): ToolSection => ({
+  length: convert(length),
+  diameter: convert(diameter),
+  ...(topDiameter !== undefined && { topDiameter: convert(topDiameter) })
+});
+
+/**
+ * Assembly in machine units, since the library keeps tools in mm
+ */
+export const toMachineUnits = (assembly: ToolAssembly, units: 'mm' | 'inch'): ToolAssembly => {
+  const convert = (mm: number) => units === 'inch' ? mm / 25.4 : mm;
+  return {
+    cutter: convertSection(assembly.cutter, convert),
+    shank: convertSection(assembly.shank, convert),
+    holder: convertSection(assembly.holder, convert)
+  };
+};
+
+export const findTool = (tools: Tool[] | undefined, toolId: string | undefined): Tool | undefined =>
+  toolId === undefined ? undefined : tools?.find(tool => tool.id === toolId);
+
+/**
+ * Tool an operation probes with: its own, else the sequence's. Undefined when
+ * neither is set or the tool was removed from the library.
+ */
+export const getOperationTool = (
+  probe: Pick<ProbeOperation, 'toolId'>,
+  settings: Pick<ProbeSequenceSettings, 'toolId'>,
+  tools: Tool[] | undefined
+): Tool | undefined => findTool(tools, probe.toolId ?? settings.toolId);
+
+export const getToolEndmillSize = (tool: Tool): ProbeSequenceSettings['endmillSize'] => ({
+  input: String(tool.tipDiameter),
+  unit: 'mm',
+  sizeInMM: tool.tipDiameter
+});
+
+/**
+ * Settings with the endmill size of the tool the operation uses, so radius
+ * compensation and composite touches follow its effective tip diameter
+ */
+export const getOperationSettings = <T extends Pick<ProbeSequenceSettings, 'endmillSize' | 'toolId'>>(
+  probe: Pick<ProbeOperation, 'toolId'>,
+  settings: T,
+  tools: Tool[] | undefined
+): T => {
+  const tool = getOperationTool(probe, settings, tools);
+  return tool ? { ...settings, endmillSize: getToolEndmillSize(tool) } : settings;
+};
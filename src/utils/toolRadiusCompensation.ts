@@ -0,0 +1,62 @@
+// src/utils/toolRadiusCompensation.ts
+// Derives G10 values so the WCS origin lands on the probed stock face
+
+import type { ProbeOperation, ProbeSequenceSettings, Tool } from '@/types/machine';
+import { getProbeMode } from './probeModes';
+import { getOperationSettings } from './toolLibrary';
+
+export type CompensationSettings = Pick<ProbeSequenceSettings, 'endmillSize' | 'units' | 'toolId'>;
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Tool radius in the units the G-code is written in
+ */
+export const getToolRadius = ({ endmillSize, units }: CompensationSettings): number => {
+  const radiusInMM = (endmillSize.sizeInMM || 0) / 2;
+  return units === 'inch' ? radiusInMM / MM_PER_INCH : radiusInMM;
+};
+
+/**
+ * Side probes trip with the tool centre one radius short of the face, so the
+ * current position is set to that radius, signed against the approach direction
+ * (probe-away cycles approach the face from the opposite side).
+ * Z probes touch with the tool tip and need no compensation.
+ */
+export const getCompensatedWcsOffset = (
+  { axis, direction, probeMode }: Pick<ProbeOperation, 'axis' | 'direction' | 'probeMode'>,
+  settings: CompensationSettings
+): number => {
+  if (axis === 'Z') return 0;
+  const approach = getProbeMode(probeMode).awayFromWorkpiece ? -direction : direction;
+  // Round away float noise from unit conversion (e.g. 0.0625000001)
+  return Math.round(-approach * getToolRadius(settings) * 1e6) / 1e6 || 0;
+};
+
+/**
+ * WCS offset of an operation; compensated ones use the radius of the library
+ * tool they select, if any
+ */
+export const resolveWcsOffset = (probe: ProbeOperation, settings: CompensationSettings, tools?: Tool[]): number =>
+  probe.compensateToolRadius
+    ? getCompensatedWcsOffset(probe, getOperationSettings(probe, settings, tools))
+    : probe.wcsOffset;
+
+/**
+ * Refresh the wcsOffset of compensated operations, keeping unchanged operations
+ * (and the array itself) referentially equal
+ */
+export const applyToolRadiusCompensation = (
+  operations: ProbeOperation[],
+  settings: CompensationSettings,
+  tools?: Tool[]
+): ProbeOperation[] => {
+  let changed = false;
+  const next = operations.map(probe => {
+    const wcsOffset = resolveWcsOffset(probe, settings, tools);
+    if (wcsOffset === probe.wcsOffset) return probe;
+    changed = true;
+    return { ...probe, wcsOffset };
+  });
+  return changed ? next : operations;
+};
@@ -0,0 +1,45 @@
+// src/utils/validation.ts
+// Checks for JSON read from files before it reaches the store
+
+export type Guard = (value: unknown) => boolean;
+
+// Field name to the check its value must pass
+export type Schema = Record<string, Guard>;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+export const optional = (guard: Guard): Guard => (value) => value === undefined || guard(value);
+
+export const oneOf = (...allowed: unknown[]): Guard => (value) => allowed.includes(value);
+
+export const arrayOf = (guard: Guard): Guard => (value) => Array.isArray(value) && value.every(guard);
+
+export const recordOf = (guard: Guard): Guard => (value) => isObject(value) && Object.values(value).every(guard);
+
+// [x, y, z] tuples such as stock size, position and rotation
+export const isTriple = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumber);
+
+// { X, Y, Z } or { x, y, z } positions
+export const isPosition = (value: unknown, axes: readonly string[] = ['X', 'Y', 'Z']): boolean =>
+  isObject(value) && axes.every(axis => isNumber(value[axis]));
+
+/**
+ * Path of the first field that fails its check, e.g. `probeSequence[2].axis`,
+ * or undefined when every field passes
+ */
+export const findInvalidField = (value: unknown, schema: Schema, path: string): string | undefined => {
+  if (!isObject(value)) return path;
+  const invalid = Object.keys(schema).find(key => !schema[key](value[key]));
+  return invalid === undefined ? undefined : `${path}.${invalid}`;
+};
+
+// Nested objects whose fields all pass the schema
+export const matches = (schema: Schema): Guard => (value) => findInvalidField(value, schema, '') === undefined;
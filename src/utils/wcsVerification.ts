@@ -0,0 +1,67 @@
+// src/utils/wcsVerification.ts
+// Compares the work offset origins a simulated sequence sets with where the stock really is
+
+import type { BoundingBox } from './machine/VirtualMill';
+
+// The stock feature an operation zeroes on: the face nearest the low or high
+// end of the axis, or the middle between them (widths and centers)
+export type WcsTarget = 'min' | 'max' | 'center';
+
+// Likely causes of an origin that misses its target, in terms of the tool radius
+export type WcsDiagnosis = 'wrongSign' | 'missingRadius' | 'doubleRadius' | 'offset';
+
+/**
+ * Where the simulation put one axis of a work offset, next to the stock feature it was meant for
+ */
+export interface WcsAxisMeasurement {
+  wcsIndex: number;
+  axis: 'X' | 'Y' | 'Z';
+  operationId: string; // The last operation to set this axis
+  target: WcsTarget;
+  originCoordinate: number; // Predicted origin in machine coordinates
+  targetCoordinate: number; // The feature, from the stock bounds or the custom model
+  error: number; // originCoordinate - targetCoordinate
+  approach: number; // Direction the probe moved toward the face, +1 or -1
+  toolRadius: number; // Radius the tool touched with (0 for Z, which touches with the tip)
+}
+
+export interface WcsAxisAssessment {
+  withinTolerance: boolean;
+  diagnosis?: WcsDiagnosis;
+}
+
+export const DEFAULT_WCS_TOLERANCE: Record<'mm' | 'inch', number> = { mm: 0.01, inch: 0.0005 };
+
+export const wcsDiagnoses: Record<WcsDiagnosis, string> = {
+  wrongSign: 'WCS offset has the wrong sign: the origin is a tool diameter off the face',
+  missingRadius: 'No tool-radius allowance: the origin is at the tool center, not the face',
+  doubleRadius: 'Tool radius allowed for twice: the origin is a radius inside the face',
+  offset: 'Origin misses the stock feature'
+};
+
+/**
+ * The face a probe moving toward `approach` touches first
+ */
+export const getProbedFace = (approach: number): WcsTarget => approach > 0 ? 'min' : 'max';
+
+export const getTargetCoordinate = (bounds: BoundingBox, axis: 'X' | 'Y' | 'Z', target: WcsTarget): number =>
+  target === 'center' ? (bounds.min[axis] + bounds.max[axis]) / 2 : bounds[target][axis];
+
+const isNear = (value: number, expected: number, tolerance: number) => Math.abs(value - expected) <= tolerance;
+
+/**
+ * Whether a measured origin is close enough to its target and, if not, the
+ * likeliest cause. A face origin set with wcsOffset w lands at
+ * -approach * r - w from the face, where the correct w is -approach * r.
+ */
+export const assessWcsAxis = (measurement: WcsAxisMeasurement, tolerance: number): WcsAxisAssessment => {
+  const { error, approach, toolRadius, target } = measurement;
+  if (Math.abs(error) <= tolerance) return { withinTolerance: true };
+
+  if (target !== 'center' && toolRadius > tolerance) {
+    if (isNear(error, -2 * approach * toolRadius, tolerance)) return { withinTolerance: false, diagnosis: 'wrongSign' };
+    if (isNear(error, -approach * toolRadius, tolerance)) return { withinTolerance: false, diagnosis: 'missingRadius' };
+    if (isNear(error, approach * toolRadius, tolerance)) return { withinTolerance: false, diagnosis: 'doubleRadius' };
+  }
+  return { withinTolerance: false, diagnosis: 'offset' };
+};
@@ -0,0 +1,31 @@
+// src/utils/workCoordinateSystems.ts
+// Work coordinate system (WCS) indices shared by the generator, parser and simulator
+
+export const DEFAULT_WCS_INDEX = 1;
+
+// G10 L2/L20 P index -> select code (RS274/NGC numbering)
+export const WCS_CODES: Record<number, string> = {
+  1: 'G54',
+  2: 'G55',
+  3: 'G56',
+  4: 'G57',
+  5: 'G58',
+  6: 'G59',
+  7: 'G59.1',
+  8: 'G59.2',
+  9: 'G59.3'
+};
+
+export const WCS_INDICES = Object.keys(WCS_CODES).map(Number);
+
+export const getWcsCode = (index: number = DEFAULT_WCS_INDEX): string =>
+  WCS_CODES[index] ?? `P${index}`;
+
+/**
+ * Resolve a select code such as "G55" or "G59.1" to its P index
+ */
+export const getWcsIndex = (code: string): number | undefined => {
+  const normalized = code.trim().toUpperCase().replace(/^G0*(\d)/, 'G$1');
+  const entry = Object.entries(WCS_CODES).find(([, wcsCode]) => wcsCode === normalized);
+  return entry ? Number(entry[0]) : undefined;
+};